@@ -0,0 +1,5 @@
+// enum to represent which stock issues a location's alert email is sent for
+export enum AlertMode {
+    CHANGES = "changes", // Only when an item newly runs out or low, ongoing issues are listed separately
+    FULL = "full", // Every run with out-of-stock or low-stock items, listing all of them
+}
@@ -0,0 +1,5 @@
+// enum to represent what a location's stored item alert states track: the issues already reported through that route
+export enum AlertStateScope {
+    NOTIFICATIONS = "notifications", // Alert emails and notification channels, stored once an alert reached someone
+    WEBHOOKS = "webhooks", // Stock events, stored once the events are sent or queued for retry in the delivery log
+}
@@ -0,0 +1,6 @@
+// enum to represent what an API key is allowed to do
+export enum ApiKeyRole {
+    ADMIN = "admin", // Everything, including managing API keys
+    LOCATION_MANAGER = "location-manager", // Read inventory and manage receiver emails
+    READ_ONLY = "read-only", // Read inventory only
+}
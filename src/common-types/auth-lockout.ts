@@ -0,0 +1,22 @@
+// What an authentication failure is counted against
+export type AuthFailureScope = 'ip' | 'key';
+
+export interface AuthFailureSubject {
+    scope: AuthFailureScope;
+    subject: string; // Client IP or the presented API key's prefix
+}
+
+// When and for how long a subject is locked out
+export interface LockoutPolicy {
+    maxFailures: number; // Failures within the window that trigger a lockout
+    failureWindowSeconds: number; // Failures older than this are forgotten
+    baseLockoutSeconds: number; // First lockout, doubled for every further lockout
+    maxLockoutSeconds: number;
+}
+
+// Whether a request may attempt authentication
+export interface LockoutStatus {
+    locked: boolean;
+    retryAfterSeconds?: number;
+    lockedSubject?: AuthFailureSubject;
+}
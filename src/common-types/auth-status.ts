@@ -0,0 +1,7 @@
+// enum to represent the authorization health of a location's stored tokens
+export enum AuthStatus {
+    HEALTHY = "healthy",
+    REFRESH_FAILED = "refresh_failed", // Transient failure (network, provider 5xx) - retried on the next run
+    REVOKED = "revoked", // Provider rejected the refresh token - location must re-run /oauth/initiate
+    UNINSTALLED = "uninstalled", // App was uninstalled (marketplace webhook) - tokens are cleared until it is installed again
+}
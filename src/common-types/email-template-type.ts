@@ -0,0 +1,5 @@
+// enum to represent the emails rendered by the email template service
+export enum EmailTemplateType {
+    STOCK_ALERT = "stock_alert", // Out-of-stock and low-stock items of a run
+    BACK_IN_STOCK = "back_in_stock", // Items restocked since the previous run
+}
@@ -0,0 +1,8 @@
+// enum to represent the provider that sends the emails, chosen with the EMAIL_TRANSPORT variable
+export enum EmailTransportType {
+    RESEND = "resend", // Resend API (RESEND_API_KEY)
+    SMTP = "smtp", // Any SMTP relay on port 465 or 587 (SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD)
+    SES = "ses", // Amazon SES v2 API (AWS_SES_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY)
+    MAILCHANNELS = "mailchannels", // MailChannels Email API (MAILCHANNELS_API_KEY)
+    CAPTURE = "capture", // Nothing is sent, messages are stored for development and tests
+}
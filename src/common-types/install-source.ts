@@ -0,0 +1,5 @@
+// enum to represent how a location's credentials were obtained
+export enum InstallSource {
+    LOCATION = "location", // Sub-account authorized directly through /oauth/initiate
+    AGENCY = "agency", // Token minted from the agency (Company) install
+}
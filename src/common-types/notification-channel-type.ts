@@ -0,0 +1,6 @@
+// enum to represent the chat service behind a notification channel's incoming webhook
+export enum NotificationChannelType {
+    SLACK = "slack", // Block Kit message
+    TEAMS = "teams", // Adaptive Card
+    DISCORD = "discord", // Embeds
+}
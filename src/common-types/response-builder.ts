@@ -7,14 +7,16 @@ export class ResponseBuilder {
      * Build a response with the given HTTP status code and result
      * @param httpCode - HTTP status code (e.g., 200, 400, 500)
      * @param result - Result object to be stringified as response body
+     * @param headers - Optional extra headers (e.g. Retry-After)
      * @returns Response object
      */
-    static build(httpCode: number, result: any): Response {
+    static build(httpCode: number, result: any, headers: Record<string, string> = {}): Response {
         return new Response(JSON.stringify(result, null, 2), {
             status: httpCode,
             headers: { 
                 'Content-Type': 'application/json',
-                'Access-Control-Allow-Origin': '*'
+                'Access-Control-Allow-Origin': '*',
+                ...headers
             }
         });
     }
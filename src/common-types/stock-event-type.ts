@@ -0,0 +1,7 @@
+// enum to represent the events sent to outbound webhook subscriptions
+export enum StockEventType {
+    STOCK_OUT = "stock.out", // Items newly out of stock
+    STOCK_LOW = "stock.low", // Items newly at or below their reorder point
+    STOCK_RECOVERED = "stock.recovered", // Items no longer out of stock or low on stock
+    RUN_COMPLETED = "run.completed", // A location's inventory was checked by the stock update
+}
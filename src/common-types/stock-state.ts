@@ -0,0 +1,5 @@
+// enum to represent the alert state of an inventory item
+export enum StockState {
+    OUT_OF_STOCK = "out_of_stock",
+    LOW_STOCK = "low_stock", // In stock, at or below the item's reorder point
+}
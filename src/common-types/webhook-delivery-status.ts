@@ -0,0 +1,5 @@
+// enum to represent the outcome of sending an event to a webhook subscription
+export enum WebhookDeliveryStatus {
+    DELIVERED = "delivered", // The endpoint answered 2xx
+    FAILED = "failed", // Sent again at the next stock update until the attempts are used up
+}
@@ -1,24 +1,178 @@
 import { DurableObject } from "cloudflare:workers";
 import { ResponseStatus } from "../common-types/status";
+import { AuthStatus } from "../common-types/auth-status";
+import { InstallSource } from "../common-types/install-source";
+import { ApiKeyRole } from "../common-types/api-key-role";
+import { AlertMode } from "../common-types/alert-mode";
+import { StockState } from "../common-types/stock-state";
+import { AlertStateScope } from "../common-types/alert-state-scope";
+import { NotificationChannelType } from "../common-types/notification-channel-type";
+import { StockEventType } from "../common-types/stock-event-type";
+import { WebhookDeliveryStatus } from "../common-types/webhook-delivery-status";
+import { AuthFailureSubject, LockoutPolicy, LockoutStatus } from "../common-types/auth-lockout";
+import { getSchemaVersionInfo, runMigrations } from "./migrations";
+import { createTokenCipher, TokenCipher } from "../utils/token-management/token-cipher";
+import { isRefreshTokenRejected, requestTokenRefresh, TokenRefreshResponse } from "../utils/token-management/token-refresh-request";
+import { requestInstalledLocations, requestLocationToken } from "../utils/token-management/agency-token-requests";
+import { createLeadConnectorClient, LeadConnectorClient } from "../utils/leadconnector";
+
+// Per-location alerting settings, locations without a row use the defaults
+export interface LocationSettings {
+    location_id: string;
+    low_stock_threshold: number | null; // Items at or below this quantity (but above 0) are low on stock, null disables
+    alert_mode: AlertMode; // AlertMode.CHANGES unless set
+    back_in_stock_notifications: boolean; // Email the items that were restocked, off unless set
+    updated_at: string | null;
+}
+
+// Settings accepted by updateLocationSettings, null resets a setting to its default
+export type LocationSettingsUpdate = {
+    low_stock_threshold?: number | null;
+    alert_mode?: AlertMode | null;
+    back_in_stock_notifications?: boolean | null;
+};
+
+// Per-location overrides of the email templates' branding, null uses the template's default
+export interface EmailBranding {
+    location_id: string;
+    logo_url: string | null; // Shown at the top of the header
+    primary_color: string | null; // Header background and highlights, #rgb or #rrggbb
+    accent_color: string | null; // Links
+    header_text: string | null; // Shown above the template's title, e.g. the store name
+    footer_text: string | null; // Replaces the template's footer note
+    updated_at: string | null;
+}
+
+// Branding accepted by updateEmailBranding, null resets a field to its default
+export type EmailBrandingUpdate = {
+    [K in Exclude<keyof EmailBranding, 'location_id' | 'updated_at'>]?: string | null;
+};
+
+// The alert state of an item that is out of stock or low on stock, items without one are fine
+export interface ItemAlertState {
+    item_id: string; // The inventory item's (variant's) _id
+    state: StockState;
+    since: string; // When the item entered this state
+}
+
+// Quantity at or below which a product (or one of its variants) needs reordering
+export interface ReorderPoint {
+    location_id: string;
+    product_id: string;
+    variant_id: string | null; // null applies to every variant of the product without its own reorder point
+    reorder_point: number;
+    updated_at: string;
+}
+
+// A chat webhook that receives a location's alerts, as returned to callers - the webhook URL never leaves the
+// durable object unencrypted
+export interface NotificationChannelInfo {
+    channel_id: string;
+    location_id: string;
+    type: NotificationChannelType;
+    name: string;
+    created_at: string;
+}
+
+// An outbound webhook endpoint of a location, as returned to callers - the signing secret is never returned
+export interface WebhookSubscriptionInfo {
+    subscription_id: string;
+    location_id: string;
+    url: string;
+    event_types: StockEventType[];
+    created_at: string;
+}
+
+// One event sent (or to be sent again) to one subscription
+export interface WebhookDelivery {
+    delivery_id: string;
+    subscription_id: string;
+    location_id: string;
+    event_id: string;
+    event_type: StockEventType;
+    status: WebhookDeliveryStatus;
+    attempts: number; // Stock update runs that sent it, each with its own HTTP retries
+    response_status: number | null;
+    error: string | null;
+    created_at: string;
+    last_attempt_at: string;
+}
+
+// A delivery with the JSON body that was signed and sent
+export interface WebhookDeliveryRecord extends WebhookDelivery {
+    payload: string;
+}
+
+// An email stored by the capture transport instead of being sent
+export interface CapturedEmail {
+    capture_id: string;
+    sender: string;
+    recipient: string;
+    subject: string;
+    html: string;
+    captured_at: string;
+}
+
+// A location's inventory quantities at the time of one stock update run
+export interface InventorySnapshot {
+    snapshot_id: number;
+    location_id: string;
+    taken_at: string;
+    total_items: number;
+    items?: InventorySnapshotItem[]; // Omitted when only the snapshot list was requested
+}
+
+export interface InventorySnapshotItem {
+    item_id: string; // The inventory item's (variant's) _id
+    product_id: string | null;
+    quantity: number;
+}
+
+// One item's quantity in one snapshot
+export interface InventoryItemHistoryEntry {
+    snapshot_id: number;
+    taken_at: string;
+    product_id: string | null;
+    quantity: number;
+}
+
+// An API key as returned to callers - the key hash never leaves the durable object
+export interface ApiKeyInfo {
+    key_id: string;
+    name: string;
+    key_prefix: string;
+    role: ApiKeyRole;
+    location_id: string | null;
+    created_by: string | null;
+    created_at: string;
+    last_used_at: string | null;
+    revoked_at: string | null;
+}
+
+export interface TokenPairRefreshResult {
+    success: boolean;
+    accessToken?: string; // Encrypted - decrypt with TokenCipher where it is used
+    expiresAt?: string;
+    refreshed?: boolean; // False when another caller had already refreshed the token
+    authStatus?: AuthStatus;
+    message: string;
+}
 
 export class CredentialsDurableObject extends DurableObject<Env> {
     sql: SqlStorage;
+    private tokenCipher: TokenCipher;
+    private apiClient: LeadConnectorClient;
+    // Refreshes currently talking to the OAuth provider, keyed by location_id (or company:<company_id> for agencies)
+    private refreshesInFlight: Map<string, Promise<TokenPairRefreshResult>> = new Map();
 
     constructor(ctx: DurableObjectState, env: Env) {
         super(ctx, env);
         this.sql = ctx.storage.sql;
-        
-        // Drop the existing table and create new one with receiver_emails column
-        // this.sql.exec(`DROP TABLE IF EXISTS credentials;`);
+        this.tokenCipher = createTokenCipher(env.TOKEN_ENCRYPTION_KEYS);
+        this.apiClient = createLeadConnectorClient(env);
 
-        this.sql.exec(`CREATE TABLE IF NOT EXISTS credentials(
-            location_id TEXT PRIMARY KEY,
-            company_id TEXT,
-            access_token TEXT,
-            refresh_token TEXT,
-            expires_at TIMESTAMP,
-            receiver_emails TEXT DEFAULT '[]'
-        );`);
+        // Bring the schema up to date before any RPC call is served
+        runMigrations(ctx.storage);
     }
 
     // Helper method to convert string array to JSON string for storage
@@ -36,16 +190,105 @@ export class CredentialsDurableObject extends DurableObject<Env> {
         }
     }
 
+    // Helper method to strip the hash from a stored API key
+    private toApiKeyInfo(row: Record<string, any>): ApiKeyInfo {
+        return {
+            key_id: row.key_id,
+            name: row.name,
+            key_prefix: row.key_prefix,
+            role: row.role as ApiKeyRole,
+            location_id: row.location_id ?? null,
+            created_by: row.created_by ?? null,
+            created_at: row.created_at,
+            last_used_at: row.last_used_at ?? null,
+            revoked_at: row.revoked_at ?? null
+        };
+    }
+
+    // Helper method to strip the secret from a stored webhook subscription
+    private toWebhookSubscriptionInfo(row: Record<string, any>): WebhookSubscriptionInfo {
+        return {
+            subscription_id: row.subscription_id,
+            location_id: row.location_id,
+            url: row.url,
+            event_types: JSON.parse(row.event_types) as StockEventType[],
+            created_at: row.created_at
+        };
+    }
+
+    // Helper method to strip the payload from a stored webhook delivery
+    private toWebhookDelivery(row: Record<string, any>): WebhookDelivery {
+        return {
+            delivery_id: row.delivery_id,
+            subscription_id: row.subscription_id,
+            location_id: row.location_id,
+            event_id: row.event_id,
+            event_type: row.event_type as StockEventType,
+            status: row.status as WebhookDeliveryStatus,
+            attempts: row.attempts,
+            response_status: row.response_status ?? null,
+            error: row.error ?? null,
+            created_at: row.created_at,
+            last_attempt_at: row.last_attempt_at
+        };
+    }
+
+    // Helper method to strip the webhook URL from a stored notification channel
+    private toNotificationChannelInfo(row: Record<string, any>): NotificationChannelInfo {
+        return {
+            channel_id: row.channel_id,
+            location_id: row.location_id,
+            type: row.type as NotificationChannelType,
+            name: row.name,
+            created_at: row.created_at
+        };
+    }
+
+    // Helper method to map the stored '' variant of a product-wide reorder point back to null
+    private toReorderPoint(row: Record<string, any>): ReorderPoint {
+        return {
+            location_id: row.location_id,
+            product_id: row.product_id,
+            variant_id: row.variant_id || null,
+            reorder_point: row.reorder_point,
+            updated_at: row.updated_at
+        };
+    }
+
+    /**
+     * Returns the schema version this deployment is on
+     * @returns Success result with current/latest versions and the applied migration history
+     */
+    async getSchemaVersion() {
+        try {
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Schema version retrieved successfully",
+                data: getSchemaVersionInfo(this.sql)
+            };
+        } catch (error) {
+            console.error("Database error in getSchemaVersion:", error);
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve schema version: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
     async getCredentials(locationId?: string) {
         try {
             if (locationId) {
-                const stmt = this.sql.exec("SELECT * FROM credentials WHERE location_id = ?", locationId);
-                const result = stmt.one();
+                // .one() throws when there is no row, an unknown location is a 404 rather than a database error
+                const result = this.sql.exec("SELECT * FROM credentials WHERE location_id = ?", locationId).toArray()[0];
 
                 if (!result) {
                     return {
-                        status: ResponseStatus.NOT_FOUND,
+                        status: ResponseStatus.ERROR,
                         httpCode: 404,
+                        errorCode: 'LOCATION_NOT_FOUND',
                         message: `No credentials found for locationId: ${locationId}`
                     };
                 }
@@ -119,11 +362,15 @@ export class CredentialsDurableObject extends DurableObject<Env> {
             // Convert receiverEmails array to JSON string
             const receiver_emails_json = this.arrayToJson(receiver_emails);
 
+            // Tokens are only ever stored encrypted
+            const encryptedAccessToken = await this.tokenCipher.encrypt(access_token);
+            const encryptedRefreshToken = await this.tokenCipher.encrypt(refresh_token);
+
             // Insert new credential with receiverEmails
             const result = this.sql.exec(`
-                INSERT OR REPLACE INTO credentials (location_id, company_id, access_token, refresh_token, expires_at, receiver_emails) 
-                VALUES (?, ?, ?, ?, ?, ?)
-            `, location_id, company_id, access_token, refresh_token, expires_at, receiver_emails_json);
+                INSERT OR REPLACE INTO credentials (location_id, company_id, access_token, refresh_token, expires_at, receiver_emails, auth_status, auth_status_updated_at) 
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `, location_id, company_id, encryptedAccessToken, encryptedRefreshToken, expires_at, receiver_emails_json, AuthStatus.HEALTHY, new Date().toISOString());
             
             return {
                 status: ResponseStatus.SUCCESS,
@@ -141,6 +388,68 @@ export class CredentialsDurableObject extends DurableObject<Env> {
         }
     }
 
+    /**
+     * Inserts a credential, or rotates the tokens of an existing one when a location re-authorizes
+     * Only company_id, the token pair and the expiry are replaced; receiver_emails and all other
+     * per-location settings are preserved. The auth status is reset to healthy.
+     * @param credential - The credential from the OAuth token exchange
+     * @returns Success result with action 'installed' (201) or 'reconnected' (200)
+     */
+    async upsertCredential(credential: {
+        location_id: string;
+        company_id: string;
+        access_token: string;
+        refresh_token: string;
+        expires_at: string;
+        receiver_emails?: string[]; // Only used for new installs
+    }) {
+        const { location_id, company_id, access_token, refresh_token, expires_at } = credential;
+
+        try {
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", location_id).toArray();
+
+            if (existing.length === 0) {
+                const insertResult = await this.insertCredential(credential);
+                if (insertResult.status !== ResponseStatus.SUCCESS) {
+                    return insertResult;
+                }
+
+                return {
+                    status: ResponseStatus.SUCCESS,
+                    httpCode: 201,
+                    message: "Credential installed successfully",
+                    data: { location_id, action: 'installed' as const }
+                };
+            }
+
+            console.log(`Rotating tokens for re-installed location_id: ${location_id}, company_id: ${company_id}`);
+
+            const encryptedAccessToken = await this.tokenCipher.encrypt(access_token);
+            const encryptedRefreshToken = await this.tokenCipher.encrypt(refresh_token);
+
+            this.sql.exec(`
+                UPDATE credentials
+                SET company_id = ?, access_token = ?, refresh_token = ?, expires_at = ?, install_source = ?,
+                    auth_status = ?, auth_status_reason = NULL, auth_status_updated_at = ?
+                WHERE location_id = ?
+            `, company_id, encryptedAccessToken, encryptedRefreshToken, expires_at, InstallSource.LOCATION, AuthStatus.HEALTHY, new Date().toISOString(), location_id);
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Credential reconnected successfully",
+                data: { location_id, action: 'reconnected' as const }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to upsert credential: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
     // New method to update receiverEmails for a location
     async updateReceiverEmails(location_id: string, receiverEmails: string[]) {
         try {
@@ -179,10 +488,15 @@ export class CredentialsDurableObject extends DurableObject<Env> {
         }
     }
 
+    /**
+     * Deletes a location with all of its settings, alert state, history and webhooks
+     * API keys bound to the location are revoked, they would otherwise work again if the location is re-installed.
+     * @param location_id - The location to delete
+     */
     async deleteCredential(location_id: string) {
         try {
-            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", location_id);
-            if (!existing.one()) {
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", location_id).toArray();
+            if (existing.length === 0) {
                 return {
                     status: ResponseStatus.ERROR,
                     httpCode: 404,
@@ -191,11 +505,28 @@ export class CredentialsDurableObject extends DurableObject<Env> {
                 };
             }
 
-            this.sql.exec("DELETE FROM credentials WHERE location_id = ?", location_id);
+            const revokedApiKeys = this.ctx.storage.transactionSync(() => {
+                this.sql.exec("DELETE FROM credentials WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM location_settings WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM email_branding WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM reorder_points WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM inventory_snapshot_items WHERE snapshot_id IN (SELECT snapshot_id FROM inventory_snapshots WHERE location_id = ?)", location_id);
+                this.sql.exec("DELETE FROM inventory_snapshots WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM item_alert_states WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM webhook_alert_states WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM notification_channels WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM webhook_subscriptions WHERE location_id = ?", location_id);
+                this.sql.exec("DELETE FROM webhook_deliveries WHERE location_id = ?", location_id);
+                return this.sql.exec(
+                    "UPDATE api_keys SET revoked_at = ? WHERE location_id = ? AND revoked_at IS NULL", new Date().toISOString(), location_id
+                ).rowsWritten;
+            });
+
             return {
                 status: ResponseStatus.SUCCESS,
                 httpCode: 200,
-                message: "Credential deleted successfully"
+                message: "Credential deleted successfully",
+                data: { revokedApiKeys }
             };
         } catch (error) {
             return {
@@ -208,59 +539,2160 @@ export class CredentialsDurableObject extends DurableObject<Env> {
     }
 
     /**
-     * Updates only the token pair (access_token, refresh_token, expires_at) for a location
-     * @param locationId - The location ID to update
-     * @param newAccessToken - The new access token
-     * @param newRefreshToken - The new refresh token
-     * @param expiresAt - The new expiration date
-     * @returns Success result with status information
+     * Deactivates a location after the app was uninstalled from it
+     * The tokens are cleared but the row (receiver emails and settings) is kept, so a re-install
+     * through /oauth/initiate reconnects the location with its previous configuration.
+     * @param locationId - The location the app was uninstalled from
+     * @param reason - Why the location was deactivated
      */
-    async updateTokenPair(locationId: string, newAccessToken: string, newRefreshToken: string, expiresAt: string) {
+    async deactivateCredential(locationId: string, reason: string) {
         try {
-            if (!locationId || !newAccessToken || !newRefreshToken || !expiresAt) {
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId).toArray();
+            if (existing.length === 0) {
                 return {
-                    success: false,
-                    message: 'Missing required parameters: locationId, newAccessToken, newRefreshToken, or expiresAt'
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No credentials found for locationId: ${locationId}`
                 };
             }
 
-            // Check if credential exists
-            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId);
-            if (!existing.one()) {
+            this.sql.exec(`
+                UPDATE credentials
+                SET access_token = NULL, refresh_token = NULL, expires_at = NULL,
+                    auth_status = ?, auth_status_reason = ?, auth_status_updated_at = ?
+                WHERE location_id = ?
+            `, AuthStatus.UNINSTALLED, reason, new Date().toISOString(), locationId);
+
+            console.log(`Deactivated location_id: ${locationId} - ${reason}`);
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Credential deactivated successfully"
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to deactivate credential: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Deactivates an agency and every location installed through it after the app was uninstalled from the agency
+     * Locations that were installed on their own are left alone.
+     * @param companyId - The agency the app was uninstalled from
+     * @param reason - Why the agency was deactivated
+     */
+    async deactivateAgencyCredential(companyId: string, reason: string) {
+        try {
+            const existing = this.sql.exec("SELECT 1 FROM agency_credentials WHERE company_id = ?", companyId).toArray();
+            if (existing.length === 0) {
                 return {
-                    success: false,
-                    message: `Credential with location_id '${locationId}' not found`
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No agency credentials found for companyId: ${companyId}`
+                };
+            }
+
+            const now = new Date().toISOString();
+            let deactivatedLocations = 0;
+
+            this.ctx.storage.transactionSync(() => {
+                this.sql.exec(`
+                    UPDATE agency_credentials
+                    SET access_token = NULL, refresh_token = NULL, expires_at = NULL,
+                        auth_status = ?, auth_status_reason = ?, auth_status_updated_at = ?
+                    WHERE company_id = ?
+                `, AuthStatus.UNINSTALLED, reason, now, companyId);
+
+                deactivatedLocations = this.sql.exec(`
+                    UPDATE credentials
+                    SET access_token = NULL, refresh_token = NULL, expires_at = NULL,
+                        auth_status = ?, auth_status_reason = ?, auth_status_updated_at = ?
+                    WHERE company_id = ? AND install_source = ?
+                `, AuthStatus.UNINSTALLED, reason, now, companyId, InstallSource.AGENCY).rowsWritten;
+            });
+
+            console.log(`Deactivated company_id: ${companyId} and ${deactivatedLocations} agency locations - ${reason}`);
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Agency credential deactivated successfully",
+                data: { company_id: companyId, deactivated_locations: deactivatedLocations }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to deactivate agency credential: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Updates the descriptive details of a location (from a marketplace LocationUpdate event)
+     * @param locationId - The location that was updated
+     * @param details - The new location name and/or company ID
+     */
+    async updateLocationDetails(locationId: string, details: { name?: string; companyId?: string }) {
+        try {
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId).toArray();
+            if (existing.length === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No credentials found for locationId: ${locationId}`
+                };
+            }
+
+            this.sql.exec(
+                "UPDATE credentials SET location_name = COALESCE(?, location_name), company_id = COALESCE(?, company_id) WHERE location_id = ?",
+                details.name ?? null,
+                details.companyId ?? null,
+                locationId
+            );
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Location details updated successfully"
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to update location details: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Records a received marketplace webhook event unless it was already received
+     * Marketplace webhooks are delivered at least once, the webhook ID makes handling idempotent.
+     * Events whose handling failed can be claimed again by a redelivery.
+     * @param event - The event to record
+     * @returns Success result with duplicate: true if the event was already recorded
+     */
+    async claimWebhookEvent(event: {
+        webhook_id: string;
+        event_type: string;
+        location_id?: string;
+        company_id?: string;
+        payload: string;
+    }) {
+        try {
+            const existing = this.sql.exec("SELECT outcome FROM webhook_events WHERE webhook_id = ?", event.webhook_id).toArray()[0];
+            if (existing && existing.outcome !== 'failed') {
+                return {
+                    status: ResponseStatus.SUCCESS,
+                    httpCode: 200,
+                    message: `Webhook event ${event.webhook_id} was already received`,
+                    data: { duplicate: true, outcome: existing.outcome as string | null }
                 };
             }
 
-            // Update only the token-related fields
             this.sql.exec(`
-                UPDATE credentials 
-                SET access_token = ?, refresh_token = ?, expires_at = ? 
-                WHERE location_id = ?
-            `, newAccessToken, newRefreshToken, expiresAt, locationId);
+                INSERT OR REPLACE INTO webhook_events (webhook_id, event_type, location_id, company_id, payload, received_at)
+                VALUES (?, ?, ?, ?, ?, ?)
+            `, event.webhook_id, event.event_type, event.location_id ?? null, event.company_id ?? null, event.payload, new Date().toISOString());
 
-            console.log(`Successfully updated token pair for location_id: ${locationId}`);
-            console.log(`New Access Token: ${newAccessToken?.slice(0, 10) ?? 'None'}...`);
-            console.log(`New Refresh Token: ${newRefreshToken?.slice(0, 10) ?? 'None'}...`);
-            console.log(`New Expires At: ${expiresAt}`);
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 201,
+                message: "Webhook event recorded",
+                data: { duplicate: false, outcome: null }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to record webhook event: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Stores how a recorded webhook event was handled
+     * @param webhookId - The webhook ID passed to claimWebhookEvent
+     * @param outcome - Short outcome code, e.g. 'deactivated' or 'ignored'
+     * @param message - Human readable detail
+     */
+    async completeWebhookEvent(webhookId: string, outcome: string, message: string) {
+        this.sql.exec(
+            "UPDATE webhook_events SET outcome = ?, outcome_message = ?, processed_at = ? WHERE webhook_id = ?",
+            outcome,
+            message,
+            new Date().toISOString(),
+            webhookId
+        );
+        return {
+            status: ResponseStatus.SUCCESS,
+            httpCode: 200,
+            message: "Webhook event updated"
+        };
+    }
 
+    /**
+     * Returns the most recent marketplace webhook events
+     * @param limit - Maximum number of events to return
+     */
+    async getWebhookEvents(limit: number = 50) {
+        try {
+            const rows = this.sql.exec("SELECT * FROM webhook_events ORDER BY received_at DESC LIMIT ?", limit).toArray();
             return {
-                success: true,
-                message: 'Token pair updated successfully',
-                data: {
-                    location_id: locationId,
-                    expires_at: expiresAt
-                }
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Webhook events retrieved successfully",
+                data: rows
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve webhook events: ${error instanceof Error ? error.message : 'Unknown error'}`
             };
+        }
+    }
+
+    /**
+     * Stores an email of the capture transport, only the most recent ones are kept
+     * @param email - The email, captured_at is set here
+     * @param maxEmails - Older emails beyond this number are deleted
+     */
+    async captureEmail(email: Omit<CapturedEmail, 'captured_at'>, maxEmails: number) {
+        try {
+            this.ctx.storage.transactionSync(() => {
+                this.sql.exec(`
+                    INSERT INTO captured_emails (capture_id, sender, recipient, subject, html, captured_at)
+                    VALUES (?, ?, ?, ?, ?, ?)
+                `, email.capture_id, email.sender, email.recipient, email.subject, email.html, new Date().toISOString());
+                this.sql.exec(`
+                    DELETE FROM captured_emails WHERE capture_id NOT IN (
+                        SELECT capture_id FROM captured_emails ORDER BY captured_at DESC, capture_id LIMIT ?
+                    )
+                `, maxEmails);
+            });
 
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 201,
+                message: "Email captured"
+            };
         } catch (error) {
-            console.error('Error updating token pair:', error);
             return {
-                success: false,
-                message: `Failed to update token pair: ${error instanceof Error ? error.message : 'Unknown error'}`
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to capture email: ${error instanceof Error ? error.message : 'Unknown error'}`
             };
         }
     }
-}
 
+    /**
+     * Returns the most recent emails of the capture transport
+     * @param limit - Maximum number of emails to return
+     */
+    async getCapturedEmails(limit: number = 20) {
+        try {
+            const rows = this.sql.exec("SELECT * FROM captured_emails ORDER BY captured_at DESC, capture_id LIMIT ?", limit).toArray();
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Captured emails retrieved successfully",
+                data: rows as unknown as CapturedEmail[]
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve captured emails: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Deletes every email of the capture transport
+     */
+    async clearCapturedEmails() {
+        try {
+            const deleted = this.sql.exec("DELETE FROM captured_emails").rowsWritten;
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: `Deleted ${deleted} captured emails`,
+                data: { deleted }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to delete captured emails: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Returns a location's alerting settings
+     * @param locationId - The location ID
+     * @returns Success result with the settings (defaults if none were saved)
+     */
+    async getLocationSettings(locationId: string) {
+        try {
+            const row = this.sql.exec("SELECT * FROM location_settings WHERE location_id = ?", locationId).toArray()[0];
+            const settings: LocationSettings = {
+                location_id: locationId,
+                low_stock_threshold: (row?.low_stock_threshold as number | null) ?? null,
+                alert_mode: (row?.alert_mode as AlertMode | null) ?? AlertMode.CHANGES,
+                back_in_stock_notifications: row?.back_in_stock_notifications === 1,
+                updated_at: (row?.updated_at as string | null) ?? null
+            };
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Location settings retrieved successfully",
+                data: settings
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve location settings: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Updates a location's alerting settings
+     * Only the given settings change; pass null to reset a setting to its default.
+     * @param locationId - The location ID, must be installed
+     * @param settings - The settings to change
+     * @returns Success result with the updated settings
+     */
+    async updateLocationSettings(locationId: string, settings: LocationSettingsUpdate) {
+        try {
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId).toArray();
+            if (existing.length === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No credentials found for locationId: ${locationId}`
+                };
+            }
+
+            const current = this.sql.exec("SELECT * FROM location_settings WHERE location_id = ?", locationId).toArray()[0];
+            const lowStockThreshold = settings.low_stock_threshold !== undefined ? settings.low_stock_threshold : (current?.low_stock_threshold ?? null);
+            const alertMode = settings.alert_mode !== undefined ? settings.alert_mode : (current?.alert_mode ?? null);
+            const backInStockNotifications = settings.back_in_stock_notifications !== undefined
+                ? (settings.back_in_stock_notifications === null ? null : Number(settings.back_in_stock_notifications))
+                : (current?.back_in_stock_notifications ?? null);
+
+            this.sql.exec(`
+                INSERT INTO location_settings (location_id, low_stock_threshold, alert_mode, back_in_stock_notifications, updated_at)
+                VALUES (?, ?, ?, ?, ?)
+                ON CONFLICT (location_id) DO UPDATE SET
+                    low_stock_threshold = excluded.low_stock_threshold,
+                    alert_mode = excluded.alert_mode,
+                    back_in_stock_notifications = excluded.back_in_stock_notifications,
+                    updated_at = excluded.updated_at
+            `, locationId, lowStockThreshold, alertMode, backInStockNotifications, new Date().toISOString());
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Location settings updated successfully",
+                data: (await this.getLocationSettings(locationId)).data
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to update location settings: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Returns a location's email branding overrides
+     * @param locationId - The location ID
+     * @returns Success result with the overrides (all null if none were saved)
+     */
+    async getEmailBranding(locationId: string) {
+        try {
+            const row = this.sql.exec("SELECT * FROM email_branding WHERE location_id = ?", locationId).toArray()[0];
+            const branding: EmailBranding = {
+                location_id: locationId,
+                logo_url: (row?.logo_url as string | null) ?? null,
+                primary_color: (row?.primary_color as string | null) ?? null,
+                accent_color: (row?.accent_color as string | null) ?? null,
+                header_text: (row?.header_text as string | null) ?? null,
+                footer_text: (row?.footer_text as string | null) ?? null,
+                updated_at: (row?.updated_at as string | null) ?? null
+            };
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Email branding retrieved successfully",
+                data: branding
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve email branding: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Updates a location's email branding overrides
+     * Only the given fields change; pass null to reset a field to its default.
+     * @param locationId - The location ID, must be installed
+     * @param branding - The fields to change, validated by the caller
+     * @returns Success result with the updated overrides
+     */
+    async updateEmailBranding(locationId: string, branding: EmailBrandingUpdate) {
+        try {
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId).toArray();
+            if (existing.length === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No credentials found for locationId: ${locationId}`
+                };
+            }
+
+            const current = this.sql.exec("SELECT * FROM email_branding WHERE location_id = ?", locationId).toArray()[0];
+            const valueOf = (field: keyof EmailBrandingUpdate) => branding[field] !== undefined ? branding[field] : (current?.[field] ?? null);
+
+            this.sql.exec(`
+                INSERT INTO email_branding (location_id, logo_url, primary_color, accent_color, header_text, footer_text, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+                ON CONFLICT (location_id) DO UPDATE SET
+                    logo_url = excluded.logo_url,
+                    primary_color = excluded.primary_color,
+                    accent_color = excluded.accent_color,
+                    header_text = excluded.header_text,
+                    footer_text = excluded.footer_text,
+                    updated_at = excluded.updated_at
+            `, locationId, valueOf('logo_url'), valueOf('primary_color'), valueOf('accent_color'), valueOf('header_text'), valueOf('footer_text'), new Date().toISOString());
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Email branding updated successfully",
+                data: (await this.getEmailBranding(locationId)).data
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to update email branding: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists a location's reorder points
+     * @param locationId - The location ID
+     * @returns Success result with the reorder points, ordered by product and variant
+     */
+    async getReorderPoints(locationId: string) {
+        try {
+            const rows = this.sql.exec(
+                "SELECT * FROM reorder_points WHERE location_id = ? ORDER BY product_id, variant_id", locationId
+            ).toArray();
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Reorder points retrieved successfully",
+                data: rows.map(row => this.toReorderPoint(row))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve reorder points: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Creates or updates reorder points for a location
+     * All entries are written in one transaction, so a failed upload changes nothing.
+     * @param locationId - The location ID, must be installed
+     * @param reorderPoints - Product ID, optional variant ID and reorder point of each entry
+     * @returns Success result with the number of entries written
+     */
+    async upsertReorderPoints(locationId: string, reorderPoints: Array<{ product_id: string; variant_id?: string | null; reorder_point: number }>) {
+        try {
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId).toArray();
+            if (existing.length === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No credentials found for locationId: ${locationId}`
+                };
+            }
+
+            const updatedAt = new Date().toISOString();
+            this.ctx.storage.transactionSync(() => {
+                for (const entry of reorderPoints) {
+                    this.sql.exec(`
+                        INSERT INTO reorder_points (location_id, product_id, variant_id, reorder_point, updated_at)
+                        VALUES (?, ?, ?, ?, ?)
+                        ON CONFLICT (location_id, product_id, variant_id) DO UPDATE SET
+                            reorder_point = excluded.reorder_point,
+                            updated_at = excluded.updated_at
+                    `, locationId, entry.product_id, entry.variant_id ?? '', entry.reorder_point, updatedAt);
+                }
+            });
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: `Saved ${reorderPoints.length} reorder points`,
+                data: { location_id: locationId, saved: reorderPoints.length }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to save reorder points: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Deletes a reorder point
+     * @param locationId - The location ID
+     * @param productId - The product ID
+     * @param variantId - The variant ID, omit to delete the product-wide reorder point
+     */
+    async deleteReorderPoint(locationId: string, productId: string, variantId?: string | null) {
+        try {
+            const deleted = this.sql.exec(
+                "DELETE FROM reorder_points WHERE location_id = ? AND product_id = ? AND variant_id = ?",
+                locationId, productId, variantId ?? ''
+            ).rowsWritten;
+
+            if (deleted === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No reorder point found for product ${productId}${variantId ? ` variant ${variantId}` : ''}`
+                };
+            }
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Reorder point deleted successfully"
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to delete reorder point: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists a location's notification channels, without their webhook URLs
+     * @param locationId - The location ID
+     * @returns Success result with the channels, oldest first
+     */
+    async getNotificationChannels(locationId: string) {
+        try {
+            const rows = this.sql.exec(
+                "SELECT channel_id, location_id, type, name, created_at FROM notification_channels WHERE location_id = ? ORDER BY created_at, channel_id",
+                locationId
+            ).toArray();
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Notification channels retrieved successfully",
+                data: rows.map(row => this.toNotificationChannelInfo(row))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve notification channels: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists a location's notification channels for sending
+     * @param locationId - The location ID
+     * @returns Success result with the channels and their (encrypted) webhook URLs - decrypt with TokenCipher where they are used
+     */
+    async getNotificationChannelsForDelivery(locationId: string) {
+        try {
+            const rows = this.sql.exec(
+                "SELECT * FROM notification_channels WHERE location_id = ? ORDER BY created_at, channel_id", locationId
+            ).toArray();
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Notification channels retrieved successfully",
+                data: rows.map(row => ({ ...this.toNotificationChannelInfo(row), webhook_url: row.webhook_url as string }))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve notification channels: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Adds a notification channel to a location
+     * @param channel - The channel, webhook_url in plain text (it is stored encrypted)
+     * @param maxChannels - Upper bound for the location's channels
+     * @returns Success result with the channel (without its webhook URL)
+     */
+    async createNotificationChannel(channel: { channel_id: string; location_id: string; type: NotificationChannelType; name: string; webhook_url: string }, maxChannels: number) {
+        try {
+            const encryptedWebhookUrl = await this.tokenCipher.encrypt(channel.webhook_url);
+            const createdAt = new Date().toISOString();
+
+            // The limit is checked in the same transaction as the insert, so concurrent requests cannot both pass it
+            return this.ctx.storage.transactionSync(() => {
+                const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", channel.location_id).toArray();
+                if (existing.length === 0) {
+                    return {
+                        status: ResponseStatus.NOT_FOUND,
+                        httpCode: 404,
+                        message: `No credentials found for locationId: ${channel.location_id}`
+                    };
+                }
+
+                const count = this.sql.exec<{ count: number }>(
+                    "SELECT COUNT(*) AS count FROM notification_channels WHERE location_id = ?", channel.location_id
+                ).one().count;
+                if (count >= maxChannels) {
+                    return {
+                        status: ResponseStatus.ERROR,
+                        httpCode: 409,
+                        errorCode: 'TOO_MANY_CHANNELS',
+                        message: `A location can have at most ${maxChannels} notification channels`
+                    };
+                }
+
+                this.sql.exec(`
+                    INSERT INTO notification_channels (channel_id, location_id, type, name, webhook_url, created_at)
+                    VALUES (?, ?, ?, ?, ?, ?)
+                `, channel.channel_id, channel.location_id, channel.type, channel.name, encryptedWebhookUrl, createdAt);
+
+                const data: NotificationChannelInfo = {
+                    channel_id: channel.channel_id,
+                    location_id: channel.location_id,
+                    type: channel.type,
+                    name: channel.name,
+                    created_at: createdAt
+                };
+
+                return {
+                    status: ResponseStatus.SUCCESS,
+                    httpCode: 201,
+                    message: "Notification channel created successfully",
+                    data
+                };
+            });
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to create notification channel: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Deletes a notification channel
+     * @param locationId - The location the channel belongs to
+     * @param channelId - The channel ID
+     */
+    async deleteNotificationChannel(locationId: string, channelId: string) {
+        try {
+            const deleted = this.sql.exec(
+                "DELETE FROM notification_channels WHERE location_id = ? AND channel_id = ?", locationId, channelId
+            ).rowsWritten;
+
+            if (deleted === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No notification channel ${channelId} found for locationId: ${locationId}`
+                };
+            }
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Notification channel deleted successfully"
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to delete notification channel: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists a location's webhook subscriptions, without their secrets
+     * @param locationId - The location ID
+     * @returns Success result with the subscriptions, oldest first
+     */
+    async getWebhookSubscriptions(locationId: string) {
+        try {
+            const rows = this.sql.exec(
+                "SELECT * FROM webhook_subscriptions WHERE location_id = ? ORDER BY created_at, subscription_id", locationId
+            ).toArray();
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Webhook subscriptions retrieved successfully",
+                data: rows.map(row => this.toWebhookSubscriptionInfo(row))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve webhook subscriptions: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists a location's webhook subscriptions for sending
+     * @param locationId - The location ID
+     * @returns Success result with the subscriptions and their (encrypted) secrets - decrypt with TokenCipher where they are used
+     */
+    async getWebhookSubscriptionsForDelivery(locationId: string) {
+        try {
+            const rows = this.sql.exec(
+                "SELECT * FROM webhook_subscriptions WHERE location_id = ? ORDER BY created_at, subscription_id", locationId
+            ).toArray();
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Webhook subscriptions retrieved successfully",
+                data: rows.map(row => ({ ...this.toWebhookSubscriptionInfo(row), secret: row.secret as string }))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve webhook subscriptions: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Adds a webhook subscription to a location
+     * @param subscription - The subscription, secret in plain text (it is stored encrypted)
+     * @param maxSubscriptions - Upper bound for the location's subscriptions
+     * @returns Success result with the subscription (without its secret)
+     */
+    async createWebhookSubscription(subscription: { subscription_id: string; location_id: string; url: string; secret: string; event_types: StockEventType[] }, maxSubscriptions: number) {
+        try {
+            const encryptedSecret = await this.tokenCipher.encrypt(subscription.secret);
+            const createdAt = new Date().toISOString();
+
+            // The limit is checked in the same transaction as the insert, so concurrent requests cannot both pass it
+            return this.ctx.storage.transactionSync(() => {
+                const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", subscription.location_id).toArray();
+                if (existing.length === 0) {
+                    return {
+                        status: ResponseStatus.NOT_FOUND,
+                        httpCode: 404,
+                        message: `No credentials found for locationId: ${subscription.location_id}`
+                    };
+                }
+
+                const count = this.sql.exec<{ count: number }>(
+                    "SELECT COUNT(*) AS count FROM webhook_subscriptions WHERE location_id = ?", subscription.location_id
+                ).one().count;
+                if (count >= maxSubscriptions) {
+                    return {
+                        status: ResponseStatus.ERROR,
+                        httpCode: 409,
+                        errorCode: 'TOO_MANY_SUBSCRIPTIONS',
+                        message: `A location can have at most ${maxSubscriptions} webhook subscriptions`
+                    };
+                }
+
+                this.sql.exec(`
+                    INSERT INTO webhook_subscriptions (subscription_id, location_id, url, secret, event_types, created_at)
+                    VALUES (?, ?, ?, ?, ?, ?)
+                `, subscription.subscription_id, subscription.location_id, subscription.url, encryptedSecret,
+                    JSON.stringify(subscription.event_types), createdAt);
+
+                const data: WebhookSubscriptionInfo = {
+                    subscription_id: subscription.subscription_id,
+                    location_id: subscription.location_id,
+                    url: subscription.url,
+                    event_types: subscription.event_types,
+                    created_at: createdAt
+                };
+
+                return {
+                    status: ResponseStatus.SUCCESS,
+                    httpCode: 201,
+                    message: "Webhook subscription created successfully",
+                    data
+                };
+            });
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to create webhook subscription: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Deletes a webhook subscription and its delivery log
+     * @param locationId - The location the subscription belongs to
+     * @param subscriptionId - The subscription ID
+     */
+    async deleteWebhookSubscription(locationId: string, subscriptionId: string) {
+        try {
+            const deleted = this.ctx.storage.transactionSync(() => {
+                const rows = this.sql.exec(
+                    "DELETE FROM webhook_subscriptions WHERE location_id = ? AND subscription_id = ?", locationId, subscriptionId
+                ).rowsWritten;
+                this.sql.exec("DELETE FROM webhook_deliveries WHERE location_id = ? AND subscription_id = ?", locationId, subscriptionId);
+                // A later subscription starts from the current issues instead of the states of the deleted one
+                const remaining = this.sql.exec("SELECT 1 FROM webhook_subscriptions WHERE location_id = ? LIMIT 1", locationId).toArray();
+                if (remaining.length === 0) {
+                    this.sql.exec("DELETE FROM webhook_alert_states WHERE location_id = ?", locationId);
+                }
+                return rows;
+            });
+
+            if (deleted === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No webhook subscription ${subscriptionId} found for locationId: ${locationId}`
+                };
+            }
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Webhook subscription deleted successfully"
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to delete webhook subscription: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Stores the outcome of webhook deliveries, new or sent again, and deletes the location's deliveries older than
+     * the retention
+     * @param locationId - The location the deliveries belong to
+     * @param deliveries - The deliveries, an existing delivery_id is overwritten
+     * @param retentionDays - Deliveries created more than this many days ago are deleted
+     * @returns Success result with the number of deleted deliveries
+     */
+    async recordWebhookDeliveries(locationId: string, deliveries: WebhookDeliveryRecord[], retentionDays: number) {
+        try {
+            const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+            const pruned = this.ctx.storage.transactionSync(() => {
+                for (const delivery of deliveries) {
+                    this.sql.exec(`
+                        INSERT OR REPLACE INTO webhook_deliveries (delivery_id, subscription_id, location_id, event_id, event_type, payload,
+                            status, attempts, response_status, error, created_at, last_attempt_at)
+                        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    `, delivery.delivery_id, delivery.subscription_id, locationId, delivery.event_id, delivery.event_type, delivery.payload,
+                        delivery.status, delivery.attempts, delivery.response_status, delivery.error, delivery.created_at, delivery.last_attempt_at);
+                }
+                return this.sql.exec(
+                    "DELETE FROM webhook_deliveries WHERE location_id = ? AND created_at < ?", locationId, cutoff
+                ).rowsWritten;
+            });
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Webhook deliveries recorded successfully",
+                data: { recorded: deliveries.length, pruned_deliveries: pruned }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to record webhook deliveries: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists a location's failed deliveries that may be sent again, oldest first
+     * @param locationId - The location ID
+     * @param maxAttempts - Deliveries sent this many times are given up on
+     * @param limit - Maximum number of deliveries to return
+     * @returns Success result with the deliveries and their payloads
+     */
+    async getRetryableWebhookDeliveries(locationId: string, maxAttempts: number, limit: number) {
+        try {
+            const rows = this.sql.exec(`
+                SELECT d.* FROM webhook_deliveries d
+                JOIN webhook_subscriptions s ON s.subscription_id = d.subscription_id
+                WHERE d.location_id = ? AND d.status = ? AND d.attempts < ?
+                ORDER BY d.created_at, d.delivery_id
+                LIMIT ?
+            `, locationId, WebhookDeliveryStatus.FAILED, maxAttempts, limit).toArray();
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Retryable webhook deliveries retrieved successfully",
+                data: rows.map(row => ({ ...this.toWebhookDelivery(row), payload: row.payload as string }))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve webhook deliveries: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Reads a location's webhook delivery log, newest first
+     * @param locationId - The location ID
+     * @param options - Subscription to filter by, maximum number of deliveries and whether to include the payloads
+     */
+    async getWebhookDeliveries(locationId: string, options: { subscriptionId?: string; limit: number; includePayload?: boolean }) {
+        try {
+            const rows = options.subscriptionId
+                ? this.sql.exec(
+                    "SELECT * FROM webhook_deliveries WHERE location_id = ? AND subscription_id = ? ORDER BY created_at DESC, delivery_id LIMIT ?",
+                    locationId, options.subscriptionId, options.limit
+                ).toArray()
+                : this.sql.exec(
+                    "SELECT * FROM webhook_deliveries WHERE location_id = ? ORDER BY created_at DESC, delivery_id LIMIT ?",
+                    locationId, options.limit
+                ).toArray();
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Webhook deliveries retrieved successfully",
+                data: rows.map(row => options.includePayload
+                    ? { ...this.toWebhookDelivery(row), payload: JSON.parse(row.payload as string) }
+                    : this.toWebhookDelivery(row))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve webhook deliveries: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists the items of a location that were out of stock or low on stock when last reported
+     * @param locationId - The location ID
+     * @param scope - Whose reports: the alerts or the stock events
+     * @returns Success result with the alert states
+     */
+    async getItemAlertStates(locationId: string, scope: AlertStateScope = AlertStateScope.NOTIFICATIONS) {
+        try {
+            const rows = this.sql.exec<{ item_id: string; state: string; since: string }>(
+                `SELECT item_id, state, since FROM ${this.alertStateTable(scope)} WHERE location_id = ? ORDER BY item_id`, locationId
+            ).toArray();
+
+            const data: ItemAlertState[] = rows.map(row => ({ item_id: row.item_id, state: row.state as StockState, since: row.since }));
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Item alert states retrieved successfully",
+                data
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve item alert states: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Replaces the alert states of a location in one transaction
+     * @param locationId - The location ID
+     * @param states - Every item that is currently out of stock or low on stock, items left out are fine
+     * @param scope - Whose reports: the alerts or the stock events
+     * @returns Success result with the number of states stored
+     */
+    async replaceItemAlertStates(locationId: string, states: ItemAlertState[], scope: AlertStateScope = AlertStateScope.NOTIFICATIONS) {
+        try {
+            const table = this.alertStateTable(scope);
+            this.ctx.storage.transactionSync(() => {
+                this.sql.exec(`DELETE FROM ${table} WHERE location_id = ?`, locationId);
+                for (const state of states) {
+                    this.sql.exec(
+                        `INSERT OR REPLACE INTO ${table} (location_id, item_id, state, since) VALUES (?, ?, ?, ?)`,
+                        locationId, state.item_id, state.state, state.since
+                    );
+                }
+            });
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: `Stored ${states.length} item alert states`,
+                data: { location_id: locationId, stored: states.length }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to store item alert states: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Updates some of a location's alert states in one transaction, the other items keep theirs
+     * @param locationId - The location ID
+     * @param states - States to store, replacing the items' previous states
+     * @param removedItemIds - Items that are fine now, their states are deleted
+     * @param scope - Whose reports: the alerts or the stock events
+     * @returns Success result with the number of states stored and deleted
+     */
+    async updateItemAlertStates(locationId: string, states: ItemAlertState[], removedItemIds: string[], scope: AlertStateScope = AlertStateScope.NOTIFICATIONS) {
+        try {
+            const table = this.alertStateTable(scope);
+            this.ctx.storage.transactionSync(() => {
+                for (const itemId of removedItemIds) {
+                    this.sql.exec(`DELETE FROM ${table} WHERE location_id = ? AND item_id = ?`, locationId, itemId);
+                }
+                for (const state of states) {
+                    this.sql.exec(
+                        `INSERT OR REPLACE INTO ${table} (location_id, item_id, state, since) VALUES (?, ?, ?, ?)`,
+                        locationId, state.item_id, state.state, state.since
+                    );
+                }
+            });
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: `Stored ${states.length} and deleted ${removedItemIds.length} item alert states`,
+                data: { location_id: locationId, stored: states.length, deleted: removedItemIds.length }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to update item alert states: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    // Each scope has its own table with the same columns
+    private alertStateTable(scope: AlertStateScope): string {
+        return scope === AlertStateScope.WEBHOOKS ? 'webhook_alert_states' : 'item_alert_states';
+    }
+
+    /**
+     * Stores a snapshot of a location's inventory quantities and drops the location's expired snapshots
+     * The snapshot and the pruning are committed in one transaction.
+     * @param locationId - The location ID
+     * @param takenAt - When the inventory was read (ISO 8601)
+     * @param items - Every item of the inventory with its quantity
+     * @param retentionDays - Snapshots older than this many days are deleted
+     * @returns Success result with the new snapshot's ID and the number of snapshots deleted
+     */
+    async recordInventorySnapshot(locationId: string, takenAt: string, items: InventorySnapshotItem[], retentionDays: number) {
+        try {
+            const cutoff = new Date(Date.parse(takenAt) - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+            const { snapshotId, pruned } = this.ctx.storage.transactionSync(() => {
+                const row = this.sql.exec<{ snapshot_id: number }>(
+                    "INSERT INTO inventory_snapshots (location_id, taken_at, total_items) VALUES (?, ?, ?) RETURNING snapshot_id",
+                    locationId, takenAt, items.length
+                ).one();
+
+                for (const item of items) {
+                    this.sql.exec(`
+                        INSERT INTO inventory_snapshot_items (snapshot_id, item_id, product_id, quantity)
+                        VALUES (?, ?, ?, ?)
+                        ON CONFLICT (snapshot_id, item_id) DO UPDATE SET quantity = excluded.quantity
+                    `, row.snapshot_id, item.item_id, item.product_id, item.quantity);
+                }
+
+                this.sql.exec(
+                    "DELETE FROM inventory_snapshot_items WHERE snapshot_id IN (SELECT snapshot_id FROM inventory_snapshots WHERE location_id = ? AND taken_at < ?)",
+                    locationId, cutoff
+                );
+                const pruned = this.sql.exec(
+                    "DELETE FROM inventory_snapshots WHERE location_id = ? AND taken_at < ?", locationId, cutoff
+                ).rowsWritten;
+
+                return { snapshotId: row.snapshot_id, pruned };
+            });
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 201,
+                message: `Recorded snapshot of ${items.length} items`,
+                data: { snapshot_id: snapshotId, location_id: locationId, taken_at: takenAt, pruned_snapshots: pruned }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to record inventory snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists a location's snapshots in a time range, newest first
+     * @param locationId - The location ID
+     * @param from - Start of the range (ISO 8601, inclusive)
+     * @param to - End of the range (ISO 8601, inclusive)
+     * @param options - limit: maximum number of snapshots; includeItems: add each snapshot's item quantities
+     * @returns Success result with the snapshots
+     */
+    async getInventorySnapshots(locationId: string, from: string, to: string, options: { limit: number; includeItems: boolean }) {
+        try {
+            const snapshots = this.sql.exec<{ snapshot_id: number; location_id: string; taken_at: string; total_items: number }>(`
+                SELECT snapshot_id, location_id, taken_at, total_items FROM inventory_snapshots
+                WHERE location_id = ? AND taken_at >= ? AND taken_at <= ?
+                ORDER BY taken_at DESC LIMIT ?
+            `, locationId, from, to, options.limit).toArray();
+
+            const data: InventorySnapshot[] = snapshots.map(snapshot => ({ ...snapshot }));
+
+            if (options.includeItems) {
+                for (const snapshot of data) {
+                    snapshot.items = this.sql.exec<{ item_id: string; product_id: string | null; quantity: number }>(
+                        "SELECT item_id, product_id, quantity FROM inventory_snapshot_items WHERE snapshot_id = ? ORDER BY item_id",
+                        snapshot.snapshot_id
+                    ).toArray().map(item => ({ ...item }));
+                }
+            }
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: `Found ${data.length} snapshots`,
+                data
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve inventory snapshots: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists one item's quantity in each of a location's snapshots in a time range, oldest first
+     * Snapshots taken while the item did not exist have no entry.
+     * @param locationId - The location ID
+     * @param itemId - The inventory item's (variant's) _id
+     * @param from - Start of the range (ISO 8601, inclusive)
+     * @param to - End of the range (ISO 8601, inclusive)
+     * @returns Success result with the history entries
+     */
+    async getInventoryItemHistory(locationId: string, itemId: string, from: string, to: string) {
+        try {
+            const rows = this.sql.exec<{ snapshot_id: number; taken_at: string; product_id: string | null; quantity: number }>(`
+                SELECT s.snapshot_id, s.taken_at, i.product_id, i.quantity
+                FROM inventory_snapshot_items i
+                JOIN inventory_snapshots s ON s.snapshot_id = i.snapshot_id
+                WHERE i.item_id = ? AND s.location_id = ? AND s.taken_at >= ? AND s.taken_at <= ?
+                ORDER BY s.taken_at
+            `, itemId, locationId, from, to).toArray();
+
+            const data: InventoryItemHistoryEntry[] = rows.map(row => ({ ...row }));
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: `Found ${data.length} history entries`,
+                data
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve inventory item history: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Stores a new API key
+     * Only the SHA-256 hash of the key is stored, the key itself is shown to its creator once.
+     * @param apiKey - The key record to store
+     */
+    async createApiKey(apiKey: {
+        key_id: string;
+        name: string;
+        key_hash: string;
+        key_prefix: string;
+        role: ApiKeyRole;
+        location_id?: string | null;
+        created_by?: string | null;
+    }) {
+        try {
+            const createdAt = new Date().toISOString();
+            this.sql.exec(`
+                INSERT INTO api_keys (key_id, name, key_hash, key_prefix, role, location_id, created_by, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            `, apiKey.key_id, apiKey.name, apiKey.key_hash, apiKey.key_prefix, apiKey.role, apiKey.location_id ?? null, apiKey.created_by ?? null, createdAt);
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 201,
+                message: "API key created successfully",
+                data: this.toApiKeyInfo({ ...apiKey, created_at: createdAt, last_used_at: null, revoked_at: null })
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to create API key: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists all API keys, including revoked ones (hashes are never returned)
+     */
+    async listApiKeys() {
+        try {
+            const rows = this.sql.exec("SELECT * FROM api_keys ORDER BY created_at").toArray();
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "API keys retrieved successfully",
+                data: rows.map(row => this.toApiKeyInfo(row))
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve API keys: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Revokes an API key, it can no longer be used to authenticate
+     * @param keyId - The key to revoke
+     */
+    async revokeApiKey(keyId: string) {
+        try {
+            const existing = this.sql.exec("SELECT revoked_at FROM api_keys WHERE key_id = ?", keyId).toArray()[0];
+            if (!existing) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No API key found with key_id: ${keyId}`
+                };
+            }
+
+            if (!existing.revoked_at) {
+                this.sql.exec("UPDATE api_keys SET revoked_at = ? WHERE key_id = ?", new Date().toISOString(), keyId);
+            }
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "API key revoked successfully"
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to revoke API key: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Looks up an active API key by its hash and records that it was used
+     * @param keyHash - SHA-256 hash of the presented key
+     * @returns Success result with the key's role and location binding, UNAUTHORIZED if unknown or revoked
+     */
+    async authenticateApiKey(keyHash: string) {
+        try {
+            const row = this.sql.exec("SELECT * FROM api_keys WHERE key_hash = ? AND revoked_at IS NULL", keyHash).toArray()[0];
+            if (!row) {
+                return {
+                    status: ResponseStatus.UNAUTHORIZED,
+                    httpCode: 401,
+                    message: "Invalid or revoked API key"
+                };
+            }
+
+            this.sql.exec("UPDATE api_keys SET last_used_at = ? WHERE key_id = ?", new Date().toISOString(), row.key_id);
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "API key is valid",
+                data: this.toApiKeyInfo(row)
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to authenticate API key: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Whether an active admin key exists - until one does, the first admin key is created with APP_PASSWORD
+     */
+    async hasActiveAdminKey(): Promise<boolean> {
+        return this.sql.exec("SELECT 1 FROM api_keys WHERE role = ? AND revoked_at IS NULL LIMIT 1", ApiKeyRole.ADMIN).toArray().length > 0;
+    }
+
+    /**
+     * Checks whether any of the subjects is currently locked out
+     * @param subjects - The client IP and, if a key was presented, its prefix
+     * @returns LockoutStatus with the longest remaining lockout
+     */
+    async checkAuthLockout(subjects: AuthFailureSubject[]): Promise<LockoutStatus> {
+        const now = Date.now();
+        let status: LockoutStatus = { locked: false };
+
+        for (const subject of subjects) {
+            const row = this.sql.exec("SELECT locked_until FROM auth_failures WHERE scope = ? AND subject = ?", subject.scope, subject.subject).toArray()[0];
+            const lockedUntil = row?.locked_until ? new Date(row.locked_until as string).getTime() : 0;
+
+            if (lockedUntil > now) {
+                const retryAfterSeconds = Math.ceil((lockedUntil - now) / 1000);
+                if (!status.locked || retryAfterSeconds > status.retryAfterSeconds!) {
+                    status = { locked: true, retryAfterSeconds, lockedSubject: subject };
+                }
+            }
+        }
+
+        return status;
+    }
+
+    /**
+     * Counts a failed authentication against each subject and locks out subjects that reach the limit
+     * Every lockout doubles the next one (up to the policy maximum) and is written to the lockout event log.
+     * @param subjects - The client IP and, if a key was presented, its prefix
+     * @param reason - What failed, e.g. 'INVALID_API_KEY'
+     * @param policy - Failure limit, window and lockout durations
+     * @returns LockoutStatus after counting the failure
+     */
+    async recordAuthFailure(subjects: AuthFailureSubject[], reason: string, policy: LockoutPolicy): Promise<LockoutStatus> {
+        const now = Date.now();
+        const nowIso = new Date(now).toISOString();
+
+        this.ctx.storage.transactionSync(() => {
+            for (const subject of subjects) {
+                const row = this.sql.exec("SELECT * FROM auth_failures WHERE scope = ? AND subject = ?", subject.scope, subject.subject).toArray()[0];
+
+                // Start a new window once the previous failures are old enough to be forgotten
+                const firstFailureAt = row?.first_failure_at ? new Date(row.first_failure_at as string).getTime() : 0;
+                const windowExpired = now - firstFailureAt > policy.failureWindowSeconds * 1000;
+                const failureCount = (windowExpired ? 0 : Number(row?.failure_count ?? 0)) + 1;
+                let lockoutCount = Number(row?.lockout_count ?? 0);
+                let lockedUntil = (row?.locked_until as string | null) ?? null;
+
+                if (failureCount >= policy.maxFailures) {
+                    const lockoutSeconds = Math.min(policy.baseLockoutSeconds * 2 ** lockoutCount, policy.maxLockoutSeconds);
+                    lockedUntil = new Date(now + lockoutSeconds * 1000).toISOString();
+                    lockoutCount++;
+
+                    this.sql.exec(`
+                        INSERT INTO lockout_events (scope, subject, failure_count, lockout_seconds, locked_until, reason, created_at)
+                        VALUES (?, ?, ?, ?, ?, ?, ?)
+                    `, subject.scope, subject.subject, failureCount, lockoutSeconds, lockedUntil, reason, nowIso);
+
+                    console.warn(`Locked out ${subject.scope} ${subject.subject} for ${lockoutSeconds}s after ${failureCount} failed authentications (${reason})`);
+                }
+
+                // A lockout starts a fresh count, the next lockout is longer because of lockout_count
+                this.sql.exec(`
+                    INSERT INTO auth_failures (scope, subject, failure_count, first_failure_at, last_failure_at, lockout_count, locked_until)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)
+                    ON CONFLICT (scope, subject) DO UPDATE SET
+                        failure_count = excluded.failure_count,
+                        first_failure_at = excluded.first_failure_at,
+                        last_failure_at = excluded.last_failure_at,
+                        lockout_count = excluded.lockout_count,
+                        locked_until = excluded.locked_until
+                `,
+                    subject.scope,
+                    subject.subject,
+                    failureCount >= policy.maxFailures ? 0 : failureCount,
+                    windowExpired || failureCount >= policy.maxFailures ? nowIso : row.first_failure_at,
+                    nowIso,
+                    lockoutCount,
+                    lockedUntil
+                );
+            }
+        });
+
+        return this.checkAuthLockout(subjects);
+    }
+
+    /**
+     * Resets the failure counts of subjects after a successful authentication
+     * lockout_count is kept, otherwise one success between bursts of guesses would reset every lockout to the shortest.
+     * @param subjects - The subjects that authenticated successfully
+     */
+    async clearAuthFailures(subjects: AuthFailureSubject[]) {
+        for (const subject of subjects) {
+            this.sql.exec("UPDATE auth_failures SET failure_count = 0, first_failure_at = NULL WHERE scope = ? AND subject = ?", subject.scope, subject.subject);
+        }
+    }
+
+    /**
+     * Returns the most recent lockout events
+     * @param limit - Maximum number of events to return
+     */
+    async getLockoutEvents(limit: number = 50) {
+        try {
+            const rows = this.sql.exec("SELECT * FROM lockout_events ORDER BY id DESC LIMIT ?", limit).toArray();
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Lockout events retrieved successfully",
+                data: rows
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to retrieve lockout events: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Updates only the token pair (access_token, refresh_token, expires_at) for a location
+     * @param locationId - The location ID to update
+     * @param newAccessToken - The new access token
+     * @param newRefreshToken - The new refresh token
+     * @param expiresAt - The new expiration date
+     * @returns Success result with status information
+     */
+    async updateTokenPair(locationId: string, newAccessToken: string, newRefreshToken: string, expiresAt: string) {
+        try {
+            if (!locationId || !newAccessToken || !newRefreshToken || !expiresAt) {
+                return {
+                    success: false,
+                    message: 'Missing required parameters: locationId, newAccessToken, newRefreshToken, or expiresAt'
+                };
+            }
+
+            // Check if credential exists
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId);
+            if (!existing.one()) {
+                return {
+                    success: false,
+                    message: `Credential with location_id '${locationId}' not found`
+                };
+            }
+
+            const encryptedAccessToken = await this.tokenCipher.encrypt(newAccessToken);
+            const encryptedRefreshToken = await this.tokenCipher.encrypt(newRefreshToken);
+
+            // Update only the token-related fields
+            this.sql.exec(`
+                UPDATE credentials 
+                SET access_token = ?, refresh_token = ?, expires_at = ? 
+                WHERE location_id = ?
+            `, encryptedAccessToken, encryptedRefreshToken, expiresAt, locationId);
+
+            console.log(`Successfully updated token pair for location_id: ${locationId}`);
+            console.log(`New Expires At: ${expiresAt}`);
+
+            return {
+                success: true,
+                message: 'Token pair updated successfully',
+                data: {
+                    location_id: locationId,
+                    expires_at: expiresAt
+                }
+            };
+
+        } catch (error) {
+            console.error('Error updating token pair:', error);
+            return {
+                success: false,
+                message: `Failed to update token pair: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Refreshes the token pair for a location, allowing only one refresh per location at a time
+     * Refresh tokens rotate, so two concurrent refreshes would leave one caller storing a dead
+     * refresh token. Concurrent callers share the in-flight refresh and all receive its result.
+     * @param locationId - The location ID to refresh tokens for
+     * @param options.force - Refresh even if the stored access token has not expired yet
+     * @returns TokenPairRefreshResult with the (encrypted) current access token
+     */
+    async refreshTokenPair(locationId: string, options: { force?: boolean } = {}): Promise<TokenPairRefreshResult> {
+        if (!locationId) {
+            return {
+                success: false,
+                message: 'Location ID is required'
+            };
+        }
+
+        return this.singleFlightRefresh(locationId, () => this.performTokenRefresh(locationId, options.force ?? false));
+    }
+
+    /**
+     * Runs a refresh unless one is already in flight for the same key, in which case its result is shared
+     * @param key - location_id, or company:<company_id> for agency tokens
+     * @param refresh - Starts the refresh
+     */
+    private singleFlightRefresh(key: string, refresh: () => Promise<TokenPairRefreshResult>): Promise<TokenPairRefreshResult> {
+        const inFlight = this.refreshesInFlight.get(key);
+        if (inFlight) {
+            console.log(`Token refresh already in progress for ${key}, waiting for it`);
+            return inFlight;
+        }
+
+        const pending = refresh().finally(() => this.refreshesInFlight.delete(key));
+        this.refreshesInFlight.set(key, pending);
+        return pending;
+    }
+
+    private async performTokenRefresh(locationId: string, force: boolean): Promise<TokenPairRefreshResult> {
+        try {
+            const credential = this.sql.exec("SELECT company_id, access_token, refresh_token, expires_at, auth_status, install_source FROM credentials WHERE location_id = ?", locationId).toArray()[0];
+            if (!credential) {
+                return {
+                    success: false,
+                    message: `No credentials found for location_id: ${locationId}`
+                };
+            }
+
+            // A dead refresh token stays dead - don't call the provider again until the location re-authorizes
+            if (credential.auth_status === AuthStatus.REVOKED) {
+                return {
+                    success: false,
+                    authStatus: AuthStatus.REVOKED,
+                    message: `Refresh token for location_id: ${locationId} has been revoked, the location must re-authorize via /oauth/initiate`
+                };
+            }
+
+            if (credential.auth_status === AuthStatus.UNINSTALLED) {
+                return {
+                    success: false,
+                    authStatus: AuthStatus.UNINSTALLED,
+                    message: `The app has been uninstalled from location_id: ${locationId}`
+                };
+            }
+
+            const expiresAt = credential.expires_at as string;
+
+            // A refresh that finished just before this call may already have produced a valid token
+            if (!force && expiresAt && Date.now() < new Date(expiresAt).getTime()) {
+                console.log(`Token for location_id: ${locationId} is already valid, skipping refresh`);
+                return {
+                    success: true,
+                    accessToken: credential.access_token as string,
+                    expiresAt: expiresAt,
+                    refreshed: false,
+                    message: 'Token is valid'
+                };
+            }
+
+            let refreshResponse: TokenRefreshResponse;
+
+            if (credential.install_source === InstallSource.AGENCY) {
+                // Locations installed through an agency get a fresh token minted from the agency token
+                console.log(`Minting location token from agency ${credential.company_id} for location_id: ${locationId}`);
+                refreshResponse = await this.mintLocationTokenFromAgency(credential.company_id as string, locationId);
+            } else {
+                if (!credential.refresh_token) {
+                    return {
+                        success: false,
+                        message: 'No refresh token found in credentials'
+                    };
+                }
+
+                const refreshToken = await this.tokenCipher.decrypt(credential.refresh_token as string);
+
+                console.log(`Refreshing access token for location_id: ${locationId}`);
+                refreshResponse = await requestTokenRefresh(this.apiClient, this.env.GHL_CLIENT_ID, this.env.GHL_CLIENT_SECRET, refreshToken);
+            }
+
+            if (!refreshResponse.success) {
+                console.error(`Token refresh failed for location_id: ${locationId}: ${refreshResponse.message}`);
+
+                // Only a rejected refresh token (invalid_grant or 401) needs re-authorization, other failures are retried
+                const authStatus = isRefreshTokenRejected(refreshResponse)
+                    ? AuthStatus.REVOKED
+                    : AuthStatus.REFRESH_FAILED;
+                this.setAuthStatus(locationId, authStatus, refreshResponse.message);
+
+                return {
+                    success: false,
+                    authStatus,
+                    message: refreshResponse.message
+                };
+            }
+
+            const newExpiresAt = new Date(Date.now() + refreshResponse.expiresIn! * 1000).toISOString();
+            await this.storeLocationTokens(locationId, refreshResponse.accessToken!, refreshResponse.refreshToken, newExpiresAt);
+
+            this.setAuthStatus(locationId, AuthStatus.HEALTHY, null);
+
+            // Hand back the stored (encrypted) form, callers decrypt it where it is used
+            const stored = this.sql.exec("SELECT access_token FROM credentials WHERE location_id = ?", locationId).toArray()[0];
+
+            console.log(`Successfully refreshed tokens for location_id: ${locationId}`);
+
+            return {
+                success: true,
+                accessToken: stored?.access_token as string,
+                expiresAt: newExpiresAt,
+                refreshed: true,
+                authStatus: AuthStatus.HEALTHY,
+                message: 'Token refreshed successfully'
+            };
+        } catch (error) {
+            console.error('Error refreshing token pair:', error);
+            return {
+                success: false,
+                message: `Failed to refresh token pair: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Inserts an agency (Company) credential, or rotates its tokens when the agency re-authorizes
+     * @param credential - The agency credential from the OAuth token exchange
+     * @returns Success result with action 'installed' (201) or 'reconnected' (200)
+     */
+    async upsertAgencyCredential(credential: {
+        company_id: string;
+        access_token: string;
+        refresh_token: string;
+        expires_at: string;
+    }) {
+        const { company_id, access_token, refresh_token, expires_at } = credential;
+
+        try {
+            const existing = this.sql.exec("SELECT 1 FROM agency_credentials WHERE company_id = ?", company_id).toArray();
+            const encryptedAccessToken = await this.tokenCipher.encrypt(access_token);
+            const encryptedRefreshToken = await this.tokenCipher.encrypt(refresh_token);
+            const now = new Date().toISOString();
+
+            if (existing.length === 0) {
+                console.log(`Inserting agency credential for company_id: ${company_id}`);
+                this.sql.exec(`
+                    INSERT INTO agency_credentials (company_id, access_token, refresh_token, expires_at, auth_status, auth_status_updated_at, installed_at)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)
+                `, company_id, encryptedAccessToken, encryptedRefreshToken, expires_at, AuthStatus.HEALTHY, now, now);
+
+                return {
+                    status: ResponseStatus.SUCCESS,
+                    httpCode: 201,
+                    message: "Agency credential installed successfully",
+                    data: { company_id, action: 'installed' as const }
+                };
+            }
+
+            console.log(`Rotating tokens for re-installed company_id: ${company_id}`);
+            this.sql.exec(`
+                UPDATE agency_credentials
+                SET access_token = ?, refresh_token = ?, expires_at = ?,
+                    auth_status = ?, auth_status_reason = NULL, auth_status_updated_at = ?
+                WHERE company_id = ?
+            `, encryptedAccessToken, encryptedRefreshToken, expires_at, AuthStatus.HEALTHY, now, company_id);
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Agency credential reconnected successfully",
+                data: { company_id, action: 'reconnected' as const }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to upsert agency credential: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Returns agency credentials (tokens stay encrypted)
+     * @param companyId - Optional company ID, all agencies are returned if omitted
+     */
+    async getAgencyCredentials(companyId?: string) {
+        try {
+            const rows = companyId
+                ? this.sql.exec("SELECT * FROM agency_credentials WHERE company_id = ?", companyId).toArray()
+                : this.sql.exec("SELECT * FROM agency_credentials").toArray();
+
+            if (companyId && rows.length === 0) {
+                return {
+                    status: ResponseStatus.NOT_FOUND,
+                    httpCode: 404,
+                    message: `No agency credentials found for companyId: ${companyId}`
+                };
+            }
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: 200,
+                message: "Agency credentials retrieved successfully",
+                data: companyId ? rows[0] : rows
+            };
+        } catch (error) {
+            console.error("Database error in getAgencyCredentials:", error);
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: "Failed to retrieve agency credentials from database"
+            };
+        }
+    }
+
+    /**
+     * Refreshes an agency token pair, sharing the in-flight refresh between concurrent callers
+     * @param companyId - The agency's company ID
+     * @param options.force - Refresh even if the stored access token has not expired yet
+     * @returns TokenPairRefreshResult with the (encrypted) current agency access token
+     */
+    async refreshAgencyTokenPair(companyId: string, options: { force?: boolean } = {}): Promise<TokenPairRefreshResult> {
+        if (!companyId) {
+            return {
+                success: false,
+                message: 'Company ID is required'
+            };
+        }
+
+        return this.singleFlightRefresh(`company:${companyId}`, () => this.performAgencyTokenRefresh(companyId, options.force ?? false));
+    }
+
+    private async performAgencyTokenRefresh(companyId: string, force: boolean): Promise<TokenPairRefreshResult> {
+        try {
+            const agency = this.sql.exec("SELECT access_token, refresh_token, expires_at, auth_status FROM agency_credentials WHERE company_id = ?", companyId).toArray()[0];
+            if (!agency) {
+                return {
+                    success: false,
+                    message: `No agency credentials found for company_id: ${companyId}`
+                };
+            }
+
+            if (agency.auth_status === AuthStatus.REVOKED) {
+                return {
+                    success: false,
+                    authStatus: AuthStatus.REVOKED,
+                    message: `Refresh token for company_id: ${companyId} has been revoked, the agency must re-authorize via /oauth/initiate?userType=Company`
+                };
+            }
+
+            if (agency.auth_status === AuthStatus.UNINSTALLED) {
+                return {
+                    success: false,
+                    authStatus: AuthStatus.UNINSTALLED,
+                    message: `The app has been uninstalled from company_id: ${companyId}`
+                };
+            }
+
+            const expiresAt = agency.expires_at as string;
+            if (!force && expiresAt && Date.now() < new Date(expiresAt).getTime()) {
+                return {
+                    success: true,
+                    accessToken: agency.access_token as string,
+                    expiresAt: expiresAt,
+                    refreshed: false,
+                    message: 'Token is valid'
+                };
+            }
+
+            const refreshToken = await this.tokenCipher.decrypt(agency.refresh_token as string);
+
+            console.log(`Refreshing agency access token for company_id: ${companyId}`);
+            const refreshResponse = await requestTokenRefresh(this.apiClient, this.env.GHL_CLIENT_ID, this.env.GHL_CLIENT_SECRET, refreshToken, 'Company');
+
+            if (!refreshResponse.success) {
+                console.error(`Agency token refresh failed for company_id: ${companyId}: ${refreshResponse.message}`);
+                const authStatus = isRefreshTokenRejected(refreshResponse)
+                    ? AuthStatus.REVOKED
+                    : AuthStatus.REFRESH_FAILED;
+                this.setAgencyAuthStatus(companyId, authStatus, refreshResponse.message);
+
+                return {
+                    success: false,
+                    authStatus,
+                    message: refreshResponse.message
+                };
+            }
+
+            const newExpiresAt = new Date(Date.now() + refreshResponse.expiresIn! * 1000).toISOString();
+            const encryptedAccessToken = await this.tokenCipher.encrypt(refreshResponse.accessToken!);
+            const encryptedRefreshToken = await this.tokenCipher.encrypt(refreshResponse.refreshToken!);
+
+            this.sql.exec(
+                "UPDATE agency_credentials SET access_token = ?, refresh_token = ?, expires_at = ? WHERE company_id = ?",
+                encryptedAccessToken,
+                encryptedRefreshToken,
+                newExpiresAt,
+                companyId
+            );
+            this.setAgencyAuthStatus(companyId, AuthStatus.HEALTHY, null);
+
+            console.log(`Successfully refreshed agency tokens for company_id: ${companyId}`);
+
+            return {
+                success: true,
+                accessToken: encryptedAccessToken,
+                expiresAt: newExpiresAt,
+                refreshed: true,
+                authStatus: AuthStatus.HEALTHY,
+                message: 'Token refreshed successfully'
+            };
+        } catch (error) {
+            console.error('Error refreshing agency token pair:', error);
+            return {
+                success: false,
+                message: `Failed to refresh agency token pair: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Lists the agency's locations that have the app installed
+     * @param companyId - The agency's company ID
+     */
+    async listAgencyInstalledLocations(companyId: string) {
+        const agencyToken = await this.getAgencyAccessToken(companyId);
+        if (!agencyToken.success) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: agencyToken.authStatus === AuthStatus.REVOKED ? 401 : 502,
+                errorCode: agencyToken.authStatus === AuthStatus.REVOKED ? 'AGENCY_REAUTHORIZATION_REQUIRED' : 'AGENCY_TOKEN_ERROR',
+                message: agencyToken.message
+            };
+        }
+
+        const result = await requestInstalledLocations(this.apiClient, agencyToken.accessToken!, companyId, this.env.GHL_APP_ID);
+        if (!result.success) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 502,
+                errorCode: 'PROVIDER_ERROR',
+                message: result.message
+            };
+        }
+
+        return {
+            status: ResponseStatus.SUCCESS,
+            httpCode: 200,
+            message: result.message,
+            data: result.locations
+        };
+    }
+
+    /**
+     * Starts monitoring an agency sub-account with a location token minted from the agency token
+     * Existing rows keep their receiver_emails and settings; they are switched to the agency install source.
+     * @param companyId - The agency's company ID
+     * @param locationId - The sub-account to install
+     * @returns Success result with action 'installed' (201) or 'reconnected' (200)
+     */
+    async installAgencyLocation(companyId: string, locationId: string) {
+        try {
+            const minted = await this.mintLocationTokenFromAgency(companyId, locationId);
+            if (!minted.success) {
+                return {
+                    status: ResponseStatus.ERROR,
+                    httpCode: 502,
+                    errorCode: 'LOCATION_TOKEN_ERROR',
+                    message: minted.message
+                };
+            }
+
+            const expiresAt = new Date(Date.now() + minted.expiresIn! * 1000).toISOString();
+            const existing = this.sql.exec("SELECT 1 FROM credentials WHERE location_id = ?", locationId).toArray();
+
+            if (existing.length === 0) {
+                this.sql.exec(`
+                    INSERT INTO credentials (location_id, company_id, expires_at, receiver_emails, install_source, auth_status, auth_status_updated_at)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)
+                `, locationId, companyId, expiresAt, this.arrayToJson([]), InstallSource.AGENCY, AuthStatus.HEALTHY, new Date().toISOString());
+            } else {
+                this.sql.exec(`
+                    UPDATE credentials
+                    SET company_id = ?, install_source = ?, auth_status = ?, auth_status_reason = NULL, auth_status_updated_at = ?
+                    WHERE location_id = ?
+                `, companyId, InstallSource.AGENCY, AuthStatus.HEALTHY, new Date().toISOString(), locationId);
+            }
+
+            await this.storeLocationTokens(locationId, minted.accessToken!, minted.refreshToken, expiresAt);
+
+            console.log(`Installed location_id: ${locationId} from agency company_id: ${companyId}`);
+
+            return {
+                status: ResponseStatus.SUCCESS,
+                httpCode: existing.length === 0 ? 201 : 200,
+                message: existing.length === 0 ? "Agency location installed successfully" : "Agency location reconnected successfully",
+                data: { location_id: locationId, company_id: companyId, action: existing.length === 0 ? 'installed' as const : 'reconnected' as const }
+            };
+        } catch (error) {
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to install agency location: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    /**
+     * Returns a valid, decrypted agency access token, refreshing it first if it has expired
+     */
+    private async getAgencyAccessToken(companyId: string): Promise<{ success: boolean; accessToken?: string; authStatus?: AuthStatus; message: string }> {
+        const refreshResult = await this.refreshAgencyTokenPair(companyId);
+        if (!refreshResult.success) {
+            return {
+                success: false,
+                authStatus: refreshResult.authStatus,
+                message: `Agency token unavailable for company_id: ${companyId}: ${refreshResult.message}`
+            };
+        }
+
+        return {
+            success: true,
+            accessToken: await this.tokenCipher.decrypt(refreshResult.accessToken!),
+            message: refreshResult.message
+        };
+    }
+
+    /**
+     * Mints a location token using the agency's token
+     * A revoked agency is reported as HTTP 401 so the location is marked revoked as well.
+     */
+    private async mintLocationTokenFromAgency(companyId: string, locationId: string): Promise<TokenRefreshResponse> {
+        if (!companyId) {
+            return {
+                success: false,
+                message: `No company_id stored for agency location_id: ${locationId}`
+            };
+        }
+
+        const agencyToken = await this.getAgencyAccessToken(companyId);
+        if (!agencyToken.success) {
+            return {
+                success: false,
+                httpStatus: agencyToken.authStatus === AuthStatus.REVOKED ? 401 : undefined,
+                message: agencyToken.message
+            };
+        }
+
+        return requestLocationToken(this.apiClient, agencyToken.accessToken!, companyId, locationId);
+    }
+
+    /**
+     * Records the authorization health of an agency's tokens
+     */
+    private setAgencyAuthStatus(companyId: string, authStatus: AuthStatus, reason: string | null) {
+        this.sql.exec(
+            "UPDATE agency_credentials SET auth_status = ?, auth_status_reason = ?, auth_status_updated_at = ? WHERE company_id = ?",
+            authStatus,
+            reason,
+            new Date().toISOString(),
+            companyId
+        );
+    }
+
+    /**
+     * Encrypts and stores a location's new tokens
+     * Agency-minted tokens may come without a refresh token; they are re-minted instead of refreshed.
+     */
+    private async storeLocationTokens(locationId: string, accessToken: string, refreshToken: string | undefined, expiresAt: string) {
+        const encryptedAccessToken = await this.tokenCipher.encrypt(accessToken);
+        const encryptedRefreshToken = refreshToken ? await this.tokenCipher.encrypt(refreshToken) : null;
+
+        this.sql.exec(
+            "UPDATE credentials SET access_token = ?, refresh_token = ?, expires_at = ? WHERE location_id = ?",
+            encryptedAccessToken,
+            encryptedRefreshToken,
+            expiresAt,
+            locationId
+        );
+    }
+
+    /**
+     * Records the authorization health of a location's tokens
+     * @param locationId - The location ID to update
+     * @param authStatus - The new auth status
+     * @param reason - Why the status changed (the provider error for failures)
+     */
+    private setAuthStatus(locationId: string, authStatus: AuthStatus, reason: string | null) {
+        this.sql.exec(
+            "UPDATE credentials SET auth_status = ?, auth_status_reason = ?, auth_status_updated_at = ? WHERE location_id = ?",
+            authStatus,
+            reason,
+            new Date().toISOString(),
+            locationId
+        );
+    }
+
+    /**
+     * Re-encrypts every stored token with the active encryption key
+     * Run after adding a new key to the front of TOKEN_ENCRYPTION_KEYS, or once after enabling
+     * encryption to convert legacy plaintext rows. Retired keys can be removed afterwards.
+     * @returns Success result with the number of rows rewritten
+     */
+    async reencryptTokens() {
+        try {
+            const credentials = await this.reencryptColumns('credentials', 'location_id', ['access_token', 'refresh_token']);
+            const agencies = await this.reencryptColumns('agency_credentials', 'company_id', ['access_token', 'refresh_token']);
+
+            // Notification channel webhook URLs and webhook subscription secrets are encrypted with the same keys
+            const channels = await this.reencryptColumns('notification_channels', 'channel_id', ['webhook_url']);
+            const subscriptions = await this.reencryptColumns('webhook_subscriptions', 'subscription_id', ['secret']);
+            const failed = credentials.failed.length + agencies.failed.length + channels.failed.length + subscriptions.failed.length;
+
+            return {
+                status: failed === 0 ? ResponseStatus.SUCCESS : ResponseStatus.ERROR,
+                httpCode: failed === 0 ? 200 : 500,
+                message: failed === 0
+                    ? "Tokens re-encrypted successfully"
+                    : `Failed to re-encrypt tokens for ${credentials.failed.length} credentials, ${agencies.failed.length} agency credentials, ${channels.failed.length} notification channels and ${subscriptions.failed.length} webhook subscriptions`,
+                data: {
+                    totalCredentials: credentials.total,
+                    updatedCredentials: credentials.updated,
+                    failedLocations: credentials.failed,
+                    totalAgencyCredentials: agencies.total,
+                    updatedAgencyCredentials: agencies.updated,
+                    failedCompanies: agencies.failed,
+                    totalChannels: channels.total,
+                    updatedChannels: channels.updated,
+                    failedChannels: channels.failed,
+                    totalSubscriptions: subscriptions.total,
+                    updatedSubscriptions: subscriptions.updated,
+                    failedSubscriptions: subscriptions.failed
+                }
+            };
+        } catch (error) {
+            console.error("Database error in reencryptTokens:", error);
+            return {
+                status: ResponseStatus.ERROR,
+                httpCode: 500,
+                errorCode: 'DATABASE_ERROR',
+                message: `Failed to re-encrypt tokens: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+    }
+
+    // Helper method to re-encrypt the encrypted columns of a table with the active key
+    // A row written while its values were being encrypted (e.g. by a token refresh) already holds values encrypted
+    // with the active key, so it is only updated if it still holds the values that were read.
+    private async reencryptColumns(table: string, idColumn: string, columns: string[]): Promise<{ total: number; updated: number; failed: string[] }> {
+        const rows = this.sql.exec(`SELECT ${idColumn} AS id, ${columns.join(', ')} FROM ${table}`).toArray();
+        let updated = 0;
+        const failed: string[] = [];
+
+        for (const row of rows) {
+            const values = columns.map(column => row[column] as string | null);
+            if (!values.some(value => this.tokenCipher.needsReencryption(value))) {
+                continue;
+            }
+            try {
+                const reencrypted = await Promise.all(values.map(value => value ? this.tokenCipher.reencrypt(value) : value));
+                const written = this.sql.exec(
+                    `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE ${idColumn} = ? AND ${columns.map(column => `${column} IS ?`).join(' AND ')}`,
+                    ...reencrypted,
+                    row.id,
+                    ...values
+                ).rowsWritten;
+                if (written === 0) {
+                    console.log(`Skipped re-encrypting ${table} row ${row.id}, it changed while it was being encrypted`);
+                    continue;
+                }
+                updated++;
+            } catch (error) {
+                console.error(`Failed to re-encrypt ${table} row ${row.id}`, error);
+                failed.push(row.id as string);
+            }
+        }
+
+        console.log(`Re-encrypted ${table} for ${updated} of ${rows.length} rows`);
+        return { total: rows.length, updated, failed };
+    }
+}
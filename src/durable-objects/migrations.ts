@@ -0,0 +1,390 @@
+/**
+ * Schema Migrations for CredentialsDurableObject
+ * Ordered list of schema changes applied to the Durable Object's SQLite storage on startup
+ */
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: (sql: SqlStorage) => void;
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    applied_at: string;
+}
+
+export interface SchemaVersionInfo {
+    currentVersion: number;
+    latestVersion: number;
+    pendingVersions: number[];
+    appliedMigrations: AppliedMigration[];
+}
+
+/**
+ * All migrations in the order they must be applied.
+ * Never edit or reorder a migration once it has been deployed - append a new one instead.
+ */
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'create_credentials_table',
+        up: (sql) => {
+            // IF NOT EXISTS keeps deployments that created the table before migrations existed intact
+            sql.exec(`CREATE TABLE IF NOT EXISTS credentials(
+                location_id TEXT PRIMARY KEY,
+                company_id TEXT,
+                access_token TEXT,
+                refresh_token TEXT,
+                expires_at TIMESTAMP,
+                receiver_emails TEXT DEFAULT '[]'
+            );`);
+        }
+    },
+    {
+        version: 2,
+        name: 'add_credentials_auth_status',
+        up: (sql) => {
+            sql.exec(`ALTER TABLE credentials ADD COLUMN auth_status TEXT DEFAULT 'healthy';`);
+            sql.exec(`ALTER TABLE credentials ADD COLUMN auth_status_reason TEXT;`);
+            sql.exec(`ALTER TABLE credentials ADD COLUMN auth_status_updated_at TEXT;`);
+        }
+    },
+    {
+        version: 3,
+        name: 'create_agency_credentials_table',
+        up: (sql) => {
+            sql.exec(`CREATE TABLE IF NOT EXISTS agency_credentials(
+                company_id TEXT PRIMARY KEY,
+                access_token TEXT,
+                refresh_token TEXT,
+                expires_at TIMESTAMP,
+                auth_status TEXT DEFAULT 'healthy',
+                auth_status_reason TEXT,
+                auth_status_updated_at TEXT,
+                installed_at TEXT
+            );`);
+            sql.exec(`ALTER TABLE credentials ADD COLUMN install_source TEXT DEFAULT 'location';`);
+        }
+    },
+    {
+        version: 4,
+        name: 'create_webhook_events_table',
+        up: (sql) => {
+            sql.exec(`CREATE TABLE IF NOT EXISTS webhook_events(
+                webhook_id TEXT PRIMARY KEY,
+                event_type TEXT NOT NULL,
+                location_id TEXT,
+                company_id TEXT,
+                payload TEXT,
+                outcome TEXT,
+                outcome_message TEXT,
+                received_at TEXT NOT NULL,
+                processed_at TEXT
+            );`);
+            sql.exec(`ALTER TABLE credentials ADD COLUMN location_name TEXT;`);
+        }
+    },
+    {
+        version: 5,
+        name: 'create_api_keys_table',
+        up: (sql) => {
+            sql.exec(`CREATE TABLE IF NOT EXISTS api_keys(
+                key_id TEXT PRIMARY KEY,
+                name TEXT NOT NULL,
+                key_hash TEXT NOT NULL UNIQUE,
+                key_prefix TEXT NOT NULL,
+                role TEXT NOT NULL,
+                location_id TEXT,
+                created_by TEXT,
+                created_at TEXT NOT NULL,
+                last_used_at TEXT,
+                revoked_at TEXT
+            );`);
+        }
+    },
+    {
+        version: 6,
+        name: 'create_auth_failure_tables',
+        up: (sql) => {
+            sql.exec(`CREATE TABLE IF NOT EXISTS auth_failures(
+                scope TEXT NOT NULL,
+                subject TEXT NOT NULL,
+                failure_count INTEGER NOT NULL DEFAULT 0,
+                first_failure_at TEXT,
+                last_failure_at TEXT,
+                lockout_count INTEGER NOT NULL DEFAULT 0,
+                locked_until TEXT,
+                PRIMARY KEY (scope, subject)
+            );`);
+            sql.exec(`CREATE TABLE IF NOT EXISTS lockout_events(
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                scope TEXT NOT NULL,
+                subject TEXT NOT NULL,
+                failure_count INTEGER NOT NULL,
+                lockout_seconds INTEGER NOT NULL,
+                locked_until TEXT NOT NULL,
+                reason TEXT,
+                created_at TEXT NOT NULL
+            );`);
+        }
+    },
+    {
+        version: 7,
+        name: 'create_location_settings_table',
+        up: (sql) => {
+            sql.exec(`CREATE TABLE IF NOT EXISTS location_settings(
+                location_id TEXT PRIMARY KEY,
+                low_stock_threshold INTEGER,
+                updated_at TEXT
+            );`);
+        }
+    },
+    {
+        version: 8,
+        name: 'create_reorder_points_table',
+        up: (sql) => {
+            // variant_id is '' for a product-wide reorder point, so it can be part of the primary key
+            sql.exec(`CREATE TABLE IF NOT EXISTS reorder_points(
+                location_id TEXT NOT NULL,
+                product_id TEXT NOT NULL,
+                variant_id TEXT NOT NULL DEFAULT '',
+                reorder_point INTEGER NOT NULL,
+                updated_at TEXT NOT NULL,
+                PRIMARY KEY (location_id, product_id, variant_id)
+            );`);
+        }
+    },
+    {
+        version: 9,
+        name: 'create_inventory_snapshot_tables',
+        up: (sql) => {
+            sql.exec(`CREATE TABLE IF NOT EXISTS inventory_snapshots(
+                snapshot_id INTEGER PRIMARY KEY AUTOINCREMENT,
+                location_id TEXT NOT NULL,
+                taken_at TEXT NOT NULL,
+                total_items INTEGER NOT NULL
+            );`);
+            sql.exec(`CREATE INDEX IF NOT EXISTS idx_inventory_snapshots_location_taken_at
+                ON inventory_snapshots(location_id, taken_at);`);
+
+            // One row per item (variant) and snapshot, item_id is the inventory item's _id
+            sql.exec(`CREATE TABLE IF NOT EXISTS inventory_snapshot_items(
+                snapshot_id INTEGER NOT NULL,
+                item_id TEXT NOT NULL,
+                product_id TEXT,
+                quantity INTEGER NOT NULL,
+                PRIMARY KEY (snapshot_id, item_id)
+            );`);
+            sql.exec(`CREATE INDEX IF NOT EXISTS idx_inventory_snapshot_items_item
+                ON inventory_snapshot_items(item_id, snapshot_id);`);
+        }
+    },
+    {
+        version: 10,
+        name: 'create_item_alert_states_and_alert_mode',
+        up: (sql) => {
+            // Items without a row are in stock above their reorder point
+            sql.exec(`CREATE TABLE IF NOT EXISTS item_alert_states(
+                location_id TEXT NOT NULL,
+                item_id TEXT NOT NULL,
+                state TEXT NOT NULL,
+                since TEXT NOT NULL,
+                PRIMARY KEY (location_id, item_id)
+            );`);
+            sql.exec(`ALTER TABLE location_settings ADD COLUMN alert_mode TEXT;`);
+        }
+    },
+    {
+        version: 11,
+        name: 'add_back_in_stock_notifications_setting',
+        up: (sql) => {
+            // 1 or 0, NULL uses the default (off)
+            sql.exec(`ALTER TABLE location_settings ADD COLUMN back_in_stock_notifications INTEGER;`);
+        }
+    },
+    {
+        version: 12,
+        name: 'create_notification_channels_table',
+        up: (sql) => {
+            // webhook_url is encrypted like the tokens, anyone holding it can post to the channel
+            sql.exec(`CREATE TABLE IF NOT EXISTS notification_channels(
+                channel_id TEXT PRIMARY KEY,
+                location_id TEXT NOT NULL,
+                type TEXT NOT NULL,
+                name TEXT NOT NULL,
+                webhook_url TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );`);
+            sql.exec(`CREATE INDEX IF NOT EXISTS idx_notification_channels_location
+                ON notification_channels(location_id);`);
+        }
+    },
+    {
+        version: 13,
+        name: 'create_webhook_subscription_tables',
+        up: (sql) => {
+            // event_types is a JSON array, secret is encrypted like the tokens
+            sql.exec(`CREATE TABLE IF NOT EXISTS webhook_subscriptions(
+                subscription_id TEXT PRIMARY KEY,
+                location_id TEXT NOT NULL,
+                url TEXT NOT NULL,
+                secret TEXT NOT NULL,
+                event_types TEXT NOT NULL,
+                created_at TEXT NOT NULL
+            );`);
+            sql.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_location
+                ON webhook_subscriptions(location_id);`);
+            // One row per event and subscription, the payload is kept so failed deliveries can be sent again
+            sql.exec(`CREATE TABLE IF NOT EXISTS webhook_deliveries(
+                delivery_id TEXT PRIMARY KEY,
+                subscription_id TEXT NOT NULL,
+                location_id TEXT NOT NULL,
+                event_id TEXT NOT NULL,
+                event_type TEXT NOT NULL,
+                payload TEXT NOT NULL,
+                status TEXT NOT NULL,
+                attempts INTEGER NOT NULL,
+                response_status INTEGER,
+                error TEXT,
+                created_at TEXT NOT NULL,
+                last_attempt_at TEXT NOT NULL
+            );`);
+            sql.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_location_created
+                ON webhook_deliveries(location_id, created_at);`);
+            sql.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status
+                ON webhook_deliveries(location_id, status);`);
+        }
+    },
+    {
+        version: 14,
+        name: 'create_captured_emails_table',
+        up: (sql) => {
+            // Emails of the capture transport, which stores them instead of sending them
+            sql.exec(`CREATE TABLE IF NOT EXISTS captured_emails(
+                capture_id TEXT PRIMARY KEY,
+                sender TEXT NOT NULL,
+                recipient TEXT NOT NULL,
+                subject TEXT NOT NULL,
+                html TEXT NOT NULL,
+                captured_at TEXT NOT NULL
+            );`);
+        }
+    },
+    {
+        version: 15,
+        name: 'create_email_branding_table',
+        up: (sql) => {
+            // Per-location overrides of the email templates, NULL uses the default
+            sql.exec(`CREATE TABLE IF NOT EXISTS email_branding(
+                location_id TEXT PRIMARY KEY,
+                logo_url TEXT,
+                primary_color TEXT,
+                accent_color TEXT,
+                header_text TEXT,
+                footer_text TEXT,
+                updated_at TEXT NOT NULL
+            );`);
+        }
+    },
+    {
+        version: 16,
+        name: 'create_webhook_alert_states_table',
+        up: (sql) => {
+            // The item_alert_states of the stock events, so a failed email does not repeat the events
+            sql.exec(`CREATE TABLE IF NOT EXISTS webhook_alert_states(
+                location_id TEXT NOT NULL,
+                item_id TEXT NOT NULL,
+                state TEXT NOT NULL,
+                since TEXT NOT NULL,
+                PRIMARY KEY (location_id, item_id)
+            );`);
+        }
+    }
+];
+
+/**
+ * Runs the migrations that have not been applied yet
+ * Each migration and its schema_version record are committed in a single transaction,
+ * so a failing migration leaves the database at the previous version.
+ * @param storage - The Durable Object storage
+ * @param migrations - Ordered migrations to apply
+ * @returns The schema version after applying pending migrations
+ * @throws Error if a migration fails or the migration list is out of order
+ */
+export function runMigrations(storage: DurableObjectStorage, migrations: Migration[] = MIGRATIONS): number {
+    const sql = storage.sql;
+
+    sql.exec(`CREATE TABLE IF NOT EXISTS schema_version(
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+    );`);
+
+    let currentVersion = getCurrentSchemaVersion(sql);
+
+    for (let i = 0; i < migrations.length; i++) {
+        const migration = migrations[i];
+
+        if (migration.version !== i + 1) {
+            throw new Error(`Migration '${migration.name}' has version ${migration.version}, expected ${i + 1}`);
+        }
+
+        if (migration.version <= currentVersion) {
+            continue;
+        }
+
+        console.log(`Applying schema migration ${migration.version}: ${migration.name}`);
+
+        try {
+            storage.transactionSync(() => {
+                migration.up(sql);
+                sql.exec(
+                    "INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)",
+                    migration.version,
+                    migration.name,
+                    new Date().toISOString()
+                );
+            });
+        } catch (error) {
+            console.error(`Schema migration ${migration.version} (${migration.name}) failed:`, error);
+            throw new Error(`Schema migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+
+        currentVersion = migration.version;
+    }
+
+    return currentVersion;
+}
+
+/**
+ * Reads the highest applied schema version
+ * @param sql - The Durable Object SQL storage
+ * @returns The current schema version, 0 if no migration has been applied
+ */
+export function getCurrentSchemaVersion(sql: SqlStorage): number {
+    const row = sql.exec<{ version: number | null }>("SELECT MAX(version) AS version FROM schema_version").toArray()[0];
+    return row?.version ?? 0;
+}
+
+/**
+ * Describes the schema state of a deployment
+ * @param sql - The Durable Object SQL storage
+ * @param migrations - Ordered migrations known to this build
+ * @returns Current and latest versions plus the applied migration history
+ */
+export function getSchemaVersionInfo(sql: SqlStorage, migrations: Migration[] = MIGRATIONS): SchemaVersionInfo {
+    const currentVersion = getCurrentSchemaVersion(sql);
+    const appliedMigrations = sql
+        .exec<{ version: number; name: string; applied_at: string }>("SELECT version, name, applied_at FROM schema_version ORDER BY version")
+        .toArray()
+        .map(row => ({ version: row.version, name: row.name, applied_at: row.applied_at }));
+
+    return {
+        currentVersion,
+        latestVersion: migrations.length,
+        pendingVersions: migrations.filter(m => m.version > currentVersion).map(m => m.version),
+        appliedMigrations
+    };
+}
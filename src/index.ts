@@ -1,29 +1,163 @@
 import { CredentialsDurableObject } from "./durable-objects/credentials-durable-object";
 import { ResponseBuilder } from "./common-types/response-builder";
-import { createOAuthHandler } from "./services/authentication-service";
-import { createInventoryQueryService } from "./services/inventory-query-service";
+import { createOAuthHandler, createOAuthStateService } from "./services/authentication-service";
+import { createInventoryQueryService, parseInventoryQueryParams, parseInventoryValuationParams } from "./services/inventory-query-service";
 import { createEmailUpdateService } from "./services/email-update-service";
+import { createLocationSettingsService } from "./services/location-settings-service";
+import { createEmailTemplateService } from "./services/email-template-service";
+import { createReorderPointService } from "./services/reorder-point-service";
+import { createNotificationChannelService } from "./services/notification-channel-service";
+import { createWebhookSubscriptionService } from "./services/webhook-subscription-service";
+import { createEmailTransport } from "./services/email-service";
+import { createInventoryHistoryService } from "./services/inventory-history-service";
 import { createUpdateAllClientStockStatus } from "./processes/update-all-client-stock-status";
+import { createRefreshExpiringTokens } from "./processes/refresh-expiring-tokens";
+import { createSyncAgencyLocations } from "./processes/sync-agency-locations";
+import { createMarketplaceWebhookService, createWebhookSignatureVerifier } from "./services/marketplace-webhook-service";
+import { ApiKeyService, ApiPermission, createApiKeyService } from "./services/api-key-service";
+import { ApiKeyRole } from "./common-types/api-key-role";
+import { BruteForceProtectionService, createBruteForceProtectionService } from "./services/brute-force-protection-service";
+import { LockoutStatus } from "./common-types/auth-lockout";
+import { timingSafeEqualStrings } from "./utils/security/constant-time";
+import { createTokenCipher } from "./utils/token-management/token-cipher";
+import { createLeadConnectorClient } from "./utils/leadconnector";
 
 export { CredentialsDurableObject };
 
+// Cron schedule of the proactive token refresh job (see wrangler.jsonc), all other schedules run stock updates
+const TOKEN_REFRESH_CRON = '30 */4 * * *';
+
+// Most rows the /test/webhookEvents and /test/capturedEmails endpoints return
+const MAX_TEST_LIST_LIMIT = 200;
+
 /**
  * Validates the app password from request body
+ * Only used to create the first admin API key, every other route is authenticated by API key.
  * @param body - The request body containing appPassword
  * @param env - Environment variables containing APP_PASSWORD
+ * @param bruteForceProtection - Counts failed attempts and locks out repeat offenders
+ * @param request - The incoming request
  * @returns Response object if validation fails, null if validation passes
  */
-function validateAppPassword(body: any, env: Env): Response | null {
-    if (!body.appPassword || body.appPassword !== env.APP_PASSWORD) {
+async function validateAppPassword(body: any, env: Env, bruteForceProtection: BruteForceProtectionService, request: Request): Promise<Response | null> {
+    const lockout = await bruteForceProtection.checkLockout(request);
+    if (lockout.locked) return buildLockoutResponse(lockout);
+
+    if (!body.appPassword || !env.APP_PASSWORD || !(await timingSafeEqualStrings(String(body.appPassword), env.APP_PASSWORD))) {
+        const failure = await bruteForceProtection.recordFailure(request, 'INVALID_PASSWORD');
+        if (failure.locked) return buildLockoutResponse(failure);
+
         return ResponseBuilder.build(401, {
             status: 'ERROR',
             errorCode: 'INVALID_PASSWORD',
             message: 'Invalid or missing app password'
         });
     }
+
+    await bruteForceProtection.recordSuccess(request);
     return null;
 }
 
+/**
+ * Authenticates the API key in the Authorization header and checks it grants a permission
+ * Invalid keys and attempts on other locations count towards a lockout of the client IP and the presented key prefix,
+ * a locked out IP or key prefix is turned away before the key is checked.
+ * @param apiKeyService - The API key service
+ * @param bruteForceProtection - Counts failed attempts and locks out repeat offenders
+ * @param request - The incoming request
+ * @param permission - The permission the route requires
+ * @param locationId - The location the request targets, if any (location-bound keys are limited to it)
+ * @returns Response object if the request is not allowed, null if it is
+ */
+async function requireApiKey(
+    apiKeyService: ApiKeyService,
+    bruteForceProtection: BruteForceProtectionService,
+    request: Request,
+    permission: ApiPermission,
+    locationId?: string
+): Promise<Response | null> {
+    const lockout = await bruteForceProtection.checkLockout(request);
+    if (lockout.locked) return buildLockoutResponse(lockout);
+
+    const auth = await apiKeyService.authorize(request, permission, locationId);
+    if (!auth.authorized) {
+        if (auth.errorCode === 'INVALID_API_KEY' || auth.errorCode === 'LOCATION_NOT_ALLOWED') {
+            const failure = await bruteForceProtection.recordFailure(request, auth.errorCode);
+            if (failure.locked) return buildLockoutResponse(failure);
+        }
+
+        return ResponseBuilder.build(auth.httpCode, {
+            status: 'ERROR',
+            errorCode: auth.errorCode,
+            message: auth.message
+        });
+    }
+
+    await bruteForceProtection.recordSuccess(request);
+    return null;
+}
+
+/**
+ * Builds the 429 response for a locked out client or API key
+ * @param lockout - The lockout status
+ * @returns Response object with a Retry-After header
+ */
+function buildLockoutResponse(lockout: LockoutStatus): Response {
+    return ResponseBuilder.build(429, {
+        status: 'ERROR',
+        errorCode: 'TOO_MANY_FAILED_ATTEMPTS',
+        message: `Too many failed authentication attempts, try again in ${lockout.retryAfterSeconds} seconds`,
+        retryAfterSeconds: lockout.retryAfterSeconds
+    }, { 'Retry-After': String(lockout.retryAfterSeconds) });
+}
+
+/**
+ * Parses a JSON request body, treating an empty body as an empty object
+ * @param request - The incoming request
+ * @returns The parsed body
+ * @throws SyntaxError if the body is not valid JSON
+ */
+async function readJsonBody(request: Request): Promise<any> {
+    const text = await request.text();
+    return text ? JSON.parse(text) : {};
+}
+
+/**
+ * Validates an optional `limit` from a request body
+ * @param limit - The value sent, left out to use the default
+ * @param maxLimit - The largest allowed limit
+ * @returns Response object if the limit is invalid, null if it is valid or left out
+ */
+function validateLimit(limit: unknown, maxLimit: number): Response | null {
+    if (limit === undefined || limit === null) return null;
+
+    const parsedLimit = Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > maxLimit) {
+        return ResponseBuilder.build(400, {
+            status: 'ERROR',
+            errorCode: 'INVALID_LIMIT',
+            message: `limit must be an integer between 1 and ${maxLimit}`
+        });
+    }
+    return null;
+}
+
+/**
+ * Checks that a value is an absolute http(s) URL on one of the allowed origins
+ * @param value - The value to check
+ * @param allowedOrigins - Comma-separated origins (OAUTH_RETURN_URL_ORIGINS), none allows no URL
+ * @returns True if the value parses as an http or https URL whose origin is allowed
+ */
+function isAllowedReturnUrl(value: string, allowedOrigins: string | undefined): boolean {
+    try {
+        const parsed = new URL(value);
+        const origins = (allowedOrigins ?? '').split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+        return (parsed.protocol === 'https:' || parsed.protocol === 'http:') && origins.includes(parsed.origin);
+    } catch {
+        return false;
+    }
+}
+
 export default {
     /**
      * This is the standard fetch handler for a Cloudflare Worker
@@ -54,21 +188,52 @@ export default {
         // Object instance.
         const stub = env.CREDENTIALS_DURABLE_OBJECT.get(id);
 
+        // Tokens read from the Durable Object are encrypted and only decrypted where they are used
+        const tokenCipher = createTokenCipher(env.TOKEN_ENCRYPTION_KEYS);
+
+        // Protected routes authenticate with scoped API keys sent as "Authorization: Bearer <key>"
+        const apiKeyService = createApiKeyService(stub);
+        const bruteForceProtection = createBruteForceProtectionService(stub);
+
         /**
          * Oauth endpoints start. -----------------------------------------------------
          */
         // Handle OAuth initiation
         if (method === 'GET' && pathname === '/oauth/initiate') {
             console.log('OAuth initiation requested');
+
+            // Optional context carried through the OAuth round trip in the signed state
+            const returnUrl = url.searchParams.get('returnUrl') || undefined;
+            const invitedBy = url.searchParams.get('invitedBy') || undefined;
+            const userType = url.searchParams.get('userType') || 'Location';
+
+            if (userType !== 'Location' && userType !== 'Company') {
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_USER_TYPE',
+                    message: "userType must be 'Location' or 'Company'"
+                });
+            }
+
+            // The callback page links to returnUrl, so only origins we trust may be used
+            if (returnUrl && !isAllowedReturnUrl(returnUrl, env.OAUTH_RETURN_URL_ORIGINS)) {
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_RETURN_URL',
+                    message: 'returnUrl must be an absolute http(s) URL on an origin listed in OAUTH_RETURN_URL_ORIGINS'
+                });
+            }
             
             const oauthHandler = createOAuthHandler(
                 env.GHL_CLIENT_ID!,
                 env.GHL_CLIENT_SECRET!,
                 env.DOMAIN,
+                createOAuthStateService(env.OAUTH_STATE_SECRET),
+                createLeadConnectorClient(env),
                 ['products.readonly', 'products/prices.readonly']
             );
             
-            return oauthHandler.handleInitiation();
+            return oauthHandler.handleInitiation({ returnUrl, invitedBy, userType });
         }
         
         // Handle OAuth callback
@@ -78,31 +243,143 @@ export default {
             const oauthHandler = createOAuthHandler(
                 env.GHL_CLIENT_ID!,
                 env.GHL_CLIENT_SECRET!,
-                env.DOMAIN
+                env.DOMAIN,
+                createOAuthStateService(env.OAUTH_STATE_SECRET),
+                createLeadConnectorClient(env)
             );
             
             // Pass the credential storage interface to the handler
             return oauthHandler.handleCallback(request, {
-                insertCredential: async (credential) => {
-                    return await stub.insertCredential(credential);
+                upsertCredential: async (credential) => {
+                    return await stub.upsertCredential(credential);
+                },
+                upsertAgencyCredential: async (credential) => {
+                    const result = await stub.upsertAgencyCredential(credential);
+
+                    // Install the agency's locations in the background, the callback page does not wait for it
+                    if (result.status === 'SUCCESS') {
+                        const agencySync = createSyncAgencyLocations({ credentialsStub: stub });
+                        ctx.waitUntil(agencySync.syncAgency(credential.company_id).then(syncResult => {
+                            console.log(`Agency ${credential.company_id} sync: installed ${syncResult.locationsInstalled}, reconnected ${syncResult.locationsReconnected}, ${syncResult.errors.length} errors`);
+                        }));
+                    }
+
+                    return result;
                 }
             });
         }
         /**
          * Oauth endpoints end. -----------------------------------------------------
          */
+
+        // Handle marketplace app lifecycle webhooks (INSTALL, UNINSTALL, LocationUpdate)
+        if (method === 'POST' && pathname === '/webhooks/marketplace') {
+            try {
+                const webhookService = createMarketplaceWebhookService(
+                    stub,
+                    createWebhookSignatureVerifier(env.GHL_WEBHOOK_PUBLIC_KEY),
+                    env.GHL_APP_ID
+                );
+
+                const { httpCode, ...result } = await webhookService.handleWebhook(request);
+                return ResponseBuilder.build(httpCode, result);
+
+            } catch (error) {
+                console.error('Error handling marketplace webhook:', error);
+                return ResponseBuilder.build(500, {
+                    status: 'ERROR',
+                    errorCode: 'PROCESSING_ERROR',
+                    message: 'Failed to handle marketplace webhook',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
         
+        /**
+         * API key endpoints start. -----------------------------------------------------
+         */
+        // Create an API key (requires keys:manage API key, or APP_PASSWORD for the first admin key)
+        if (method === 'POST' && pathname === '/admin/api-keys') {
+            try {
+                const body = await request.json() as any;
+
+                if (await apiKeyService.hasActiveAdminKey()) {
+                    const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'keys:manage');
+                    if (authError) return authError;
+                } else {
+                    // Bootstrap: without an admin key the app password may create one admin key
+                    const passwordError = await validateAppPassword(body, env, bruteForceProtection, request);
+                    if (passwordError) return passwordError;
+
+                    if (body.role !== ApiKeyRole.ADMIN) {
+                        return ResponseBuilder.build(400, {
+                            status: 'ERROR',
+                            errorCode: 'ADMIN_KEY_REQUIRED',
+                            message: 'Create an admin key first, the app password can only create the first admin key'
+                        });
+                    }
+                }
+
+                const result = await apiKeyService.createApiKey({
+                    name: body.name,
+                    role: body.role,
+                    locationId: body.locationId,
+                    createdBy: body.createdBy
+                });
+
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error creating API key:', error);
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_REQUEST',
+                    message: 'Invalid JSON in request body'
+                });
+            }
+        }
+
+        // List API keys (requires keys:manage API key)
+        if (method === 'GET' && pathname === '/admin/api-keys') {
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'keys:manage');
+            if (authError) return authError;
+
+            const result = await apiKeyService.listApiKeys();
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Revoke an API key (requires keys:manage API key)
+        if (method === 'DELETE' && pathname.startsWith('/admin/api-keys/')) {
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'keys:manage');
+            if (authError) return authError;
+
+            const keyId = decodeURIComponent(pathname.slice('/admin/api-keys/'.length));
+            const result = await apiKeyService.revokeApiKey(keyId);
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+        // Show the most recent brute-force lockouts (requires admin API key)
+        if (method === 'GET' && pathname === '/admin/lockout-events') {
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+            if (authError) return authError;
+
+            const result = await bruteForceProtection.getLockoutEvents(url.searchParams.get('limit'));
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+        /**
+         * API key endpoints end. -----------------------------------------------------
+         */
+
         /**
          * Test endpoints start. -----------------------------------------------------
          */
-        // Handle POST /credentials - return all credentials (requires app password)
+        // Handle POST /credentials - return all credentials (requires admin API key)
         if (method === 'POST' && pathname === '/test/show-all-credentials') {
             try {
-                const body = await request.json() as any;
-                
-                // Validate app password
-                const passwordError = validateAppPassword(body, env);
-                if (passwordError) return passwordError;
+                const body = await readJsonBody(request);
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
 
                 const location_id = body.location_id;
                 if (location_id) {
@@ -120,9 +397,6 @@ export default {
                     for (const credential of dataArray ?? []) {
                         credentialsDB.push(JSON.stringify(credential));
                     }
-                    for (const credential of credentialsDB) {
-                        console.log(`Credential: ${credential}`);
-                    }
                     return ResponseBuilder.build(result.httpCode, credentialsDB);
                 }
             } catch (error) {
@@ -135,14 +409,33 @@ export default {
             }
         }
 
-        // Handle POST /credentials - insert new credential (requires app password)
+        // Schema version endpoint - shows which migration the Durable Object storage is on (requires admin API key)
+        if (method === 'POST' && pathname === '/test/schema-version') {
+            try {
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
+
+                const result = await stub.getSchemaVersion();
+                return ResponseBuilder.build(result.httpCode, result);
+            } catch (error) {
+                console.error('Error in schema-version endpoint:', error);
+                return ResponseBuilder.build(500, {
+                    status: 'ERROR',
+                    message: 'Failed to read schema version',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
+        // Handle POST /credentials - insert new credential (requires admin API key)
         if (method === 'POST' && pathname === '/test/remove-credentials') {
             try {
-                const body = await request.json() as any;
-                
-                // Validate app password
-                const passwordError = validateAppPassword(body, env);
-                if (passwordError) return passwordError;
+                const body = await readJsonBody(request);
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
                 
                 // Validate required fields
                 const requiredFields = ['location_id', 'company_id', 'access_token', 'refresh_token', 'expires_at'];
@@ -177,14 +470,33 @@ export default {
             }
         }
 
-        // Inventory summary endpoint using the simplified inventory service (requires app password)
+        // Re-encrypt stored tokens with the active key after a key rotation (requires admin API key)
+        if (method === 'POST' && pathname === '/test/reencrypt-tokens') {
+            try {
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
+
+                const result = await stub.reencryptTokens();
+                return ResponseBuilder.build(result.httpCode, result);
+            } catch (error) {
+                console.error('Error in reencrypt-tokens endpoint:', error);
+                return ResponseBuilder.build(500, {
+                    status: 'ERROR',
+                    message: 'Failed to re-encrypt tokens',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
+        // Inventory summary endpoint using the simplified inventory service (requires inventory:read API key)
         if (method === 'POST' && pathname === '/test/getInventory') {
             try {
-                const body = await request.json() as any;
-                
-                // Validate app password
-                const passwordError = validateAppPassword(body, env);
-                if (passwordError) return passwordError;
+                const body = await readJsonBody(request);
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', body.location_id);
+                if (authError) return authError;
 
                 const location_id = body.location_id;
                 
@@ -198,12 +510,14 @@ export default {
                 // Create inventory query service
                 const inventoryService = createInventoryQueryService(
                     stub,
-                    env.GHL_CLIENT_ID!,
-                    env.GHL_CLIENT_SECRET!
+                    tokenCipher,
+                    { pageSize: Number(env.INVENTORY_PAGE_SIZE) || undefined, apiClient: createLeadConnectorClient(env) }
                 );
 
-                // Get inventory summary
-                const summary = await inventoryService.queryInventorySummary(location_id);
+                // Get inventory summary, an explicit lowStockThreshold overrides the location's setting
+                const summary = await inventoryService.queryInventorySummary(location_id, {
+                    lowStockThreshold: typeof body.lowStockThreshold === 'number' ? body.lowStockThreshold : undefined
+                });
 
                 console.log(`Inventory summary result: location=${summary.location_id}, total=${summary.total_items}, available=${summary.total_available_quantity}`);
 
@@ -224,29 +538,118 @@ export default {
             }
         }
 
-        // Update receiver emails endpoint
+        // Query inventory items with filters, sorting and paging (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/inventory') {
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', url.searchParams.get('locationId') ?? undefined);
+            if (authError) return authError;
+
+            const parsed = parseInventoryQueryParams(url.searchParams);
+            if (!parsed.valid) {
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_QUERY',
+                    message: parsed.message
+                });
+            }
+
+            const inventoryService = createInventoryQueryService(
+                stub,
+                tokenCipher,
+                { pageSize: Number(env.INVENTORY_PAGE_SIZE) || undefined, apiClient: createLeadConnectorClient(env) }
+            );
+
+            const result = await inventoryService.queryInventory(parsed.request);
+            if (!result.success) {
+                return ResponseBuilder.build(502, {
+                    status: 'ERROR',
+                    errorCode: 'INVENTORY_QUERY_FAILED',
+                    message: result.error,
+                    data: result
+                });
+            }
+
+            return ResponseBuilder.build(200, {
+                status: 'SUCCESS',
+                message: result.message,
+                data: result
+            });
+        }
+
+        // Stock value per currency and per product (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/inventory/valuation') {
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', url.searchParams.get('locationId') ?? undefined);
+            if (authError) return authError;
+
+            const parsed = parseInventoryValuationParams(url.searchParams);
+            if (!parsed.valid) {
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_QUERY',
+                    message: parsed.message
+                });
+            }
+
+            const inventoryService = createInventoryQueryService(
+                stub,
+                tokenCipher,
+                { pageSize: Number(env.INVENTORY_PAGE_SIZE) || undefined, apiClient: createLeadConnectorClient(env) }
+            );
+
+            try {
+                const report = await inventoryService.queryInventoryValuation(parsed.locationId, { lowStockThreshold: parsed.lowStockThreshold });
+                return ResponseBuilder.build(200, {
+                    status: 'SUCCESS',
+                    message: `Valued ${report.products.length} products in ${report.valuation.length} currencies`,
+                    data: report
+                });
+            } catch (error) {
+                return ResponseBuilder.build(502, {
+                    status: 'ERROR',
+                    errorCode: 'INVENTORY_QUERY_FAILED',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
+        // Inventory snapshot history of a location or one item (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/inventory/history') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const result = await createInventoryHistoryService(stub).getHistory({
+                locationId,
+                itemId: url.searchParams.get('itemId'),
+                from: url.searchParams.get('from'),
+                to: url.searchParams.get('to'),
+                limit: url.searchParams.get('limit'),
+                includeItems: url.searchParams.get('includeItems')
+            });
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Update receiver emails endpoint (requires emails:write API key)
         if (method === 'POST' && pathname === '/updateEmail') {
             try {
                 const body = await request.json() as any;
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'emails:write', body.locationId);
+                if (authError) return authError;
                 
                 // Create email update service
-                const emailUpdateService = createEmailUpdateService(
-                    stub,
-                    env.APP_PASSWORD!
-                );
+                const emailUpdateService = createEmailUpdateService(stub);
 
                 // Process the update request
                 const result = await emailUpdateService.updateReceiverEmails({
                     locationId: body.locationId,
-                    appPassword: body.appPassword,
                     emailList: body.emailList
                 });
 
                 // Return appropriate HTTP status based on result
                 const httpStatus = result.status === 'SUCCESS' ? 200 : 
-                                  result.errorCode === 'INVALID_PASSWORD' ? 401 :
                                   result.errorCode === 'MISSING_LOCATION_ID' || 
-                                  result.errorCode === 'MISSING_PASSWORD' || 
                                   result.errorCode === 'INVALID_EMAIL_LIST' ||
                                   result.errorCode === 'INVALID_EMAIL_FORMAT' ? 400 : 500;
 
@@ -262,24 +665,307 @@ export default {
             }
         }
 
-        // Test update all clients stock status endpoint (requires app password)
-        if (method === 'POST' && pathname === '/test/updateClients') {
+        // Read a location's settings (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/locationSettings') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const result = await createLocationSettingsService(stub).getSettings(locationId);
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Update a location's settings (requires settings:write API key)
+        if (method === 'POST' && pathname === '/locationSettings') {
             try {
                 const body = await request.json() as any;
-                
-                // Validate app password
-                const passwordError = validateAppPassword(body, env);
-                if (passwordError) return passwordError;
+
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', body.locationId);
+                if (authError) return authError;
+
+                const result = await createLocationSettingsService(stub).updateSettings({
+                    locationId: body.locationId,
+                    lowStockThreshold: body.lowStockThreshold,
+                    alertMode: body.alertMode,
+                    backInStockNotifications: body.backInStockNotifications
+                });
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error in location settings endpoint:', error);
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_REQUEST',
+                    message: 'Invalid JSON in request body'
+                });
+            }
+        }
+
+        // Read a location's email branding (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/emailBranding') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const result = await createEmailTemplateService(stub).getBranding(locationId);
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Update a location's email branding (requires settings:write API key)
+        if (method === 'POST' && pathname === '/emailBranding') {
+            try {
+                const body = await request.json() as any;
+
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', body.locationId);
+                if (authError) return authError;
+
+                const result = await createEmailTemplateService(stub).updateBranding({
+                    locationId: body.locationId,
+                    logoUrl: body.logoUrl,
+                    primaryColor: body.primaryColor,
+                    accentColor: body.accentColor,
+                    headerText: body.headerText,
+                    footerText: body.footerText
+                });
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error in email branding endpoint:', error);
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_REQUEST',
+                    message: 'Invalid JSON in request body'
+                });
+            }
+        }
+
+        // Render an email template with a location's branding without sending it (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/emailTemplates/preview') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const inventoryService = createInventoryQueryService(
+                stub,
+                tokenCipher,
+                { pageSize: Number(env.INVENTORY_PAGE_SIZE) || undefined, apiClient: createLeadConnectorClient(env) }
+            );
+            const result = await createEmailTemplateService(stub).preview({
+                locationId,
+                template: url.searchParams.get('template') ?? undefined,
+                source: url.searchParams.get('source') ?? undefined
+            }, inventoryService);
+
+            // format=html returns the email itself, to open in a browser; scripts are blocked as an email client would
+            if ('data' in result && url.searchParams.get('format') === 'html') {
+                return new Response(result.data.html, {
+                    headers: {
+                        'Content-Type': 'text/html; charset=utf-8',
+                        'Content-Security-Policy': "default-src 'none'; img-src https: http:; style-src 'unsafe-inline'",
+                        'Access-Control-Allow-Origin': '*'
+                    }
+                });
+            }
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // List a location's reorder points (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/reorderPoints') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const result = await createReorderPointService(stub).listReorderPoints(locationId);
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Create or update reorder points (requires settings:write API key)
+        if (method === 'POST' && pathname === '/reorderPoints') {
+            try {
+                const body = await request.json() as any;
+
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', body.locationId);
+                if (authError) return authError;
+
+                const result = await createReorderPointService(stub).setReorderPoints(body.locationId, body.reorderPoints);
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error in reorder points endpoint:', error);
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_REQUEST',
+                    message: 'Invalid JSON in request body'
+                });
+            }
+        }
+
+        // Bulk upload reorder points as CSV, the location is given in the query string (requires settings:write API key)
+        if (method === 'POST' && pathname === '/reorderPoints/csv') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', locationId);
+            if (authError) return authError;
+
+            const result = await createReorderPointService(stub).importReorderPointsCsv(locationId, await request.text());
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Delete a reorder point (requires settings:write API key)
+        if (method === 'DELETE' && pathname === '/reorderPoints') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', locationId);
+            if (authError) return authError;
+
+            const result = await createReorderPointService(stub).deleteReorderPoint(
+                locationId,
+                url.searchParams.get('productId') ?? '',
+                url.searchParams.get('variantId')
+            );
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // List a location's notification channels, without their webhook URLs (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/notificationChannels') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const result = await createNotificationChannelService(stub, tokenCipher).listChannels(locationId);
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Add a Slack, Teams or Discord notification channel (requires settings:write API key)
+        if (method === 'POST' && pathname === '/notificationChannels') {
+            try {
+                const body = await request.json() as any;
+
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', body.locationId);
+                if (authError) return authError;
+
+                const result = await createNotificationChannelService(stub, tokenCipher).createChannel({
+                    locationId: body.locationId,
+                    type: body.type,
+                    name: body.name,
+                    webhookUrl: body.webhookUrl
+                });
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error in notification channels endpoint:', error);
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_REQUEST',
+                    message: 'Invalid JSON in request body'
+                });
+            }
+        }
+
+        // Delete a notification channel (requires settings:write API key)
+        if (method === 'DELETE' && pathname === '/notificationChannels') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', locationId);
+            if (authError) return authError;
+
+            const result = await createNotificationChannelService(stub, tokenCipher).deleteChannel(
+                locationId,
+                url.searchParams.get('channelId') ?? ''
+            );
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // List a location's webhook subscriptions, without their secrets (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/webhookSubscriptions') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const result = await createWebhookSubscriptionService(stub, tokenCipher).listSubscriptions(locationId);
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Subscribe an endpoint to stock events, the response holds the signing secret (requires settings:write API key)
+        if (method === 'POST' && pathname === '/webhookSubscriptions') {
+            try {
+                const body = await request.json() as any;
+
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', body.locationId);
+                if (authError) return authError;
+
+                const result = await createWebhookSubscriptionService(stub, tokenCipher).createSubscription({
+                    locationId: body.locationId,
+                    url: body.url,
+                    eventTypes: body.eventTypes,
+                    secret: body.secret
+                });
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error in webhook subscriptions endpoint:', error);
+                return ResponseBuilder.build(400, {
+                    status: 'ERROR',
+                    errorCode: 'INVALID_REQUEST',
+                    message: 'Invalid JSON in request body'
+                });
+            }
+        }
+
+        // Delete a webhook subscription and its delivery log (requires settings:write API key)
+        if (method === 'DELETE' && pathname === '/webhookSubscriptions') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'settings:write', locationId);
+            if (authError) return authError;
+
+            const result = await createWebhookSubscriptionService(stub, tokenCipher).deleteSubscription(
+                locationId,
+                url.searchParams.get('subscriptionId') ?? ''
+            );
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Read a location's webhook delivery log (requires inventory:read API key)
+        if (method === 'GET' && pathname === '/webhookSubscriptions/deliveries') {
+            const locationId = url.searchParams.get('locationId') ?? '';
+
+            const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'inventory:read', locationId);
+            if (authError) return authError;
+
+            const result = await createWebhookSubscriptionService(stub, tokenCipher).getDeliveries({
+                locationId,
+                subscriptionId: url.searchParams.get('subscriptionId') ?? undefined,
+                limit: url.searchParams.get('limit') ?? undefined,
+                includePayload: url.searchParams.get('includePayload') ?? undefined
+            });
+            return ResponseBuilder.build(result.httpCode, result);
+        }
+
+        // Test update all clients stock status endpoint (requires admin API key)
+        if (method === 'POST' && pathname === '/test/updateClients') {
+            try {
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
 
                 console.log('Starting UpdateAllClientStockStatus process...');
                 
                 // Create the stock status updater
                 const stockStatusUpdater = createUpdateAllClientStockStatus({
                     credentialsStub: stub,
-                    clientId: env.GHL_CLIENT_ID!,
-                    clientSecret: env.GHL_CLIENT_SECRET!,
-                    resendApiKey: env.RESEND_API_KEY!,
-                    senderEmail: env.RESEND_DOMAIN // Default sender email for testing
+                    tokenCipher: tokenCipher,
+                    emailTransport: createEmailTransport(env, stub),
+                    senderEmail: env.RESEND_DOMAIN, // Default sender email for testing
+                    inventoryPageSize: Number(env.INVENTORY_PAGE_SIZE) || undefined,
+                    apiClient: createLeadConnectorClient(env),
+                    snapshotRetentionDays: Number(env.SNAPSHOT_RETENTION_DAYS) || undefined
                 });
 
                 // Process all clients
@@ -295,9 +981,17 @@ export default {
                         summary: {
                             processedLocations: result.processedLocations,
                             emailsSent: result.emailsSent,
+                            backInStockEmailsSent: result.backInStockEmailsSent,
+                            channelNotificationsSent: result.channelNotificationsSent,
+                            webhookDeliveriesSent: result.webhookDeliveriesSent,
+                            webhookDeliveriesFailed: result.webhookDeliveriesFailed,
                             errorsCount: result.errors.length,
                             locationsWithoutEmails: result.locationsWithoutEmails,
-                            locationsWithoutStock: result.locationsWithoutStock
+                            locationsWithoutStock: result.locationsWithoutStock,
+                            locationsWithoutNewIssues: result.locationsWithoutNewIssues,
+                            locationsNeedingReauthorization: result.locationsNeedingReauthorization,
+                            locationsUninstalled: result.locationsUninstalled,
+                            snapshotsRecorded: result.snapshotsRecorded
                         },
                         details: result.errors.length > 0 ? {
                             errors: result.errors
@@ -315,24 +1009,24 @@ export default {
             }
         }
 
-        // Test scheduled event handler endpoint (requires app password)
+        // Test scheduled event handler endpoint (requires admin API key)
         if (method === 'POST' && pathname === '/test/scheduledEvent') {
             try {
-                const body = await request.json() as any;
-                
-                // Validate app password
-                const passwordError = validateAppPassword(body, env);
-                if (passwordError) return passwordError;
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
 
                 console.log('Manually triggering scheduled event logic...');
                 
                 // Run the same logic as the scheduled event
                 const stockStatusUpdater = createUpdateAllClientStockStatus({
                     credentialsStub: stub,
-                    clientId: env.GHL_CLIENT_ID!,
-                    clientSecret: env.GHL_CLIENT_SECRET!,
-                    resendApiKey: env.RESEND_API_KEY!,
-                    senderEmail: 'stock-alerts@ly-utilies-portal.stream'
+                    tokenCipher: tokenCipher,
+                    emailTransport: createEmailTransport(env, stub),
+                    senderEmail: 'stock-alerts@ly-utilies-portal.stream',
+                    inventoryPageSize: Number(env.INVENTORY_PAGE_SIZE) || undefined,
+                    apiClient: createLeadConnectorClient(env),
+                    snapshotRetentionDays: Number(env.SNAPSHOT_RETENTION_DAYS) || undefined
                 });
 
                 console.log('Starting scheduled stock status update process...');
@@ -348,9 +1042,17 @@ export default {
                         summary: {
                             processedLocations: result.processedLocations,
                             emailsSent: result.emailsSent,
+                            backInStockEmailsSent: result.backInStockEmailsSent,
+                            channelNotificationsSent: result.channelNotificationsSent,
+                            webhookDeliveriesSent: result.webhookDeliveriesSent,
+                            webhookDeliveriesFailed: result.webhookDeliveriesFailed,
                             errorsCount: result.errors.length,
                             locationsWithoutEmails: result.locationsWithoutEmails,
-                            locationsWithoutStock: result.locationsWithoutStock
+                            locationsWithoutStock: result.locationsWithoutStock,
+                            locationsWithoutNewIssues: result.locationsWithoutNewIssues,
+                            locationsNeedingReauthorization: result.locationsNeedingReauthorization,
+                            locationsUninstalled: result.locationsUninstalled,
+                            snapshotsRecorded: result.snapshotsRecorded
                         }
                     }
                 });
@@ -364,6 +1066,117 @@ export default {
                 });
             }
         }
+        // Manually run the proactive token refresh job (requires admin API key)
+        if (method === 'POST' && pathname === '/test/refreshTokens') {
+            try {
+                const body = await readJsonBody(request);
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
+
+                const tokenRefresher = createRefreshExpiringTokens({
+                    credentialsStub: stub,
+                    refreshWindowMs: body.refreshWindowMinutes ? Number(body.refreshWindowMinutes) * 60 * 1000 : undefined
+                });
+
+                const result = await tokenRefresher.refreshExpiringTokens();
+
+                return ResponseBuilder.build(200, {
+                    status: 'SUCCESS',
+                    message: 'Token refresh process completed',
+                    data: result
+                });
+
+            } catch (error) {
+                console.error('Error in token refresh process:', error);
+                return ResponseBuilder.build(500, {
+                    status: 'ERROR',
+                    message: 'Failed to refresh expiring tokens',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+        // Install the locations of all agency-level installs (requires admin API key)
+        if (method === 'POST' && pathname === '/test/syncAgencyLocations') {
+            try {
+                const body = await readJsonBody(request);
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
+
+                const agencySync = createSyncAgencyLocations({ credentialsStub: stub });
+                const result = body.companyId
+                    ? await agencySync.syncAgency(body.companyId)
+                    : await agencySync.syncAllAgencies();
+
+                return ResponseBuilder.build(200, {
+                    status: 'SUCCESS',
+                    message: 'Agency location sync completed',
+                    data: result
+                });
+
+            } catch (error) {
+                console.error('Error in agency location sync:', error);
+                return ResponseBuilder.build(500, {
+                    status: 'ERROR',
+                    message: 'Failed to sync agency locations',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+        // Show the most recent marketplace webhook events (requires admin API key)
+        if (method === 'POST' && pathname === '/test/webhookEvents') {
+            try {
+                const body = await readJsonBody(request);
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
+
+                const limitError = validateLimit(body.limit, MAX_TEST_LIST_LIMIT);
+                if (limitError) return limitError;
+
+                const result = await stub.getWebhookEvents(body.limit != null ? Number(body.limit) : undefined);
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error retrieving webhook events:', error);
+                return ResponseBuilder.build(500, {
+                    status: 'ERROR',
+                    message: 'Failed to retrieve webhook events',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
+
+        // Show the emails stored by the capture transport, EMAIL_TRANSPORT=capture (requires admin API key)
+        if (method === 'POST' && pathname === '/test/capturedEmails') {
+            try {
+                const body = await readJsonBody(request);
+
+                // Validate API key
+                const authError = await requireApiKey(apiKeyService, bruteForceProtection, request, 'system:manage');
+                if (authError) return authError;
+
+                const limitError = validateLimit(body.limit, MAX_TEST_LIST_LIMIT);
+                if (limitError) return limitError;
+
+                const result = body.clear === true
+                    ? await stub.clearCapturedEmails()
+                    : await stub.getCapturedEmails(body.limit != null ? Number(body.limit) : undefined);
+                return ResponseBuilder.build(result.httpCode, result);
+
+            } catch (error) {
+                console.error('Error retrieving captured emails:', error);
+                return ResponseBuilder.build(500, {
+                    status: 'ERROR',
+                    message: 'Failed to retrieve captured emails',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        }
         /**
          * Test endpoints end. -----------------------------------------------------
          */
@@ -373,8 +1186,8 @@ export default {
             return new Response(null, {
                 headers: {
                     'Access-Control-Allow-Origin': '*',
-                    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-                    'Access-Control-Allow-Headers': 'Content-Type',
+                    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+                    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
                 }
             });
         }
@@ -388,7 +1201,8 @@ export default {
 
     /**
      * Scheduled event handler for cron jobs
-     * Runs stock status updates twice daily at 8 AM and 8 PM UTC
+     * Runs stock status updates twice daily at 8 AM and 8 PM UTC,
+     * and the proactive token refresh every 4 hours
      */
     async scheduled(event, env, ctx): Promise<void> {
         console.log('Scheduled event triggered at:', new Date().toISOString());
@@ -399,13 +1213,35 @@ export default {
             const id: DurableObjectId = env.CREDENTIALS_DURABLE_OBJECT.idFromName("credentials_do");
             const stub = env.CREDENTIALS_DURABLE_OBJECT.get(id);
 
+            if (event.cron === TOKEN_REFRESH_CRON) {
+                const tokenRefresher = createRefreshExpiringTokens({ credentialsStub: stub });
+                const refreshResult = await tokenRefresher.refreshExpiringTokens();
+
+                if (refreshResult.failures.length > 0) {
+                    console.error(`Failed to refresh ${refreshResult.failures.length} tokens:`, refreshResult.failures);
+                }
+                return;
+            }
+
+            // Pick up locations added to agency-level installs since the last run
+            try {
+                const agencySyncResult = await createSyncAgencyLocations({ credentialsStub: stub }).syncAllAgencies();
+                if (agencySyncResult.errors.length > 0) {
+                    console.error(`Agency location sync encountered ${agencySyncResult.errors.length} errors:`, agencySyncResult.errors);
+                }
+            } catch (error) {
+                console.error('Agency location sync failed, continuing with known locations:', error);
+            }
+
             // Create the stock status updater
             const stockStatusUpdater = createUpdateAllClientStockStatus({
                 credentialsStub: stub,
-                clientId: env.GHL_CLIENT_ID!,
-                clientSecret: env.GHL_CLIENT_SECRET!,
-                resendApiKey: env.RESEND_API_KEY!,
-                senderEmail: 'stock-alerts@ly-utilies-portal.stream'
+                tokenCipher: createTokenCipher(env.TOKEN_ENCRYPTION_KEYS),
+                emailTransport: createEmailTransport(env, stub),
+                senderEmail: 'stock-alerts@ly-utilies-portal.stream',
+                inventoryPageSize: Number(env.INVENTORY_PAGE_SIZE) || undefined,
+                apiClient: createLeadConnectorClient(env),
+                snapshotRetentionDays: Number(env.SNAPSHOT_RETENTION_DAYS) || undefined
             });
 
             console.log('Starting scheduled stock status update process...');
@@ -414,8 +1250,10 @@ export default {
             const result = await stockStatusUpdater.processAllClients();
 
             console.log('Scheduled stock status update completed successfully');
-            console.log(`Summary: Processed ${result.processedLocations} locations, sent ${result.emailsSent} emails`);
-            console.log(`Skipped: ${result.locationsWithoutEmails} without emails, ${result.locationsWithoutStock} without stock issues`);
+            console.log(`Summary: Processed ${result.processedLocations} locations, sent ${result.emailsSent} emails, ${result.backInStockEmailsSent} back-in-stock emails and ${result.channelNotificationsSent} channel notifications`);
+            console.log(`Webhooks: ${result.webhookDeliveriesSent} deliveries succeeded, ${result.webhookDeliveriesFailed} failed`);
+            console.log(`Skipped: ${result.locationsWithoutEmails} without emails, channels or webhooks, ${result.locationsWithoutStock} without stock issues, ${result.locationsWithoutNewIssues} without new stock issues, ${result.locationsNeedingReauthorization} needing re-authorization, ${result.locationsUninstalled} uninstalled`);
+            console.log(`Recorded ${result.snapshotsRecorded} inventory snapshots`);
 
             if (result.errors.length > 0) {
                 console.error(`Encountered ${result.errors.length} errors during processing:`, result.errors);
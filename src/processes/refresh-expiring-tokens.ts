@@ -0,0 +1,183 @@
+/**
+ * Refresh Expiring Tokens Process
+ * Proactively refreshes location and agency tokens that are about to expire, so alert runs never
+ * have to refresh (and fail) in the middle of processing a location
+ */
+
+import { AuthStatus } from '../common-types/auth-status';
+
+export interface RefreshExpiringTokensConfig {
+    credentialsStub: any;
+    refreshWindowMs?: number; // Refresh tokens expiring within this window (default 8 hours)
+}
+
+export interface TokenRefreshJobResult {
+    checkedLocations: number;
+    refreshedLocations: number;
+    locationsNotDue: number;
+    locationsNeedingReauthorization: number;
+    locationsUninstalled: number;
+    refreshedAgencies: number;
+    agenciesNeedingReauthorization: number;
+    failures: Array<{
+        locationId?: string;
+        companyId?: string;
+        authStatus?: AuthStatus;
+        error: string;
+    }>;
+}
+
+// The job runs every 4 hours, the window must be longer than that so no token expires between runs
+const DEFAULT_REFRESH_WINDOW_MS = 8 * 60 * 60 * 1000;
+
+export class RefreshExpiringTokens {
+    private config: RefreshExpiringTokensConfig;
+
+    constructor(config: RefreshExpiringTokensConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Refresh every token that expires within the refresh window
+     * Locations whose refresh token was revoked are skipped until they re-authorize.
+     * @returns Promise<TokenRefreshJobResult> - Summary of the refresh run
+     */
+    async refreshExpiringTokens(): Promise<TokenRefreshJobResult> {
+        console.log('Starting RefreshExpiringTokens process...');
+
+        const result: TokenRefreshJobResult = {
+            checkedLocations: 0,
+            refreshedLocations: 0,
+            locationsNotDue: 0,
+            locationsNeedingReauthorization: 0,
+            locationsUninstalled: 0,
+            refreshedAgencies: 0,
+            agenciesNeedingReauthorization: 0,
+            failures: []
+        };
+
+        const credentialsResponse = await this.config.credentialsStub.getCredentials();
+
+        if (credentialsResponse.status !== 'SUCCESS' || !credentialsResponse.data) {
+            throw new Error(`Failed to retrieve credentials: ${credentialsResponse.message}`);
+        }
+
+        const credentials = Array.isArray(credentialsResponse.data) ? credentialsResponse.data : [credentialsResponse.data];
+        const refreshBefore = Date.now() + (this.config.refreshWindowMs ?? DEFAULT_REFRESH_WINDOW_MS);
+
+        for (const credential of credentials) {
+            result.checkedLocations++;
+
+            if (credential.auth_status === AuthStatus.REVOKED) {
+                console.log(`Skipping location ${credential.location_id} - needs re-authorization`);
+                result.locationsNeedingReauthorization++;
+                continue;
+            }
+
+            if (credential.auth_status === AuthStatus.UNINSTALLED) {
+                result.locationsUninstalled++;
+                continue;
+            }
+
+            const expiresAt = credential.expires_at ? new Date(credential.expires_at).getTime() : 0;
+            if (expiresAt > refreshBefore) {
+                result.locationsNotDue++;
+                continue;
+            }
+
+            try {
+                // Forced, because the token has not necessarily expired yet
+                const refreshResult = await this.config.credentialsStub.refreshTokenPair(credential.location_id, { force: true });
+
+                if (refreshResult.success) {
+                    result.refreshedLocations++;
+                    console.log(`Refreshed token for location ${credential.location_id}, expires at ${refreshResult.expiresAt}`);
+                } else {
+                    if (refreshResult.authStatus === AuthStatus.REVOKED) {
+                        result.locationsNeedingReauthorization++;
+                    }
+                    result.failures.push({
+                        locationId: credential.location_id,
+                        authStatus: refreshResult.authStatus,
+                        error: refreshResult.message
+                    });
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`Error refreshing token for location ${credential.location_id}:`, errorMessage);
+                result.failures.push({
+                    locationId: credential.location_id,
+                    error: errorMessage
+                });
+            }
+        }
+
+        await this.refreshExpiringAgencyTokens(result, refreshBefore);
+
+        console.log('RefreshExpiringTokens process completed');
+        console.log(`Summary: Checked ${result.checkedLocations} locations, refreshed ${result.refreshedLocations}, ${result.failures.length} failures, ${result.locationsNeedingReauthorization} need re-authorization`);
+
+        return result;
+    }
+
+    /**
+     * Refresh agency tokens that expire before the given time
+     * Agency-installed locations mint their tokens from these, so they are kept fresh as well.
+     */
+    private async refreshExpiringAgencyTokens(result: TokenRefreshJobResult, refreshBefore: number) {
+        const agenciesResponse = await this.config.credentialsStub.getAgencyCredentials();
+
+        if (agenciesResponse.status !== 'SUCCESS' || !agenciesResponse.data) {
+            throw new Error(`Failed to retrieve agency credentials: ${agenciesResponse.message}`);
+        }
+
+        for (const agency of agenciesResponse.data) {
+            if (agency.auth_status === AuthStatus.REVOKED) {
+                console.log(`Skipping agency ${agency.company_id} - needs re-authorization`);
+                result.agenciesNeedingReauthorization++;
+                continue;
+            }
+
+            if (agency.auth_status === AuthStatus.UNINSTALLED) {
+                continue;
+            }
+
+            const expiresAt = agency.expires_at ? new Date(agency.expires_at).getTime() : 0;
+            if (expiresAt > refreshBefore) {
+                continue;
+            }
+
+            try {
+                const refreshResult = await this.config.credentialsStub.refreshAgencyTokenPair(agency.company_id, { force: true });
+
+                if (refreshResult.success) {
+                    result.refreshedAgencies++;
+                    console.log(`Refreshed token for agency ${agency.company_id}, expires at ${refreshResult.expiresAt}`);
+                } else {
+                    if (refreshResult.authStatus === AuthStatus.REVOKED) {
+                        result.agenciesNeedingReauthorization++;
+                    }
+                    result.failures.push({
+                        companyId: agency.company_id,
+                        authStatus: refreshResult.authStatus,
+                        error: refreshResult.message
+                    });
+                }
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                console.error(`Error refreshing token for agency ${agency.company_id}:`, errorMessage);
+                result.failures.push({
+                    companyId: agency.company_id,
+                    error: errorMessage
+                });
+            }
+        }
+    }
+}
+
+/**
+ * Factory function to create RefreshExpiringTokens instance
+ */
+export function createRefreshExpiringTokens(config: RefreshExpiringTokensConfig): RefreshExpiringTokens {
+    return new RefreshExpiringTokens(config);
+}
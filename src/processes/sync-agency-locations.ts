@@ -0,0 +1,163 @@
+/**
+ * Sync Agency Locations Process
+ * Installs every sub-account of an agency-level (Company) install, so locations the
+ * agency adds after the install are monitored without a separate OAuth flow per location
+ */
+
+import { AuthStatus } from '../common-types/auth-status';
+import { InstallSource } from '../common-types/install-source';
+
+export interface SyncAgencyLocationsConfig {
+    credentialsStub: any;
+}
+
+export interface AgencySyncResult {
+    agenciesProcessed: number;
+    locationsInstalled: number;
+    locationsReconnected: number;
+    locationsAlreadyMonitored: number;
+    agenciesNeedingReauthorization: number;
+    errors: Array<{
+        companyId: string;
+        locationId?: string;
+        error: string;
+    }>;
+}
+
+export class SyncAgencyLocations {
+    private config: SyncAgencyLocationsConfig;
+
+    constructor(config: SyncAgencyLocationsConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Sync the installed locations of every agency
+     * Agencies whose refresh token was revoked are skipped until they re-authorize.
+     * @returns Promise<AgencySyncResult> - Summary of the sync run
+     */
+    async syncAllAgencies(): Promise<AgencySyncResult> {
+        console.log('Starting SyncAgencyLocations process...');
+
+        const result = this.createEmptyResult();
+        const agenciesResponse = await this.config.credentialsStub.getAgencyCredentials();
+
+        if (agenciesResponse.status !== 'SUCCESS' || !agenciesResponse.data) {
+            throw new Error(`Failed to retrieve agency credentials: ${agenciesResponse.message}`);
+        }
+
+        for (const agency of agenciesResponse.data) {
+            if (agency.auth_status === AuthStatus.REVOKED) {
+                console.log(`Skipping agency ${agency.company_id} - needs re-authorization`);
+                result.agenciesNeedingReauthorization++;
+                continue;
+            }
+
+            if (agency.auth_status === AuthStatus.UNINSTALLED) {
+                continue;
+            }
+
+            this.mergeResult(result, await this.syncAgency(agency.company_id));
+        }
+
+        console.log('SyncAgencyLocations process completed');
+        console.log(`Summary: Processed ${result.agenciesProcessed} agencies, installed ${result.locationsInstalled} locations, reconnected ${result.locationsReconnected}, ${result.errors.length} errors`);
+
+        return result;
+    }
+
+    /**
+     * Install the agency's locations that are not monitored yet
+     * Locations that were installed on their own keep their location-level tokens, revoked and
+     * uninstalled ones are taken over by the agency.
+     * @param companyId - The agency's company ID
+     * @returns Promise<AgencySyncResult> - Summary for this agency
+     */
+    async syncAgency(companyId: string): Promise<AgencySyncResult> {
+        const result = this.createEmptyResult();
+        result.agenciesProcessed = 1;
+
+        try {
+            const locationsResponse = await this.config.credentialsStub.listAgencyInstalledLocations(companyId);
+            if (locationsResponse.status !== 'SUCCESS') {
+                if (locationsResponse.errorCode === 'AGENCY_REAUTHORIZATION_REQUIRED') {
+                    result.agenciesNeedingReauthorization++;
+                }
+                result.errors.push({ companyId, error: locationsResponse.message });
+                return result;
+            }
+
+            const credentialsResponse = await this.config.credentialsStub.getCredentials();
+            if (credentialsResponse.status !== 'SUCCESS' || !credentialsResponse.data) {
+                throw new Error(`Failed to retrieve credentials: ${credentialsResponse.message}`);
+            }
+
+            const existing = new Map<string, any>(
+                credentialsResponse.data.map((credential: any) => [credential.location_id, credential])
+            );
+
+            console.log(`Agency ${companyId} has ${locationsResponse.data.length} installed locations`);
+
+            for (const location of locationsResponse.data) {
+                const credential = existing.get(location.locationId);
+
+                // Keep healthy locations as they are, re-mint revoked ones and anything the agency already owns
+                const needsInstall = !credential
+                    || credential.auth_status === AuthStatus.REVOKED
+                    || credential.auth_status === AuthStatus.UNINSTALLED
+                    || (credential.install_source === InstallSource.AGENCY && credential.auth_status !== AuthStatus.HEALTHY);
+
+                if (!needsInstall) {
+                    result.locationsAlreadyMonitored++;
+                    continue;
+                }
+
+                const installResponse = await this.config.credentialsStub.installAgencyLocation(companyId, location.locationId);
+                if (installResponse.status !== 'SUCCESS') {
+                    console.error(`Failed to install location ${location.locationId} from agency ${companyId}: ${installResponse.message}`);
+                    result.errors.push({ companyId, locationId: location.locationId, error: installResponse.message });
+                    continue;
+                }
+
+                if (installResponse.data.action === 'installed') {
+                    result.locationsInstalled++;
+                } else {
+                    result.locationsReconnected++;
+                }
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.error(`Error syncing agency ${companyId}:`, errorMessage);
+            result.errors.push({ companyId, error: errorMessage });
+        }
+
+        return result;
+    }
+
+    private createEmptyResult(): AgencySyncResult {
+        return {
+            agenciesProcessed: 0,
+            locationsInstalled: 0,
+            locationsReconnected: 0,
+            locationsAlreadyMonitored: 0,
+            agenciesNeedingReauthorization: 0,
+            errors: []
+        };
+    }
+
+    private mergeResult(target: AgencySyncResult, source: AgencySyncResult) {
+        target.agenciesProcessed += source.agenciesProcessed;
+        target.locationsInstalled += source.locationsInstalled;
+        target.locationsReconnected += source.locationsReconnected;
+        target.locationsAlreadyMonitored += source.locationsAlreadyMonitored;
+        target.agenciesNeedingReauthorization += source.agenciesNeedingReauthorization;
+        target.errors.push(...source.errors);
+    }
+}
+
+/**
+ * Factory function to create SyncAgencyLocations instance
+ */
+export function createSyncAgencyLocations(config: SyncAgencyLocationsConfig): SyncAgencyLocations {
+    return new SyncAgencyLocations(config);
+}
@@ -1,28 +1,64 @@
 /**
  * Update All Client Stock Status Process
- * Iterates through all locations and sends stock status emails to configured recipients
+ * Iterates through all locations and sends stock status emails to configured recipients, the same alert to
+ * every configured notification channel, and signed stock events to the location's webhook subscriptions
  */
 
-import { createInventoryQueryService } from '../services/inventory-query-service';
-import { createEmailSender } from '../services/email-service';
+import { createInventoryQueryService, InventorySummary } from '../services/inventory-query-service';
+import { createEmailSender, EmailSender, EmailTransport } from '../services/email-service';
+import { TokenCipher } from '../utils/token-management/token-cipher';
+import { AuthStatus } from '../common-types/auth-status';
+import { LeadConnectorClient } from '../utils/leadconnector';
+import { createInventoryHistoryService } from '../services/inventory-history-service';
+import { BackInStockItem, createStockAlertService, StockAlertChanges, StockAlertService } from '../services/stock-alert-service';
+import { AlertMode } from '../common-types/alert-mode';
+import { AlertStateScope } from '../common-types/alert-state-scope';
+import {
+    createNotificationChannelService,
+    NotificationChannelService,
+    StockNotification,
+    StockNotificationSection
+} from '../services/notification-channel-service';
+import { buildStockEvents, createWebhookSubscriptionService, WebhookSubscriptionService } from '../services/webhook-subscription-service';
+import {
+    backInStockTitle,
+    createEmailTemplateService,
+    DEFAULT_EMAIL_BRANDING,
+    describeStockAlert,
+    formatDate,
+    formatDuration,
+    RenderedEmail,
+    renderBackInStockEmail,
+    renderStockAlertEmail
+} from '../services/email-template-service';
 
 export interface UpdateClientStockStatusConfig {
     credentialsStub: any;
-    clientId: string;
-    clientSecret: string;
-    resendApiKey: string;
+    tokenCipher: TokenCipher;
+    emailTransport: EmailTransport; // See createEmailTransport
     senderEmail: string;
+    inventoryPageSize?: number; // Items per inventory API request
+    apiClient?: LeadConnectorClient; // Defaults to the production API hosts
+    snapshotRetentionDays?: number; // Inventory snapshots older than this are deleted
 }
 
 export interface StockStatusUpdateResult {
     processedLocations: number;
     emailsSent: number;
+    backInStockEmailsSent: number;
+    channelNotificationsSent: number; // Stock alerts and back-in-stock notifications posted to notification channels
+    webhookDeliveriesSent: number; // Stock events accepted by webhook subscriptions, including deliveries of earlier runs
+    webhookDeliveriesFailed: number; // Sent again at the next run until the attempts are used up
     errors: Array<{
         locationId: string;
         error: string;
     }>;
-    locationsWithoutEmails: number;
+    locationsWithoutEmails: number; // Snapshot only: neither receiver emails, notification channels nor webhook subscriptions
     locationsWithoutStock: number;
+    locationsWithoutNewIssues: number; // Only ongoing issues, not alerted in AlertMode.CHANGES
+    locationsNeedingReauthorization: number;
+    locationsUninstalled: number;
+    snapshotsRecorded: number;
 }
 
 export class UpdateAllClientStockStatus {
@@ -42,9 +78,17 @@ export class UpdateAllClientStockStatus {
         const result: StockStatusUpdateResult = {
             processedLocations: 0,
             emailsSent: 0,
+            backInStockEmailsSent: 0,
+            channelNotificationsSent: 0,
+            webhookDeliveriesSent: 0,
+            webhookDeliveriesFailed: 0,
             errors: [],
             locationsWithoutEmails: 0,
-            locationsWithoutStock: 0
+            locationsWithoutStock: 0,
+            locationsWithoutNewIssues: 0,
+            locationsNeedingReauthorization: 0,
+            locationsUninstalled: 0,
+            snapshotsRecorded: 0
         };
 
         try {
@@ -61,10 +105,18 @@ export class UpdateAllClientStockStatus {
             // Create services
             const inventoryService = createInventoryQueryService(
                 this.config.credentialsStub,
-                this.config.clientId,
-                this.config.clientSecret
+                this.config.tokenCipher,
+                { pageSize: this.config.inventoryPageSize, apiClient: this.config.apiClient }
             );
-            const emailSender = createEmailSender();
+            const historyService = createInventoryHistoryService(
+                this.config.credentialsStub,
+                { retentionDays: this.config.snapshotRetentionDays }
+            );
+            const alertService = createStockAlertService(this.config.credentialsStub);
+            const emailSender = createEmailSender(this.config.emailTransport);
+            const channelService = createNotificationChannelService(this.config.credentialsStub, this.config.tokenCipher);
+            const webhookService = createWebhookSubscriptionService(this.config.credentialsStub, this.config.tokenCipher);
+            const templateService = createEmailTemplateService(this.config.credentialsStub);
 
             // Process each location
             for (const credential of credentials) {
@@ -72,46 +124,108 @@ export class UpdateAllClientStockStatus {
                 console.log(`Processing location: ${credential.location_id}`);
 
                 try {
-                    // Check if location has receiver emails configured
-                    const receiverEmails = credential.receiverEmails || [];
-                    if (!receiverEmails || receiverEmails.length === 0) {
-                        console.log(`Skipping location ${credential.location_id} - no receiver emails configured`);
-                        result.locationsWithoutEmails++;
+                    // Don't spend API calls on locations whose refresh token is dead
+                    if (credential.auth_status === AuthStatus.REVOKED) {
+                        console.log(`Skipping location ${credential.location_id} - needs re-authorization via /oauth/initiate`);
+                        result.locationsNeedingReauthorization++;
+                        continue;
+                    }
+
+                    if (credential.auth_status === AuthStatus.UNINSTALLED) {
+                        console.log(`Skipping location ${credential.location_id} - app is uninstalled`);
+                        result.locationsUninstalled++;
                         continue;
                     }
 
                     // Get inventory summary for this location
                     const inventorySummary = await inventoryService.queryInventorySummary(credential.location_id);
-                    
-                    // Check if there are items out of stock
-                    if (inventorySummary.items_out_of_stock === 0) {
-                        console.log(`Location ${credential.location_id} has no out-of-stock items`);
-                        result.locationsWithoutStock++;
+
+                    // Keep the quantities for the history API, a failed snapshot must not stop the alert
+                    try {
+                        const snapshotResult = await historyService.recordSnapshot(inventorySummary);
+                        if (snapshotResult.status === 'SUCCESS') {
+                            result.snapshotsRecorded++;
+                        } else {
+                            console.warn(`Failed to record inventory snapshot for location ${credential.location_id}: ${snapshotResult.message}`);
+                        }
+                    } catch (error) {
+                        console.warn(`Failed to record inventory snapshot for location ${credential.location_id}:`, error instanceof Error ? error.message : 'Unknown error');
+                    }
+
+                    // Only alerting needs receiver emails, notification channels or webhook subscriptions, the history is kept for every active location
+                    const receiverEmails: string[] = credential.receiverEmails || [];
+                    const channelCount = await channelService.countChannels(credential.location_id);
+                    const subscriptionCount = await webhookService.countSubscriptions(credential.location_id);
+                    if (receiverEmails.length === 0 && channelCount === 0 && subscriptionCount === 0) {
+                        console.log(`Skipping alerts for location ${credential.location_id} - no receiver emails, notification channels or webhook subscriptions configured`);
+                        result.locationsWithoutEmails++;
                         continue;
                     }
 
-                    console.log(`Location ${credential.location_id} has ${inventorySummary.items_out_of_stock} items out of stock`);
+                    // Compare with the previous run; without stored states every current issue is alerted
+                    const settings = await this.getNotificationSettings(credential.location_id);
+                    const changes = await this.detectAlertChanges(alertService, inventorySummary);
+                    const emailMode = changes ? settings.alertMode : AlertMode.FULL;
+                    const branding = receiverEmails.length > 0 ? await templateService.loadBranding(credential.location_id) : DEFAULT_EMAIL_BRANDING;
 
-                    // Generate HTML email content
-                    const htmlContent = this.generateStockStatusEmail(inventorySummary);
+                    // Machine-readable events for the location's integrations, compared with the states of the previous
+                    // events rather than of the alerts; failed deliveries are retried from the delivery log next run
+                    if (subscriptionCount > 0) {
+                        await this.dispatchStockEvents(webhookService, alertService, inventorySummary, result);
+                    }
 
-                    // Send email to all configured recipients
-                    const emailResult = await emailSender.sendBulkEmail({
-                        senderEmail: this.config.senderEmail,
-                        receiverEmails: receiverEmails,
-                        subject: `Stock Alert: ${inventorySummary.items_out_of_stock} items out of stock (Location: ${credential.location_id})`,
-                        htmlContent: htmlContent,
-                        resendApiKey: this.config.resendApiKey
-                    });
+                    // Tell locations that opted in which items were restocked since the previous run
+                    if (settings.backInStockNotifications && changes && changes.backInStock.length > 0) {
+                        const recoveryResult = await this.sendNotifications(emailSender, channelService, receiverEmails, channelCount,
+                            renderBackInStockEmail(credential.location_id, changes.backInStock, branding),
+                            this.generateBackInStockNotification(credential.location_id, backInStockTitle(changes.backInStock), changes.backInStock));
+
+                        // The stock alert below may fail and be retried next run, the restocked items must not be reported again
+                        if (recoveryResult.emailsSent + recoveryResult.channelsSent > 0) {
+                            await this.commitBackInStock(alertService, credential.location_id, changes);
+                        }
+
+                        result.backInStockEmailsSent += recoveryResult.emailsSent;
+                        result.channelNotificationsSent += recoveryResult.channelsSent;
+                    }
 
-                    result.emailsSent += emailResult.totalSent;
-                    console.log(`Sent stock alert emails to ${emailResult.totalSent} recipients for location ${credential.location_id}`);
+                    const hasIssues = inventorySummary.items_out_of_stock > 0 || inventorySummary.items_low_stock > 0;
+                    const hasNewIssues = changes ? changes.newOutOfStock.length > 0 || changes.newLowStock.length > 0 : hasIssues;
 
-                    // Log any email failures
-                    if (emailResult.totalFailed > 0) {
-                        console.warn(`Failed to send ${emailResult.totalFailed} emails for location ${credential.location_id}`);
+                    // Check if there are items out of stock or running low (that were not alerted before)
+                    if (!hasIssues || (emailMode === AlertMode.CHANGES && !hasNewIssues)) {
+                        if (changes) {
+                            await this.commitAlertChanges(alertService, credential.location_id, changes);
+                        }
+
+                        if (!hasIssues) {
+                            console.log(`Location ${credential.location_id} has no out-of-stock or low-stock items`);
+                            result.locationsWithoutStock++;
+                        } else {
+                            console.log(`Location ${credential.location_id} has no new out-of-stock or low-stock items`);
+                            result.locationsWithoutNewIssues++;
+                        }
+                        continue;
                     }
 
+                    console.log(`Location ${credential.location_id} has ${inventorySummary.items_out_of_stock} items out of stock, ${inventorySummary.items_low_stock} items low on stock`);
+
+                    // Send the alert to all configured recipients and channels
+                    const alertChanges = emailMode === AlertMode.CHANGES ? changes : null;
+                    const alertResult = await this.sendNotifications(emailSender, channelService, receiverEmails, channelCount,
+                        renderStockAlertEmail(inventorySummary, alertChanges, branding),
+                        this.generateStockAlertNotification(inventorySummary, `Stock Alert: ${describeStockAlert(inventorySummary, alertChanges)}`, alertChanges));
+
+                    // The new issues are alerted again next run if no one received them, stock events keep their own states
+                    const alertDelivered = alertResult.emailsSent + alertResult.channelsSent > 0
+                        || (receiverEmails.length === 0 && channelCount === 0);
+                    if (changes && alertDelivered) {
+                        await this.commitAlertChanges(alertService, credential.location_id, changes);
+                    }
+
+                    result.emailsSent += alertResult.emailsSent;
+                    result.channelNotificationsSent += alertResult.channelsSent;
+
                 } catch (error) {
                     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
                     console.error(`Error processing location ${credential.location_id}:`, errorMessage);
@@ -123,7 +237,7 @@ export class UpdateAllClientStockStatus {
             }
 
             console.log('UpdateAllClientStockStatus process completed');
-            console.log(`Summary: Processed ${result.processedLocations} locations, sent ${result.emailsSent} emails, ${result.errors.length} errors`);
+            console.log(`Summary: Processed ${result.processedLocations} locations, sent ${result.emailsSent} emails, ${result.backInStockEmailsSent} back-in-stock emails, ${result.channelNotificationsSent} channel notifications and ${result.webhookDeliveriesSent} webhook deliveries, ${result.errors.length} errors`);
 
             return result;
 
@@ -135,94 +249,183 @@ export class UpdateAllClientStockStatus {
     }
 
     /**
-     * Generate HTML content for stock status email
+     * Sends an email to the location's recipients and posts the same data to its notification channels
+     * A failing channel is logged and does not stop the emails, nor the other way round
+     * @returns How many recipients and channels received it
+     */
+    private async sendNotifications(
+        emailSender: EmailSender,
+        channelService: NotificationChannelService,
+        receiverEmails: string[],
+        channelCount: number,
+        email: RenderedEmail,
+        notification: StockNotification
+    ): Promise<{ emailsSent: number; channelsSent: number }> {
+        const locationId = notification.locationId;
+        let emailsSent = 0;
+        let channelsSent = 0;
+
+        if (receiverEmails.length > 0) {
+            const emailResult = await emailSender.sendBulkEmail({
+                senderEmail: this.config.senderEmail,
+                receiverEmails: receiverEmails,
+                subject: email.subject,
+                htmlContent: email.html
+            });
+
+            emailsSent = emailResult.totalSent;
+            console.log(`Sent ${notification.kind} emails to ${emailResult.totalSent} recipients for location ${locationId}`);
+            if (emailResult.totalFailed > 0) {
+                console.warn(`Failed to send ${emailResult.totalFailed} ${notification.kind} emails for location ${locationId}`);
+            }
+        }
+
+        if (channelCount > 0) {
+            try {
+                const channelResult = await channelService.notify(notification);
+                channelsSent = channelResult.totalSent;
+                console.log(`Posted ${notification.kind} notification to ${channelResult.totalSent} of ${channelResult.totalChannels} channels for location ${locationId}`);
+            } catch (error) {
+                console.warn(`Failed to post ${notification.kind} notifications for location ${locationId}:`, error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+
+        return { emailsSent, channelsSent };
+    }
+
+    /**
+     * Sends the run's stock events to the location's webhook subscriptions, a failure is logged and does not stop
+     * the emails
+     * The event states are stored once every delivery was sent or logged for retry, so an item change is sent as an
+     * event once, whether or not the alert email of the run gets through.
+     */
+    private async dispatchStockEvents(
+        webhookService: WebhookSubscriptionService,
+        alertService: StockAlertService,
+        inventorySummary: InventorySummary,
+        result: StockStatusUpdateResult
+    ): Promise<void> {
+        try {
+            const changes = await this.detectAlertChanges(alertService, inventorySummary, AlertStateScope.WEBHOOKS);
+            const dispatchResult = await webhookService.dispatch(inventorySummary.location_id, buildStockEvents(inventorySummary, changes));
+            result.webhookDeliveriesSent += dispatchResult.delivered;
+            result.webhookDeliveriesFailed += dispatchResult.failed;
+            console.log(`Sent ${dispatchResult.events} stock events for location ${inventorySummary.location_id}: ${dispatchResult.delivered} deliveries succeeded, ${dispatchResult.failed} failed (${dispatchResult.retried} from earlier runs)`);
+
+            if (changes && dispatchResult.logged) {
+                await this.commitAlertChanges(alertService, inventorySummary.location_id, changes, AlertStateScope.WEBHOOKS);
+            }
+        } catch (error) {
+            console.warn(`Failed to send stock events for location ${inventorySummary.location_id}:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    /**
+     * Reads a location's alert mode and back-in-stock opt-in, the defaults if the settings cannot be read
+     */
+    private async getNotificationSettings(locationId: string): Promise<{ alertMode: AlertMode; backInStockNotifications: boolean }> {
+        const settingsResponse = await this.config.credentialsStub.getLocationSettings(locationId);
+        if (settingsResponse.status !== 'SUCCESS') {
+            console.warn(`Could not read settings for location ${locationId}, using the default notification settings: ${settingsResponse.message}`);
+            return { alertMode: AlertMode.CHANGES, backInStockNotifications: false };
+        }
+        return {
+            alertMode: settingsResponse.data.alert_mode,
+            backInStockNotifications: settingsResponse.data.back_in_stock_notifications
+        };
+    }
+
+    /**
+     * Compares the summary with the stored alert states of the alerts, or of the stock events
+     * @returns The changes, or null if the states could not be read (the whole list is then alerted)
+     */
+    private async detectAlertChanges(
+        alertService: StockAlertService,
+        inventorySummary: InventorySummary,
+        scope: AlertStateScope = AlertStateScope.NOTIFICATIONS
+    ): Promise<StockAlertChanges | null> {
+        try {
+            return await alertService.detectChanges(inventorySummary, new Date(), scope);
+        } catch (error) {
+            console.warn(`Could not compare alert states for location ${inventorySummary.location_id}:`, error instanceof Error ? error.message : 'Unknown error');
+            return null;
+        }
+    }
+
+    /**
+     * Stores the alert states, a failure only means the same issues are reported as new next run
+     */
+    private async commitAlertChanges(
+        alertService: StockAlertService,
+        locationId: string,
+        changes: StockAlertChanges,
+        scope: AlertStateScope = AlertStateScope.NOTIFICATIONS
+    ): Promise<void> {
+        try {
+            await alertService.commitChanges(locationId, changes, scope);
+        } catch (error) {
+            console.warn(`Could not store alert states for location ${locationId}:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    /**
+     * Stores the states of the back-in-stock items, a failure only means they are reported as back in stock again
+     */
+    private async commitBackInStock(alertService: StockAlertService, locationId: string, changes: StockAlertChanges): Promise<void> {
+        try {
+            await alertService.commitBackInStock(locationId, changes);
+        } catch (error) {
+            console.warn(`Could not store back-in-stock alert states for location ${locationId}:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+    }
+
+    /**
+     * Build the notification channel version of the stock alert, with the same sections as the email
      * @param inventorySummary - The inventory summary data
-     * @returns string - Formatted HTML email content
+     * @param title - The alert title, the email subject without the location
+     * @param changes - The changes since the previous alert for AlertMode.CHANGES, null to list every issue
      */
-    private generateStockStatusEmail(inventorySummary: any): string {
-        const outOfStockList = inventorySummary.out_of_stock_products
-            .map((product: string) => `<li style="margin: 5px 0;">${product}</li>`)
-            .join('');
-
-        return `
-<!DOCTYPE html>
-<html>
-<head>
-    <meta charset="utf-8">
-    <title>Stock Status Alert</title>
-    <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background-color: #f44336; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
-        .content { background-color: #f9f9f9; padding: 20px; border-radius: 0 0 5px 5px; }
-        .summary-box { background-color: white; padding: 15px; margin: 20px 0; border-left: 4px solid #f44336; }
-        .stats { display: flex; justify-content: space-between; margin: 20px 0; }
-        .stat { text-align: center; }
-        .stat-number { font-size: 24px; font-weight: bold; color: #f44336; }
-        .stat-label { font-size: 12px; color: #666; text-transform: uppercase; }
-        .out-of-stock-list { background-color: white; padding: 15px; margin: 20px 0; border-radius: 5px; }
-        ul { margin: 10px 0; padding-left: 20px; }
-        .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="header">
-            <h1>📦 Stock Status Alert</h1>
-            <p>Items require restocking attention</p>
-        </div>
-        
-        <div class="content">
-            <div class="summary-box">
-                <h2>📍 Location: ${inventorySummary.location_id}</h2>
-                <p><strong>Alert:</strong> You have items that are currently out of stock and may need restocking.</p>
-            </div>
-
-            <div class="stats">
-                <div class="stat">
-                    <div class="stat-number">${inventorySummary.total_items}</div>
-                    <div class="stat-label">Total Items</div>
-                </div>
-                <div class="stat">
-                    <div class="stat-number">${inventorySummary.items_with_stock}</div>
-                    <div class="stat-label">In Stock</div>
-                </div>
-                <div class="stat">
-                    <div class="stat-number">${inventorySummary.items_out_of_stock}</div>
-                    <div class="stat-label">Out of Stock</div>
-                </div>
-                <div class="stat">
-                    <div class="stat-number">${inventorySummary.total_available_quantity}</div>
-                    <div class="stat-label">Total Quantity</div>
-                </div>
-            </div>
-
-            <div class="out-of-stock-list">
-                <h3>🚨 Out of Stock Items (${inventorySummary.items_out_of_stock} items):</h3>
-                <ul>
-                    ${outOfStockList}
-                </ul>
-            </div>
-
-            <div class="summary-box">
-                <p><strong>📊 Summary:</strong></p>
-                <ul>
-                    <li>Total unique products: ${inventorySummary.unique_products}</li>
-                    <li>Items with stock: ${inventorySummary.items_with_stock}</li>
-                    <li>Items out of stock: ${inventorySummary.items_out_of_stock}</li>
-                    <li>Total available quantity: ${inventorySummary.total_available_quantity}</li>
-                </ul>
-            </div>
-        </div>
-
-        <div class="footer">
-            <p>This is an automated stock monitoring alert. Please review and restock items as needed.</p>
-            <p>Generated on ${new Date().toLocaleString()}</p>
-        </div>
-    </div>
-</body>
-</html>
-        `.trim();
+    private generateStockAlertNotification(inventorySummary: InventorySummary, title: string, changes: StockAlertChanges | null): StockNotification {
+        const since = (value: string) => `since ${formatDate(value)}`;
+        const sections: StockNotificationSection[] = changes
+            ? [
+                { title: `Newly Out of Stock (${changes.newOutOfStock.length})`, tone: 'danger', items: changes.newOutOfStock.map(({ item }) => ({ item })) },
+                { title: `Newly Low on Stock (${changes.newLowStock.length})`, tone: 'warning', items: changes.newLowStock.map(({ item }) => ({ item })) },
+                { title: `Still Out of Stock (${changes.ongoingOutOfStock.length})`, tone: 'neutral', items: changes.ongoingOutOfStock.map(({ item, since: value }) => ({ item, detail: since(value) })) },
+                { title: `Still Low on Stock (${changes.ongoingLowStock.length})`, tone: 'neutral', items: changes.ongoingLowStock.map(({ item, since: value }) => ({ item, detail: since(value) })) }
+            ]
+            : [
+                { title: `Out of Stock (${inventorySummary.items_out_of_stock})`, tone: 'danger', items: inventorySummary.out_of_stock_items.map(item => ({ item })) },
+                { title: `Low Stock (${inventorySummary.items_low_stock})`, tone: 'warning', items: inventorySummary.low_stock_items.map(item => ({ item })) }
+            ];
+
+        return {
+            kind: 'stock_alert',
+            locationId: inventorySummary.location_id,
+            title,
+            summary: `${inventorySummary.total_items} items, ${inventorySummary.items_out_of_stock} out of stock, ${inventorySummary.items_low_stock} low on stock`,
+            sections: sections.filter(section => section.items.length > 0)
+        };
+    }
+
+    /**
+     * Build the notification channel version of the back-in-stock email
+     * @param locationId - The location the items belong to
+     * @param title - The notification title, the email subject without the location
+     * @param items - The items restocked since the previous run
+     */
+    private generateBackInStockNotification(locationId: string, title: string, items: BackInStockItem[]): StockNotification {
+        return {
+            kind: 'back_in_stock',
+            locationId,
+            title,
+            summary: 'Out of stock at the previous check, available again',
+            sections: [{
+                title: `Back in Stock (${items.length})`,
+                tone: 'success',
+                items: items.map(({ item, unavailable_seconds }) => ({ item, detail: `unavailable for ${formatDuration(unavailable_seconds)}` }))
+            }]
+        };
     }
 }
 
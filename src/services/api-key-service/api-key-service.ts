@@ -0,0 +1,199 @@
+/**
+ * API Key Service
+ * Issues scoped API keys and authenticates requests that present them in the Authorization header
+ */
+
+import { ApiKeyRole } from '../../common-types/api-key-role';
+import { bytesToBase64Url } from '../../utils/encoding/base64';
+import { ApiKeyAuthResult, ApiPermission, CreateApiKeyRequest, ROLE_PERMISSIONS } from './types';
+
+// Prefix of every issued key, makes leaked keys easy to recognise in logs and secret scanners
+const API_KEY_PREFIX = 'smk_';
+
+export class ApiKeyService {
+    private credentialsStub: any;
+
+    constructor(credentialsStub: any) {
+        this.credentialsStub = credentialsStub;
+    }
+
+    /**
+     * Authenticates a request and checks it may perform an action
+     * @param request - The incoming request, carrying `Authorization: Bearer <key>`
+     * @param permission - The permission the route requires
+     * @param locationId - The location the request targets, omit for requests that are not about a single location
+     * @returns ApiKeyAuthResult with the principal if the request is allowed
+     */
+    async authorize(request: Request, permission: ApiPermission, locationId?: string): Promise<ApiKeyAuthResult> {
+        const apiKey = extractApiKey(request);
+        if (!apiKey) {
+            return {
+                authorized: false,
+                httpCode: 401,
+                errorCode: 'MISSING_API_KEY',
+                message: 'Missing API key, send it as "Authorization: Bearer <key>"'
+            };
+        }
+
+        const keyResult = await this.credentialsStub.authenticateApiKey(await this.hashApiKey(apiKey));
+        if (keyResult.status !== 'SUCCESS') {
+            return {
+                authorized: false,
+                httpCode: 401,
+                errorCode: 'INVALID_API_KEY',
+                message: keyResult.message
+            };
+        }
+
+        const principal = {
+            keyId: keyResult.data.key_id,
+            name: keyResult.data.name,
+            role: keyResult.data.role as ApiKeyRole,
+            locationId: keyResult.data.location_id
+        };
+
+        if (!ROLE_PERMISSIONS[principal.role]?.includes(permission)) {
+            console.warn(`API key ${principal.keyId} (${principal.role}) denied ${permission}`);
+            return {
+                authorized: false,
+                principal,
+                httpCode: 403,
+                errorCode: 'INSUFFICIENT_ROLE',
+                message: `API key role '${principal.role}' does not allow this action`
+            };
+        }
+
+        // A location-bound key can only be used for requests about its own location
+        if (principal.locationId && principal.locationId !== locationId) {
+            console.warn(`API key ${principal.keyId} bound to ${principal.locationId} denied access to ${locationId ?? 'all locations'}`);
+            return {
+                authorized: false,
+                principal,
+                httpCode: 403,
+                errorCode: 'LOCATION_NOT_ALLOWED',
+                message: `API key is restricted to location ${principal.locationId}`
+            };
+        }
+
+        return {
+            authorized: true,
+            principal,
+            httpCode: 200,
+            message: 'Request authorized'
+        };
+    }
+
+    /**
+     * Creates a new API key
+     * @param request - Name, role and optional location binding of the key
+     * @returns The DO result, with the plaintext key in data.api_key - it cannot be retrieved again
+     */
+    async createApiKey(request: CreateApiKeyRequest) {
+        if (!request.name) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'MISSING_NAME',
+                message: 'Missing required parameter: name'
+            };
+        }
+
+        if (!Object.values(ApiKeyRole).includes(request.role)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_ROLE',
+                message: `role must be one of: ${Object.values(ApiKeyRole).join(', ')}`
+            };
+        }
+
+        if (request.role === ApiKeyRole.ADMIN && request.locationId) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_ROLE',
+                message: 'Admin keys cannot be bound to a location'
+            };
+        }
+
+        const apiKey = `${API_KEY_PREFIX}${bytesToBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+
+        const result = await this.credentialsStub.createApiKey({
+            key_id: crypto.randomUUID(),
+            name: request.name,
+            key_hash: await this.hashApiKey(apiKey),
+            key_prefix: keyPrefix(apiKey),
+            role: request.role,
+            location_id: request.locationId ?? null,
+            created_by: request.createdBy ?? null
+        });
+
+        if (result.status !== 'SUCCESS') {
+            return result;
+        }
+
+        console.log(`Created ${request.role} API key ${result.data.key_id}${request.locationId ? ` for location ${request.locationId}` : ''}`);
+
+        return {
+            ...result,
+            data: { ...result.data, api_key: apiKey }
+        };
+    }
+
+    /**
+     * Lists all API keys (without their hashes)
+     */
+    async listApiKeys() {
+        return this.credentialsStub.listApiKeys();
+    }
+
+    /**
+     * Revokes an API key
+     * @param keyId - The key to revoke
+     */
+    async revokeApiKey(keyId: string) {
+        return this.credentialsStub.revokeApiKey(keyId);
+    }
+
+    /**
+     * Whether an active admin key exists
+     */
+    async hasActiveAdminKey(): Promise<boolean> {
+        return this.credentialsStub.hasActiveAdminKey();
+    }
+
+    /**
+     * Keys are 256 random bits, so an unsalted SHA-256 is enough to make the stored hash useless
+     */
+    private async hashApiKey(apiKey: string): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(apiKey));
+        return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+    }
+}
+
+/**
+ * Factory function to create an ApiKeyService instance
+ */
+export function createApiKeyService(credentialsStub: any): ApiKeyService {
+    return new ApiKeyService(credentialsStub);
+}
+
+/**
+ * The prefix of the API key a request presents, as stored in `key_prefix`
+ * Identifies the key in failure counters and logs without revealing it.
+ * @returns The prefix, or null if the request presents no key
+ */
+export function presentedApiKeyPrefix(request: Request): string | null {
+    const apiKey = extractApiKey(request);
+    return apiKey ? keyPrefix(apiKey) : null;
+}
+
+function extractApiKey(request: Request): string | null {
+    const authorization = request.headers.get('Authorization');
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    return match ? match[1] : null;
+}
+
+function keyPrefix(apiKey: string): string {
+    return apiKey.slice(0, API_KEY_PREFIX.length + 6);
+}
@@ -0,0 +1,12 @@
+/**
+ * API Key Service Module
+ * Exports the service class, factory function and permission types
+ */
+
+export * from './types';
+
+export {
+    ApiKeyService,
+    createApiKeyService,
+    presentedApiKeyPrefix
+} from './api-key-service';
@@ -0,0 +1,41 @@
+import { ApiKeyRole } from '../../common-types/api-key-role';
+
+// What a route needs the caller to be allowed to do
+export type ApiPermission =
+    | 'keys:manage' // Create, list and revoke API keys
+    | 'system:manage' // Credentials, migrations, jobs and other operator endpoints
+    | 'inventory:read' // Inventory summaries and queries
+    | 'emails:write' // Receiver email lists
+    | 'settings:write'; // Per-location settings such as the low-stock threshold
+
+// Permissions granted to each role
+export const ROLE_PERMISSIONS: Record<ApiKeyRole, ApiPermission[]> = {
+    [ApiKeyRole.ADMIN]: ['keys:manage', 'system:manage', 'inventory:read', 'emails:write', 'settings:write'],
+    [ApiKeyRole.LOCATION_MANAGER]: ['inventory:read', 'emails:write', 'settings:write'],
+    [ApiKeyRole.READ_ONLY]: ['inventory:read']
+};
+
+// The authenticated caller of a request
+export interface ApiKeyPrincipal {
+    keyId: string;
+    name: string;
+    role: ApiKeyRole;
+    locationId: string | null; // Keys bound to a location can only access that location
+}
+
+// Result of authenticating and authorizing a request
+export interface ApiKeyAuthResult {
+    authorized: boolean;
+    principal?: ApiKeyPrincipal;
+    httpCode: number;
+    errorCode?: 'MISSING_API_KEY' | 'INVALID_API_KEY' | 'INSUFFICIENT_ROLE' | 'LOCATION_NOT_ALLOWED';
+    message: string;
+}
+
+// Parameters for creating a key
+export interface CreateApiKeyRequest {
+    name: string;
+    role: ApiKeyRole;
+    locationId?: string;
+    createdBy?: string;
+}
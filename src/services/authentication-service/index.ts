@@ -2,17 +2,27 @@
 export * from './types';
 export * from './oauth-initiate';
 export * from './oauth-callback';
+export * from './oauth-state';
 
 // Import for internal use
-import { createOAuthInitiateRequestBuilder, OAuthTokenData } from './types';
+import { createOAuthInitiateRequestBuilder, CredentialInstallType, OAuthCredentialStorage, OAuthStateContext, OAuthTokenData } from './types';
 import { createOAuthInitiationService } from './oauth-initiate';
 import { createOAuthCallbackService } from './oauth-callback';
+import { OAuthStateService } from './oauth-state';
+import { LeadConnectorClient } from '../../utils/leadconnector';
 
 // Re-export commonly used items for convenience
 export type {
     OAuthInitiateRequest,
     OAuthTokenData,
-    OAuthCallbackResult
+    OAuthCallbackResult,
+    OAuthCredentialStorage,
+    CredentialInstallType,
+    OAuthStateContext,
+    OAuthStatePayload,
+    IssuedOAuthState,
+    OAuthUserType,
+    OAuthStateValidationResult
 } from './types';
 
 export {
@@ -29,6 +39,14 @@ export {
     createOAuthCallbackService
 } from './oauth-callback';
 
+export {
+    OAuthStateService,
+    createOAuthStateService
+} from './oauth-state';
+
+// Agency installs mint location tokens and list installed locations
+const AGENCY_SCOPES = ['oauth.readonly', 'oauth.write'];
+
 /**
  * Complete OAuth Handler that encapsulates the entire OAuth flow
  */
@@ -36,49 +54,60 @@ export class OAuthHandler {
     private clientId: string;
     private clientSecret: string;
     private domain: string;
+    private stateService: OAuthStateService;
+    private apiClient: LeadConnectorClient;
     private scopes: string[];
 
-    constructor(clientId: string, clientSecret: string, domain: string, scopes: string[] = ['products.readonly', 'products/prices.readonly']) {
+    constructor(clientId: string, clientSecret: string, domain: string, stateService: OAuthStateService, apiClient: LeadConnectorClient, scopes: string[] = ['products.readonly', 'products/prices.readonly']) {
         this.clientId = clientId;
         this.clientSecret = clientSecret;
         this.domain = domain;
+        this.stateService = stateService;
+        this.apiClient = apiClient;
         this.scopes = scopes;
     }
 
     /**
      * Handle OAuth initiation - creates redirect to external auth provider
+     * The redirect sets the state's nonce cookie, which the callback requires.
+     * @param context Optional context (return URL, inviting admin, user type) carried in the signed state
      */
-    async handleInitiation(): Promise<Response> {
+    async handleInitiation(context: OAuthStateContext = {}): Promise<Response> {
+        const scopes = context.userType === 'Company'
+            ? [...this.scopes, ...AGENCY_SCOPES.filter(scope => !this.scopes.includes(scope))]
+            : this.scopes;
+
+        const { state, nonce } = await this.stateService.createState(context);
+
         const oauthRequest = createOAuthInitiateRequestBuilder()
             .setDomain(this.domain)
             .setClientId(this.clientId)
-            .setScopes(this.scopes)
+            .setScopes(scopes)
+            .setState(state)
             .build();
 
-        const oauthService = createOAuthInitiationService();
+        const oauthService = createOAuthInitiationService(this.apiClient);
         // reditrects to external auth provider
-        return oauthService.initiateOAuth(oauthRequest);
+        const redirect = await oauthService.initiateOAuth(oauthRequest);
+
+        // Response.redirect() headers are immutable, copy them to add the cookie
+        const headers = new Headers(redirect.headers);
+        headers.append('Set-Cookie', this.stateService.nonceCookie(nonce));
+        return new Response(null, { status: redirect.status, headers });
     }
 
     /**
      * Handle OAuth callback - processes callback and optionally stores credentials
+     * A location that is already installed has its tokens rotated instead of being rejected,
+     * and the page tells the user whether the location was newly installed or reconnected.
+     * Agency (Company) tokens are stored as agency credentials; their locations are installed separately.
      */
-    async handleCallback(
-        request: Request, 
-        credentialStorage?: {
-            insertCredential: (credential: {
-                location_id: string;
-                company_id: string;
-                access_token: string;
-                refresh_token: string;
-                expires_at: string;
-                receiver_emails: string[];
-            }) => Promise<any>;
-        }
-    ): Promise<Response> {
+    async handleCallback(request: Request, credentialStorage?: OAuthCredentialStorage): Promise<Response> {
         const callbackService = createOAuthCallbackService(
             this.clientId,
-            this.clientSecret
+            this.clientSecret,
+            this.stateService,
+            this.apiClient
         );
 
         const callbackResult = await callbackService.handleCallback(request);
@@ -86,10 +115,30 @@ export class OAuthHandler {
         // If successful and credential storage is provided, store the credentials using the token data
         if (callbackResult.response.status === 200 && credentialStorage && callbackResult.tokenData) {
             try {
-                await this.storeCredentialsFromTokenData(callbackResult.tokenData, credentialStorage);
+                const installType = await this.storeCredentialsFromTokenData(callbackResult.tokenData, credentialStorage);
+
+                const isAgency = !callbackResult.tokenData.locationId;
+
+                return callbackService.buildHtmlResponse({
+                    success: true,
+                    message: isAgency
+                        ? installType === 'reconnected'
+                            ? 'This agency was already connected. Its tokens have been updated and its locations will be re-synced.'
+                            : 'This agency is now connected. Every location with the app installed will be monitored.'
+                        : installType === 'reconnected'
+                            ? 'This location was already connected. Its tokens have been updated and its settings kept.'
+                            : 'This location is now connected and will be monitored.',
+                    data: callbackResult.tokenData,
+                    installType,
+                    context: callbackResult.stateContext
+                });
             } catch (error) {
                 console.error('Error storing credentials after OAuth callback:', error);
-                // Don't fail the OAuth response even if storage fails
+                return callbackService.buildHtmlResponse({
+                    success: false,
+                    message: 'Authentication succeeded but the credentials could not be saved',
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
             }
         }
 
@@ -98,29 +147,36 @@ export class OAuthHandler {
 
     /**
      * Store credentials using token data that has already been exchanged
+     * @returns Whether the location (or agency) was newly installed or reconnected
      */
     private async storeCredentialsFromTokenData(
         tokenData: OAuthTokenData,
-        credentialStorage: {
-            insertCredential: (credential: {
-                location_id: string;
-                company_id: string;
-                access_token: string;
-                refresh_token: string;
-                expires_at: string;
-                receiver_emails: string[];
-            }) => Promise<any>;
-        }
-    ): Promise<void> {
+        credentialStorage: OAuthCredentialStorage
+    ): Promise<CredentialInstallType> {
+        const expiresAt = new Date(Date.now() + tokenData.expires_in * 1000).toISOString();
+
         // Store credentials using the already-exchanged token data
-        const credentialResult = await credentialStorage.insertCredential({
-            location_id: tokenData.locationId,
-            company_id: tokenData.companyId || '',
-            access_token: tokenData.access_token,
-            refresh_token: tokenData.refresh_token,
-            expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString(),
-            receiver_emails: [] // Default empty array
-        });
+        let credentialResult;
+        if (tokenData.locationId) {
+            credentialResult = await credentialStorage.upsertCredential({
+                location_id: tokenData.locationId,
+                company_id: tokenData.companyId || '',
+                access_token: tokenData.access_token,
+                refresh_token: tokenData.refresh_token,
+                expires_at: expiresAt,
+                receiver_emails: [] // Default empty array, existing locations keep theirs
+            });
+        } else {
+            if (!credentialStorage.upsertAgencyCredential) {
+                throw new Error('Agency installs are not supported by this credential storage');
+            }
+            credentialResult = await credentialStorage.upsertAgencyCredential({
+                company_id: tokenData.companyId!,
+                access_token: tokenData.access_token,
+                refresh_token: tokenData.refresh_token,
+                expires_at: expiresAt
+            });
+        }
         console.log('Credential api status:', credentialResult.status);
         console.log('Credential store message:', credentialResult.message);
         if (credentialResult.status === "ERROR") {
@@ -129,6 +185,8 @@ export class OAuthHandler {
         } else {
             console.log('Credentials stored successfully:', credentialResult.status);
         }
+
+        return credentialResult.data.action;
     }
 }
 
@@ -139,7 +197,9 @@ export function createOAuthHandler(
     clientId: string, 
     clientSecret: string, 
     domain: string, 
+    stateService: OAuthStateService,
+    apiClient: LeadConnectorClient,
     scopes?: string[]
 ): OAuthHandler {
-    return new OAuthHandler(clientId, clientSecret, domain, scopes);
+    return new OAuthHandler(clientId, clientSecret, domain, stateService, apiClient, scopes);
 }
@@ -1,31 +1,50 @@
-import { OAuthCallbackResult, OAuthTokenData } from './types';
+import { OAuthCallbackResult, OAuthStateContext, OAuthTokenData, OAuthUserType } from './types';
+import { OAuthStateService } from './oauth-state';
+import { createLeadConnectorClient, LeadConnectorClient } from '../../utils/leadconnector';
 
 /**
  * OAuth Callback Service
  * Handles the callback from external OAuth provider and exchanges code for tokens
  */
 export class OAuthCallbackService {
-    private readonly tokenUrl: string;
+    private readonly apiClient: LeadConnectorClient;
     private readonly clientId: string;
     private readonly clientSecret: string;
+    private readonly stateService: OAuthStateService;
 
-    constructor(clientId: string, clientSecret: string, tokenUrl: string = 'https://services.leadconnectorhq.com/oauth/token') {
+    constructor(clientId: string, clientSecret: string, stateService: OAuthStateService, apiClient: LeadConnectorClient = createLeadConnectorClient()) {
         this.clientId = clientId;
         this.clientSecret = clientSecret;
-        this.tokenUrl = tokenUrl;
+        this.stateService = stateService;
+        this.apiClient = apiClient;
     }
 
     /**
      * Handles OAuth callback and exchanges authorization code for tokens
+     * Callbacks with a missing, expired or forged state, or without the browser's nonce cookie, are rejected before the
+     * code is exchanged.
      * @param request The incoming request from OAuth provider
-     * @returns Object containing HTML response and token data if successful
+     * @returns Object containing HTML response, token data and the state context if successful
      */
-    async handleCallback(request: Request): Promise<{ response: Response; tokenData?: OAuthTokenData }> {
+    async handleCallback(request: Request): Promise<{ response: Response; tokenData?: OAuthTokenData; stateContext?: OAuthStateContext }> {
         const url = new URL(request.url);
         const authCode = url.searchParams.get('code');
         const state = url.searchParams.get('state');
 
-        console.log(`OAuth callback received - Code: ${authCode?.slice(0, 10) ?? 'None'}..., State: ${state}`);
+        console.log(`OAuth callback received - Code: ${authCode?.slice(0, 10) ?? 'None'}..., State: ${state ? `${state.slice(0, 10)}...` : 'None'}`);
+
+        const stateValidation = await this.stateService.validateState(state, this.stateService.getCookieNonce(request));
+        if (!stateValidation.valid) {
+            console.warn(`OAuth callback rejected: ${stateValidation.message}`);
+            const result: OAuthCallbackResult = {
+                success: false,
+                message: stateValidation.message,
+                error: stateValidation.error
+            };
+            return { response: this.buildHtmlResponse(result) };
+        }
+
+        const { nonce, issuedAt, expiresAt, ...stateContext } = stateValidation.payload!;
 
         if (!authCode) {
             const result: OAuthCallbackResult = {
@@ -37,19 +56,21 @@ export class OAuthCallbackService {
         }
 
         try {
-            const tokenData = await this.exchangeCodeForTokens(authCode);
+            const tokenData = await this.exchangeCodeForTokens(authCode, stateContext.userType ?? 'Location');
             
             const result: OAuthCallbackResult = {
                 success: true,
                 message: 'Authentication successful',
-                data: tokenData
+                data: tokenData,
+                context: stateContext
             };
 
-            console.log(`OAuth callback successful - Location: ${tokenData.locationId}`);
+            console.log(`OAuth callback successful - ${tokenData.locationId ? `Location: ${tokenData.locationId}` : `Company: ${tokenData.companyId}`}${stateContext.invitedBy ? `, invited by: ${stateContext.invitedBy}` : ''}`);
             
             return { 
                 response: this.buildHtmlResponse(result),
-                tokenData: tokenData
+                tokenData: tokenData,
+                stateContext: stateContext
             };
 
         } catch (error) {
@@ -68,42 +89,33 @@ export class OAuthCallbackService {
     /**
      * Exchanges authorization code for access and refresh tokens
      * @param authCode Authorization code from OAuth provider
+     * @param userType 'Location' for a sub-account install, 'Company' for an agency install
      * @returns Token data from OAuth provider
      */
-    private async exchangeCodeForTokens(authCode: string): Promise<OAuthTokenData> {
-        const params = new URLSearchParams({
-            client_id: this.clientId,
-            client_secret: this.clientSecret,
-            grant_type: 'authorization_code',
-            code: authCode,
-            user_type: 'Location'
-        });
-
-        console.log(`Making token request to: ${this.tokenUrl}`);
+    private async exchangeCodeForTokens(authCode: string, userType: OAuthUserType): Promise<OAuthTokenData> {
+        console.log(`Exchanging authorization code for ${userType} tokens`);
 
-        const response = await fetch(this.tokenUrl, {
-            method: 'POST',
-            headers: {
-                'Accept': 'application/json',
-                'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: params.toString(),
-        });
+        const result = await this.apiClient.exchangeAuthorizationCode(this.clientId, this.clientSecret, authCode, userType);
 
-        if (!response.ok) {
-            const errorBody = await response.text();
-            console.error(`Token exchange failed: ${response.status} - ${errorBody}`);
-            throw new Error(`Token exchange failed: ${response.status}`);
+        if (!result.ok) {
+            console.error(`Token exchange failed: ${result.status} - ${result.errorText}`);
+            throw new Error(`Token exchange failed: ${result.status}`);
         }
 
-        const tokenData = await response.json() as any;
+        const tokenData = result.data;
 
         // Validate required fields
-        if (!tokenData.access_token || !tokenData.refresh_token || !tokenData.expires_in || !tokenData.locationId) {
+        if (!tokenData.access_token || !tokenData.refresh_token || !tokenData.expires_in) {
             throw new Error('Incomplete token response from OAuth provider');
         }
+        if (userType === 'Location' && !tokenData.locationId) {
+            throw new Error('Token response is missing the location ID');
+        }
+        if (userType === 'Company' && !tokenData.companyId) {
+            throw new Error('Token response is missing the company ID');
+        }
 
-        console.log(`Token exchange successful - Location: ${tokenData.locationId}, Expires: ${tokenData.expires_in}s`);
+        console.log(`Token exchange successful - ${userType === 'Company' ? `Company: ${tokenData.companyId}` : `Location: ${tokenData.locationId}`}, Expires: ${tokenData.expires_in}s`);
 
         return {
             access_token: tokenData.access_token,
@@ -118,21 +130,37 @@ export class OAuthCallbackService {
 
     /**
      * Builds HTML response for OAuth callback result
+     * Public so the OAuth handler can render the final result once credentials are stored
+     * Every callback response deletes the nonce cookie, so a state cannot be used again.
      * @param result OAuth callback result
      * @returns HTML Response object
      */
-    private buildHtmlResponse(result: OAuthCallbackResult): Response {
+    buildHtmlResponse(result: OAuthCallbackResult): Response {
         const html = this.generateResultHtml(result);
         
         return new Response(html, {
             status: result.success ? 200 : 400,
             headers: {
                 'Content-Type': 'text/html; charset=utf-8',
-                'Access-Control-Allow-Origin': '*'
+                'Access-Control-Allow-Origin': '*',
+                'Set-Cookie': this.stateService.expiredNonceCookie()
             }
         });
     }
 
+    /**
+     * Escapes a value for use inside a double-quoted HTML attribute
+     * @param value Raw value
+     * @returns Escaped value
+     */
+    private escapeAttribute(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/"/g, '&quot;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;');
+    }
+
     /**
      * Generates HTML content for OAuth result
      * @param result OAuth callback result
@@ -142,6 +170,14 @@ export class OAuthCallbackService {
         const status = result.success ? 'success' : 'error';
         const statusColor = result.success ? '#28a745' : '#dc3545';
         const icon = result.success ? '✅' : '❌';
+        const installTarget = result.data && !result.data.locationId ? 'Agency' : 'Location';
+        const heading = !result.success
+            ? 'Authentication Failed'
+            : result.installType === 'reconnected'
+                ? `${installTarget} Reconnected`
+                : result.installType === 'installed'
+                    ? `${installTarget} Installed`
+                    : 'Authentication Successful';
 
         return `
         <!DOCTYPE html>
@@ -222,7 +258,7 @@ export class OAuthCallbackService {
             <div class="container">
                 <div class="status-icon">${icon}</div>
                 <div class="status-message">
-                    Authentication ${result.success ? 'Successful' : 'Failed'}
+                    ${heading}
                 </div>
                 <div class="details">
                     ${result.message}
@@ -231,11 +267,12 @@ export class OAuthCallbackService {
                 ${result.success && result.data ? `
                 <div class="data-section">
                     <strong>Authentication Details:</strong>
-                    <div class="data-item">Location ID: ${result.data.locationId}</div>
+                    <div class="data-item">Location ID: ${result.data.locationId || 'N/A (agency install)'}</div>
                     <div class="data-item">Company ID: ${result.data.companyId || 'N/A'}</div>
                     <div class="data-item">User Type: ${result.data.userType || 'N/A'}</div>
                     <div class="data-item">Scope: ${result.data.scope || 'N/A'}</div>
                     <div class="data-item">Token Expires: ${result.data.expires_in}s</div>
+                    ${result.installType ? `<div class="data-item">Install: ${result.installType === 'reconnected' ? 'Reconnected (existing settings kept)' : 'Newly installed'}</div>` : ''}
                 </div>
                 <div style="margin-top: 1.5rem; padding: 1rem; background-color: #d1ecf1; border: 1px solid #bee5eb; border-radius: 4px; color: #0c5460;">
                     <strong>✅ Authentication Complete!</strong><br>
@@ -246,6 +283,11 @@ export class OAuthCallbackService {
                         <kbd style="background: #e9ecef; padding: 2px 4px; border-radius: 3px; margin: 0 2px;">Cmd+W</kbd> (Mac)
                     </span>
                 </div>
+                ${result.context?.returnUrl ? `
+                <a class="close-btn" href="${this.escapeAttribute(result.context.returnUrl)}" style="display: inline-block; margin-top: 1rem; text-decoration: none;">
+                    Continue
+                </a>
+                ` : ''}
                 ` : ''}
                 
                 ${!result.success && result.error ? `
@@ -272,9 +314,10 @@ export class OAuthCallbackService {
  * Factory function to create OAuth callback service
  * @param clientId OAuth client ID
  * @param clientSecret OAuth client secret
- * @param tokenUrl Optional custom token URL
+ * @param stateService Service used to validate the callback's state parameter
+ * @param apiClient Optional LeadConnector API client, defaults to the production hosts
  * @returns OAuthCallbackService instance
  */
-export function createOAuthCallbackService(clientId: string, clientSecret: string, tokenUrl?: string): OAuthCallbackService {
-    return new OAuthCallbackService(clientId, clientSecret, tokenUrl);
+export function createOAuthCallbackService(clientId: string, clientSecret: string, stateService: OAuthStateService, apiClient?: LeadConnectorClient): OAuthCallbackService {
+    return new OAuthCallbackService(clientId, clientSecret, stateService, apiClient);
 }
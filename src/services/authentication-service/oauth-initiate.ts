@@ -1,14 +1,15 @@
 import { OAuthInitiateRequest } from './types';
+import { createLeadConnectorClient, LeadConnectorClient } from '../../utils/leadconnector';
 
 /**
  * OAuth Initiation Service
  * Handles the first step of OAuth flow by redirecting users to external authentication
  */
 export class OAuthInitiationService {
-    private readonly baseAuthUrl: string;
+    private readonly apiClient: LeadConnectorClient;
 
-    constructor(baseAuthUrl: string = 'https://marketplace.gohighlevel.com/oauth/chooselocation') {
-        this.baseAuthUrl = baseAuthUrl;
+    constructor(apiClient: LeadConnectorClient = createLeadConnectorClient()) {
+        this.apiClient = apiClient;
     }
 
     /**
@@ -40,15 +41,19 @@ export class OAuthInitiationService {
             scope: request.scopes.join(' ')
         });
 
-        return `${this.baseAuthUrl}?${params.toString()}`;
+        if (request.state) {
+            params.set('state', request.state);
+        }
+
+        return this.apiClient.buildAuthorizationUrl(params);
     }
 }
 
 /**
  * Factory function to create OAuth initiation service
- * @param baseAuthUrl Optional custom base auth URL
+ * @param apiClient Optional LeadConnector API client, defaults to the production hosts
  * @returns OAuthInitiationService instance
  */
-export function createOAuthInitiationService(baseAuthUrl?: string): OAuthInitiationService {
-    return new OAuthInitiationService(baseAuthUrl);
+export function createOAuthInitiationService(apiClient?: LeadConnectorClient): OAuthInitiationService {
+    return new OAuthInitiationService(apiClient);
 }
\ No newline at end of file
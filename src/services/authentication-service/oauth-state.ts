@@ -0,0 +1,156 @@
+import { IssuedOAuthState, OAuthStateContext, OAuthStatePayload, OAuthStateValidationResult } from './types';
+import { base64UrlToBytes, bytesToBase64Url } from '../../utils/encoding/base64';
+import { timingSafeEqualStrings } from '../../utils/security/constant-time';
+
+// Cookie that binds a state to the browser that started the authorization
+const NONCE_COOKIE = 'oauth_state_nonce';
+
+/**
+ * OAuth State Service
+ * Mints and validates the `state` parameter that protects the OAuth callback against CSRF.
+ * The state is stateless: a base64url JSON payload followed by its HMAC-SHA256 signature.
+ * Its nonce is also set as a short-lived cookie, so a state only validates in the browser it was issued to.
+ */
+export class OAuthStateService {
+    private readonly secret: string;
+    private readonly ttlMs: number;
+    private signingKey?: Promise<CryptoKey>;
+
+    constructor(secret: string, ttlMs: number = 10 * 60 * 1000) {
+        if (!secret) {
+            throw new Error('OAuth state secret is required (OAUTH_STATE_SECRET)');
+        }
+        this.secret = secret;
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * Creates a signed, short-lived state value
+     * @param context Optional context carried through the OAuth round trip
+     * @returns State string in the form `<payload>.<signature>` and the nonce to set with nonceCookie()
+     */
+    async createState(context: OAuthStateContext = {}): Promise<IssuedOAuthState> {
+        const issuedAt = Date.now();
+        const payload: OAuthStatePayload = {
+            ...context,
+            nonce: bytesToBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+            issuedAt,
+            expiresAt: issuedAt + this.ttlMs
+        };
+
+        const encodedPayload = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+        const signature = await crypto.subtle.sign('HMAC', await this.getSigningKey(), new TextEncoder().encode(encodedPayload));
+
+        return {
+            state: `${encodedPayload}.${bytesToBase64Url(new Uint8Array(signature))}`,
+            nonce: payload.nonce
+        };
+    }
+
+    /**
+     * Validates a state value received on the OAuth callback
+     * @param state The `state` query parameter
+     * @param cookieNonce The nonce cookie sent with the callback, see getCookieNonce()
+     * @returns Validation result with the decoded payload if the state is genuine, not expired and issued to this browser
+     */
+    async validateState(state: string | null, cookieNonce: string | null): Promise<OAuthStateValidationResult> {
+        if (!state) {
+            return { valid: false, error: 'MISSING_STATE', message: 'OAuth state parameter not provided' };
+        }
+
+        const parts = state.split('.');
+        if (parts.length !== 2) {
+            return { valid: false, error: 'INVALID_STATE', message: 'OAuth state parameter is malformed' };
+        }
+
+        const [encodedPayload, encodedSignature] = parts;
+
+        let signatureValid: boolean;
+        try {
+            // subtle.verify compares the signature in constant time
+            signatureValid = await crypto.subtle.verify(
+                'HMAC',
+                await this.getSigningKey(),
+                base64UrlToBytes(encodedSignature),
+                new TextEncoder().encode(encodedPayload)
+            );
+        } catch {
+            signatureValid = false;
+        }
+
+        if (!signatureValid) {
+            return { valid: false, error: 'INVALID_STATE', message: 'OAuth state signature is invalid' };
+        }
+
+        let payload: OAuthStatePayload;
+        try {
+            payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(encodedPayload)));
+        } catch {
+            return { valid: false, error: 'INVALID_STATE', message: 'OAuth state payload is malformed' };
+        }
+
+        if (typeof payload.expiresAt !== 'number' || Date.now() > payload.expiresAt) {
+            return { valid: false, error: 'EXPIRED_STATE', message: 'OAuth state has expired, please start the authorization again' };
+        }
+
+        if (!cookieNonce || typeof payload.nonce !== 'string' || !(await timingSafeEqualStrings(cookieNonce, payload.nonce))) {
+            return { valid: false, error: 'STATE_MISMATCH', message: 'OAuth state was not issued to this browser, please start the authorization again' };
+        }
+
+        return { valid: true, payload, message: 'OAuth state is valid' };
+    }
+
+    /**
+     * The Set-Cookie value that binds a state to the browser, set on the redirect to the authorization page
+     * SameSite=Lax still sends it on the provider's top-level redirect back to the callback.
+     * @param nonce The nonce returned by createState()
+     */
+    nonceCookie(nonce: string): string {
+        return `${NONCE_COOKIE}=${nonce}; Max-Age=${Math.floor(this.ttlMs / 1000)}; Path=/; HttpOnly; Secure; SameSite=Lax`;
+    }
+
+    /**
+     * The Set-Cookie value that deletes the nonce cookie, so every state is used at most once
+     */
+    expiredNonceCookie(): string {
+        return `${NONCE_COOKIE}=; Max-Age=0; Path=/; HttpOnly; Secure; SameSite=Lax`;
+    }
+
+    /**
+     * Reads the nonce cookie of a callback request
+     * @param request The callback request
+     * @returns The nonce, or null if the cookie was not sent
+     */
+    getCookieNonce(request: Request): string | null {
+        for (const cookie of (request.headers.get('Cookie') ?? '').split(';')) {
+            const [name, ...value] = cookie.trim().split('=');
+            if (name === NONCE_COOKIE) {
+                return value.join('=') || null;
+            }
+        }
+        return null;
+    }
+
+    private getSigningKey(): Promise<CryptoKey> {
+        if (!this.signingKey) {
+            this.signingKey = crypto.subtle.importKey(
+                'raw',
+                new TextEncoder().encode(this.secret),
+                { name: 'HMAC', hash: 'SHA-256' },
+                false,
+                ['sign', 'verify']
+            );
+        }
+        return this.signingKey;
+    }
+}
+
+/**
+ * Factory function to create OAuth state service
+ * @param secret Secret used to sign state values (OAUTH_STATE_SECRET)
+ * @param ttlMs Optional state lifetime in milliseconds (default 10 minutes)
+ * @returns OAuthStateService instance
+ */
+export function createOAuthStateService(secret: string, ttlMs?: number): OAuthStateService {
+    return new OAuthStateService(secret, ttlMs);
+}
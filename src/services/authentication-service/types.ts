@@ -4,6 +4,38 @@ export interface OAuthInitiateRequest {
     clientId: string;
     scopes: string[];
     redirectUri?: string; // Optional, will be constructed if not provided
+    state?: string; // Signed CSRF state, see OAuthStateService
+}
+
+// Whether the app is installed for a single sub-account or for a whole agency
+export type OAuthUserType = 'Location' | 'Company';
+
+// Context carried through the OAuth round trip inside the signed state
+export interface OAuthStateContext {
+    returnUrl?: string; // Where the callback page links back to
+    invitedBy?: string; // Admin who sent the install link
+    userType?: OAuthUserType; // Defaults to 'Location'
+}
+
+// Decoded OAuth state
+export interface OAuthStatePayload extends OAuthStateContext {
+    nonce: string;
+    issuedAt: number;
+    expiresAt: number;
+}
+
+// A newly signed state and the nonce its cookie must carry
+export interface IssuedOAuthState {
+    state: string;
+    nonce: string;
+}
+
+// OAuth state validation result
+export interface OAuthStateValidationResult {
+    valid: boolean;
+    payload?: OAuthStatePayload;
+    error?: 'MISSING_STATE' | 'INVALID_STATE' | 'EXPIRED_STATE' | 'STATE_MISMATCH';
+    message: string;
 }
 
 // OAuth callback response data
@@ -11,20 +43,43 @@ export interface OAuthTokenData {
     access_token: string;
     refresh_token: string;
     expires_in: number;
-    locationId: string;
+    locationId?: string; // Missing for agency (Company) tokens
     companyId?: string;
     userType?: string;
     scope?: string;
 }
 
+// Whether the callback created a new credential or rotated the tokens of an existing one
+export type CredentialInstallType = 'installed' | 'reconnected';
+
 // OAuth callback result
 export interface OAuthCallbackResult {
     success: boolean;
     message: string;
     data?: OAuthTokenData;
+    installType?: CredentialInstallType;
+    context?: OAuthStateContext;
     error?: string;
 }
 
+// Credential store used by the OAuth handler to persist exchanged tokens
+export interface OAuthCredentialStorage {
+    upsertCredential: (credential: {
+        location_id: string;
+        company_id: string;
+        access_token: string;
+        refresh_token: string;
+        expires_at: string;
+        receiver_emails: string[];
+    }) => Promise<any>;
+    upsertAgencyCredential?: (credential: {
+        company_id: string;
+        access_token: string;
+        refresh_token: string;
+        expires_at: string;
+    }) => Promise<any>;
+}
+
 // Builder for OAuth initiate request
 export class OAuthInitiateRequestBuilder {
     private request: Partial<OAuthInitiateRequest> = {};
@@ -57,6 +112,11 @@ export class OAuthInitiateRequestBuilder {
         return this;
     }
 
+    setState(state: string): OAuthInitiateRequestBuilder {
+        this.request.state = state;
+        return this;
+    }
+
     build(): OAuthInitiateRequest {
         if (!this.request.domain) {
             throw new Error('Domain is required');
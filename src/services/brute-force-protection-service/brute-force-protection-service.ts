@@ -0,0 +1,94 @@
+/**
+ * Brute Force Protection Service
+ * Counts failed authentications per client IP and per presented API key prefix and locks out
+ * subjects that keep failing, with exponentially growing lockouts
+ */
+
+import { AuthFailureSubject, LockoutPolicy, LockoutStatus } from '../../common-types/auth-lockout';
+import { presentedApiKeyPrefix } from '../api-key-service';
+
+// 5 failures within 15 minutes lock a subject out for 1 minute, then 2, 4, 8... up to 1 hour
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+    maxFailures: 5,
+    failureWindowSeconds: 15 * 60,
+    baseLockoutSeconds: 60,
+    maxLockoutSeconds: 60 * 60
+};
+
+// Lockout events listed by GET /admin/lockout-events
+const DEFAULT_LOCKOUT_EVENTS_LIMIT = 50;
+const MAX_LOCKOUT_EVENTS_LIMIT = 200;
+
+export class BruteForceProtectionService {
+    private credentialsStub: any;
+    private policy: LockoutPolicy;
+
+    constructor(credentialsStub: any, policy: LockoutPolicy = DEFAULT_LOCKOUT_POLICY) {
+        this.credentialsStub = credentialsStub;
+        this.policy = policy;
+    }
+
+    /**
+     * Checks whether the request's client IP or presented key prefix is locked out, before its credential is checked
+     * A locked key prefix turns away every key starting with it, including a valid one, until the lockout ends.
+     * @param request - The incoming request
+     * @returns LockoutStatus with the seconds until the lockout ends
+     */
+    async checkLockout(request: Request): Promise<LockoutStatus> {
+        return this.credentialsStub.checkAuthLockout(this.getSubjects(request));
+    }
+
+    /**
+     * Counts a failed authentication against the client IP and the presented key prefix
+     * @param request - The incoming request
+     * @param reason - What failed, stored with any resulting lockout event
+     * @returns LockoutStatus after counting the failure
+     */
+    async recordFailure(request: Request, reason: string): Promise<LockoutStatus> {
+        return this.credentialsStub.recordAuthFailure(this.getSubjects(request), reason, this.policy);
+    }
+
+    /**
+     * Resets the failure counts of the client IP and key prefix after a successful authentication
+     * How often they were locked out is kept, so the next lockout is still longer.
+     * @param request - The incoming request
+     */
+    async recordSuccess(request: Request): Promise<void> {
+        await this.credentialsStub.clearAuthFailures(this.getSubjects(request));
+    }
+
+    /**
+     * Lists the most recent lockouts
+     * @param limit - The `limit` query parameter, defaults to 50 and is clamped to 1-200
+     */
+    async getLockoutEvents(limit: string | null) {
+        const parsedLimit = limit ? Number(limit) : DEFAULT_LOCKOUT_EVENTS_LIMIT;
+        if (!Number.isInteger(parsedLimit)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_LIMIT',
+                message: `limit must be an integer between 1 and ${MAX_LOCKOUT_EVENTS_LIMIT}`
+            };
+        }
+
+        return this.credentialsStub.getLockoutEvents(Math.min(Math.max(parsedLimit, 1), MAX_LOCKOUT_EVENTS_LIMIT));
+    }
+
+    private getSubjects(request: Request): AuthFailureSubject[] {
+        // Cloudflare sets CF-Connecting-IP to the real client address
+        const subjects: AuthFailureSubject[] = [{ scope: 'ip', subject: request.headers.get('CF-Connecting-IP') || 'unknown' }];
+        const keyPrefix = presentedApiKeyPrefix(request);
+        if (keyPrefix) {
+            subjects.push({ scope: 'key', subject: keyPrefix });
+        }
+        return subjects;
+    }
+}
+
+/**
+ * Factory function to create a BruteForceProtectionService instance
+ */
+export function createBruteForceProtectionService(credentialsStub: any, policy?: LockoutPolicy): BruteForceProtectionService {
+    return new BruteForceProtectionService(credentialsStub, policy);
+}
@@ -0,0 +1,10 @@
+/**
+ * Brute Force Protection Service Module
+ * Exports the service class, factory function and default lockout policy
+ */
+
+export {
+    BruteForceProtectionService,
+    createBruteForceProtectionService,
+    DEFAULT_LOCKOUT_POLICY
+} from './brute-force-protection-service';
@@ -0,0 +1,32 @@
+import { EmailTransportType } from "../../common-types/email-transport-type";
+import { EmailMessage, EmailTransport, EmailTransportError, EmailTransportReceipt } from "./email-transport";
+
+// Upper bound for the stored messages, the oldest are deleted
+const MAX_CAPTURED_EMAILS = 200;
+
+// Stores messages in the credentials durable object instead of sending them, for development and tests;
+// read them with POST /test/capturedEmails
+export class CaptureTransport implements EmailTransport {
+    readonly type = EmailTransportType.CAPTURE;
+    private credentialsStub: any;
+
+    constructor(credentialsStub: any) {
+        this.credentialsStub = credentialsStub;
+    }
+
+    async send(message: EmailMessage): Promise<EmailTransportReceipt> {
+        const captureId = crypto.randomUUID();
+        const result = await this.credentialsStub.captureEmail({
+            capture_id: captureId,
+            sender: message.from,
+            recipient: message.to,
+            subject: message.subject,
+            html: message.html
+        }, MAX_CAPTURED_EMAILS);
+
+        if (result.status !== 'SUCCESS') {
+            throw new EmailTransportError(this.type, result.message);
+        }
+        return { messageId: captureId };
+    }
+}
@@ -1,5 +1,5 @@
-import { Resend } from "resend";
 import { SendEmailRequest } from "./requests";
+import { EmailTransport } from "./email-transport";
 import { 
     EmailSendResult, 
     BulkEmailResult, 
@@ -8,38 +8,33 @@ import {
     createBulkEmailResultBuilder 
 } from "./results";
 
-// Email sender service - Updated to use API key from request
+// Email sender service - Sends through the configured transport (see createEmailTransport)
 export class EmailSender {
-    constructor() {}
+    private transport: EmailTransport;
+
+    constructor(transport: EmailTransport) {
+        this.transport = transport;
+    }
 
     // Send email to a single recipient
     private async sendSingleEmail(
         senderEmail: string,
         receiverEmail: string,
         subject: string,
-        htmlContent: string,
-        resendApiKey: string
+        htmlContent: string
     ): Promise<EmailSendResult> {
         try {
-            console.log(`Attempting to send email to: ${receiverEmail}`);
-            
-            // Create Resend interface instance with the provided API key
-            const resend = new Resend(resendApiKey);
-            
-            const { data, error } = await resend.emails.send({
+            console.log(`Attempting to send email to: ${receiverEmail} via ${this.transport.type}`);
+
+            const { messageId } = await this.transport.send({
                 from: senderEmail,
                 to: receiverEmail,
                 subject: subject,
                 html: htmlContent,
             });
 
-            if (error) {
-                console.warn(`Failed to send email to ${receiverEmail}:`, error);
-                return createErrorResult(receiverEmail, JSON.stringify(error));
-            }
-
-            console.log(`Successfully sent email to ${receiverEmail}, message ID: ${data?.id}`);
-            return createSuccessResult(receiverEmail, data?.id);
+            console.log(`Successfully sent email to ${receiverEmail}, message ID: ${messageId}`);
+            return createSuccessResult(receiverEmail, messageId);
 
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -61,8 +56,7 @@ export class EmailSender {
                 emailRequest.senderEmail,
                 receiverEmail,
                 emailRequest.subject,
-                emailRequest.htmlContent,
-                emailRequest.resendApiKey
+                emailRequest.htmlContent
             );
             results.push(result);
         }
@@ -85,8 +79,7 @@ export class EmailSender {
                 emailRequest.senderEmail,
                 receiverEmail,
                 emailRequest.subject,
-                emailRequest.htmlContent,
-                emailRequest.resendApiKey
+                emailRequest.htmlContent
             )
         );
 
@@ -103,6 +96,6 @@ export class EmailSender {
 }
 
 // Factory function to create EmailSender
-export function createEmailSender(): EmailSender {
-    return new EmailSender();
+export function createEmailSender(transport: EmailTransport): EmailSender {
+    return new EmailSender(transport);
 }
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { EmailTransportType } from "../../common-types/email-transport-type";
+import { CaptureTransport } from "./capture-transport";
+import { EmailTransport, EmailTransportError } from "./email-transport";
+import { MailChannelsTransport } from "./mailchannels-transport";
+import { ResendTransport } from "./resend-transport";
+import { SesTransport } from "./ses-transport";
+import { SmtpTransport } from "./smtp-transport";
+
+// The worker variables and secrets the transports read, only the chosen transport's are required
+export interface EmailTransportEnv {
+    EMAIL_TRANSPORT?: string; // An EmailTransportType, "resend" when not set
+    RESEND_API_KEY?: string;
+    SMTP_HOST?: string;
+    SMTP_PORT?: string;
+    SMTP_USERNAME?: string;
+    SMTP_PASSWORD?: string;
+    AWS_SES_REGION?: string;
+    AWS_ACCESS_KEY_ID?: string;
+    AWS_SECRET_ACCESS_KEY?: string;
+    MAILCHANNELS_API_KEY?: string;
+}
+
+/**
+ * Creates the transport chosen by EMAIL_TRANSPORT
+ * @param env - Worker variables and secrets
+ * @param credentialsStub - Stores the messages of the capture transport
+ * @throws EmailTransportError if the type is unknown or the transport's settings are missing
+ */
+export function createEmailTransport(env: EmailTransportEnv, credentialsStub: any): EmailTransport {
+    const type = (env.EMAIL_TRANSPORT || EmailTransportType.RESEND) as EmailTransportType;
+
+    switch (type) {
+        case EmailTransportType.RESEND:
+            return new ResendTransport(env.RESEND_API_KEY ?? '');
+        case EmailTransportType.SMTP:
+            return new SmtpTransport({
+                host: env.SMTP_HOST ?? '',
+                port: Number(env.SMTP_PORT || 587),
+                username: env.SMTP_USERNAME || undefined,
+                password: env.SMTP_PASSWORD || undefined
+            });
+        case EmailTransportType.SES:
+            return new SesTransport({
+                region: env.AWS_SES_REGION ?? '',
+                accessKeyId: env.AWS_ACCESS_KEY_ID ?? '',
+                secretAccessKey: env.AWS_SECRET_ACCESS_KEY ?? ''
+            });
+        case EmailTransportType.MAILCHANNELS:
+            return new MailChannelsTransport(env.MAILCHANNELS_API_KEY ?? '');
+        case EmailTransportType.CAPTURE:
+            return new CaptureTransport(credentialsStub);
+        default:
+            throw new EmailTransportError(type, `Unknown EMAIL_TRANSPORT, use one of: ${Object.values(EmailTransportType).join(', ')}`);
+    }
+}
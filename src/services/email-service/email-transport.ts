@@ -0,0 +1,33 @@
+/**
+ * Email Transport
+ * The provider behind EmailSender: every transport sends one message to one recipient and throws when the provider
+ * does not accept it
+ */
+
+import { EmailTransportType } from "../../common-types/email-transport-type";
+
+// A single email, as handed to a transport
+export interface EmailMessage {
+    from: string;
+    to: string;
+    subject: string;
+    html: string;
+}
+
+// What the provider returned for an accepted message
+export interface EmailTransportReceipt {
+    messageId?: string;
+}
+
+export interface EmailTransport {
+    readonly type: EmailTransportType;
+    send(message: EmailMessage): Promise<EmailTransportReceipt>;
+}
+
+// Thrown by the transports when the provider rejects a message, or a configuration value is missing
+export class EmailTransportError extends Error {
+    constructor(transport: EmailTransportType, message: string) {
+        super(`${transport}: ${message}`);
+        this.name = 'EmailTransportError';
+    }
+}
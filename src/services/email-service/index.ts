@@ -2,6 +2,13 @@
 export * from './requests';
 export * from './results';
 export * from './email-sender';
+export * from './email-transport';
+export * from './email-transport-config';
+export * from './resend-transport';
+export * from './smtp-transport';
+export * from './ses-transport';
+export * from './mailchannels-transport';
+export * from './capture-transport';
 
 // Re-export commonly used items for convenience
 export type { 
@@ -26,3 +33,12 @@ export {
     EmailSender,
     createEmailSender 
 } from './email-sender';
+
+export type {
+    EmailTransport,
+    EmailMessage
+} from './email-transport';
+
+export {
+    createEmailTransport
+} from './email-transport-config';
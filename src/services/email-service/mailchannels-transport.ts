@@ -0,0 +1,38 @@
+import { EmailTransportType } from "../../common-types/email-transport-type";
+import { fetchWithRetry } from "../../utils/http/http-client";
+import { EmailMessage, EmailTransport, EmailTransportError, EmailTransportReceipt } from "./email-transport";
+
+const MAILCHANNELS_SEND_URL = 'https://api.mailchannels.net/tx/v1/send';
+
+// Sends through the MailChannels Email API, the sender domain needs its Domain Lockdown TXT record
+export class MailChannelsTransport implements EmailTransport {
+    readonly type = EmailTransportType.MAILCHANNELS;
+    private apiKey: string;
+
+    constructor(apiKey: string) {
+        if (!apiKey) {
+            throw new EmailTransportError(this.type, 'MAILCHANNELS_API_KEY is required');
+        }
+        this.apiKey = apiKey;
+    }
+
+    async send(message: EmailMessage): Promise<EmailTransportReceipt> {
+        // Not idempotent: a send whose response was lost may have been delivered
+        const response = await fetchWithRetry(MAILCHANNELS_SEND_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Api-Key': this.apiKey },
+            body: JSON.stringify({
+                personalizations: [{ to: [{ email: message.to }] }],
+                from: { email: message.from },
+                subject: message.subject,
+                content: [{ type: 'text/html', value: message.html }]
+            })
+        }, { label: 'MailChannels send', idempotent: false });
+
+        if (!response.ok) {
+            throw new EmailTransportError(this.type, `${response.status} ${(await response.text()).slice(0, 500)}`);
+        }
+        await response.body?.cancel();
+        return { messageId: response.headers.get('X-Message-Id') ?? undefined };
+    }
+}
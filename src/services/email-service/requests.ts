@@ -4,7 +4,6 @@ export interface SendEmailRequest {
     receiverEmails: string[];
     subject: string;
     htmlContent: string;
-    resendApiKey: string;
 }
 
 // Builder pattern for SendEmailRequest
@@ -39,11 +38,6 @@ export class SendEmailRequestBuilder {
         return this;
     }
 
-    setResendApiKey(resendApiKey: string): SendEmailRequestBuilder {
-        this.request.resendApiKey = resendApiKey;
-        return this;
-    }
-
     build(): SendEmailRequest {
         // Validate required fields
         if (!this.request.senderEmail) {
@@ -58,9 +52,6 @@ export class SendEmailRequestBuilder {
         if (!this.request.htmlContent) {
             throw new Error('HTML content is required');
         }
-        if (!this.request.resendApiKey) {
-            throw new Error('Resend API key is required');
-        }
 
         return this.request as SendEmailRequest;
     }
@@ -0,0 +1,30 @@
+import { Resend } from "resend";
+import { EmailTransportType } from "../../common-types/email-transport-type";
+import { EmailMessage, EmailTransport, EmailTransportError, EmailTransportReceipt } from "./email-transport";
+
+// Sends through the Resend API, one client for every message
+export class ResendTransport implements EmailTransport {
+    readonly type = EmailTransportType.RESEND;
+    private resend: Resend;
+
+    constructor(apiKey: string) {
+        if (!apiKey) {
+            throw new EmailTransportError(this.type, 'RESEND_API_KEY is required');
+        }
+        this.resend = new Resend(apiKey);
+    }
+
+    async send(message: EmailMessage): Promise<EmailTransportReceipt> {
+        const { data, error } = await this.resend.emails.send({
+            from: message.from,
+            to: message.to,
+            subject: message.subject,
+            html: message.html,
+        });
+
+        if (error) {
+            throw new EmailTransportError(this.type, JSON.stringify(error));
+        }
+        return { messageId: data?.id };
+    }
+}
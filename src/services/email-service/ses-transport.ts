@@ -0,0 +1,101 @@
+import { EmailTransportType } from "../../common-types/email-transport-type";
+import { fetchWithRetry } from "../../utils/http/http-client";
+import { EmailMessage, EmailTransport, EmailTransportError, EmailTransportReceipt } from "./email-transport";
+
+export interface SesTransportConfig {
+    region: string; // e.g. "eu-west-1"
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+// Sends through the Amazon SES v2 API, requests are signed with AWS Signature Version 4
+export class SesTransport implements EmailTransport {
+    readonly type = EmailTransportType.SES;
+    private config: SesTransportConfig;
+
+    constructor(config: SesTransportConfig) {
+        if (!config.region || !config.accessKeyId || !config.secretAccessKey) {
+            throw new EmailTransportError(this.type, 'AWS_SES_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY are required');
+        }
+        this.config = config;
+    }
+
+    async send(message: EmailMessage): Promise<EmailTransportReceipt> {
+        const host = `email.${this.config.region}.amazonaws.com`;
+        const path = '/v2/email/outbound-emails';
+        const body = JSON.stringify({
+            FromEmailAddress: message.from,
+            Destination: { ToAddresses: [message.to] },
+            Content: {
+                Simple: {
+                    Subject: { Data: message.subject, Charset: 'UTF-8' },
+                    Body: { Html: { Data: message.html, Charset: 'UTF-8' } }
+                }
+            }
+        });
+
+        const headers = await this.signRequest(host, path, body, new Date());
+        // Not idempotent: a send whose response was lost may have been delivered
+        const response = await fetchWithRetry(`https://${host}${path}`, { method: 'POST', headers, body }, {
+            label: 'SES send',
+            idempotent: false
+        });
+
+        if (!response.ok) {
+            throw new EmailTransportError(this.type, `${response.status} ${(await response.text()).slice(0, 500)}`);
+        }
+        const data = await response.json() as { MessageId?: string };
+        return { messageId: data.MessageId };
+    }
+
+    // Signature Version 4 headers for a POST without query string
+    private async signRequest(host: string, path: string, body: string, now: Date): Promise<Record<string, string>> {
+        const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+        const dateStamp = amzDate.slice(0, 8);
+        const scope = `${dateStamp}/${this.config.region}/ses/aws4_request`;
+        const payloadHash = toHex(await crypto.subtle.digest('SHA-256', encode(body)));
+
+        const signedHeaders = 'content-type;host;x-amz-content-sha256;x-amz-date';
+        const canonicalRequest = [
+            'POST',
+            path,
+            '',
+            `content-type:application/json\nhost:${host}\nx-amz-content-sha256:${payloadHash}\nx-amz-date:${amzDate}\n`,
+            signedHeaders,
+            payloadHash
+        ].join('\n');
+
+        const stringToSign = [
+            'AWS4-HMAC-SHA256',
+            amzDate,
+            scope,
+            toHex(await crypto.subtle.digest('SHA-256', encode(canonicalRequest)))
+        ].join('\n');
+
+        let signingKey: ArrayBuffer = encode(`AWS4${this.config.secretAccessKey}`).buffer as ArrayBuffer;
+        for (const part of [dateStamp, this.config.region, 'ses', 'aws4_request']) {
+            signingKey = await hmac(signingKey, part);
+        }
+        const signature = toHex(await hmac(signingKey, stringToSign));
+
+        return {
+            'Content-Type': 'application/json',
+            'X-Amz-Content-Sha256': payloadHash,
+            'X-Amz-Date': amzDate,
+            'Authorization': `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+        };
+    }
+}
+
+function encode(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+}
+
+async function hmac(key: ArrayBuffer, data: string): Promise<ArrayBuffer> {
+    const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    return crypto.subtle.sign('HMAC', cryptoKey, encode(data));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+    return [...new Uint8Array(buffer)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,194 @@
+import { connect } from "cloudflare:sockets";
+import { EmailTransportType } from "../../common-types/email-transport-type";
+import { bytesToBase64 } from "../../utils/encoding/base64";
+import { EmailMessage, EmailTransport, EmailTransportError, EmailTransportReceipt } from "./email-transport";
+
+export interface SmtpTransportConfig {
+    host: string;
+    port: number; // 465 for implicit TLS, 587 for STARTTLS - Workers cannot connect to port 25
+    username?: string;
+    password?: string;
+}
+
+// Upper bound for one server reply, a relay that stalls must not hold up the whole stock update
+const REPLY_TIMEOUT_MS = 15000;
+const IMPLICIT_TLS_PORT = 465;
+
+// Sends through an SMTP relay over a TCP socket, one connection per message
+export class SmtpTransport implements EmailTransport {
+    readonly type = EmailTransportType.SMTP;
+    private config: SmtpTransportConfig;
+
+    constructor(config: SmtpTransportConfig) {
+        if (!config.host || !Number.isInteger(config.port) || config.port < 1) {
+            throw new EmailTransportError(this.type, 'SMTP_HOST and SMTP_PORT are required');
+        }
+        this.config = config;
+    }
+
+    async send(message: EmailMessage): Promise<EmailTransportReceipt> {
+        const implicitTls = this.config.port === IMPLICIT_TLS_PORT;
+        const connection = new SmtpConnection(connect(
+            { hostname: this.config.host, port: this.config.port },
+            { secureTransport: implicitTls ? 'on' : 'starttls', allowHalfOpen: false }
+        ));
+
+        const heloName = domainOf(message.from) || 'localhost';
+
+        try {
+            await connection.expect(220);
+            await connection.command(`EHLO ${heloName}`, 250);
+
+            if (!implicitTls) {
+                await connection.command('STARTTLS', 220);
+                connection.upgrade(this.config.host);
+                await connection.command(`EHLO ${heloName}`, 250);
+            }
+
+            if (this.config.username) {
+                const credentials = new TextEncoder().encode(`\u0000${this.config.username}\u0000${this.config.password ?? ''}`);
+                await connection.command(`AUTH PLAIN ${bytesToBase64(credentials)}`, 235);
+            }
+
+            const messageId = `<${crypto.randomUUID()}@${domainOf(message.from) || this.config.host}>`;
+            await connection.command(`MAIL FROM:<${addressOf(message.from)}>`, 250);
+            await connection.command(`RCPT TO:<${addressOf(message.to)}>`, 250, 251);
+            await connection.command('DATA', 354);
+            await connection.sendData(composeMessage(message, messageId));
+            await connection.command('QUIT', 221).catch(() => undefined);
+
+            return { messageId };
+        } catch (error) {
+            throw new EmailTransportError(this.type, error instanceof Error ? error.message : 'Unknown error');
+        } finally {
+            await connection.close();
+        }
+    }
+}
+
+// Line-based SMTP dialogue over a socket
+class SmtpConnection {
+    private socket: Socket;
+    private reader: ReadableStreamDefaultReader<Uint8Array>;
+    private writer: WritableStreamDefaultWriter<Uint8Array>;
+    private decoder = new TextDecoder();
+    private buffer = '';
+
+    constructor(socket: Socket) {
+        this.socket = socket;
+        this.reader = socket.readable.getReader();
+        this.writer = socket.writable.getWriter();
+    }
+
+    // Switches to TLS after the server accepted STARTTLS
+    upgrade(hostname: string): void {
+        this.reader.releaseLock();
+        this.writer.releaseLock();
+        this.socket = this.socket.startTls({ expectedServerHostname: hostname });
+        this.reader = this.socket.readable.getReader();
+        this.writer = this.socket.writable.getWriter();
+        this.buffer = '';
+    }
+
+    // Errors name only the verb, the AUTH line holds the password
+    async command(line: string, ...expected: number[]): Promise<string> {
+        return this.send(line, line.split(' ')[0], expected);
+    }
+
+    // Sends the message after DATA was accepted, terminated by a line with a single "."
+    async sendData(content: string): Promise<string> {
+        return this.send(`${content}\r\n.`, 'message', [250]);
+    }
+
+    // Reads one reply, multi-line replies continue while the code is followed by "-"
+    async expect(...expected: number[]): Promise<string> {
+        const lines: string[] = [];
+        for (;;) {
+            const line = await this.readLine();
+            lines.push(line);
+            if (line.length < 4 || line[3] !== '-') {
+                break;
+            }
+        }
+
+        const reply = lines.join(' | ');
+        const code = Number(lines[lines.length - 1].slice(0, 3));
+        if (!expected.includes(code)) {
+            throw new Error(`unexpected reply ${reply}`);
+        }
+        return reply;
+    }
+
+    async close(): Promise<void> {
+        try {
+            await this.socket.close();
+        } catch {
+            // Already closed by the server
+        }
+    }
+
+    private async send(data: string, label: string, expected: number[]): Promise<string> {
+        await this.writer.write(new TextEncoder().encode(`${data}\r\n`));
+        return this.expect(...expected).catch(error => {
+            throw new Error(`${label} failed: ${error.message}`);
+        });
+    }
+
+    private async readLine(): Promise<string> {
+        const deadline = Date.now() + REPLY_TIMEOUT_MS;
+        for (;;) {
+            const end = this.buffer.indexOf('\r\n');
+            if (end >= 0) {
+                const line = this.buffer.slice(0, end);
+                this.buffer = this.buffer.slice(end + 2);
+                return line;
+            }
+
+            const { value, done } = await withTimeout(this.reader.read(), deadline - Date.now());
+            if (done) {
+                throw new Error('connection closed by the server');
+            }
+            this.buffer += this.decoder.decode(value, { stream: true });
+        }
+    }
+}
+
+// RFC 5322 message with a base64 HTML body, so no line can start with "." or exceed the line length limit
+function composeMessage(message: EmailMessage, messageId: string): string {
+    const body = bytesToBase64(new TextEncoder().encode(message.html)).replace(/.{76}/g, '$&\r\n');
+    return [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date().toUTCString()}`,
+        `Message-ID: ${messageId}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/html; charset=UTF-8',
+        'Content-Transfer-Encoding: base64',
+        '',
+        body
+    ].join('\r\n');
+}
+
+// RFC 2047 encoded word for subjects with non-ASCII characters (e.g. emoji)
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${bytesToBase64(new TextEncoder().encode(value))}?=`;
+}
+
+// "Stock Alerts <alerts@example.com>" -> "alerts@example.com"
+function addressOf(mailbox: string): string {
+    const match = mailbox.match(/<([^>]+)>/);
+    return (match ? match[1] : mailbox).trim();
+}
+
+function domainOf(mailbox: string): string {
+    return addressOf(mailbox).split('@')[1] ?? '';
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`no reply within ${REPLY_TIMEOUT_MS}ms`)), Math.max(0, timeoutMs));
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
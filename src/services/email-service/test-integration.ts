@@ -6,6 +6,7 @@
 import { 
     createEmailRequestBuilder, 
     createEmailSender,
+    createEmailTransport,
     SendEmailRequest,
     BulkEmailResult 
 } from './index';
@@ -22,7 +23,6 @@ export function testEmailServiceIntegration(): boolean {
             .addReceiverEmail('recipient2@example.com')
             .setSubject('Test Subject')
             .setHtmlContent('<p>Test Content</p>')
-            .setResendApiKey('test-api-key')
             .build();
         
         console.log('  ✓ Email request built successfully');
@@ -32,7 +32,7 @@ export function testEmailServiceIntegration(): boolean {
         
         // Test 2: Email sender creation works
         console.log('  ✓ Testing email sender creation...');
-        const emailSender = createEmailSender();
+        const emailSender = createEmailSender(createEmailTransport({ EMAIL_TRANSPORT: 'resend', RESEND_API_KEY: 'test-api-key' }, null));
         console.log('  ✓ Email sender created successfully');
         
         // Test 3: Validation works
@@ -0,0 +1,70 @@
+/**
+ * Back-in-Stock Email
+ * Lists the items of a location that were restocked since the previous run, and for how long they were unavailable
+ */
+
+import type { BackInStockItem } from '../stock-alert-service';
+import { EmailTemplateBranding, RenderedEmail } from './types';
+import { html, safeUrl } from './html-template';
+import { formatDate, formatDuration } from './email-format';
+import { renderEmailLayout } from './email-layout';
+
+/**
+ * Renders the back-in-stock email
+ * @param locationId - The location the items belong to
+ * @param items - The items restocked since the previous run
+ * @param branding - The location's branding
+ * @param now - When the inventory was read
+ */
+export function renderBackInStockEmail(
+    locationId: string,
+    items: BackInStockItem[],
+    branding: EmailTemplateBranding,
+    now: Date = new Date()
+): RenderedEmail {
+    const rows = items.map(({ item, out_of_stock_since, unavailable_seconds }) => {
+        const imageUrl = safeUrl(item.image_url);
+        const productUrl = safeUrl(item.product_url);
+
+        return html`
+                    <tr>
+                        <td>${imageUrl ? html`<img src="${imageUrl}" alt="">` : ''}</td>
+                        <td>${productUrl ? html`<a href="${productUrl}">${item.label}</a>` : item.label}</td>
+                        <td>${item.sku ?? '-'}</td>
+                        <td>${item.available_quantity}</td>
+                        <td>${formatDate(out_of_stock_since)}</td>
+                        <td>${formatDuration(unavailable_seconds)}</td>
+                    </tr>`;
+    });
+
+    const body = html`<div class="summary-box">
+                <h2>📍 Location: ${locationId}</h2>
+                <p>These items were out of stock at the previous check and are available again.</p>
+            </div>
+
+            <table class="items">
+                <tr><th></th><th>Item</th><th>SKU</th><th>Available</th><th>Out of stock since</th><th>Unavailable for</th></tr>
+                ${rows}
+            </table>`;
+
+    return {
+        subject: `${backInStockTitle(items)} (Location: ${locationId})`,
+        html: renderEmailLayout({
+            title: 'Back in Stock',
+            heading: '✅ Back in Stock',
+            subheading: `${items.length} items have been restocked`,
+            color: '#4caf50',
+            styles: () => '',
+            body,
+            footerNote: 'The restock happened between the previous check and this one, durations are measured up to this check.',
+            generatedAt: now
+        }, branding)
+    };
+}
+
+/**
+ * The back-in-stock title, e.g. "Back in Stock: 3 items restocked"
+ */
+export function backInStockTitle(items: BackInStockItem[]): string {
+    return `Back in Stock: ${items.length} items restocked`;
+}
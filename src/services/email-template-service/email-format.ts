@@ -0,0 +1,43 @@
+/**
+ * Email Format
+ * Text helpers shared by the email templates and the matching notification channel messages
+ */
+
+/**
+ * Formats a unit price in its currency, e.g. "$19.99"
+ */
+export function formatPrice(price: number | null, currency: string | null): string {
+    if (price === null) {
+        return '-';
+    }
+    if (!currency) {
+        return price.toFixed(2);
+    }
+    try {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(price);
+    } catch {
+        // Not an ISO 4217 code
+        return `${price.toFixed(2)} ${currency}`;
+    }
+}
+
+/**
+ * Formats a duration in seconds, e.g. "3 days 4 hours"
+ */
+export function formatDuration(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const dayText = `${days} ${days === 1 ? 'day' : 'days'}`;
+    const hourText = `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+    if (days > 0) {
+        return hours > 0 ? `${dayText} ${hourText}` : dayText;
+    }
+    return hours > 0 ? hourText : 'less than an hour';
+}
+
+/**
+ * Formats an ISO 8601 timestamp as a date, e.g. "3/14/2026"
+ */
+export function formatDate(value: string): string {
+    return new Date(value).toLocaleDateString();
+}
@@ -0,0 +1,89 @@
+/**
+ * Email Layout
+ * The header, content box and footer shared by the email templates, with the location's branding applied
+ */
+
+import { EmailTemplateBranding } from './types';
+import { html, HtmlValue, isHexColor, multiline, safeUrl, SafeHtml } from './html-template';
+
+const DEFAULT_ACCENT_COLOR = '#1a73e8';
+
+// Branding with every field at its template default
+export const DEFAULT_EMAIL_BRANDING: EmailTemplateBranding = {
+    logo_url: null,
+    primary_color: null,
+    accent_color: null,
+    header_text: null,
+    footer_text: null
+};
+
+// What a template puts into the layout
+export interface EmailLayoutContent {
+    title: string; // The document title
+    heading: string; // Heading text, may start with an emoji
+    subheading: string;
+    color: string; // The template's header colour, replaced by the branding's primary colour
+    styles: (color: string) => string; // Template-specific CSS for the header colour, must not contain data
+    body: HtmlValue;
+    footerNote: string; // Replaced by the branding's footer text
+    generatedAt: Date;
+}
+
+/**
+ * Renders a complete HTML document
+ * Overrides that are not valid (stored before validation existed, or edited by hand) fall back to the defaults
+ */
+export function renderEmailLayout(content: EmailLayoutContent, branding: EmailTemplateBranding): string {
+    const color = branding.primary_color && isHexColor(branding.primary_color) ? branding.primary_color : content.color;
+    const accentColor = branding.accent_color && isHexColor(branding.accent_color) ? branding.accent_color : DEFAULT_ACCENT_COLOR;
+    const logoUrl = safeUrl(branding.logo_url);
+
+    // The colours are checked above, everything else in the style sheet is constant
+    const styles = new SafeHtml(`
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: ${color}; color: white; padding: 20px; text-align: center; border-radius: 5px 5px 0 0; }
+        .header .logo { max-height: 48px; max-width: 200px; margin-bottom: 10px; }
+        .header .brand { font-size: 14px; font-weight: bold; margin: 0; opacity: 0.9; }
+        .content { background-color: #f9f9f9; padding: 20px; border-radius: 0 0 5px 5px; }
+        .summary-box { background-color: white; padding: 15px; margin: 20px 0; border-left: 4px solid ${color}; }
+        .items { width: 100%; border-collapse: collapse; font-size: 14px; background-color: white; }
+        .items th { text-align: left; font-size: 12px; color: #666; border-bottom: 1px solid #ddd; padding: 5px; }
+        .items td { border-bottom: 1px solid #eee; padding: 5px; vertical-align: middle; }
+        .items img { width: 40px; height: 40px; object-fit: cover; border-radius: 3px; }
+        a { color: ${accentColor}; text-decoration: none; }
+        .footer { text-align: center; margin-top: 20px; font-size: 12px; color: #666; }
+        ${content.styles(color)}
+    `);
+
+    return html`
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${content.title}</title>
+    <style>${styles}
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">${logoUrl ? html`
+            <img class="logo" src="${logoUrl}" alt="${branding.header_text ?? ''}">` : ''}${branding.header_text ? html`
+            <p class="brand">${branding.header_text}</p>` : ''}
+            <h1>${content.heading}</h1>
+            <p>${content.subheading}</p>
+        </div>
+
+        <div class="content">
+            ${content.body}
+        </div>
+
+        <div class="footer">
+            <p>${multiline(branding.footer_text ?? content.footerNote)}</p>
+            <p>Generated on ${content.generatedAt.toLocaleString()}</p>
+        </div>
+    </div>
+</body>
+</html>
+    `.toString().trim();
+}
@@ -0,0 +1,240 @@
+/**
+ * Email Template Service
+ * Stores each location's email branding, and renders template previews against sample data or the location's
+ * current inventory without sending anything
+ * Callers are authenticated by API key before the service is used
+ */
+
+import type { CredentialsDurableObject } from '../../durable-objects/credentials-durable-object';
+import type { InventoryQueryService } from '../inventory-query-service';
+import { createStockAlertService } from '../stock-alert-service';
+import { AlertMode } from '../../common-types/alert-mode';
+import { EmailTemplateType } from '../../common-types/email-template-type';
+import { EmailPreview, EmailPreviewQuery, EmailPreviewSource, EmailTemplateBranding, RenderedEmail, UpdateEmailBrandingRequest } from './types';
+import { DEFAULT_EMAIL_BRANDING } from './email-layout';
+import { isHexColor, safeUrl } from './html-template';
+import { renderStockAlertEmail } from './stock-alert-email';
+import { renderBackInStockEmail } from './back-in-stock-email';
+import { sampleBackInStock, sampleStockAlert } from './sample-data';
+
+export const MAX_HEADER_TEXT_LENGTH = 100;
+export const MAX_FOOTER_TEXT_LENGTH = 500;
+
+const PREVIEW_SOURCES: EmailPreviewSource[] = ['sample', 'live'];
+
+export class EmailTemplateService {
+    private credentialsStub: DurableObjectStub<CredentialsDurableObject>;
+
+    constructor(credentialsStub: DurableObjectStub<CredentialsDurableObject>) {
+        this.credentialsStub = credentialsStub;
+    }
+
+    /**
+     * Gets a location's branding overrides, all null when nothing has been saved
+     * @param locationId - The location to read
+     */
+    async getBranding(locationId: string) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        return this.credentialsStub.getEmailBranding(locationId);
+    }
+
+    /**
+     * Updates a location's branding, fields that are not present are left unchanged
+     * @param request - The location and the fields to change
+     */
+    async updateBranding(request: UpdateEmailBrandingRequest) {
+        const { locationId, logoUrl, primaryColor, accentColor, headerText, footerText } = request;
+
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        if ([logoUrl, primaryColor, accentColor, headerText, footerText].every(value => value === undefined)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'NO_BRANDING',
+                message: 'No branding to update, expected: logoUrl, primaryColor, accentColor, headerText, footerText'
+            };
+        }
+
+        if (isSet(logoUrl) && (typeof logoUrl !== 'string' || !safeUrl(logoUrl))) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_LOGO_URL',
+                message: 'logoUrl must be an absolute http(s) URL, or null for no logo'
+            };
+        }
+
+        for (const [field, color] of [['primaryColor', primaryColor], ['accentColor', accentColor]] as const) {
+            if (isSet(color) && (typeof color !== 'string' || !isHexColor(color))) {
+                return {
+                    status: 'ERROR',
+                    httpCode: 400,
+                    errorCode: 'INVALID_COLOR',
+                    message: `${field} must be a #rgb or #rrggbb colour, or null for the default`
+                };
+            }
+        }
+
+        if (isSet(headerText) && !isText(headerText, MAX_HEADER_TEXT_LENGTH)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_HEADER_TEXT',
+                message: `headerText must be non-empty text of at most ${MAX_HEADER_TEXT_LENGTH} characters, or null for none`
+            };
+        }
+
+        if (isSet(footerText) && !isText(footerText, MAX_FOOTER_TEXT_LENGTH)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_FOOTER_TEXT',
+                message: `footerText must be non-empty text of at most ${MAX_FOOTER_TEXT_LENGTH} characters, or null for the default`
+            };
+        }
+
+        console.log(`Updating email branding for location_id: ${locationId}`);
+
+        return this.credentialsStub.updateEmailBranding(locationId, {
+            logo_url: logoUrl,
+            primary_color: primaryColor,
+            accent_color: accentColor,
+            header_text: headerText,
+            footer_text: footerText
+        });
+    }
+
+    /**
+     * Reads the branding a location's emails are rendered with
+     * @returns The location's overrides, or the defaults if they cannot be read so the email is still sent
+     */
+    async loadBranding(locationId: string): Promise<EmailTemplateBranding> {
+        try {
+            const result = await this.credentialsStub.getEmailBranding(locationId);
+            if (result.status === 'SUCCESS' && result.data) {
+                const { location_id, updated_at, ...branding } = result.data;
+                return branding;
+            }
+            console.warn(`Could not read email branding for location ${locationId}, using the default branding: ${result.message}`);
+        } catch (error) {
+            console.warn(`Could not read email branding for location ${locationId}, using the default branding:`, error instanceof Error ? error.message : 'Unknown error');
+        }
+        return DEFAULT_EMAIL_BRANDING;
+    }
+
+    /**
+     * Renders a template with the location's branding, nothing is sent
+     * Live previews read the inventory and compare it with the stored alert states like a run would, but store nothing
+     * @param query - Location, template and data source as sent in the query string
+     * @param inventoryService - Reads the location's inventory for live previews
+     */
+    async preview(query: EmailPreviewQuery, inventoryService: InventoryQueryService) {
+        if (!query.locationId) {
+            return this.missingLocationId();
+        }
+
+        const template = (query.template || EmailTemplateType.STOCK_ALERT) as EmailTemplateType;
+        if (!Object.values(EmailTemplateType).includes(template)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_TEMPLATE',
+                message: `template must be one of: ${Object.values(EmailTemplateType).join(', ')}`
+            };
+        }
+
+        const source = (query.source || 'sample') as EmailPreviewSource;
+        if (!PREVIEW_SOURCES.includes(source)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_SOURCE',
+                message: `source must be one of: ${PREVIEW_SOURCES.join(', ')}`
+            };
+        }
+
+        const branding = await this.loadBranding(query.locationId);
+        const now = new Date();
+
+        let rendered: RenderedEmail;
+        try {
+            rendered = source === 'live'
+                ? await this.renderLive(template, query.locationId, branding, inventoryService, now)
+                : this.renderSample(template, query.locationId, branding, now);
+        } catch (error) {
+            return {
+                status: 'ERROR',
+                httpCode: 502,
+                errorCode: 'INVENTORY_QUERY_FAILED',
+                message: `Could not read the inventory for the preview: ${error instanceof Error ? error.message : 'Unknown error'}`
+            };
+        }
+
+        const preview: EmailPreview = { template, source, subject: rendered.subject, html: rendered.html, branding };
+        return {
+            status: 'SUCCESS',
+            httpCode: 200,
+            message: 'Email preview rendered, nothing was sent',
+            data: preview
+        };
+    }
+
+    private renderSample(template: EmailTemplateType, locationId: string, branding: EmailTemplateBranding, now: Date): RenderedEmail {
+        if (template === EmailTemplateType.BACK_IN_STOCK) {
+            return renderBackInStockEmail(locationId, sampleBackInStock(now), branding, now);
+        }
+        const { summary, changes } = sampleStockAlert(locationId, now);
+        return renderStockAlertEmail(summary, changes, branding, now);
+    }
+
+    // Renders what a run would send now, including an email a run would skip (e.g. no new issues)
+    private async renderLive(
+        template: EmailTemplateType,
+        locationId: string,
+        branding: EmailTemplateBranding,
+        inventoryService: InventoryQueryService,
+        now: Date
+    ): Promise<RenderedEmail> {
+        const summary = await inventoryService.queryInventorySummary(locationId);
+        const changes = await createStockAlertService(this.credentialsStub).detectChanges(summary, now);
+
+        if (template === EmailTemplateType.BACK_IN_STOCK) {
+            return renderBackInStockEmail(locationId, changes?.backInStock ?? [], branding, now);
+        }
+
+        const settings = await this.credentialsStub.getLocationSettings(locationId);
+        const alertMode = settings.status === 'SUCCESS' && settings.data ? settings.data.alert_mode : AlertMode.CHANGES;
+        return renderStockAlertEmail(summary, alertMode === AlertMode.CHANGES ? changes : null, branding, now);
+    }
+
+    private missingLocationId() {
+        return {
+            status: 'ERROR',
+            httpCode: 400,
+            errorCode: 'MISSING_LOCATION_ID',
+            message: 'Missing required parameter: locationId'
+        };
+    }
+}
+
+/**
+ * Factory function to create an EmailTemplateService instance
+ */
+export function createEmailTemplateService(credentialsStub: DurableObjectStub<CredentialsDurableObject>): EmailTemplateService {
+    return new EmailTemplateService(credentialsStub);
+}
+
+// A value to store, undefined leaves the field unchanged and null resets it
+function isSet<T>(value: T | null | undefined): value is T {
+    return value !== undefined && value !== null;
+}
+
+function isText(value: unknown, maxLength: number): boolean {
+    return typeof value === 'string' && value.trim().length > 0 && value.length <= maxLength;
+}
@@ -0,0 +1,89 @@
+/**
+ * HTML Template
+ * A tagged template literal that HTML-escapes every interpolated value, so inventory data and branding text can
+ * never add markup to an email
+ */
+
+// Markup that is inserted as is, only created by the html tag
+export class SafeHtml {
+    private readonly markup: string;
+
+    constructor(markup: string) {
+        this.markup = markup;
+    }
+
+    toString(): string {
+        return this.markup;
+    }
+}
+
+// What can be interpolated: markup from the html tag, text (escaped), or a list of them; null, undefined and false render nothing
+export type HtmlValue = SafeHtml | string | number | boolean | null | undefined | HtmlValue[];
+
+/**
+ * Builds markup from a template literal, escaping every interpolated value that is not already markup
+ * @example html`<td>${item.label}</td>` renders "Mug <XL>" as "Mug &lt;XL&gt;"
+ */
+export function html(strings: TemplateStringsArray, ...values: HtmlValue[]): SafeHtml {
+    let markup = strings[0];
+    values.forEach((value, index) => {
+        markup += renderValue(value) + strings[index + 1];
+    });
+    return new SafeHtml(markup);
+}
+
+/**
+ * Escapes text for element content and quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders text with its line breaks as <br>
+ */
+export function multiline(text: string): SafeHtml {
+    return html`${text.split(/\r?\n/).map((line, index) => index > 0 ? html`<br>${line}` : line)}`;
+}
+
+/**
+ * Returns a URL that may be used in href and src attributes
+ * @returns The URL if it is an absolute http(s) URL, otherwise null (e.g. javascript: and data: URLs)
+ */
+export function safeUrl(value: string | null | undefined): string | null {
+    if (!value) {
+        return null;
+    }
+    try {
+        const protocol = new URL(value).protocol;
+        return protocol === 'https:' || protocol === 'http:' ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Checks that a value is a #rgb or #rrggbb colour
+ * Colours end up in the style sheet, where HTML escaping does not help, so nothing else is accepted
+ */
+export function isHexColor(value: string): boolean {
+    return /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test(value);
+}
+
+function renderValue(value: HtmlValue): string {
+    if (value === null || value === undefined || value === false) {
+        return '';
+    }
+    if (value instanceof SafeHtml) {
+        return value.toString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(renderValue).join('');
+    }
+    return escapeHtml(String(value));
+}
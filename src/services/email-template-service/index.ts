@@ -0,0 +1,20 @@
+/**
+ * Email Template Service Module
+ * Exports the service class, factory function, email templates, HTML helpers and types
+ */
+
+export * from './types';
+
+export {
+    EmailTemplateService,
+    createEmailTemplateService,
+    MAX_HEADER_TEXT_LENGTH,
+    MAX_FOOTER_TEXT_LENGTH
+} from './email-template-service';
+
+export { renderStockAlertEmail, describeStockAlert } from './stock-alert-email';
+export { renderBackInStockEmail, backInStockTitle } from './back-in-stock-email';
+export { DEFAULT_EMAIL_BRANDING } from './email-layout';
+export { html, escapeHtml, multiline, safeUrl, isHexColor, SafeHtml } from './html-template';
+export type { HtmlValue } from './html-template';
+export { formatPrice, formatDuration, formatDate } from './email-format';
@@ -0,0 +1,106 @@
+/**
+ * Sample Data
+ * Made-up inventory for template previews, with names that need escaping so a preview shows they render as text
+ */
+
+import { countUnpricedItems, valueInventoryByCurrency } from '../inventory-query-service';
+import type { InventorySummary, InventorySummaryItem } from '../inventory-query-service';
+import type { BackInStockItem, StockAlertChanges } from '../stock-alert-service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A summary with one new and one ongoing out-of-stock and low-stock item, as of now
+ */
+export function sampleStockAlert(locationId: string, now: Date): { summary: InventorySummary; changes: StockAlertChanges } {
+    const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS).toISOString();
+
+    const outOfStock = [
+        sampleItem('p1', 'v1', 'Coffee Mug', 'Large <16oz>', 0, 5, 'MUG-L', 14.5),
+        sampleItem('p2', 'v2', 'Salt & Pepper Set', '', 0, null, 'SPS-1', 22)
+    ];
+    const lowStock = [
+        sampleItem('p3', 'v3', 'T-Shirt "Classic"', 'M', 3, 10, 'TS-M', 19.99),
+        sampleItem('p4', 'v4', 'Tote Bag', 'Blue', 2, 5, null, null)
+    ];
+    const inStock = [
+        sampleItem('p5', 'v5', 'Notebook', 'A5', 40, 10, 'NB-A5', 6.25),
+        ...lowStock
+    ];
+    const valuedItems = { out_of_stock_items: outOfStock, low_stock_items: lowStock, in_stock_items: inStock };
+
+    const summary: InventorySummary = {
+        location_id: locationId,
+        total_items: outOfStock.length + inStock.length,
+        total_available_quantity: inStock.reduce((total, item) => total + item.available_quantity, 0),
+        unique_products: 5,
+        items_with_stock: inStock.length,
+        items_out_of_stock: outOfStock.length,
+        items_low_stock: lowStock.length,
+        low_stock_threshold: null,
+        reorder_points_configured: 4,
+        out_of_stock_products: outOfStock.map(item => item.label),
+        low_stock_products: lowStock.map(item => `${item.label} (${item.available_quantity} left, reorder point ${item.reorder_point})`),
+        in_stock_products: inStock.map(item => item.label),
+        out_of_stock_items: outOfStock,
+        low_stock_items: lowStock,
+        in_stock_items: inStock,
+        products_enriched: true,
+        valuation: valueInventoryByCurrency(valuedItems),
+        unpriced_items: countUnpricedItems(valuedItems)
+    };
+
+    const changes: StockAlertChanges = {
+        newOutOfStock: [{ item: outOfStock[0], since: now.toISOString() }],
+        newLowStock: [{ item: lowStock[0], since: now.toISOString() }],
+        ongoingOutOfStock: [{ item: outOfStock[1], since: daysAgo(3) }],
+        ongoingLowStock: [{ item: lowStock[1], since: daysAgo(6) }],
+        recovered: [],
+        backInStock: [],
+        states: []
+    };
+
+    return { summary, changes };
+}
+
+/**
+ * Two items restocked at the current run
+ */
+export function sampleBackInStock(now: Date): BackInStockItem[] {
+    const restocked = (item: InventorySummaryItem, unavailableDays: number): BackInStockItem => ({
+        item,
+        out_of_stock_since: new Date(now.getTime() - unavailableDays * DAY_MS).toISOString(),
+        back_in_stock_at: now.toISOString(),
+        unavailable_seconds: Math.round(unavailableDays * DAY_MS / 1000)
+    });
+
+    return [
+        restocked(sampleItem('p1', 'v1', 'Coffee Mug', 'Large <16oz>', 24, 5, 'MUG-L', 14.5), 4.25),
+        restocked(sampleItem('p2', 'v2', 'Salt & Pepper Set', '', 3, null, 'SPS-1', 22), 0.5)
+    ];
+}
+
+function sampleItem(
+    productId: string,
+    variantId: string,
+    productName: string,
+    variantName: string,
+    quantity: number,
+    reorderPoint: number | null,
+    sku: string | null,
+    price: number | null
+): InventorySummaryItem {
+    return {
+        product_id: productId,
+        variant_id: variantId,
+        product_name: productName,
+        label: variantName ? `${productName} - ${variantName}` : productName,
+        available_quantity: quantity,
+        reorder_point: reorderPoint,
+        sku,
+        price,
+        currency: price === null ? null : 'USD',
+        image_url: null,
+        product_url: null
+    };
+}
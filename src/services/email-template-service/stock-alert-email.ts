@@ -0,0 +1,167 @@
+/**
+ * Stock Alert Email
+ * Lists a location's out-of-stock and low-stock items, or only the new ones with the ongoing issues below them
+ */
+
+import type { InventorySummary, InventorySummaryItem } from '../inventory-query-service';
+import type { StockAlertChanges } from '../stock-alert-service';
+import { EmailTemplateBranding, RenderedEmail } from './types';
+import { html, safeUrl, SafeHtml } from './html-template';
+import { formatDate, formatPrice } from './email-format';
+import { renderEmailLayout } from './email-layout';
+
+type ItemRow = { item: InventorySummaryItem; since?: string };
+
+/**
+ * Renders the stock alert email
+ * @param inventorySummary - The inventory summary data
+ * @param changes - The changes since the previous alert for AlertMode.CHANGES, null to list every issue
+ * @param branding - The location's branding
+ * @param now - When the inventory was read
+ */
+export function renderStockAlertEmail(
+    inventorySummary: InventorySummary,
+    changes: StockAlertChanges | null,
+    branding: EmailTemplateBranding,
+    now: Date = new Date()
+): RenderedEmail {
+    const issueSections = changes
+        ? renderChangeSections(changes)
+        : [
+            renderItemSection('out-of-stock-list', `🚨 Out of Stock Items (${inventorySummary.items_out_of_stock} items):`, inventorySummary.out_of_stock_items.map(item => ({ item }))),
+            renderItemSection('low-stock-list', `⚠️ Low Stock Items (${inventorySummary.items_low_stock} items at or below their reorder point):`, inventorySummary.low_stock_items.map(item => ({ item })))
+        ];
+
+    const valuationItems = inventorySummary.valuation.map(valuation => html`
+                    <li>Stock value (${valuation.currency}): ${formatPrice(valuation.on_hand_value, valuation.currency)}, of which low stock ${formatPrice(valuation.low_stock_value, valuation.currency)}; revenue at risk from out-of-stock items: ${formatPrice(valuation.revenue_at_risk, valuation.currency)}</li>`);
+
+    const stat = (value: number, label: string) => html`
+                <div class="stat">
+                    <div class="stat-number">${value}</div>
+                    <div class="stat-label">${label}</div>
+                </div>`;
+
+    const body = html`<div class="summary-box">
+                <h2>📍 Location: ${inventorySummary.location_id}</h2>
+                <p><strong>Alert:</strong> You have items that are out of stock or running low and may need restocking.</p>
+            </div>
+
+            <div class="stats">${[
+                stat(inventorySummary.total_items, 'Total Items'),
+                stat(inventorySummary.items_with_stock, 'In Stock'),
+                stat(inventorySummary.items_out_of_stock, 'Out of Stock'),
+                stat(inventorySummary.items_low_stock, 'Low Stock'),
+                stat(inventorySummary.total_available_quantity, 'Total Quantity')
+            ]}
+            </div>
+
+            ${issueSections}
+
+            <div class="summary-box">
+                <p><strong>📊 Summary:</strong></p>
+                <ul>
+                    <li>Total unique products: ${inventorySummary.unique_products}</li>
+                    <li>Items with stock: ${inventorySummary.items_with_stock}</li>
+                    <li>Items out of stock: ${inventorySummary.items_out_of_stock}</li>
+                    <li>Items low on stock: ${inventorySummary.items_low_stock}</li>
+                    <li>Total available quantity: ${inventorySummary.total_available_quantity}</li>${valuationItems}
+                </ul>
+            </div>`;
+
+    return {
+        subject: `Stock Alert: ${describeStockAlert(inventorySummary, changes)} (Location: ${inventorySummary.location_id})`,
+        html: renderEmailLayout({
+            title: 'Stock Status Alert',
+            heading: '📦 Stock Status Alert',
+            subheading: 'Items require restocking attention',
+            color: '#f44336',
+            styles: color => `
+        .stats { display: flex; justify-content: space-between; margin: 20px 0; }
+        .stat { text-align: center; }
+        .stat-number { font-size: 24px; font-weight: bold; color: ${color}; }
+        .stat-label { font-size: 12px; color: #666; text-transform: uppercase; }
+        .out-of-stock-list { background-color: white; padding: 15px; margin: 20px 0; border-radius: 5px; }
+        .low-stock-list { background-color: white; padding: 15px; margin: 20px 0; border-radius: 5px; border-left: 4px solid #ff9800; }
+        .ongoing-list { background-color: white; padding: 15px; margin: 20px 0; border-radius: 5px; border-left: 4px solid #9e9e9e; font-size: 13px; }
+        ul { margin: 10px 0; padding-left: 20px; }`,
+            body,
+            footerNote: 'This is an automated stock monitoring alert. Please review and restock items as needed.',
+            generatedAt: now
+        }, branding)
+    };
+}
+
+/**
+ * Describes what the alert is about, e.g. "2 items newly out of stock" or "3 items out of stock, 2 items low on stock"
+ * @param changes - The changes for AlertMode.CHANGES, null to count every issue
+ */
+export function describeStockAlert(inventorySummary: InventorySummary, changes: StockAlertChanges | null): string {
+    const parts: string[] = [];
+    if (changes) {
+        if (changes.newOutOfStock.length > 0) {
+            parts.push(`${changes.newOutOfStock.length} items newly out of stock`);
+        }
+        if (changes.newLowStock.length > 0) {
+            parts.push(`${changes.newLowStock.length} items newly low on stock`);
+        }
+    } else {
+        if (inventorySummary.items_out_of_stock > 0) {
+            parts.push(`${inventorySummary.items_out_of_stock} items out of stock`);
+        }
+        if (inventorySummary.items_low_stock > 0) {
+            parts.push(`${inventorySummary.items_low_stock} items low on stock`);
+        }
+    }
+    return parts.join(', ');
+}
+
+// The new issue sections and the secondary ongoing issues section of AlertMode.CHANGES
+function renderChangeSections(changes: StockAlertChanges): SafeHtml {
+    const ongoing = [...changes.ongoingOutOfStock, ...changes.ongoingLowStock];
+
+    const ongoingSection = ongoing.length > 0 ? html`
+            <div class="ongoing-list">
+                <h3>Ongoing Issues (${ongoing.length} items already reported):</h3>
+                ${changes.ongoingOutOfStock.length > 0 ? html`<p><strong>Still out of stock (${changes.ongoingOutOfStock.length}):</strong></p>${renderItemTable(changes.ongoingOutOfStock)}` : ''}
+                ${changes.ongoingLowStock.length > 0 ? html`<p><strong>Still low on stock (${changes.ongoingLowStock.length}):</strong></p>${renderItemTable(changes.ongoingLowStock)}` : ''}
+            </div>` : '';
+
+    return html`${renderItemSection('out-of-stock-list', `🚨 Newly Out of Stock (${changes.newOutOfStock.length} items):`, changes.newOutOfStock.map(({ item }) => ({ item })))}${renderItemSection('low-stock-list', `⚠️ Newly Low on Stock (${changes.newLowStock.length} items at or below their reorder point):`, changes.newLowStock.map(({ item }) => ({ item })))}${ongoingSection}`;
+}
+
+// A titled item table, or nothing when there are no items
+function renderItemSection(className: string, title: string, rows: ItemRow[]): SafeHtml | '' {
+    return rows.length > 0 ? html`
+            <div class="${className}">
+                <h3>${title}</h3>
+                ${renderItemTable(rows)}
+            </div>` : '';
+}
+
+// A table of items with their image, CRM link, SKU, price and quantity, and since when for ongoing issues
+function renderItemTable(rows: ItemRow[]): SafeHtml {
+    const showSince = rows.some(row => row.since !== undefined);
+    const tableRows = rows.map(({ item, since }) => {
+        const imageUrl = safeUrl(item.image_url);
+        const productUrl = safeUrl(item.product_url);
+        const quantity = item.available_quantity > 0 && item.reorder_point !== null
+            ? `${item.available_quantity} (reorder point ${item.reorder_point})`
+            : `${item.available_quantity}`;
+
+        return html`
+                    <tr>
+                        <td>${imageUrl ? html`<img src="${imageUrl}" alt="">` : ''}</td>
+                        <td>${productUrl ? html`<a href="${productUrl}">${item.label}</a>` : item.label}</td>
+                        <td>${item.sku ?? '-'}</td>
+                        <td>${formatPrice(item.price, item.currency)}</td>
+                        <td>${quantity}</td>${showSince ? html`
+                        <td>${since ? formatDate(since) : ''}</td>` : ''}
+                    </tr>`;
+    });
+
+    return html`
+                <table class="items">
+                    <tr><th></th><th>Item</th><th>SKU</th><th>Price</th><th>Available</th>${showSince ? html`<th>Since</th>` : ''}</tr>
+                    ${tableRows}
+                </table>`;
+}
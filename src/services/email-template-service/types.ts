@@ -0,0 +1,44 @@
+/**
+ * Email Template Service - Types
+ */
+
+import type { EmailBranding } from '../../durable-objects/credentials-durable-object';
+import { EmailTemplateType } from '../../common-types/email-template-type';
+
+// The branding a template is rendered with, null fields use the template's default
+export type EmailTemplateBranding = Omit<EmailBranding, 'location_id' | 'updated_at'>;
+
+// A rendered email, ready for the email sender
+export interface RenderedEmail {
+    subject: string; // Plain text
+    html: string;
+}
+
+// Branding as sent by API callers, null resets a field to its default
+export interface UpdateEmailBrandingRequest {
+    locationId: string;
+    logoUrl?: string | null;
+    primaryColor?: string | null;
+    accentColor?: string | null;
+    headerText?: string | null;
+    footerText?: string | null;
+}
+
+// What a preview is rendered from: made-up items, or the location's current inventory
+export type EmailPreviewSource = 'sample' | 'live';
+
+// A preview request as sent in the query string
+export interface EmailPreviewQuery {
+    locationId: string;
+    template?: string; // An EmailTemplateType, stock_alert when not set
+    source?: string; // An EmailPreviewSource, sample when not set
+}
+
+// A rendered preview, nothing is sent
+export interface EmailPreview {
+    template: EmailTemplateType;
+    source: EmailPreviewSource;
+    subject: string;
+    html: string;
+    branding: EmailTemplateBranding; // The location's overrides the preview was rendered with
+}
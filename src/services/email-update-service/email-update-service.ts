@@ -1,11 +1,11 @@
 /**
  * Email Update Service
- * Handles updating receiver email lists for locations with password protection
+ * Handles updating receiver email lists for locations
+ * Callers are authenticated by API key before the service is used
  */
 
 export interface UpdateEmailRequest {
     locationId: string;
-    appPassword: string;
     emailList: string[];
 }
 
@@ -21,24 +21,22 @@ export interface UpdateEmailResponse {
 
 export class EmailUpdateService {
     private credentialsStub: any;
-    private expectedPassword: string;
 
-    constructor(credentialsStub: any, expectedPassword: string) {
+    constructor(credentialsStub: any) {
         this.credentialsStub = credentialsStub;
-        this.expectedPassword = expectedPassword;
     }
 
     /**
      * Update receiver emails for a location (PUBLIC METHOD)
      * 
-     * @param request - Update email request with locationId, appPassword, and emailList
+     * @param request - Update email request with locationId and emailList
      * @returns Promise<UpdateEmailResponse> - Success or error response
      * @throws Error if validation fails or database operation fails
      */
     async updateReceiverEmails(request: UpdateEmailRequest): Promise<UpdateEmailResponse> {
         try {
             // Validate required fields
-            const { locationId, appPassword, emailList } = request;
+            const { locationId, emailList } = request;
 
             if (!locationId) {
                 return {
@@ -48,14 +46,6 @@ export class EmailUpdateService {
                 };
             }
 
-            if (!appPassword) {
-                return {
-                    status: 'ERROR',
-                    errorCode: 'MISSING_PASSWORD',
-                    message: 'Missing required parameter: appPassword'
-                };
-            }
-
             if (!Array.isArray(emailList)) {
                 return {
                     status: 'ERROR',
@@ -64,16 +54,6 @@ export class EmailUpdateService {
                 };
             }
 
-            // Validate password
-            if (appPassword !== this.expectedPassword) {
-                console.warn(`Invalid password attempt for location_id: ${locationId}`);
-                return {
-                    status: 'ERROR',
-                    errorCode: 'INVALID_PASSWORD',
-                    message: 'Invalid application password'
-                };
-            }
-
             // Validate email format (basic validation)
             const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
             const invalidEmails = emailList.filter(email => !emailRegex.test(email));
@@ -123,9 +103,6 @@ export class EmailUpdateService {
 /**
  * Factory function to create an EmailUpdateService instance
  */
-export function createEmailUpdateService(
-    credentialsStub: any,
-    expectedPassword: string
-): EmailUpdateService {
-    return new EmailUpdateService(credentialsStub, expectedPassword);
+export function createEmailUpdateService(credentialsStub: any): EmailUpdateService {
+    return new EmailUpdateService(credentialsStub);
 }
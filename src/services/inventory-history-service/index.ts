@@ -0,0 +1,14 @@
+/**
+ * Inventory History Service Module
+ * Exports the service class, factory function, defaults and types
+ */
+
+export * from './types';
+
+export {
+    InventoryHistoryService,
+    createInventoryHistoryService,
+    DEFAULT_SNAPSHOT_RETENTION_DAYS,
+    DEFAULT_HISTORY_RANGE_DAYS,
+    MAX_HISTORY_SNAPSHOTS
+} from './inventory-history-service';
@@ -0,0 +1,114 @@
+/**
+ * Inventory History Service
+ * Stores a snapshot of each location's inventory quantities per stock update run, and reads the history
+ * of a location or a single item back
+ * Callers are authenticated by API key before the service is used
+ */
+
+import type { InventorySummary } from '../inventory-query-service';
+import { InventoryHistoryOptions, InventoryHistoryQuery } from './types';
+
+export const DEFAULT_SNAPSHOT_RETENTION_DAYS = 90;
+export const DEFAULT_HISTORY_RANGE_DAYS = 30;
+
+// Upper bound for the snapshots of one location history response
+export const MAX_HISTORY_SNAPSHOTS = 100;
+const DEFAULT_HISTORY_SNAPSHOTS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InventoryHistoryService {
+    private credentialsStub: any;
+    private retentionDays: number;
+
+    constructor(credentialsStub: any, options: InventoryHistoryOptions = {}) {
+        this.credentialsStub = credentialsStub;
+        this.retentionDays = resolveRetentionDays(options.retentionDays);
+    }
+
+    /**
+     * Stores the quantities of every item in a summary and deletes the location's snapshots older than the retention
+     * @param summary - The location's inventory summary
+     * @param takenAt - When the inventory was read
+     */
+    async recordSnapshot(summary: InventorySummary, takenAt: Date = new Date()) {
+        const items = [...summary.out_of_stock_items, ...summary.in_stock_items]
+            .filter(item => item.variant_id !== null)
+            .map(item => ({
+                item_id: item.variant_id!,
+                product_id: item.product_id,
+                quantity: item.available_quantity
+            }));
+
+        const result = await this.credentialsStub.recordInventorySnapshot(summary.location_id, takenAt.toISOString(), items, this.retentionDays);
+        if (result.status === 'SUCCESS' && result.data.pruned_snapshots > 0) {
+            console.log(`Deleted ${result.data.pruned_snapshots} snapshots older than ${this.retentionDays} days for location_id: ${summary.location_id}`);
+        }
+        return result;
+    }
+
+    /**
+     * Reads the history of one item, or the snapshots of a whole location, in a time range
+     * @param query - Location, optional item, range and paging as sent in the query string
+     * @returns The item's quantity per snapshot (oldest first), or the location's snapshots (newest first)
+     */
+    async getHistory(query: InventoryHistoryQuery) {
+        if (!query.locationId) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'MISSING_LOCATION_ID',
+                message: 'Missing required parameter: locationId'
+            };
+        }
+
+        const to = query.to ? new Date(query.to) : new Date();
+        const from = query.from ? new Date(query.from) : new Date(to.getTime() - DEFAULT_HISTORY_RANGE_DAYS * DAY_MS);
+        if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_TIME_RANGE',
+                message: 'from and to must be ISO 8601 dates with from before to'
+            };
+        }
+
+        if (query.itemId) {
+            return this.credentialsStub.getInventoryItemHistory(query.locationId, query.itemId, from.toISOString(), to.toISOString());
+        }
+
+        const limit = query.limit ? Number(query.limit) : DEFAULT_HISTORY_SNAPSHOTS;
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_SNAPSHOTS) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_LIMIT',
+                message: `limit must be an integer between 1 and ${MAX_HISTORY_SNAPSHOTS}`
+            };
+        }
+
+        return this.credentialsStub.getInventorySnapshots(query.locationId, from.toISOString(), to.toISOString(), {
+            limit,
+            includeItems: query.includeItems === 'true'
+        });
+    }
+}
+
+/**
+ * Factory function to create an InventoryHistoryService instance
+ */
+export function createInventoryHistoryService(credentialsStub: any, options: InventoryHistoryOptions = {}): InventoryHistoryService {
+    return new InventoryHistoryService(credentialsStub, options);
+}
+
+// Falls back to the default for a missing or invalid retention
+function resolveRetentionDays(retentionDays?: number): number {
+    if (retentionDays === undefined || Number.isNaN(retentionDays)) {
+        return DEFAULT_SNAPSHOT_RETENTION_DAYS;
+    }
+    if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+        console.warn(`Invalid snapshot retention ${retentionDays} days, using ${DEFAULT_SNAPSHOT_RETENTION_DAYS}`);
+        return DEFAULT_SNAPSHOT_RETENTION_DAYS;
+    }
+    return retentionDays;
+}
@@ -0,0 +1,17 @@
+/**
+ * Inventory History Service - Types
+ */
+
+// Query string of GET /inventory/history, as sent by API callers
+export interface InventoryHistoryQuery {
+    locationId: string;
+    itemId?: string | null; // The inventory item's (variant's) _id, omit for the whole location
+    from?: string | null; // ISO 8601, defaults to DEFAULT_HISTORY_RANGE_DAYS before `to`
+    to?: string | null; // ISO 8601, defaults to now
+    limit?: string | null; // Maximum number of snapshots of a location history
+    includeItems?: string | null; // 'true' to add the item quantities to each snapshot of a location history
+}
+
+export interface InventoryHistoryOptions {
+    retentionDays?: number; // Snapshots older than this are deleted, DEFAULT_SNAPSHOT_RETENTION_DAYS if not set
+}
@@ -1,11 +1,43 @@
 /**
  * Inventory Query Service - Main Module
- * Provides simplified inventory summary functionality
+ * Provides inventory summaries and filtered, paged item queries
  */
 
-export { InventoryQueryService, createInventoryQueryService } from './query-inventory';
+export {
+    InventoryQueryService,
+    createInventoryQueryService,
+    DEFAULT_INVENTORY_PAGE_SIZE,
+    MAX_INVENTORY_PAGE_SIZE,
+    DEFAULT_MAX_PRICED_PRODUCTS
+} from './query-inventory';
+export { InventorySummaryAccumulator } from './inventory-summary-accumulator';
+export { ReorderPointLookup } from './reorder-point-lookup';
+export { ProductCatalog } from './product-catalog';
+export { parseInventoryQueryParams, parseInventoryValuationParams, MAX_INVENTORY_QUERY_LIMIT } from './inventory-query-params';
+export { valueInventoryByCurrency, valueInventoryByProduct, countUnpricedItems } from './inventory-valuation';
+export {
+    InventoryQueryRequestBuilder,
+    InventoryQueryResultBuilder,
+    createInventoryQueryRequestBuilder,
+    createInventoryQueryResultBuilder
+} from './types';
 export type {
     InventoryItem,
+    InventoryPage,
+    InventoryQueryOptions,
     InventoryResponse,
-    InventorySummary
+    InventorySummary,
+    InventorySummaryItem,
+    InventoryValuationReport
 } from './query-inventory';
+export type { CurrencyValuation, ProductValuation, ValuedItems } from './inventory-valuation';
+export type { ProductDetails } from './product-catalog';
+export type {
+    InventoryFilters,
+    InventoryItem as InventoryQueryItem,
+    InventoryQueryRequest,
+    InventoryQueryResult,
+    InventorySort,
+    InventorySortField
+} from './types';
+export type { InventoryQueryParseResult, InventoryValuationParseResult } from './inventory-query-params';
@@ -0,0 +1,68 @@
+/**
+ * Inventory Item Filter
+ * Turns inventory API items into query result items and applies the query's filters and sort order
+ */
+
+import type { LeadConnectorInventoryItem } from '../../utils/leadconnector';
+import { ReorderPointLookup } from './reorder-point-lookup';
+import { InventoryFilters, InventoryItem, InventorySort } from './types';
+
+/**
+ * Converts an inventory API item into a query result item
+ * @param item - The item from the inventory API
+ * @param reorderPoints - The location's reorder points, sets lowStockThreshold and isLowStock
+ */
+export function toInventoryQueryItem(item: LeadConnectorInventoryItem, reorderPoints: ReorderPointLookup): InventoryItem {
+    const productName = item.productName || 'Unknown Product';
+    const reorderPoint = reorderPoints.resolve(item);
+
+    return {
+        id: item._id ?? '',
+        productId: item.product,
+        name: item.name ? `${productName} - ${item.name}` : productName,
+        sku: item.sku || undefined,
+        category: typeof item.category === 'string' ? item.category : undefined,
+        quantity: item.availableQuantity || 0,
+        lowStockThreshold: reorderPoint ?? undefined,
+        isLowStock: reorderPoints.isLowStock(item)
+    };
+}
+
+/**
+ * Whether an item matches every filter that is set
+ */
+export function matchesInventoryFilters(item: InventoryItem, filters: InventoryFilters): boolean {
+    if (filters.inStockOnly && (item.quantity ?? 0) === 0) {
+        return false;
+    }
+    if (filters.lowStockOnly && !item.isLowStock) {
+        return false;
+    }
+    if (filters.category && item.category?.toLowerCase() !== filters.category.toLowerCase()) {
+        return false;
+    }
+    if (filters.sku && !item.sku?.toLowerCase().includes(filters.sku.toLowerCase())) {
+        return false;
+    }
+    if (filters.search && !item.name.toLowerCase().includes(filters.search.toLowerCase())) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Comparator for the query's sort order, ties are broken by name then ID so pages are stable
+ */
+export function compareInventoryItems(sort: InventorySort): (a: InventoryItem, b: InventoryItem) => number {
+    const direction = sort.order === 'desc' ? -1 : 1;
+
+    return (a, b) => {
+        let order = 0;
+        if (sort.field === 'quantity') {
+            order = (a.quantity ?? 0) - (b.quantity ?? 0);
+        } else if (sort.field === 'sku') {
+            order = (a.sku ?? '').localeCompare(b.sku ?? '');
+        }
+        return direction * order || direction * a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+    };
+}
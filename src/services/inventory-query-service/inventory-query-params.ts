@@ -0,0 +1,112 @@
+/**
+ * Inventory Query Parameters
+ * Builds an InventoryQueryRequest from the query string of GET /inventory, and the parameters of GET /inventory/valuation
+ */
+
+import { createInventoryQueryRequestBuilder, InventoryQueryRequest, InventorySortField } from './types';
+
+// Upper bound for the items returned per page
+export const MAX_INVENTORY_QUERY_LIMIT = 500;
+
+const SORT_FIELDS: InventorySortField[] = ['name', 'sku', 'quantity'];
+
+export type InventoryValuationParseResult =
+    | { valid: true; locationId: string; lowStockThreshold?: number }
+    | { valid: false; message: string };
+
+export type InventoryQueryParseResult =
+    | { valid: true; request: InventoryQueryRequest }
+    | { valid: false; message: string };
+
+/**
+ * Parses and validates the inventory query parameters
+ * @param params - locationId, limit, offset, sku, search, category, inStockOnly, lowStockOnly, lowStockThreshold,
+ * sortBy and sortOrder
+ * @returns The request, or the reason it is invalid
+ */
+export function parseInventoryQueryParams(params: URLSearchParams): InventoryQueryParseResult {
+    const locationId = params.get('locationId');
+    if (!locationId) {
+        return { valid: false, message: 'Missing required parameter: locationId' };
+    }
+
+    const builder = createInventoryQueryRequestBuilder().setLocationId(locationId);
+
+    const limit = parseInteger(params.get('limit'));
+    if (limit !== undefined) {
+        if (limit === null || limit < 1 || limit > MAX_INVENTORY_QUERY_LIMIT) {
+            return { valid: false, message: `limit must be an integer between 1 and ${MAX_INVENTORY_QUERY_LIMIT}` };
+        }
+        builder.setLimit(limit);
+    }
+
+    const offset = parseInteger(params.get('offset'));
+    if (offset !== undefined) {
+        if (offset === null || offset < 0) {
+            return { valid: false, message: 'offset must be a non-negative integer' };
+        }
+        builder.setOffset(offset);
+    }
+
+    const lowStockThreshold = parseInteger(params.get('lowStockThreshold'));
+    if (lowStockThreshold !== undefined) {
+        if (lowStockThreshold === null || lowStockThreshold < 0) {
+            return { valid: false, message: 'lowStockThreshold must be a non-negative integer' };
+        }
+        builder.setLowStockThreshold(lowStockThreshold);
+    }
+
+    const sku = params.get('sku');
+    if (sku) builder.setSku(sku);
+
+    const search = params.get('search');
+    if (search) builder.setSearch(search);
+
+    const category = params.get('category');
+    if (category) builder.setCategory(category);
+
+    if (params.get('inStockOnly') === 'true') builder.setInStockOnly(true);
+    if (params.get('lowStockOnly') === 'true') builder.setLowStockOnly(true);
+
+    const sortBy = params.get('sortBy');
+    const sortOrder = params.get('sortOrder');
+    if (sortBy && !SORT_FIELDS.includes(sortBy as InventorySortField)) {
+        return { valid: false, message: `sortBy must be one of: ${SORT_FIELDS.join(', ')}` };
+    }
+    if (sortOrder && sortOrder !== 'asc' && sortOrder !== 'desc') {
+        return { valid: false, message: 'sortOrder must be asc or desc' };
+    }
+    if (sortBy || sortOrder) {
+        builder.setSort((sortBy as InventorySortField) || 'name', (sortOrder as 'asc' | 'desc') || 'asc');
+    }
+
+    return { valid: true, request: builder.build() };
+}
+
+/**
+ * Parses and validates the inventory valuation parameters
+ * @param params - locationId and lowStockThreshold
+ * @returns The parameters, or the reason they are invalid
+ */
+export function parseInventoryValuationParams(params: URLSearchParams): InventoryValuationParseResult {
+    const locationId = params.get('locationId');
+    if (!locationId) {
+        return { valid: false, message: 'Missing required parameter: locationId' };
+    }
+
+    const lowStockThreshold = parseInteger(params.get('lowStockThreshold'));
+    if (lowStockThreshold === null || (lowStockThreshold !== undefined && lowStockThreshold < 0)) {
+        return { valid: false, message: 'lowStockThreshold must be a non-negative integer' };
+    }
+
+    return { valid: true, locationId, lowStockThreshold };
+}
+
+// undefined when the parameter is absent, null when it is not an integer
+function parseInteger(value: string | null): number | null | undefined {
+    if (value === null || value === '') {
+        return undefined;
+    }
+    const parsed = Number(value);
+    return Number.isInteger(parsed) ? parsed : null;
+}
@@ -0,0 +1,167 @@
+/**
+ * Inventory Summary Accumulator
+ * Builds an InventorySummary one item at a time, so a location's inventory can be summarised page by page
+ * without keeping the raw items in memory
+ */
+
+import type { InventoryItem, InventorySummary, InventorySummaryItem } from './query-inventory';
+import { countUnpricedItems, valueInventoryByCurrency } from './inventory-valuation';
+import { ProductCatalog } from './product-catalog';
+import { ReorderPointLookup } from './reorder-point-lookup';
+
+// The inventory API's fields of an item, kept until the product catalog is loaded
+interface PendingItem {
+    productId: string | null;
+    variantId: string | null;
+    productName: string | null;
+    variantName: string;
+    quantity: number;
+    reorderPoint: number | null;
+    sku: string | null;
+    imageUrl: string | null;
+}
+
+export class InventorySummaryAccumulator {
+    private locationId: string;
+    private reorderPoints: ReorderPointLookup;
+
+    private totalAvailable = 0;
+    private itemsReceived = 0;
+    private productIds = new Set<string>();
+    private outOfStockItems: PendingItem[] = [];
+    private lowStockItems: PendingItem[] = [];
+    private inStockItems: PendingItem[] = [];
+
+    /**
+     * @param locationId - The location being summarised
+     * @param reorderPoints - The location's reorder points and low-stock threshold
+     */
+    constructor(locationId: string, reorderPoints: ReorderPointLookup) {
+        this.locationId = locationId;
+        this.reorderPoints = reorderPoints;
+    }
+
+    /**
+     * Adds one inventory item to the summary
+     */
+    add(item: InventoryItem): void {
+        const quantity = item.availableQuantity || 0;
+        const pending: PendingItem = {
+            productId: item.product || null,
+            variantId: item._id || null,
+            productName: item.productName || null,
+            variantName: item.name || '',
+            quantity,
+            reorderPoint: this.reorderPoints.resolve(item),
+            sku: item.sku || null,
+            imageUrl: typeof item.image === 'string' && item.image ? item.image : null
+        };
+
+        this.itemsReceived++;
+        this.totalAvailable += quantity;
+        if (item.product) {
+            this.productIds.add(item.product);
+        }
+
+        if (quantity === 0) {
+            this.outOfStockItems.push(pending);
+            return;
+        }
+
+        this.inStockItems.push(pending);
+
+        if (this.reorderPoints.isLowStock(item)) {
+            this.lowStockItems.push(pending);
+        }
+    }
+
+    /**
+     * Number of items added so far
+     */
+    get count(): number {
+        return this.itemsReceived;
+    }
+
+    /**
+     * The products of the items added so far
+     * Products with out-of-stock items come first, then those with low-stock items, as alerts show their prices.
+     */
+    get products(): string[] {
+        const alerting = [...this.outOfStockItems, ...this.lowStockItems]
+            .map(item => item.productId)
+            .filter((productId): productId is string => productId !== null);
+        return [...new Set([...alerting, ...this.productIds])];
+    }
+
+    /**
+     * Builds the summary from the items added so far
+     * @param totalCount - The total number of items reported by the inventory API
+     * @param catalog - Products and prices of the items, an empty catalog leaves price fields null
+     * @param productsEnriched - Whether the catalog was loaded completely
+     */
+    finish(totalCount: number, catalog: ProductCatalog, productsEnriched: boolean): InventorySummary {
+        // Low-stock items are also in stock, each is converted once so both lists share the same object
+        const converted = new Map<PendingItem, InventorySummaryItem>();
+        const toSummaryItems = (items: PendingItem[]) => items
+            .map(item => {
+                let summaryItem = converted.get(item);
+                if (!summaryItem) {
+                    summaryItem = this.toSummaryItem(item, catalog);
+                    converted.set(item, summaryItem);
+                }
+                return summaryItem;
+            })
+            .sort((a, b) => a.label < b.label ? -1 : a.label > b.label ? 1 : 0);
+
+        const outOfStockItems = toSummaryItems(this.outOfStockItems);
+        const lowStockItems = toSummaryItems(this.lowStockItems);
+        const inStockItems = toSummaryItems(this.inStockItems);
+        const valuedItems = { out_of_stock_items: outOfStockItems, low_stock_items: lowStockItems, in_stock_items: inStockItems };
+
+        return {
+            location_id: this.locationId,
+            total_items: totalCount,
+            total_available_quantity: this.totalAvailable,
+            unique_products: this.productIds.size,
+            items_with_stock: inStockItems.length,
+            items_out_of_stock: outOfStockItems.length,
+            items_low_stock: lowStockItems.length,
+            low_stock_threshold: this.reorderPoints.lowStockThreshold,
+            reorder_points_configured: this.reorderPoints.size,
+            out_of_stock_products: outOfStockItems.map(item => item.label),
+            low_stock_products: lowStockItems.map(item => `${item.label} (${item.available_quantity} left, reorder point ${item.reorder_point})`),
+            in_stock_products: inStockItems.map(item => item.label),
+            out_of_stock_items: outOfStockItems,
+            low_stock_items: lowStockItems,
+            in_stock_items: inStockItems,
+            products_enriched: productsEnriched,
+            valuation: valueInventoryByCurrency(valuedItems),
+            unpriced_items: countUnpricedItems(valuedItems)
+        };
+    }
+
+    // Fills in what the inventory API did not return from the catalog
+    private toSummaryItem(item: PendingItem, catalog: ProductCatalog): InventorySummaryItem {
+        const details = catalog.describe(item.productId, item.variantId);
+        const productName = item.productName || details.product_name || 'Unknown Product';
+
+        return {
+            product_id: item.productId,
+            variant_id: item.variantId,
+            product_name: productName,
+            label: this.labelOf(productName, item.variantName),
+            available_quantity: item.quantity,
+            reorder_point: item.reorderPoint,
+            sku: item.sku ?? details.sku,
+            price: details.price,
+            currency: details.currency,
+            image_url: item.imageUrl ?? details.image_url,
+            product_url: details.product_url
+        };
+    }
+
+    // Combines product name + variant name
+    private labelOf(productName: string, variantName: string): string {
+        return variantName ? `${productName} - ${variantName}` : productName;
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * Inventory Valuation
+ * Values a summary's items at their unit price, per currency and per product
+ */
+
+import type { InventorySummaryItem } from './query-inventory';
+
+// Stock value figures in one currency
+export interface CurrencyValuation {
+    currency: string; // ISO 4217 code
+    on_hand_value: number; // Unit price x available quantity of every item
+    low_stock_value: number; // Unit price x available quantity of the items at or below their reorder point
+    revenue_at_risk: number; // Unit price x reorder point (at least 1) of the items out of stock
+    priced_items: number;
+}
+
+// Stock value figures of one product in one currency
+export interface ProductValuation extends CurrencyValuation {
+    product_id: string | null;
+    product_name: string;
+    available_quantity: number;
+    variants: number;
+    items_out_of_stock: number;
+    items_low_stock: number;
+}
+
+// Items of a summary, by stock state
+export interface ValuedItems {
+    out_of_stock_items: InventorySummaryItem[];
+    low_stock_items: InventorySummaryItem[];
+    in_stock_items: InventorySummaryItem[]; // Includes the low-stock items
+}
+
+/**
+ * Totals the stock value figures per currency
+ * @returns One valuation per currency, sorted by currency; items without a price are left out
+ */
+export function valueInventoryByCurrency(items: ValuedItems): CurrencyValuation[] {
+    const valuations = new Map<string, CurrencyValuation>();
+
+    for (const { item, state } of pricedItems(items)) {
+        let valuation = valuations.get(item.currency);
+        if (!valuation) {
+            valuation = emptyValuation(item.currency);
+            valuations.set(item.currency, valuation);
+        }
+        addItem(valuation, item, state);
+    }
+
+    return [...valuations.values()]
+        .map(roundValuation)
+        .sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+/**
+ * Totals the stock value figures per product and currency
+ * @returns One valuation per product and currency, sorted by currency, then on-hand value (highest first);
+ * items without a price are left out
+ */
+export function valueInventoryByProduct(items: ValuedItems): ProductValuation[] {
+    const valuations = new Map<string, ProductValuation>();
+
+    for (const { item, state } of pricedItems(items)) {
+        const key = `${item.product_id ?? ''}:${item.currency}`;
+        let valuation = valuations.get(key);
+        if (!valuation) {
+            valuation = {
+                product_id: item.product_id,
+                product_name: item.product_name,
+                ...emptyValuation(item.currency),
+                available_quantity: 0,
+                variants: 0,
+                items_out_of_stock: 0,
+                items_low_stock: 0
+            };
+            valuations.set(key, valuation);
+        }
+
+        addItem(valuation, item, state);
+        valuation.available_quantity += item.available_quantity;
+        valuation.variants++;
+        if (state === 'out') valuation.items_out_of_stock++;
+        if (state === 'low') valuation.items_low_stock++;
+    }
+
+    return [...valuations.values()]
+        .map(roundValuation)
+        .sort((a, b) => a.currency.localeCompare(b.currency)
+            || b.on_hand_value - a.on_hand_value
+            || a.product_name.localeCompare(b.product_name));
+}
+
+/**
+ * Number of items that have no price and are missing from the valuation
+ */
+export function countUnpricedItems(items: ValuedItems): number {
+    return [...items.out_of_stock_items, ...items.in_stock_items].filter(item => !isPriced(item)).length;
+}
+
+type StockState = 'out' | 'low' | 'in';
+type PricedItem = InventorySummaryItem & { price: number; currency: string };
+
+// Every priced item once, with its stock state
+function* pricedItems(items: ValuedItems): Generator<{ item: PricedItem; state: StockState }> {
+    const lowStock = new Set(items.low_stock_items);
+
+    for (const item of items.out_of_stock_items) {
+        if (isPriced(item)) yield { item, state: 'out' };
+    }
+    for (const item of items.in_stock_items) {
+        if (isPriced(item)) yield { item, state: lowStock.has(item) ? 'low' : 'in' };
+    }
+}
+
+function isPriced(item: InventorySummaryItem): item is PricedItem {
+    return item.price !== null && item.currency !== null;
+}
+
+function emptyValuation(currency: string): CurrencyValuation {
+    return { currency, on_hand_value: 0, low_stock_value: 0, revenue_at_risk: 0, priced_items: 0 };
+}
+
+function addItem(valuation: CurrencyValuation, item: PricedItem, state: StockState): void {
+    const value = item.price * item.available_quantity;
+
+    valuation.priced_items++;
+    valuation.on_hand_value += value;
+    if (state === 'low') {
+        valuation.low_stock_value += value;
+    }
+    if (state === 'out') {
+        // The stock the item should at least have, a single unit when it has no reorder point
+        valuation.revenue_at_risk += item.price * Math.max(item.reorder_point ?? 0, 1);
+    }
+}
+
+// Rounds the money figures to cents after summing, so floating point noise does not add up
+function roundValuation<T extends CurrencyValuation>(valuation: T): T {
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    return {
+        ...valuation,
+        on_hand_value: round(valuation.on_hand_value),
+        low_stock_value: round(valuation.low_stock_value),
+        revenue_at_risk: round(valuation.revenue_at_risk)
+    };
+}
@@ -0,0 +1,76 @@
+/**
+ * Product Catalog
+ * Joins inventory items with their product (name, image) and price (SKU, amount, currency),
+ * so summaries and alert emails can show more than the inventory API's names and quantities
+ */
+
+import type { LeadConnectorPrice, LeadConnectorProduct } from '../../utils/leadconnector';
+
+// What the catalog knows about one inventory item, null where the products and prices APIs had nothing
+export interface ProductDetails {
+    product_name: string | null;
+    sku: string | null;
+    price: number | null; // In the currency's major unit, e.g. 19.99
+    currency: string | null; // ISO 4217 code
+    image_url: string | null;
+    product_url: string | null; // The product's page in the CRM
+}
+
+export class ProductCatalog {
+    private products: Map<string, LeadConnectorProduct>;
+    private prices: Map<string, LeadConnectorPrice>;
+    private productUrl: (productId: string) => string;
+
+    /**
+     * @param products - Products keyed by product ID
+     * @param prices - Prices keyed by price ID, which is the inventory item's _id
+     * @param productUrl - Builds the CRM link of a product
+     */
+    constructor(
+        products: Map<string, LeadConnectorProduct>,
+        prices: Map<string, LeadConnectorPrice>,
+        productUrl: (productId: string) => string
+    ) {
+        this.products = products;
+        this.prices = prices;
+        this.productUrl = productUrl;
+    }
+
+    /**
+     * A catalog without products or prices, items keep what the inventory API returned
+     */
+    static empty(productUrl: (productId: string) => string): ProductCatalog {
+        return new ProductCatalog(new Map(), new Map(), productUrl);
+    }
+
+    /**
+     * Looks up the product and price of an inventory item
+     * @param productId - The item's product
+     * @param variantId - The item's _id
+     */
+    describe(productId: string | null, variantId: string | null): ProductDetails {
+        const product = productId ? this.products.get(productId) : undefined;
+        const price = variantId ? this.prices.get(variantId) : undefined;
+
+        return {
+            product_name: product?.name || null,
+            sku: price?.sku || null,
+            price: typeof price?.amount === 'number' ? price.amount : null,
+            currency: price?.currency ? price.currency.toUpperCase() : null,
+            image_url: this.imageOf(product),
+            product_url: productId ? this.productUrl(productId) : null
+        };
+    }
+
+    // The product's image, or its featured (else first) image media
+    private imageOf(product?: LeadConnectorProduct): string | null {
+        if (!product) {
+            return null;
+        }
+        if (product.image) {
+            return product.image;
+        }
+        const images = (product.medias ?? []).filter(media => !media.type || media.type === 'image');
+        return (images.find(media => media.isFeatured) ?? images[0])?.url ?? null;
+    }
+}
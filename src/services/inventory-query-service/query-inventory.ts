@@ -5,18 +5,68 @@
  */
 
 import { createTokenValidator } from '../../utils/token-management/token-validator';
+import { TokenCipher } from '../../utils/token-management/token-cipher';
+import {
+    createInventoryQueryResultBuilder,
+    InventoryFilters,
+    InventoryItem as InventoryQueryItem,
+    InventoryQueryRequest,
+    InventoryQueryResult
+} from './types';
+import { compareInventoryItems, matchesInventoryFilters, toInventoryQueryItem } from './inventory-item-filter';
+import { InventorySummaryAccumulator } from './inventory-summary-accumulator';
+import { ProductCatalog } from './product-catalog';
+import { CurrencyValuation, ProductValuation, valueInventoryByProduct } from './inventory-valuation';
+import { ReorderPointLookup } from './reorder-point-lookup';
+import {
+    createLeadConnectorClient,
+    LeadConnectorClient,
+    LeadConnectorInventoryItem,
+    LeadConnectorInventoryResponse,
+    LeadConnectorPrice,
+    LeadConnectorProduct
+} from '../../utils/leadconnector';
 
-// Simplified interfaces for the new implementation
-export interface InventoryItem {
-    product?: string;
-    availableQuantity?: number;
-    [key: string]: any; // Allow other properties from API
+// Items per inventory API request
+export const DEFAULT_INVENTORY_PAGE_SIZE = 100;
+export const MAX_INVENTORY_PAGE_SIZE = 1000;
+
+// Price lists requested at the same time while enriching a summary
+const PRICE_REQUEST_CONCURRENCY = 5;
+
+// Products whose prices are requested per summary, one request each; items of further products stay unpriced
+export const DEFAULT_MAX_PRICED_PRODUCTS = 50;
+
+export interface InventoryQueryOptions {
+    pageSize?: number; // Items per request, DEFAULT_INVENTORY_PAGE_SIZE if not set
+    maxPricedProducts?: number; // Price requests per summary, DEFAULT_MAX_PRICED_PRODUCTS if not set
+    apiClient?: LeadConnectorClient; // Defaults to the production API hosts
+}
+
+// Inventory API shapes, defined by the LeadConnector client
+export type InventoryItem = LeadConnectorInventoryItem;
+export type InventoryResponse = LeadConnectorInventoryResponse;
+
+// One page of a location's inventory
+export interface InventoryPage {
+    items: InventoryItem[];
+    offset: number;
+    total: number; // Total number of items reported by the API
 }
 
-export interface InventoryResponse {
-    inventory: InventoryItem[];
-    total: Array<{ total: number }>;
-    traceId?: string;
+// One inventory item (variant) in a summary, joined with its product and price
+export interface InventorySummaryItem {
+    product_id: string | null;
+    variant_id: string | null; // The inventory item's _id, which is also its price's _id
+    product_name: string;
+    label: string; // "Product - Variant"
+    available_quantity: number;
+    reorder_point: number | null; // null when the item is never low on stock
+    sku: string | null;
+    price: number | null; // Unit price in the currency's major unit, null if the product has no price for the variant
+    currency: string | null; // ISO 4217 code
+    image_url: string | null;
+    product_url: string | null; // The product's page in the CRM
 }
 
 export interface InventorySummary {
@@ -26,30 +76,58 @@ export interface InventorySummary {
     unique_products: number;
     items_with_stock: number;
     items_out_of_stock: number;
+    items_low_stock: number;
+    low_stock_threshold: number | null; // Location-wide default, null when items without a reorder point are never low on stock
+    reorder_points_configured: number; // Product and variant reorder points that override low_stock_threshold
     out_of_stock_products: string[];
+    low_stock_products: string[]; // In stock, but at or below the item's reorder point (or the low-stock threshold)
     in_stock_products: string[];
+    out_of_stock_items: InventorySummaryItem[]; // The same items as the lists above, with SKU, price, image and CRM link
+    low_stock_items: InventorySummaryItem[];
+    in_stock_items: InventorySummaryItem[];
+    products_enriched: boolean; // false if the products or prices API failed and items only carry inventory data
+    valuation: CurrencyValuation[]; // On-hand value, low-stock value and revenue at risk per currency
+    unpriced_items: number; // Items without a price, not included in the valuation
+}
+
+// Stock value of a location, per currency and per product
+export interface InventoryValuationReport {
+    location_id: string;
+    valuation: CurrencyValuation[];
+    products: ProductValuation[]; // One entry per product and currency, by currency and then highest on-hand value
+    unpriced_items: number;
+    products_enriched: boolean; // false if prices could not be loaded completely, the figures are then too low
+    low_stock_threshold: number | null;
+    generated_at: string; // ISO 8601
 }
 
 export class InventoryQueryService {
     private credentialsStub: any;
-    private clientId: string;
-    private clientSecret: string;
-    private baseUrl: string = "https://services.leadconnectorhq.com/products/inventory";
+    private tokenCipher: TokenCipher;
+    private apiClient: LeadConnectorClient;
+    private pageSize: number;
+    private maxPricedProducts: number;
 
-    constructor(credentialsStub: any, clientId: string, clientSecret: string) {
+    constructor(credentialsStub: any, tokenCipher: TokenCipher, options: InventoryQueryOptions = {}) {
         this.credentialsStub = credentialsStub;
-        this.clientId = clientId;
-        this.clientSecret = clientSecret;
+        this.tokenCipher = tokenCipher;
+        this.pageSize = resolvePageSize(options.pageSize);
+        this.maxPricedProducts = options.maxPricedProducts ?? DEFAULT_MAX_PRICED_PRODUCTS;
+        this.apiClient = options.apiClient ?? createLeadConnectorClient();
     }
 
     /**
      * Get a summary of inventory for a location (PUBLIC METHOD)
+     * Each item is compared against its variant's reorder point, then its product's, then the location's low-stock threshold.
+     * The inventory is fetched page by page and aggregated as it arrives, raw items are not kept.
+     * Items are then joined with their products and prices; if that fails the summary is returned without them.
      * 
      * @param locationId - The location ID to get summary for
+     * @param filters - Optional lowStockThreshold, defaults to the location's saved setting
      * @returns Promise<InventorySummary> - Summary information about the inventory
-     * @throws Error if locationId is missing or API requests fail
+     * @throws Error if locationId is missing, API requests fail or fewer items are received than the API reported
      */
-    async queryInventorySummary(locationId: string): Promise<InventorySummary> {
+    async queryInventorySummary(locationId: string, filters: Pick<InventoryFilters, 'lowStockThreshold'> = {}): Promise<InventorySummary> {
         if (!locationId) {
             const errorMsg = "Missing required parameter: location_id";
             console.error(errorMsg);
@@ -59,52 +137,25 @@ export class InventoryQueryService {
         try {
             console.log(`Getting inventory summary for location_id: ${locationId}`);
             
-            // Get full inventory data
-            const inventoryData = await this.getInventory(locationId);
-            
-            const items = inventoryData.inventory || [];
-            const totalCount = inventoryData.total?.[0]?.total || 0;
-            
-            // Calculate summary statistics
-            const totalAvailable = items.reduce((sum, item) => sum + (item.availableQuantity || 0), 0);
-            const uniqueProducts = new Set(
-                items
-                    .map(item => item.product)
-                    .filter(product => product)
-            ).size;
-            
-            const itemsWithStock = items.filter(item => (item.availableQuantity || 0) > 0).length;
-            const itemsOutOfStock = items.filter(item => (item.availableQuantity || 0) === 0).length;
-            
-            // Get list of out-of-stock product names (combining product name + variant name)
-            const outOfStockProducts = items
-                .filter(item => (item.availableQuantity || 0) === 0)
-                .map(item => {
-                    const productName = item.productName || 'Unknown Product';
-                    const variantName = item.name || '';
-                    return variantName ? `${productName} - ${variantName}` : productName;
-                })
-                .sort(); // Sort alphabetically
-
-            const inStockProducts = items
-                .filter(item => (item.availableQuantity || 0) > 0)
-                .map(item => {
-                    const productName = item.productName || 'Unknown Product';
-                    const variantName = item.name || '';
-                    return variantName ? `${productName} - ${variantName}` : productName;
-                })
-                .sort();
-            
-            const summary: InventorySummary = {
-                location_id: locationId,
-                total_items: totalCount,
-                total_available_quantity: totalAvailable,
-                unique_products: uniqueProducts,
-                items_with_stock: itemsWithStock,
-                items_out_of_stock: itemsOutOfStock,
-                out_of_stock_products: outOfStockProducts,
-                in_stock_products: inStockProducts
-            };
+            const reorderPoints = await this.getReorderPointLookup(locationId, filters.lowStockThreshold);
+            const accumulator = new InventorySummaryAccumulator(locationId, reorderPoints);
+            const accessToken = this.createAccessTokenSupplier(locationId);
+
+            let totalCount = 0;
+            for await (const page of this.fetchInventoryPages(locationId, accessToken)) {
+                totalCount = page.total;
+                page.items.forEach(item => accumulator.add(item));
+            }
+
+            let catalog = ProductCatalog.empty(productId => this.apiClient.buildProductUrl(locationId, productId));
+            let productsEnriched = false;
+            try {
+                ({ catalog, complete: productsEnriched } = await this.loadProductCatalog(locationId, accumulator.products, accessToken));
+            } catch (error) {
+                console.warn(`Could not load products and prices for location_id: ${locationId}, summary has inventory data only: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+
+            const summary = accumulator.finish(totalCount, catalog, productsEnriched);
             
             console.log(`Generated inventory summary for location_id: ${locationId}`);
             return summary;
@@ -117,90 +168,244 @@ export class InventoryQueryService {
     }
 
     /**
-     * Get all inventory items for a location (PRIVATE METHOD)
+     * Value a location's inventory per currency and per product (PUBLIC METHOD)
+     * Items are valued at their variant's price; items without a price are counted in unpriced_items.
      * 
-     * @param locationId - The location ID to get inventory for
-     * @returns Promise<InventoryResponse> - Complete inventory response with all items
-     * @throws Error if API requests fail
+     * @param locationId - The location ID to value
+     * @param filters - Optional lowStockThreshold, defaults to the location's saved setting
+     * @returns Promise<InventoryValuationReport> - The valuation
+     * @throws Error if the inventory cannot be summarised, see queryInventorySummary
+     */
+    async queryInventoryValuation(locationId: string, filters: Pick<InventoryFilters, 'lowStockThreshold'> = {}): Promise<InventoryValuationReport> {
+        const summary = await this.queryInventorySummary(locationId, filters);
+
+        return {
+            location_id: locationId,
+            valuation: summary.valuation,
+            products: valueInventoryByProduct(summary),
+            unpriced_items: summary.unpriced_items,
+            products_enriched: summary.products_enriched,
+            low_stock_threshold: summary.low_stock_threshold,
+            generated_at: new Date().toISOString()
+        };
+    }
+
+    /**
+     * Query a location's inventory items (PUBLIC METHOD)
+     * Every page of the inventory is read; only the items matching the filters are kept, sorted and sliced
+     * to the requested page.
+     * 
+     * @param request - Location, filters, sort order and page (see InventoryQueryRequestBuilder)
+     * @returns Promise<InventoryQueryResult> - The page of matching items, or success: false with the error
      */
-    private async getInventory(locationId: string): Promise<InventoryResponse> {
+    async queryInventory(request: InventoryQueryRequest): Promise<InventoryQueryResult> {
+        const resultBuilder = createInventoryQueryResultBuilder().setLocationId(request.locationId);
+        const filters = request.filters ?? {};
+        const sort = request.sort ?? { field: 'name', order: 'asc' };
+        const limit = request.limit ?? 100;
+        const offset = request.offset ?? 0;
+
         try {
-            // Ensure we have a valid access token
-            const accessToken = await this.ensureValidToken(locationId);
-            
-            // Common headers
-            const headers = {
-                'Accept': 'application/json',
-                'Authorization': `Bearer ${accessToken}`,
-                'Version': '2021-07-28'
-            };
-            
-            // Step 1: Get total count
-            console.log(`Getting total inventory count for location_id: ${locationId}`);
-            
-            const countParams = new URLSearchParams({
-                limit: "0",
-                altId: locationId,
-                altType: "location"
-            });
-            
-            const countResponse = await fetch(`${this.baseUrl}?${countParams}`, { headers });
-            
-            if (!countResponse.ok) {
-                const errorText = await countResponse.text();
-                throw new Error(`API request failed: ${countResponse.status} - ${errorText}`);
+            console.log(`Querying inventory for location_id: ${request.locationId}, filters: ${JSON.stringify(filters)}`);
+
+            const reorderPoints = await this.getReorderPointLookup(request.locationId, filters.lowStockThreshold);
+
+            const matches: InventoryQueryItem[] = [];
+            let totalCount = 0;
+            for await (const page of this.fetchInventoryPages(request.locationId)) {
+                totalCount = page.total;
+                for (const item of page.items) {
+                    const queryItem = toInventoryQueryItem(item, reorderPoints);
+                    if (matchesInventoryFilters(queryItem, filters)) {
+                        matches.push(queryItem);
+                    }
+                }
             }
-            
-            const countData = await countResponse.json() as any;
-            
-            // Extract total count
-            let totalItems = 0;
-            if (countData.total && countData.total.length > 0) {
-                totalItems = countData.total[0].total || 0;
+
+            matches.sort(compareInventoryItems(sort));
+
+            return resultBuilder
+                .setSuccess(true)
+                .setItems(matches.slice(offset, offset + limit))
+                .setFilteredCount(matches.length)
+                .setTotalCount(totalCount)
+                .setPage(offset, limit)
+                .setMessage(`${matches.length} of ${totalCount} items match`)
+                .build();
+
+        } catch (error) {
+            const errorMsg = `Error querying inventory: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            console.error(errorMsg);
+            return resultBuilder.setError(errorMsg).build();
+        }
+    }
+
+    /**
+     * Query the items that are in stock but at or below their reorder point (PUBLIC METHOD)
+     */
+    async queryLowStockItems(request: InventoryQueryRequest): Promise<InventoryQueryResult> {
+        return this.queryInventory({ ...request, filters: { ...request.filters, lowStockOnly: true } });
+    }
+
+    /**
+     * Fetch a location's inventory one page at a time (PRIVATE METHOD)
+     * 
+     * @param locationId - The location ID to get inventory for
+     * @param getAccessToken - Supplies the location's token, see createAccessTokenSupplier
+     * @returns AsyncGenerator<InventoryPage> - The pages in offset order
+     * @throws Error if API requests fail or the pages do not add up to the total reported by the API
+     */
+    private async *fetchInventoryPages(
+        locationId: string,
+        getAccessToken = this.createAccessTokenSupplier(locationId)
+    ): AsyncGenerator<InventoryPage> {
+        let offset = 0;
+        let total = 0;
+
+        do {
+            const result = await this.apiClient.getInventoryPage({ locationId, limit: this.pageSize, offset }, getAccessToken);
+
+            if (!result.ok) {
+                throw new Error(`API request failed at offset ${offset}: ${result.status} - ${result.errorText}`);
             }
-            
-            console.log(`Found ${totalItems} total items for location_id: ${locationId}`);
-            
-            if (totalItems === 0) {
-                return {
-                    inventory: [],
-                    total: [{ total: 0 }],
-                    traceId: countData.traceId || ''
-                };
+
+            const data = result.data;
+            const items = data.inventory || [];
+            total = data.total?.[0]?.total || 0;
+
+            console.log(`Fetched ${items.length} inventory items at offset ${offset} of ${total} for location_id: ${locationId}`);
+
+            // An empty page before the reported total means items were removed while paging (or the API lost them)
+            if (items.length === 0) {
+                break;
             }
-            
-            // Step 2: Get all items
-            console.log(`Fetching all ${totalItems} inventory items for location_id: ${locationId}`);
-            
-            const allParams = new URLSearchParams({
-                limit: String(totalItems),
-                altId: locationId,
-                altType: "location"
-            });
-            
-            const inventoryResponse = await fetch(`${this.baseUrl}?${allParams}`, { headers });
-            
-            if (!inventoryResponse.ok) {
-                const errorText = await inventoryResponse.text();
-                throw new Error(`API request failed: ${inventoryResponse.status} - ${errorText}`);
+
+            yield { items, offset, total };
+            offset += items.length;
+        } while (offset < total);
+
+        if (offset !== total) {
+            throw new Error(`Inventory incomplete for location_id ${locationId}: received ${offset} of ${total} items`);
+        }
+
+        console.log(`Successfully retrieved ${offset} items for location_id: ${locationId}`);
+    }
+
+    /**
+     * Loads the products and the prices of the given products (PRIVATE METHOD)
+     * Products are listed page by page; prices are listed per product, PRICE_REQUEST_CONCURRENCY at a time, for the
+     * first maxPricedProducts products only. Failed requests are logged and leave the affected items without product
+     * or price data, as do the products beyond maxPricedProducts.
+     * 
+     * @param productIds - The products whose prices are needed, most important first
+     * @returns The catalog, and whether every request succeeded and every product was priced
+     * @throws Error if the access token cannot be obtained or a request times out
+     */
+    private async loadProductCatalog(
+        locationId: string,
+        productIds: string[],
+        getAccessToken: (forceRefresh: boolean) => Promise<string>
+    ): Promise<{ catalog: ProductCatalog; complete: boolean }> {
+        const productUrl = (productId: string) => this.apiClient.buildProductUrl(locationId, productId);
+        if (productIds.length === 0) {
+            return { catalog: ProductCatalog.empty(productUrl), complete: true };
+        }
+
+        let complete = true;
+
+        const products = new Map<string, LeadConnectorProduct>();
+        let offset = 0;
+        let total = 0;
+        do {
+            const result = await this.apiClient.listProducts({ locationId, limit: this.pageSize, offset }, getAccessToken);
+            if (!result.ok) {
+                console.warn(`Could not list products at offset ${offset} for location_id: ${locationId}: ${result.status} - ${result.errorText}`);
+                complete = false;
+                break;
             }
-            
-            const inventoryData = await inventoryResponse.json() as any;
-            
-            console.log(`Successfully retrieved ${inventoryData.inventory?.length || 0} items for location_id: ${locationId}`);
-            console.log("Inventory data details: ", JSON.stringify(inventoryData));
-            return inventoryData;
-            
-        } catch (error) {
-            if (error instanceof Error) {
-                console.error(`API request failed: ${error.message}`);
-                throw new Error(`API request failed: ${error.message}`);
-            } else {
-                const errorMsg = `Unexpected error getting inventory: ${String(error)}`;
-                console.error(errorMsg);
-                throw new Error(errorMsg);
+
+            const page = result.data.products || [];
+            total = result.data.total?.[0]?.total || 0;
+            page.forEach(product => products.set(product._id, product));
+
+            if (page.length === 0) {
+                break;
             }
+            offset += page.length;
+        } while (offset < total);
+
+        const pricedProductIds = productIds.slice(0, this.maxPricedProducts);
+        if (pricedProductIds.length < productIds.length) {
+            console.warn(`Pricing ${pricedProductIds.length} of ${productIds.length} products for location_id: ${locationId}, the other items stay unpriced`);
+            complete = false;
         }
+
+        const prices = new Map<string, LeadConnectorPrice>();
+        for (let start = 0; start < pricedProductIds.length; start += PRICE_REQUEST_CONCURRENCY) {
+            const batch = pricedProductIds.slice(start, start + PRICE_REQUEST_CONCURRENCY);
+            const results = await Promise.all(batch.map(productId =>
+                this.apiClient.listProductPrices({ locationId, productId }, getAccessToken)
+            ));
+
+            results.forEach((result, index) => {
+                if (!result.ok) {
+                    console.warn(`Could not list prices of product ${batch[index]} for location_id: ${locationId}: ${result.status} - ${result.errorText}`);
+                    complete = false;
+                    return;
+                }
+                (result.data.prices || []).forEach(price => prices.set(price._id, price));
+            });
+        }
+
+        console.log(`Loaded ${products.size} products and ${prices.size} prices for location_id: ${locationId}`);
+        return { catalog: new ProductCatalog(products, prices, productUrl), complete };
+    }
+
+    /**
+     * Supplies a location's access token to API requests (PRIVATE METHOD)
+     * The token is looked up once and reused for every request, a 401 replaces it with a refreshed one.
+     */
+    private createAccessTokenSupplier(locationId: string): (forceRefresh: boolean) => Promise<string> {
+        let accessToken: string | undefined;
+        return async (forceRefresh: boolean) => {
+            if (forceRefresh) {
+                accessToken = await this.refreshAccessToken(locationId);
+            } else if (!accessToken) {
+                accessToken = await this.ensureValidToken(locationId);
+            }
+            return accessToken;
+        };
+    }
+
+    /**
+     * Reads the location's low-stock threshold from its settings
+     * @returns The threshold, or null if low-stock alerting is disabled
+     */
+    private async getLowStockThreshold(locationId: string): Promise<number | null> {
+        const settingsResponse = await this.credentialsStub.getLocationSettings(locationId);
+        if (settingsResponse.status !== 'SUCCESS') {
+            console.warn(`Could not read settings for location_id: ${locationId}, low-stock alerting disabled: ${settingsResponse.message}`);
+            return null;
+        }
+        return settingsResponse.data.low_stock_threshold;
+    }
+
+    /**
+     * Reads the location's reorder points and low-stock threshold
+     * @param lowStockThreshold - Overrides the location's saved threshold when set
+     */
+    private async getReorderPointLookup(locationId: string, lowStockThreshold?: number): Promise<ReorderPointLookup> {
+        const threshold = lowStockThreshold ?? await this.getLowStockThreshold(locationId);
+
+        const reorderPointsResponse = await this.credentialsStub.getReorderPoints(locationId);
+        if (reorderPointsResponse.status !== 'SUCCESS') {
+            console.warn(`Could not read reorder points for location_id: ${locationId}, using the low-stock threshold only: ${reorderPointsResponse.message}`);
+            return new ReorderPointLookup(new Map(), threshold);
+        }
+
+        return new ReorderPointLookup(new Map(reorderPointsResponse.data.map((entry: { product_id: string; variant_id: string | null; reorder_point: number }) =>
+            [ReorderPointLookup.key(entry.product_id, entry.variant_id), entry.reorder_point]
+        )), threshold);
     }
 
     /**
@@ -211,8 +416,7 @@ export class InventoryQueryService {
             // Create token validator
             const tokenValidator = createTokenValidator(
                 this.credentialsStub,
-                this.clientId,
-                this.clientSecret
+                this.tokenCipher
             );
 
             // Ensure we have a valid token (will refresh if needed)
@@ -223,6 +427,17 @@ export class InventoryQueryService {
             throw new Error(`Failed to obtain valid credentials: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
+
+    /**
+     * Refreshes the access token after the API rejected it, even if it has not expired yet
+     */
+    private async refreshAccessToken(locationId: string): Promise<string> {
+        const refreshResult = await createTokenValidator(this.credentialsStub, this.tokenCipher).refreshToken(locationId);
+        if (!refreshResult.success) {
+            throw new Error(`Failed to refresh rejected access token: ${refreshResult.message}`);
+        }
+        return refreshResult.newAccessToken!;
+    }
 }
 
 /**
@@ -230,8 +445,20 @@ export class InventoryQueryService {
  */
 export function createInventoryQueryService(
     credentialsStub: any,
-    clientId: string,
-    clientSecret: string
+    tokenCipher: TokenCipher,
+    options: InventoryQueryOptions = {}
 ): InventoryQueryService {
-    return new InventoryQueryService(credentialsStub, clientId, clientSecret);
+    return new InventoryQueryService(credentialsStub, tokenCipher, options);
+}
+
+// Falls back to the default for a missing or invalid page size and caps it at MAX_INVENTORY_PAGE_SIZE
+function resolvePageSize(pageSize?: number): number {
+    if (pageSize === undefined || Number.isNaN(pageSize)) {
+        return DEFAULT_INVENTORY_PAGE_SIZE;
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+        console.warn(`Invalid inventory page size ${pageSize}, using ${DEFAULT_INVENTORY_PAGE_SIZE}`);
+        return DEFAULT_INVENTORY_PAGE_SIZE;
+    }
+    return Math.min(pageSize, MAX_INVENTORY_PAGE_SIZE);
 }
\ No newline at end of file
@@ -0,0 +1,53 @@
+/**
+ * Reorder Point Lookup
+ * Resolves the quantity at which an inventory item is low on stock: its variant's reorder point,
+ * then its product's, then the location's low-stock threshold
+ */
+
+import type { LeadConnectorInventoryItem } from '../../utils/leadconnector';
+
+export class ReorderPointLookup {
+    readonly lowStockThreshold: number | null;
+    private reorderPoints: Map<string, number>;
+
+    /**
+     * @param reorderPoints - Reorder points keyed by ReorderPointLookup.key
+     * @param lowStockThreshold - The location-wide low-stock threshold, null to disable it
+     */
+    constructor(reorderPoints: Map<string, number>, lowStockThreshold: number | null) {
+        this.reorderPoints = reorderPoints;
+        this.lowStockThreshold = lowStockThreshold;
+    }
+
+    /**
+     * Map key of a reorder point, product-wide reorder points have no variant
+     */
+    static key(productId: string, variantId?: string | null): string {
+        return `${productId}:${variantId ?? ''}`;
+    }
+
+    /**
+     * Number of product and variant reorder points
+     */
+    get size(): number {
+        return this.reorderPoints.size;
+    }
+
+    /**
+     * The reorder point of an item, or null if the item is never low on stock
+     */
+    resolve(item: LeadConnectorInventoryItem): number | null {
+        return this.reorderPoints.get(ReorderPointLookup.key(item.product ?? '', item._id))
+            ?? this.reorderPoints.get(ReorderPointLookup.key(item.product ?? ''))
+            ?? this.lowStockThreshold;
+    }
+
+    /**
+     * Whether an item is in stock but at or below its reorder point
+     */
+    isLowStock(item: LeadConnectorInventoryItem): boolean {
+        const quantity = item.availableQuantity || 0;
+        const reorderPoint = this.resolve(item);
+        return reorderPoint !== null && quantity > 0 && quantity <= reorderPoint;
+    }
+}
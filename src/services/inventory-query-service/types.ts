@@ -8,16 +8,28 @@ export interface InventoryQueryRequest {
     limit?: number;
     offset?: number;
     filters?: InventoryFilters;
+    sort?: InventorySort;
 }
 
 export interface InventoryFilters {
-    lowStockThreshold?: number;
+    lowStockThreshold?: number; // Overrides the location's threshold for items without a reorder point
     category?: string;
     inStockOnly?: boolean;
+    lowStockOnly?: boolean; // Only items in stock but at or below their reorder point
+    sku?: string; // Case-insensitive substring of the SKU
+    search?: string; // Case-insensitive substring of the product or variant name
+}
+
+export type InventorySortField = 'name' | 'sku' | 'quantity';
+
+export interface InventorySort {
+    field: InventorySortField;
+    order: 'asc' | 'desc';
 }
 
 export interface InventoryItem {
     id: string;
+    productId?: string;
     name: string;
     sku?: string;
     category?: string;
@@ -34,7 +46,9 @@ export interface InventoryQueryResult {
     success: boolean;
     items: InventoryItem[];
     totalCount: number;
-    filteredCount: number;
+    filteredCount: number; // Items matching the filters, across all pages
+    offset?: number;
+    limit?: number;
     locationId: string;
     timestamp: string;
     message?: string;
@@ -94,11 +108,40 @@ export class InventoryQueryRequestBuilder {
         return this;
     }
 
+    setSku(sku: string): this {
+        if (!this.request.filters) {
+            this.request.filters = {};
+        }
+        this.request.filters.sku = sku;
+        return this;
+    }
+
+    setSearch(search: string): this {
+        if (!this.request.filters) {
+            this.request.filters = {};
+        }
+        this.request.filters.search = search;
+        return this;
+    }
+
+    setLowStockOnly(lowStockOnly: boolean): this {
+        if (!this.request.filters) {
+            this.request.filters = {};
+        }
+        this.request.filters.lowStockOnly = lowStockOnly;
+        return this;
+    }
+
     setFilters(filters: InventoryFilters): this {
         this.request.filters = filters;
         return this;
     }
 
+    setSort(field: InventorySortField, order: 'asc' | 'desc' = 'asc'): this {
+        this.request.sort = { field, order };
+        return this;
+    }
+
     build(): InventoryQueryRequest {
         if (!this.request.locationId) {
             throw new Error('Location ID is required');
@@ -108,7 +151,8 @@ export class InventoryQueryRequestBuilder {
             locationId: this.request.locationId,
             limit: this.request.limit || 100,
             offset: this.request.offset || 0,
-            filters: this.request.filters || {}
+            filters: this.request.filters || {},
+            sort: this.request.sort || { field: 'name', order: 'asc' }
         };
     }
 }
@@ -144,6 +188,17 @@ export class InventoryQueryResultBuilder {
         return this;
     }
 
+    setFilteredCount(filteredCount: number): this {
+        this.result.filteredCount = filteredCount;
+        return this;
+    }
+
+    setPage(offset: number, limit: number): this {
+        this.result.offset = offset;
+        this.result.limit = limit;
+        return this;
+    }
+
     setTotalCount(totalCount: number): this {
         this.result.totalCount = totalCount;
         return this;
@@ -175,6 +230,8 @@ export class InventoryQueryResultBuilder {
             items: this.result.items || [],
             totalCount: this.result.totalCount || 0,
             filteredCount: this.result.filteredCount || 0,
+            offset: this.result.offset,
+            limit: this.result.limit,
             locationId: this.result.locationId,
             timestamp: this.result.timestamp!,
             message: this.result.message,
@@ -0,0 +1,10 @@
+/**
+ * Location Settings Service Module
+ * Exports the main service class and factory function
+ */
+
+export {
+    LocationSettingsService,
+    createLocationSettingsService,
+    type UpdateLocationSettingsRequest
+} from './location-settings-service';
@@ -0,0 +1,107 @@
+/**
+ * Location Settings Service
+ * Validates and stores per-location settings such as the low-stock threshold
+ * Callers are authenticated by API key before the service is used
+ */
+
+import { AlertMode } from '../../common-types/alert-mode';
+
+export interface UpdateLocationSettingsRequest {
+    locationId: string;
+    lowStockThreshold?: number | null; // null disables low-stock alerting
+    alertMode?: AlertMode | null; // null resets to AlertMode.CHANGES
+    backInStockNotifications?: boolean | null; // null resets to off
+}
+
+export class LocationSettingsService {
+    private credentialsStub: any;
+
+    constructor(credentialsStub: any) {
+        this.credentialsStub = credentialsStub;
+    }
+
+    /**
+     * Gets a location's settings, defaults are returned when nothing has been saved
+     * @param locationId - The location to read
+     */
+    async getSettings(locationId: string) {
+        if (!locationId) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'MISSING_LOCATION_ID',
+                message: 'Missing required parameter: locationId'
+            };
+        }
+
+        return this.credentialsStub.getLocationSettings(locationId);
+    }
+
+    /**
+     * Updates a location's settings, fields that are not present are left unchanged
+     * @param request - The location and the settings to change
+     */
+    async updateSettings(request: UpdateLocationSettingsRequest) {
+        const { locationId, lowStockThreshold, alertMode, backInStockNotifications } = request;
+
+        if (!locationId) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'MISSING_LOCATION_ID',
+                message: 'Missing required parameter: locationId'
+            };
+        }
+
+        if (lowStockThreshold === undefined && alertMode === undefined && backInStockNotifications === undefined) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'NO_SETTINGS',
+                message: 'No settings to update, expected: lowStockThreshold, alertMode, backInStockNotifications'
+            };
+        }
+
+        if (lowStockThreshold !== undefined && lowStockThreshold !== null && (!Number.isInteger(lowStockThreshold) || lowStockThreshold < 0)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_LOW_STOCK_THRESHOLD',
+                message: 'lowStockThreshold must be a non-negative integer, or null to disable low-stock alerts'
+            };
+        }
+
+        if (alertMode !== undefined && alertMode !== null && !Object.values(AlertMode).includes(alertMode)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_ALERT_MODE',
+                message: `alertMode must be one of: ${Object.values(AlertMode).join(', ')}, or null for the default`
+            };
+        }
+
+        if (backInStockNotifications !== undefined && backInStockNotifications !== null && typeof backInStockNotifications !== 'boolean') {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_BACK_IN_STOCK_NOTIFICATIONS',
+                message: 'backInStockNotifications must be true, false, or null for the default'
+            };
+        }
+
+        console.log(`Updating settings for location_id: ${locationId}, low_stock_threshold: ${lowStockThreshold}, alert_mode: ${alertMode}, back_in_stock_notifications: ${backInStockNotifications}`);
+
+        return this.credentialsStub.updateLocationSettings(locationId, {
+            low_stock_threshold: lowStockThreshold,
+            alert_mode: alertMode,
+            back_in_stock_notifications: backInStockNotifications
+        });
+    }
+}
+
+/**
+ * Factory function to create a LocationSettingsService instance
+ */
+export function createLocationSettingsService(credentialsStub: any): LocationSettingsService {
+    return new LocationSettingsService(credentialsStub);
+}
@@ -0,0 +1,17 @@
+/**
+ * Marketplace Webhook Service Module
+ * Exports the webhook handler, signature verifier and event types
+ */
+
+export * from './types';
+
+export {
+    MarketplaceWebhookService,
+    createMarketplaceWebhookService,
+    WEBHOOK_SIGNATURE_HEADER
+} from './marketplace-webhook-service';
+
+export {
+    WebhookSignatureVerifier,
+    createWebhookSignatureVerifier
+} from './webhook-signature';
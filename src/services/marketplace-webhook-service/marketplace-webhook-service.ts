@@ -0,0 +1,266 @@
+/**
+ * Marketplace Webhook Service
+ * Handles the marketplace's app lifecycle webhooks (INSTALL, UNINSTALL, LocationUpdate)
+ * so uninstalled locations stop being processed and every event is recorded
+ */
+
+import { AuthStatus } from '../../common-types/auth-status';
+import { bytesToBase64Url } from '../../utils/encoding/base64';
+import { WebhookSignatureVerifier } from './webhook-signature';
+import {
+    InstallWebhookEvent,
+    LocationUpdateWebhookEvent,
+    MarketplaceWebhookEvent,
+    UninstallWebhookEvent,
+    WebhookHandlingResult,
+    WebhookOutcome
+} from './types';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-wh-signature';
+
+interface EventOutcome {
+    outcome: WebhookOutcome;
+    message: string;
+}
+
+export class MarketplaceWebhookService {
+    private credentialsStub: any;
+    private verifier: WebhookSignatureVerifier;
+    private appId?: string;
+
+    /**
+     * @param credentialsStub Credentials durable object stub
+     * @param verifier Verifies the marketplace signature
+     * @param appId Optional marketplace app ID, events for other apps are ignored
+     */
+    constructor(credentialsStub: any, verifier: WebhookSignatureVerifier, appId?: string) {
+        this.credentialsStub = credentialsStub;
+        this.verifier = verifier;
+        this.appId = appId;
+    }
+
+    /**
+     * Verifies, records and handles a webhook request
+     * Requests with a missing or invalid signature are rejected before anything is stored.
+     * Redelivered events (same webhook ID) are acknowledged without being handled again.
+     * @param request The incoming webhook request
+     * @returns WebhookHandlingResult to be returned to the marketplace
+     */
+    async handleWebhook(request: Request): Promise<WebhookHandlingResult> {
+        const signature = request.headers.get(WEBHOOK_SIGNATURE_HEADER);
+        const rawBody = await request.text();
+
+        if (!signature) {
+            return {
+                httpCode: 401,
+                status: 'ERROR',
+                errorCode: 'MISSING_SIGNATURE',
+                message: `Missing ${WEBHOOK_SIGNATURE_HEADER} header`
+            };
+        }
+
+        if (!(await this.verifier.verify(rawBody, signature))) {
+            console.warn('Rejected marketplace webhook with an invalid signature');
+            return {
+                httpCode: 401,
+                status: 'ERROR',
+                errorCode: 'INVALID_SIGNATURE',
+                message: 'Webhook signature is invalid'
+            };
+        }
+
+        let event: MarketplaceWebhookEvent;
+        try {
+            event = JSON.parse(rawBody);
+        } catch {
+            return {
+                httpCode: 400,
+                status: 'ERROR',
+                errorCode: 'INVALID_PAYLOAD',
+                message: 'Webhook body is not valid JSON'
+            };
+        }
+
+        if (!event || typeof event.type !== 'string') {
+            return {
+                httpCode: 400,
+                status: 'ERROR',
+                errorCode: 'INVALID_PAYLOAD',
+                message: 'Webhook body has no event type'
+            };
+        }
+
+        const webhookId = event.webhookId || await this.hashBody(rawBody);
+        const { locationId, companyId } = this.getEventTarget(event);
+
+        const claim = await this.credentialsStub.claimWebhookEvent({
+            webhook_id: webhookId,
+            event_type: event.type,
+            location_id: locationId,
+            company_id: companyId,
+            payload: rawBody
+        });
+
+        if (claim.status !== 'SUCCESS') {
+            return {
+                httpCode: 500,
+                status: 'ERROR',
+                errorCode: 'PROCESSING_ERROR',
+                message: claim.message
+            };
+        }
+
+        if (claim.data.duplicate) {
+            console.log(`Marketplace webhook ${webhookId} (${event.type}) already received, skipping`);
+            return {
+                httpCode: 200,
+                status: 'SUCCESS',
+                message: 'Webhook already processed',
+                data: { webhookId, eventType: event.type, outcome: claim.data.outcome ?? 'ignored', duplicate: true }
+            };
+        }
+
+        let result: EventOutcome;
+        try {
+            result = await this.handleEvent(event);
+        } catch (error) {
+            result = {
+                outcome: 'failed',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            };
+        }
+
+        await this.credentialsStub.completeWebhookEvent(webhookId, result.outcome, result.message);
+        console.log(`Marketplace webhook ${webhookId} (${event.type}): ${result.outcome} - ${result.message}`);
+
+        if (result.outcome === 'failed') {
+            // A non-2xx response makes the marketplace redeliver, and failed events can be claimed again
+            return {
+                httpCode: 500,
+                status: 'ERROR',
+                errorCode: 'PROCESSING_ERROR',
+                message: result.message,
+                data: { webhookId, eventType: event.type, outcome: result.outcome, duplicate: false }
+            };
+        }
+
+        return {
+            httpCode: 200,
+            status: 'SUCCESS',
+            message: result.message,
+            data: { webhookId, eventType: event.type, outcome: result.outcome, duplicate: false }
+        };
+    }
+
+    private async handleEvent(event: MarketplaceWebhookEvent): Promise<EventOutcome> {
+        if ('appId' in event && this.appId && event.appId && event.appId !== this.appId) {
+            return { outcome: 'ignored', message: `Event is for another app (${event.appId})` };
+        }
+
+        switch (event.type) {
+            case 'INSTALL':
+                return this.handleInstall(event);
+            case 'UNINSTALL':
+                return this.handleUninstall(event);
+            case 'LocationUpdate':
+                return this.handleLocationUpdate(event);
+            default:
+                return { outcome: 'ignored', message: `Unsupported event type: ${(event as any).type}` };
+        }
+    }
+
+    /**
+     * Tokens for location installs arrive through the OAuth callback, so only agency
+     * installs on a specific location can be completed here
+     */
+    private async handleInstall(event: InstallWebhookEvent): Promise<EventOutcome> {
+        if (event.installType === 'Company' && event.locationId) {
+            const agency = await this.credentialsStub.getAgencyCredentials(event.companyId);
+            if (agency.status === 'SUCCESS') {
+                const installResult = await this.credentialsStub.installAgencyLocation(event.companyId, event.locationId);
+                if (installResult.status !== 'SUCCESS') {
+                    return { outcome: 'failed', message: installResult.message };
+                }
+                return { outcome: 'agency_location_installed', message: `Location ${event.locationId} installed from agency ${event.companyId}` };
+            }
+        }
+
+        if (event.locationId) {
+            const existing = await this.credentialsStub.getCredentials(event.locationId);
+            if (existing.status === 'SUCCESS' && existing.data.auth_status === AuthStatus.HEALTHY) {
+                return { outcome: 'already_installed', message: `Location ${event.locationId} is already installed` };
+            }
+        }
+
+        return { outcome: 'awaiting_oauth', message: 'Install recorded, credentials are stored by the OAuth callback' };
+    }
+
+    private async handleUninstall(event: UninstallWebhookEvent): Promise<EventOutcome> {
+        const reason = `App uninstalled (marketplace webhook at ${event.timestamp ?? new Date().toISOString()})`;
+
+        if (event.locationId) {
+            const result = await this.credentialsStub.deactivateCredential(event.locationId, reason);
+            if (result.status === 'NOT_FOUND') {
+                return { outcome: 'not_found', message: `Location ${event.locationId} is not installed` };
+            }
+            if (result.status !== 'SUCCESS') {
+                return { outcome: 'failed', message: result.message };
+            }
+            return { outcome: 'deactivated', message: `Location ${event.locationId} deactivated` };
+        }
+
+        if (event.companyId) {
+            const result = await this.credentialsStub.deactivateAgencyCredential(event.companyId, reason);
+            if (result.status === 'NOT_FOUND') {
+                return { outcome: 'not_found', message: `Agency ${event.companyId} is not installed` };
+            }
+            if (result.status !== 'SUCCESS') {
+                return { outcome: 'failed', message: result.message };
+            }
+            return { outcome: 'deactivated', message: `Agency ${event.companyId} and ${result.data.deactivated_locations} of its locations deactivated` };
+        }
+
+        return { outcome: 'ignored', message: 'Uninstall event has neither a location nor a company ID' };
+    }
+
+    private async handleLocationUpdate(event: LocationUpdateWebhookEvent): Promise<EventOutcome> {
+        const result = await this.credentialsStub.updateLocationDetails(event.id, {
+            name: event.name,
+            companyId: event.companyId
+        });
+
+        if (result.status === 'NOT_FOUND') {
+            return { outcome: 'not_found', message: `Location ${event.id} is not installed` };
+        }
+        if (result.status !== 'SUCCESS') {
+            return { outcome: 'failed', message: result.message };
+        }
+        return { outcome: 'location_updated', message: `Location ${event.id} details updated` };
+    }
+
+    private getEventTarget(event: MarketplaceWebhookEvent): { locationId?: string; companyId?: string } {
+        if (event.type === 'LocationUpdate') {
+            return { locationId: event.id, companyId: event.companyId };
+        }
+        return { locationId: event.locationId, companyId: event.companyId };
+    }
+
+    /**
+     * Fallback event ID for payloads without a webhookId
+     */
+    private async hashBody(rawBody: string): Promise<string> {
+        const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rawBody));
+        return `sha256:${bytesToBase64Url(new Uint8Array(digest))}`;
+    }
+}
+
+/**
+ * Factory function to create a MarketplaceWebhookService instance
+ */
+export function createMarketplaceWebhookService(
+    credentialsStub: any,
+    verifier: WebhookSignatureVerifier,
+    appId?: string
+): MarketplaceWebhookService {
+    return new MarketplaceWebhookService(credentialsStub, verifier, appId);
+}
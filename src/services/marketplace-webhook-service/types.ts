@@ -0,0 +1,62 @@
+// Marketplace webhook event types handled by the worker
+export type MarketplaceWebhookEventType = 'INSTALL' | 'UNINSTALL' | 'LocationUpdate';
+
+// App installed on a location or an agency
+export interface InstallWebhookEvent {
+    type: 'INSTALL';
+    appId: string;
+    installType: 'Location' | 'Company';
+    locationId?: string;
+    companyId: string;
+    userId?: string;
+    companyName?: string;
+    timestamp?: string;
+    webhookId?: string;
+}
+
+// App uninstalled from a location, or from the whole agency when locationId is missing
+export interface UninstallWebhookEvent {
+    type: 'UNINSTALL';
+    appId: string;
+    locationId?: string;
+    companyId?: string;
+    timestamp?: string;
+    webhookId?: string;
+}
+
+// Location details changed
+export interface LocationUpdateWebhookEvent {
+    type: 'LocationUpdate';
+    id: string; // Location ID
+    companyId?: string;
+    name?: string;
+    timestamp?: string;
+    webhookId?: string;
+}
+
+export type MarketplaceWebhookEvent = InstallWebhookEvent | UninstallWebhookEvent | LocationUpdateWebhookEvent;
+
+// What the worker did with a webhook event, stored in webhook_events.outcome
+export type WebhookOutcome =
+    | 'agency_location_installed'
+    | 'awaiting_oauth'
+    | 'already_installed'
+    | 'deactivated'
+    | 'location_updated'
+    | 'not_found'
+    | 'ignored'
+    | 'failed';
+
+// Result of handling a webhook request
+export interface WebhookHandlingResult {
+    httpCode: number;
+    status: 'SUCCESS' | 'ERROR';
+    message: string;
+    errorCode?: 'MISSING_SIGNATURE' | 'INVALID_SIGNATURE' | 'INVALID_PAYLOAD' | 'PROCESSING_ERROR';
+    data?: {
+        webhookId: string;
+        eventType: string;
+        outcome: WebhookOutcome;
+        duplicate: boolean;
+    };
+}
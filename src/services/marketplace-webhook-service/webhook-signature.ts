@@ -0,0 +1,66 @@
+import { base64ToBytes } from '../../utils/encoding/base64';
+
+/**
+ * Webhook Signature Verifier
+ * Verifies the `x-wh-signature` header of marketplace webhooks: a base64 RSA-SHA256
+ * (PKCS#1 v1.5) signature of the raw request body, made with the marketplace's private key.
+ */
+export class WebhookSignatureVerifier {
+    private readonly publicKeyPem: string;
+    private publicKey?: Promise<CryptoKey>;
+
+    constructor(publicKeyPem: string) {
+        if (!publicKeyPem) {
+            throw new Error('Marketplace webhook public key is required (GHL_WEBHOOK_PUBLIC_KEY)');
+        }
+        this.publicKeyPem = publicKeyPem;
+    }
+
+    /**
+     * Checks that the signature was made over the exact raw body
+     * @param rawBody The request body as received, before any parsing
+     * @param signature The `x-wh-signature` header value
+     * @returns True if the signature is valid
+     */
+    async verify(rawBody: string, signature: string): Promise<boolean> {
+        try {
+            return await crypto.subtle.verify(
+                'RSASSA-PKCS1-v1_5',
+                await this.getPublicKey(),
+                base64ToBytes(signature),
+                new TextEncoder().encode(rawBody)
+            );
+        } catch (error) {
+            console.warn('Webhook signature could not be verified:', error instanceof Error ? error.message : error);
+            return false;
+        }
+    }
+
+    private getPublicKey(): Promise<CryptoKey> {
+        if (!this.publicKey) {
+            // Secrets are often stored with escaped newlines, only the base64 body between the PEM markers matters
+            const base64Key = this.publicKeyPem
+                .replace(/\\n/g, '\n')
+                .replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '')
+                .replace(/\s+/g, '');
+
+            this.publicKey = crypto.subtle.importKey(
+                'spki',
+                base64ToBytes(base64Key),
+                { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+                false,
+                ['verify']
+            );
+        }
+        return this.publicKey;
+    }
+}
+
+/**
+ * Factory function to create a webhook signature verifier
+ * @param publicKeyPem The marketplace's PEM encoded public key (GHL_WEBHOOK_PUBLIC_KEY)
+ * @returns WebhookSignatureVerifier instance
+ */
+export function createWebhookSignatureVerifier(publicKeyPem: string): WebhookSignatureVerifier {
+    return new WebhookSignatureVerifier(publicKeyPem);
+}
@@ -0,0 +1,53 @@
+/**
+ * Discord Message
+ * Renders a notification as embeds for a Discord incoming webhook
+ */
+
+import { describeItem, truncate, visibleItems } from './message-format';
+import type { StockNotification, StockNotificationTone } from './types';
+
+// Discord limits a message to 10 embeds, an embed title to 256 and a description to 4096 characters
+const MAX_EMBEDS = 10;
+const MAX_TITLE = 256;
+const MAX_DESCRIPTION = 4096;
+
+const TONE_COLOR: Record<StockNotificationTone, number> = {
+    danger: 0xf44336,
+    warning: 0xff9800,
+    neutral: 0x9e9e9e,
+    success: 0x4caf50
+};
+
+/**
+ * Builds the webhook body, mentions are disabled so item names cannot ping anyone
+ */
+export function buildDiscordMessage(notification: StockNotification) {
+    const embeds = notification.sections.slice(0, MAX_EMBEDS).map(section => {
+        const { items, hidden } = visibleItems(section);
+        const lines = items.map(entry => {
+            const name = entry.item.product_url
+                ? `[${escapeMarkdown(entry.item.label)}](${entry.item.product_url})`
+                : `**${escapeMarkdown(entry.item.label)}**`;
+            return `• ${name} - ${escapeMarkdown(describeItem(entry))}`;
+        });
+        if (hidden > 0) {
+            lines.push(`*and ${hidden} more*`);
+        }
+
+        return {
+            title: truncate(section.title, MAX_TITLE),
+            description: truncate(lines.join('\n'), MAX_DESCRIPTION),
+            color: TONE_COLOR[section.tone]
+        };
+    });
+
+    return {
+        content: truncate(`**${escapeMarkdown(notification.title)}**\nLocation ${notification.locationId} · ${notification.summary}`, 2000),
+        embeds,
+        allowed_mentions: { parse: [] }
+    };
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\*_~`|\[\]])/g, '\\$1');
+}
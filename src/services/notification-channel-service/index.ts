@@ -0,0 +1,17 @@
+/**
+ * Notification Channel Service Module
+ * Exports the service class, factory function, chat message builders and types
+ */
+
+export * from './types';
+
+export {
+    NotificationChannelService,
+    createNotificationChannelService,
+    MAX_CHANNELS_PER_LOCATION
+} from './notification-channel-service';
+
+export { buildSlackMessage } from './slack-message';
+export { buildTeamsMessage } from './teams-card';
+export { buildDiscordMessage } from './discord-message';
+export { validateWebhookUrl } from './webhook-url';
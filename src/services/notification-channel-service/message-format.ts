@@ -0,0 +1,41 @@
+/**
+ * Message Format
+ * Text helpers shared by the chat service adapters
+ */
+
+import type { StockNotificationItem, StockNotificationSection } from './types';
+
+// Chat messages have size limits and long lists are unreadable in a channel, the rest is summarised as "and N more"
+export const MAX_ITEMS_PER_SECTION = 20;
+
+/**
+ * The items of a section that are listed, and how many are left out
+ */
+export function visibleItems(section: StockNotificationSection): { items: StockNotificationItem[]; hidden: number } {
+    const items = section.items.slice(0, MAX_ITEMS_PER_SECTION);
+    return { items, hidden: section.items.length - items.length };
+}
+
+/**
+ * Describes an item's SKU, quantity and detail, e.g. "SKU TS-L · 2 left (reorder point 5) · since 3/14/2026"
+ */
+export function describeItem({ item, detail }: StockNotificationItem): string {
+    const parts: string[] = [];
+    if (item.sku) {
+        parts.push(`SKU ${item.sku}`);
+    }
+    parts.push(item.available_quantity > 0 && item.reorder_point !== null
+        ? `${item.available_quantity} left (reorder point ${item.reorder_point})`
+        : `${item.available_quantity} left`);
+    if (detail) {
+        parts.push(detail);
+    }
+    return parts.join(' · ');
+}
+
+/**
+ * Shortens text to a chat service's field limit
+ */
+export function truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,209 @@
+/**
+ * Notification Channel Service
+ * Manages each location's chat channels (Slack, Teams and Discord incoming webhooks) and posts stock notifications
+ * to all of them
+ * Callers are authenticated by API key before the service is used
+ */
+
+import { fetchWithRetry } from '../../utils/http/http-client';
+import { TokenCipher } from '../../utils/token-management/token-cipher';
+import { NotificationChannelType } from '../../common-types/notification-channel-type';
+import { buildDiscordMessage } from './discord-message';
+import { buildSlackMessage } from './slack-message';
+import { buildTeamsMessage } from './teams-card';
+import { validateWebhookUrl } from './webhook-url';
+import {
+    ChannelDeliveryResult,
+    ChannelFanOutResult,
+    ChannelMessageBuilder,
+    NotificationChannelInput,
+    StockNotification
+} from './types';
+
+// Upper bound for the channels of one location, each is posted to sequentially on every run
+export const MAX_CHANNELS_PER_LOCATION = 10;
+const MAX_CHANNEL_NAME_LENGTH = 100;
+
+const MESSAGE_BUILDERS: Record<NotificationChannelType, ChannelMessageBuilder> = {
+    [NotificationChannelType.SLACK]: buildSlackMessage,
+    [NotificationChannelType.TEAMS]: buildTeamsMessage,
+    [NotificationChannelType.DISCORD]: buildDiscordMessage
+};
+
+export class NotificationChannelService {
+    private credentialsStub: any;
+    private tokenCipher: TokenCipher;
+
+    constructor(credentialsStub: any, tokenCipher: TokenCipher) {
+        this.credentialsStub = credentialsStub;
+        this.tokenCipher = tokenCipher;
+    }
+
+    /**
+     * Lists a location's channels, webhook URLs are not returned
+     * @param locationId - The location to read
+     */
+    async listChannels(locationId: string) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        return this.credentialsStub.getNotificationChannels(locationId);
+    }
+
+    /**
+     * Adds a channel to a location
+     * @param input - The channel as sent by the caller
+     */
+    async createChannel(input: Partial<NotificationChannelInput>) {
+        if (!input.locationId) {
+            return this.missingLocationId();
+        }
+
+        if (!Object.values(NotificationChannelType).includes(input.type as NotificationChannelType)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_CHANNEL_TYPE',
+                message: `type must be one of: ${Object.values(NotificationChannelType).join(', ')}`
+            };
+        }
+        const type = input.type as NotificationChannelType;
+
+        const name = typeof input.name === 'string' ? input.name.trim() : '';
+        if (!name || name.length > MAX_CHANNEL_NAME_LENGTH) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_CHANNEL_NAME',
+                message: `name must be a non-empty string of at most ${MAX_CHANNEL_NAME_LENGTH} characters`
+            };
+        }
+
+        const urlError = typeof input.webhookUrl === 'string'
+            ? validateWebhookUrl(type, input.webhookUrl)
+            : 'webhookUrl is required';
+        if (urlError) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_WEBHOOK_URL',
+                message: urlError
+            };
+        }
+
+        console.log(`Adding ${type} notification channel "${name}" for location_id: ${input.locationId}`);
+
+        return this.credentialsStub.createNotificationChannel({
+            channel_id: crypto.randomUUID(),
+            location_id: input.locationId,
+            type,
+            name,
+            webhook_url: input.webhookUrl
+        }, MAX_CHANNELS_PER_LOCATION);
+    }
+
+    /**
+     * Deletes a channel
+     * @param locationId - The location the channel belongs to
+     * @param channelId - The channel ID
+     */
+    async deleteChannel(locationId: string, channelId: string) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        if (!channelId) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'MISSING_CHANNEL_ID',
+                message: 'Missing required parameter: channelId'
+            };
+        }
+
+        return this.credentialsStub.deleteNotificationChannel(locationId, channelId);
+    }
+
+    /**
+     * Number of channels a location has, 0 if they cannot be read
+     */
+    async countChannels(locationId: string): Promise<number> {
+        const response = await this.credentialsStub.getNotificationChannels(locationId);
+        return response.status === 'SUCCESS' ? response.data.length : 0;
+    }
+
+    /**
+     * Posts a notification to every channel of a location, one failing channel does not stop the others
+     * @param notification - The alert data, rendered for each channel's chat service
+     */
+    async notify(notification: StockNotification): Promise<ChannelFanOutResult> {
+        const response = await this.credentialsStub.getNotificationChannelsForDelivery(notification.locationId);
+        if (response.status !== 'SUCCESS') {
+            throw new Error(`Failed to retrieve notification channels: ${response.message}`);
+        }
+
+        const results: ChannelDeliveryResult[] = [];
+        for (const channel of response.data) {
+            results.push(await this.deliver(channel, notification));
+        }
+
+        const totalSent = results.filter(result => result.success).length;
+        return {
+            totalChannels: results.length,
+            totalSent,
+            totalFailed: results.length - totalSent,
+            results
+        };
+    }
+
+    // Posts to one channel, non-idempotent so a message that may have arrived is not repeated
+    private async deliver(
+        channel: { channel_id: string; type: NotificationChannelType; name: string; webhook_url: string },
+        notification: StockNotification
+    ): Promise<ChannelDeliveryResult> {
+        const result: ChannelDeliveryResult = { channelId: channel.channel_id, type: channel.type, name: channel.name, success: false };
+
+        try {
+            const buildMessage = MESSAGE_BUILDERS[channel.type];
+            if (!buildMessage) {
+                throw new Error(`Unsupported channel type: ${channel.type}`);
+            }
+
+            const response = await fetchWithRetry(await this.tokenCipher.decrypt(channel.webhook_url), {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(buildMessage(notification))
+            }, { label: `${channel.type} channel ${channel.channel_id}`, idempotent: false });
+
+            if (!response.ok) {
+                throw new Error(`${response.status} ${(await response.text()).slice(0, 200)}`);
+            }
+            await response.body?.cancel();
+
+            console.log(`Posted ${notification.kind} notification to ${channel.type} channel "${channel.name}" of location ${notification.locationId}`);
+            result.success = true;
+        } catch (error) {
+            result.error = error instanceof Error ? error.message : 'Unknown error';
+            console.warn(`Failed to post ${notification.kind} notification to ${channel.type} channel "${channel.name}" of location ${notification.locationId}: ${result.error}`);
+        }
+
+        return result;
+    }
+
+    private missingLocationId() {
+        return {
+            status: 'ERROR',
+            httpCode: 400,
+            errorCode: 'MISSING_LOCATION_ID',
+            message: 'Missing required parameter: locationId'
+        };
+    }
+}
+
+/**
+ * Factory function to create a NotificationChannelService instance
+ */
+export function createNotificationChannelService(credentialsStub: any, tokenCipher: TokenCipher): NotificationChannelService {
+    return new NotificationChannelService(credentialsStub, tokenCipher);
+}
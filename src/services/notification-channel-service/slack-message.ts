@@ -0,0 +1,56 @@
+/**
+ * Slack Message
+ * Renders a notification as a Block Kit message for a Slack incoming webhook
+ */
+
+import { describeItem, truncate, visibleItems } from './message-format';
+import type { StockNotification, StockNotificationTone } from './types';
+
+// Slack limits a section's text to 3000 characters and a message to 50 blocks
+const MAX_SECTION_TEXT = 3000;
+
+const TONE_EMOJI: Record<StockNotificationTone, string> = {
+    danger: ':rotating_light:',
+    warning: ':warning:',
+    neutral: ':hourglass:',
+    success: ':white_check_mark:'
+};
+
+/**
+ * Builds the webhook body, `text` is the fallback shown in notifications
+ */
+export function buildSlackMessage(notification: StockNotification) {
+    const blocks: unknown[] = [
+        { type: 'header', text: { type: 'plain_text', text: truncate(notification.title, 150), emoji: true } },
+        { type: 'context', elements: [{ type: 'mrkdwn', text: escapeMrkdwn(`Location ${notification.locationId} · ${notification.summary}`) }] }
+    ];
+
+    for (const section of notification.sections) {
+        const { items, hidden } = visibleItems(section);
+        const lines = items.map(entry => {
+            const name = entry.item.product_url
+                ? `<${entry.item.product_url}|${escapeMrkdwn(entry.item.label)}>`
+                : escapeMrkdwn(entry.item.label);
+            return `• ${name} - ${escapeMrkdwn(describeItem(entry))}`;
+        });
+        if (hidden > 0) {
+            lines.push(`_and ${hidden} more_`);
+        }
+
+        blocks.push({ type: 'divider' });
+        blocks.push({
+            type: 'section',
+            text: {
+                type: 'mrkdwn',
+                text: truncate(`${TONE_EMOJI[section.tone]} *${escapeMrkdwn(section.title)}*\n${lines.join('\n')}`, MAX_SECTION_TEXT)
+            }
+        });
+    }
+
+    return { text: notification.title, blocks };
+}
+
+// Slack only needs &, < and > escaped in mrkdwn text
+function escapeMrkdwn(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
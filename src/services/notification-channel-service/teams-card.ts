@@ -0,0 +1,68 @@
+/**
+ * Teams Card
+ * Renders a notification as an Adaptive Card for a Microsoft Teams incoming webhook (Workflows or the classic
+ * connector), both accept a message with the card as attachment
+ */
+
+import { describeItem, visibleItems } from './message-format';
+import type { StockNotification, StockNotificationTone } from './types';
+
+const TONE_COLOR: Record<StockNotificationTone, string> = {
+    danger: 'Attention',
+    warning: 'Warning',
+    neutral: 'Default',
+    success: 'Good'
+};
+
+/**
+ * Builds the webhook body
+ */
+export function buildTeamsMessage(notification: StockNotification) {
+    const body: unknown[] = [
+        { type: 'TextBlock', text: notification.title, size: 'Large', weight: 'Bolder', wrap: true },
+        { type: 'TextBlock', text: `Location ${notification.locationId} · ${notification.summary}`, isSubtle: true, spacing: 'None', wrap: true }
+    ];
+
+    for (const section of notification.sections) {
+        const { items, hidden } = visibleItems(section);
+
+        body.push({
+            type: 'TextBlock',
+            text: section.title,
+            weight: 'Bolder',
+            color: TONE_COLOR[section.tone],
+            separator: true,
+            spacing: 'Medium',
+            wrap: true
+        });
+        for (const entry of items) {
+            const name = entry.item.product_url
+                ? `[${escapeMarkdown(entry.item.label)}](${entry.item.product_url})`
+                : `**${escapeMarkdown(entry.item.label)}**`;
+            body.push({ type: 'TextBlock', text: `${name} - ${escapeMarkdown(describeItem(entry))}`, spacing: 'Small', wrap: true });
+        }
+        if (hidden > 0) {
+            body.push({ type: 'TextBlock', text: `and ${hidden} more`, isSubtle: true, spacing: 'Small', wrap: true });
+        }
+    }
+
+    return {
+        type: 'message',
+        attachments: [{
+            contentType: 'application/vnd.microsoft.card.adaptive',
+            contentUrl: null,
+            content: {
+                $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+                type: 'AdaptiveCard',
+                version: '1.4',
+                msteams: { width: 'Full' },
+                body
+            }
+        }]
+    };
+}
+
+// Text blocks render a markdown subset, product names must not turn into links or emphasis
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\*_\[\]`])/g, '\\$1');
+}
@@ -0,0 +1,62 @@
+/**
+ * Notification Channel Service - Types
+ */
+
+import type { InventorySummaryItem } from '../inventory-query-service';
+import { NotificationChannelType } from '../../common-types/notification-channel-type';
+
+// A notification channel as sent by API callers
+export interface NotificationChannelInput {
+    locationId: string;
+    type: NotificationChannelType;
+    name: string;
+    webhookUrl: string;
+}
+
+// What a notification is about
+export type StockNotificationKind = 'stock_alert' | 'back_in_stock';
+
+// Colour hint of a section, mapped to each chat service's own colours
+export type StockNotificationTone = 'danger' | 'warning' | 'neutral' | 'success';
+
+// One item line of a notification section
+export interface StockNotificationItem {
+    item: InventorySummaryItem;
+    detail?: string; // Extra text after the quantity, e.g. "since 3/14/2026"
+}
+
+// A titled list of items, e.g. the new out-of-stock items
+export interface StockNotificationSection {
+    title: string;
+    tone: StockNotificationTone;
+    items: StockNotificationItem[];
+}
+
+// The alert data sent to every channel of a location, each adapter renders it in its chat service's format
+export interface StockNotification {
+    kind: StockNotificationKind;
+    locationId: string;
+    title: string; // e.g. "Stock Alert: 2 items newly out of stock"
+    summary: string; // One line of totals
+    sections: StockNotificationSection[];
+}
+
+// Builds the JSON body of a chat service's incoming webhook
+export type ChannelMessageBuilder = (notification: StockNotification) => unknown;
+
+// Result of posting a notification to one channel
+export interface ChannelDeliveryResult {
+    channelId: string;
+    type: NotificationChannelType;
+    name: string;
+    success: boolean;
+    error?: string;
+}
+
+// Result of posting a notification to every channel of a location
+export interface ChannelFanOutResult {
+    totalChannels: number;
+    totalSent: number;
+    totalFailed: number;
+    results: ChannelDeliveryResult[];
+}
@@ -0,0 +1,43 @@
+/**
+ * Webhook URL
+ * Checks that a channel's webhook URL belongs to its chat service, so the stock update never posts alert data to an
+ * arbitrary host
+ */
+
+import { NotificationChannelType } from '../../common-types/notification-channel-type';
+
+/**
+ * Validates an incoming webhook URL for a channel type
+ * @returns An error message, or null if the URL is valid
+ */
+export function validateWebhookUrl(type: NotificationChannelType, webhookUrl: string): string | null {
+    let url: URL;
+    try {
+        url = new URL(webhookUrl);
+    } catch {
+        return 'webhookUrl must be a valid URL';
+    }
+
+    if (url.protocol !== 'https:') {
+        return 'webhookUrl must use https';
+    }
+
+    const host = url.hostname.toLowerCase();
+    switch (type) {
+        case NotificationChannelType.SLACK:
+            return host === 'hooks.slack.com' && url.pathname.startsWith('/services/')
+                ? null
+                : 'Slack webhook URLs start with https://hooks.slack.com/services/';
+        case NotificationChannelType.DISCORD:
+            return ['discord.com', 'discordapp.com', 'ptb.discord.com', 'canary.discord.com'].includes(host) && url.pathname.startsWith('/api/webhooks/')
+                ? null
+                : 'Discord webhook URLs start with https://discord.com/api/webhooks/';
+        case NotificationChannelType.TEAMS:
+            // Classic connectors (*.webhook.office.com) and Workflows (Power Automate) webhooks
+            return host.endsWith('.webhook.office.com') || host.endsWith('.logic.azure.com') || host.endsWith('.powerplatform.com')
+                ? null
+                : 'Teams webhook URLs must be a Workflows (logic.azure.com, powerplatform.com) or webhook.office.com URL';
+        default:
+            return `Unsupported channel type: ${type}`;
+    }
+}
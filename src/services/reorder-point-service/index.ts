@@ -0,0 +1,13 @@
+/**
+ * Reorder Point Service Module
+ * Exports the service class, factory function, CSV parser and types
+ */
+
+export * from './types';
+
+export { parseReorderPointsCsv } from './reorder-point-csv';
+
+export {
+    ReorderPointService,
+    createReorderPointService
+} from './reorder-point-service';
@@ -0,0 +1,96 @@
+/**
+ * Reorder Point CSV Parser
+ * Parses bulk uploads in the form:
+ *
+ *   product_id,variant_id,reorder_point
+ *   prod_123,,5
+ *   prod_456,price_789,50
+ *
+ * An empty variant_id sets the product-wide reorder point. Fields may be quoted.
+ */
+
+import { ReorderPointCsvError, ReorderPointCsvParseResult, ReorderPointInput } from './types';
+
+const REQUIRED_COLUMNS = ['product_id', 'reorder_point'];
+
+/**
+ * Parses a reorder point CSV
+ * @param csv - The CSV text, with a header row
+ * @returns The valid entries and the errors of the invalid rows, by line number
+ */
+export function parseReorderPointsCsv(csv: string): ReorderPointCsvParseResult {
+    const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const errors: ReorderPointCsvError[] = [];
+    const entries: ReorderPointInput[] = [];
+
+    const header = splitCsvLine(lines[0] ?? '').map(column => column.trim().toLowerCase());
+    const missingColumns = REQUIRED_COLUMNS.filter(column => !header.includes(column));
+    if (missingColumns.length > 0) {
+        return {
+            entries,
+            errors: [{ line: 1, message: `Missing required columns: ${missingColumns.join(', ')}` }]
+        };
+    }
+
+    const productIndex = header.indexOf('product_id');
+    const variantIndex = header.indexOf('variant_id');
+    const reorderPointIndex = header.indexOf('reorder_point');
+
+    for (let i = 1; i < lines.length; i++) {
+        const lineNumber = i + 1;
+        if (lines[i].trim() === '') {
+            continue;
+        }
+
+        const fields = splitCsvLine(lines[i]).map(field => field.trim());
+        const productId = fields[productIndex] ?? '';
+        const variantId = variantIndex >= 0 ? fields[variantIndex] ?? '' : '';
+        const reorderPointText = fields[reorderPointIndex] ?? '';
+
+        if (!productId) {
+            errors.push({ line: lineNumber, message: 'product_id is empty' });
+            continue;
+        }
+
+        const reorderPoint = Number(reorderPointText);
+        if (reorderPointText === '' || !Number.isInteger(reorderPoint) || reorderPoint < 0) {
+            errors.push({ line: lineNumber, message: `reorder_point must be a non-negative integer, got '${reorderPointText}'` });
+            continue;
+        }
+
+        entries.push({ productId, variantId: variantId || null, reorderPoint });
+    }
+
+    return { entries, errors };
+}
+
+// Splits one CSV line into fields, honouring double quotes and "" escapes
+function splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    fields.push(field);
+    return fields;
+}
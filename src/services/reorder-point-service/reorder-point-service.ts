@@ -0,0 +1,165 @@
+/**
+ * Reorder Point Service
+ * Validates and stores per-product and per-variant reorder points, one by one or as a CSV upload
+ * Callers are authenticated by API key before the service is used
+ */
+
+import { parseReorderPointsCsv } from './reorder-point-csv';
+import { ReorderPointInput } from './types';
+
+// Upper bound for one request, keeps a single upload within one durable object transaction
+const MAX_REORDER_POINTS_PER_REQUEST = 5000;
+
+export class ReorderPointService {
+    private credentialsStub: any;
+
+    constructor(credentialsStub: any) {
+        this.credentialsStub = credentialsStub;
+    }
+
+    /**
+     * Lists a location's reorder points
+     * @param locationId - The location to read
+     */
+    async listReorderPoints(locationId: string) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        return this.credentialsStub.getReorderPoints(locationId);
+    }
+
+    /**
+     * Creates or updates reorder points, nothing is saved if any entry is invalid
+     * @param locationId - The location the reorder points belong to
+     * @param reorderPoints - The entries to save
+     */
+    async setReorderPoints(locationId: string, reorderPoints: ReorderPointInput[]) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        if (!Array.isArray(reorderPoints) || reorderPoints.length === 0) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_REORDER_POINTS',
+                message: 'reorderPoints must be a non-empty array of { productId, variantId?, reorderPoint }'
+            };
+        }
+
+        if (reorderPoints.length > MAX_REORDER_POINTS_PER_REQUEST) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'TOO_MANY_REORDER_POINTS',
+                message: `At most ${MAX_REORDER_POINTS_PER_REQUEST} reorder points can be saved per request`
+            };
+        }
+
+        const invalid = reorderPoints
+            .map((entry, index) => ({ index, error: this.validateEntry(entry) }))
+            .filter(result => result.error !== null);
+        if (invalid.length > 0) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_REORDER_POINTS',
+                message: `Invalid reorder points: ${invalid.map(result => `[${result.index}] ${result.error}`).join('; ')}`
+            };
+        }
+
+        console.log(`Saving ${reorderPoints.length} reorder points for location_id: ${locationId}`);
+
+        return this.credentialsStub.upsertReorderPoints(locationId, reorderPoints.map(entry => ({
+            product_id: entry.productId,
+            variant_id: entry.variantId || null,
+            reorder_point: entry.reorderPoint
+        })));
+    }
+
+    /**
+     * Creates or updates reorder points from a CSV upload, nothing is saved if any row is invalid
+     * @param locationId - The location the reorder points belong to
+     * @param csv - CSV with the columns product_id, variant_id (optional) and reorder_point
+     */
+    async importReorderPointsCsv(locationId: string, csv: string) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        const { entries, errors } = parseReorderPointsCsv(csv);
+        if (errors.length > 0) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_CSV',
+                message: `CSV has ${errors.length} invalid rows, nothing was saved`,
+                data: { errors }
+            };
+        }
+
+        if (entries.length === 0) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_CSV',
+                message: 'CSV contains no reorder points'
+            };
+        }
+
+        return this.setReorderPoints(locationId, entries);
+    }
+
+    /**
+     * Deletes a reorder point
+     * @param locationId - The location the reorder point belongs to
+     * @param productId - The product
+     * @param variantId - The variant, omit to delete the product-wide reorder point
+     */
+    async deleteReorderPoint(locationId: string, productId: string, variantId?: string | null) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        if (!productId) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'MISSING_PRODUCT_ID',
+                message: 'Missing required parameter: productId'
+            };
+        }
+
+        return this.credentialsStub.deleteReorderPoint(locationId, productId, variantId || null);
+    }
+
+    private validateEntry(entry: ReorderPointInput): string | null {
+        if (!entry || typeof entry.productId !== 'string' || !entry.productId) {
+            return 'productId is required';
+        }
+        if (entry.variantId !== undefined && entry.variantId !== null && typeof entry.variantId !== 'string') {
+            return 'variantId must be a string';
+        }
+        if (!Number.isInteger(entry.reorderPoint) || entry.reorderPoint < 0) {
+            return 'reorderPoint must be a non-negative integer';
+        }
+        return null;
+    }
+
+    private missingLocationId() {
+        return {
+            status: 'ERROR',
+            httpCode: 400,
+            errorCode: 'MISSING_LOCATION_ID',
+            message: 'Missing required parameter: locationId'
+        };
+    }
+}
+
+/**
+ * Factory function to create a ReorderPointService instance
+ */
+export function createReorderPointService(credentialsStub: any): ReorderPointService {
+    return new ReorderPointService(credentialsStub);
+}
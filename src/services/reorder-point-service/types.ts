@@ -0,0 +1,22 @@
+/**
+ * Reorder Point Service - Types
+ */
+
+// A reorder point as sent by API callers
+export interface ReorderPointInput {
+    productId: string;
+    variantId?: string | null; // Omit for a reorder point that applies to every variant of the product
+    reorderPoint: number;
+}
+
+// A row of a CSV upload that could not be used
+export interface ReorderPointCsvError {
+    line: number;
+    message: string;
+}
+
+// Result of parsing a CSV upload
+export interface ReorderPointCsvParseResult {
+    entries: ReorderPointInput[];
+    errors: ReorderPointCsvError[];
+}
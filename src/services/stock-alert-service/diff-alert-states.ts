@@ -0,0 +1,111 @@
+/**
+ * Alert State Comparison
+ * Compares a location's stored item alert states with a new inventory summary
+ */
+
+import type { ItemAlertState } from '../../durable-objects/credentials-durable-object';
+import type { InventorySummary, InventorySummaryItem } from '../inventory-query-service';
+import { StockState } from '../../common-types/stock-state';
+import { AlertedItem, BackInStockItem, StockAlertChanges } from './types';
+
+/**
+ * Sorts a summary's out-of-stock and low-stock items into new and ongoing issues, and finds the recovered items
+ * An item is new when it runs out of stock, or drops to its reorder point from above it. An item restocked from out
+ * of stock to low stock is an ongoing low-stock issue, and back in stock like every other item that was out of stock.
+ * @param previous - The alert states stored at the previous run
+ * @param summary - The current inventory summary
+ * @param now - When the inventory was read, the `since` of new states
+ */
+export function diffAlertStates(previous: ItemAlertState[], summary: InventorySummary, now: Date = new Date()): StockAlertChanges {
+    const previousStates = new Map(previous.map(state => [state.item_id, state]));
+    const timestamp = now.toISOString();
+
+    const changes: StockAlertChanges = {
+        newOutOfStock: [],
+        newLowStock: [],
+        ongoingOutOfStock: [],
+        ongoingLowStock: [],
+        recovered: [],
+        backInStock: [],
+        states: []
+    };
+
+    const track = (item: InventorySummaryItem, state: StockState): AlertedItem & { isNew: boolean } => {
+        const itemId = itemIdOf(item);
+        const before = previousStates.get(itemId);
+        previousStates.delete(itemId);
+
+        const isNew = !before || (state === StockState.OUT_OF_STOCK && before.state !== StockState.OUT_OF_STOCK);
+        const since = before?.state === state ? before.since : timestamp;
+        if (before?.state === StockState.OUT_OF_STOCK && state === StockState.LOW_STOCK) {
+            changes.backInStock.push(backInStock(item, before.since, now));
+        }
+        changes.states.push({ item_id: itemId, state, since });
+        return { item, since, isNew };
+    };
+
+    for (const item of summary.out_of_stock_items) {
+        const { isNew, ...alerted } = track(item, StockState.OUT_OF_STOCK);
+        (isNew ? changes.newOutOfStock : changes.ongoingOutOfStock).push(alerted);
+    }
+
+    for (const item of summary.low_stock_items) {
+        const { isNew, ...alerted } = track(item, StockState.LOW_STOCK);
+        (isNew ? changes.newLowStock : changes.ongoingLowStock).push(alerted);
+    }
+
+    // What is left was out of stock or low on stock before and is fine now (or no longer exists)
+    const inStock = new Map(summary.in_stock_items.map(item => [itemIdOf(item), item]));
+    for (const state of previousStates.values()) {
+        const item = inStock.get(state.item_id) ?? null;
+        changes.recovered.push({
+            item_id: state.item_id,
+            previous_state: state.state,
+            since: state.since,
+            item
+        });
+        if (item && state.state === StockState.OUT_OF_STOCK) {
+            changes.backInStock.push(backInStock(item, state.since, now));
+        }
+    }
+
+    changes.backInStock.sort((a, b) => a.item.label < b.item.label ? -1 : a.item.label > b.item.label ? 1 : 0);
+    return changes;
+}
+
+/**
+ * The alert states of a change set's back-in-stock items, to store once they have been reported
+ * Items still low on stock keep their new low-stock state, items that are fine now have none.
+ * @param changes - The changes returned by diffAlertStates
+ */
+export function backInStockStates(changes: StockAlertChanges): { states: ItemAlertState[]; removedItemIds: string[] } {
+    const currentStates = new Map(changes.states.map(state => [state.item_id, state]));
+    const states: ItemAlertState[] = [];
+    const removedItemIds: string[] = [];
+
+    for (const { item } of changes.backInStock) {
+        const itemId = itemIdOf(item);
+        const state = currentStates.get(itemId);
+        if (state) {
+            states.push(state);
+        } else {
+            removedItemIds.push(itemId);
+        }
+    }
+
+    return { states, removedItemIds };
+}
+
+function backInStock(item: InventorySummaryItem, outOfStockSince: string, now: Date): BackInStockItem {
+    return {
+        item,
+        out_of_stock_since: outOfStockSince,
+        back_in_stock_at: now.toISOString(),
+        unavailable_seconds: Math.max(0, Math.round((now.getTime() - Date.parse(outOfStockSince)) / 1000))
+    };
+}
+
+// Items without an _id are tracked by their label
+function itemIdOf(item: InventorySummaryItem): string {
+    return item.variant_id ?? item.label;
+}
@@ -0,0 +1,13 @@
+/**
+ * Stock Alert Service Module
+ * Exports the service class, factory function, state comparison and types
+ */
+
+export * from './types';
+
+export { backInStockStates, diffAlertStates } from './diff-alert-states';
+
+export {
+    StockAlertService,
+    createStockAlertService
+} from './stock-alert-service';
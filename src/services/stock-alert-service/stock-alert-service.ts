@@ -0,0 +1,72 @@
+/**
+ * Stock Alert Service
+ * Remembers which items of a location were out of stock or low on stock, so alerts can be limited to new issues
+ */
+
+import type { InventorySummary } from '../inventory-query-service';
+import { AlertStateScope } from '../../common-types/alert-state-scope';
+import { backInStockStates, diffAlertStates } from './diff-alert-states';
+import { StockAlertChanges } from './types';
+
+export class StockAlertService {
+    private credentialsStub: any;
+
+    constructor(credentialsStub: any) {
+        this.credentialsStub = credentialsStub;
+    }
+
+    /**
+     * Compares a summary with the location's stored alert states, nothing is stored yet
+     * @param summary - The location's current inventory summary
+     * @param now - When the inventory was read
+     * @param scope - Compare with the states of the alerts or of the stock events
+     * @returns The changes, or null if the stored states could not be read
+     */
+    async detectChanges(summary: InventorySummary, now: Date = new Date(), scope: AlertStateScope = AlertStateScope.NOTIFICATIONS): Promise<StockAlertChanges | null> {
+        const statesResponse = await this.credentialsStub.getItemAlertStates(summary.location_id, scope);
+        if (statesResponse.status !== 'SUCCESS') {
+            console.warn(`Could not read item alert states for location_id: ${summary.location_id}: ${statesResponse.message}`);
+            return null;
+        }
+
+        return diffAlertStates(statesResponse.data, summary, now);
+    }
+
+    /**
+     * Stores the alert states of a location's changes, call once the alert (if any) has been sent
+     * @param locationId - The location the changes belong to
+     * @param changes - The changes returned by detectChanges
+     * @param scope - The scope the changes were detected in
+     */
+    async commitChanges(locationId: string, changes: StockAlertChanges, scope: AlertStateScope = AlertStateScope.NOTIFICATIONS) {
+        const result = await this.credentialsStub.replaceItemAlertStates(locationId, changes.states, scope);
+        if (result.status !== 'SUCCESS') {
+            console.warn(`Could not store item alert states for location_id: ${locationId}: ${result.message}`);
+        }
+        return result;
+    }
+
+    /**
+     * Stores only the alert states of the back-in-stock items, call once the back-in-stock notification has been sent
+     * The other items keep their previous states until the stock alert is sent, but the restocked items are not
+     * reported as back in stock again.
+     * @param locationId - The location the changes belong to
+     * @param changes - The changes returned by detectChanges
+     * @param scope - The scope the changes were detected in
+     */
+    async commitBackInStock(locationId: string, changes: StockAlertChanges, scope: AlertStateScope = AlertStateScope.NOTIFICATIONS) {
+        const { states, removedItemIds } = backInStockStates(changes);
+        const result = await this.credentialsStub.updateItemAlertStates(locationId, states, removedItemIds, scope);
+        if (result.status !== 'SUCCESS') {
+            console.warn(`Could not store back-in-stock alert states for location_id: ${locationId}: ${result.message}`);
+        }
+        return result;
+    }
+}
+
+/**
+ * Factory function to create a StockAlertService instance
+ */
+export function createStockAlertService(credentialsStub: any): StockAlertService {
+    return new StockAlertService(credentialsStub);
+}
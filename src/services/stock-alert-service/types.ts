@@ -0,0 +1,40 @@
+/**
+ * Stock Alert Service - Types
+ */
+
+import type { ItemAlertState } from '../../durable-objects/credentials-durable-object';
+import type { InventorySummaryItem } from '../inventory-query-service';
+import { StockState } from '../../common-types/stock-state';
+
+// An item that is out of stock or low on stock, and since when
+export interface AlertedItem {
+    item: InventorySummaryItem;
+    since: string;
+}
+
+// An item that was out of stock or low on stock at the previous run and no longer is
+export interface RecoveredItem {
+    item_id: string;
+    previous_state: StockState;
+    since: string; // When the item entered previous_state
+    item: InventorySummaryItem | null; // null if the item is no longer in the inventory
+}
+
+// An item that was out of stock at the previous run and has stock again
+export interface BackInStockItem {
+    item: InventorySummaryItem;
+    out_of_stock_since: string; // When the item was first seen out of stock
+    back_in_stock_at: string; // When the run noticed, the restock happened between the previous run and this one
+    unavailable_seconds: number;
+}
+
+// How a location's stock issues changed since the previous run
+export interface StockAlertChanges {
+    newOutOfStock: AlertedItem[]; // Were in stock or low on stock
+    newLowStock: AlertedItem[]; // Were in stock above their reorder point
+    ongoingOutOfStock: AlertedItem[];
+    ongoingLowStock: AlertedItem[]; // Includes items restocked from out of stock to low stock
+    recovered: RecoveredItem[];
+    backInStock: BackInStockItem[]; // Out of stock before, in stock (possibly low) now
+    states: ItemAlertState[]; // The alert states to store once the alert has been sent
+}
@@ -0,0 +1,24 @@
+/**
+ * Webhook Subscription Service Module
+ * Exports the service class, factory function, event builder, payload signing and types
+ */
+
+export * from './types';
+
+export {
+    WebhookSubscriptionService,
+    createWebhookSubscriptionService,
+    MAX_SUBSCRIPTIONS_PER_LOCATION,
+    MAX_DELIVERY_ATTEMPTS,
+    DEFAULT_DELIVERY_RETENTION_DAYS
+} from './webhook-subscription-service';
+
+export { buildStockEvents } from './stock-events';
+
+export {
+    signWebhookPayload,
+    WEBHOOK_ID_HEADER,
+    WEBHOOK_EVENT_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    WEBHOOK_SIGNATURE_HEADER
+} from './payload-signature';
@@ -0,0 +1,27 @@
+/**
+ * Payload Signature
+ * Signs outbound webhook bodies so receivers can check they come from us and are recent:
+ * X-Webhook-Signature is "v1=" + hex HMAC-SHA256 of "<timestamp>.<body>" with the subscription's secret, where
+ * timestamp is the X-Webhook-Timestamp header (Unix seconds)
+ */
+
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const SIGNATURE_VERSION = 'v1';
+
+/**
+ * Computes the X-Webhook-Signature header value
+ * @param secret - The subscription's secret
+ * @param timestamp - Unix seconds, sent as X-Webhook-Timestamp
+ * @param body - The exact request body
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+    const hex = [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${SIGNATURE_VERSION}=${hex}`;
+}
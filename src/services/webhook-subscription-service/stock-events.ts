@@ -0,0 +1,57 @@
+/**
+ * Stock Events
+ * Turns the data of a stock update run into the events sent to webhook subscriptions
+ */
+
+import type { InventorySummary } from '../inventory-query-service';
+import type { AlertedItem, StockAlertChanges } from '../stock-alert-service';
+import { StockEventType } from '../../common-types/stock-event-type';
+import { AnyStockEvent, StockEventItem } from './types';
+
+/**
+ * Builds a location's events for one run: stock.out, stock.low and stock.recovered when they have items, and
+ * run.completed every time
+ * Each event carries every item of its type, so a run sends at most four requests per subscription.
+ * @param summary - The location's inventory summary
+ * @param changes - The changes since the previous run, null if the previous states could not be read
+ * @param now - When the inventory was read
+ */
+export function buildStockEvents(summary: InventorySummary, changes: StockAlertChanges | null, now: Date = new Date()): AnyStockEvent[] {
+    const createdAt = now.toISOString();
+    const envelope = () => ({ id: crypto.randomUUID(), created_at: createdAt, location_id: summary.location_id });
+    const events: AnyStockEvent[] = [];
+
+    if (changes && changes.newOutOfStock.length > 0) {
+        events.push({ ...envelope(), type: StockEventType.STOCK_OUT, data: { items: changes.newOutOfStock.map(toEventItem) } });
+    }
+    if (changes && changes.newLowStock.length > 0) {
+        events.push({ ...envelope(), type: StockEventType.STOCK_LOW, data: { items: changes.newLowStock.map(toEventItem) } });
+    }
+    if (changes && changes.recovered.length > 0) {
+        events.push({ ...envelope(), type: StockEventType.STOCK_RECOVERED, data: { items: changes.recovered } });
+    }
+
+    events.push({
+        ...envelope(),
+        type: StockEventType.RUN_COMPLETED,
+        data: {
+            total_items: summary.total_items,
+            total_available_quantity: summary.total_available_quantity,
+            items_with_stock: summary.items_with_stock,
+            items_out_of_stock: summary.items_out_of_stock,
+            items_low_stock: summary.items_low_stock,
+            valuation: summary.valuation,
+            products_enriched: summary.products_enriched,
+            changes_detected: changes !== null,
+            new_out_of_stock: changes?.newOutOfStock.length ?? 0,
+            new_low_stock: changes?.newLowStock.length ?? 0,
+            recovered: changes?.recovered.length ?? 0
+        }
+    });
+
+    return events;
+}
+
+function toEventItem({ item, since }: AlertedItem): StockEventItem {
+    return { ...item, since };
+}
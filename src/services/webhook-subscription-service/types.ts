@@ -0,0 +1,80 @@
+/**
+ * Webhook Subscription Service - Types
+ */
+
+import type { CurrencyValuation, InventorySummaryItem } from '../inventory-query-service';
+import type { RecoveredItem } from '../stock-alert-service';
+import { StockEventType } from '../../common-types/stock-event-type';
+
+// A webhook subscription as sent by API callers
+export interface WebhookSubscriptionInput {
+    locationId: string;
+    url: string;
+    eventTypes: StockEventType[];
+    secret?: string; // Generated when omitted
+}
+
+// Query string of the delivery log endpoint
+export interface WebhookDeliveryQuery {
+    locationId?: string;
+    subscriptionId?: string;
+    limit?: string;
+    includePayload?: string; // 'true' to include the JSON bodies
+}
+
+export interface WebhookSubscriptionOptions {
+    deliveryRetentionDays?: number; // Delivery log entries older than this are deleted
+}
+
+// The JSON body of every webhook request
+export interface StockEvent<T extends StockEventType = StockEventType, D = unknown> {
+    id: string; // Also sent as X-Webhook-Id, the same when a delivery is sent again
+    type: T;
+    created_at: string;
+    location_id: string;
+    data: D;
+}
+
+// An item of a stock.out or stock.low event, and since when it is in that state
+export interface StockEventItem extends InventorySummaryItem {
+    since: string;
+}
+
+export interface StockItemsEventData {
+    items: StockEventItem[];
+}
+
+export interface StockRecoveredEventData {
+    items: RecoveredItem[];
+}
+
+// A location's inventory totals after the stock update read it
+export interface RunCompletedEventData {
+    total_items: number;
+    total_available_quantity: number;
+    items_with_stock: number;
+    items_out_of_stock: number;
+    items_low_stock: number;
+    valuation: CurrencyValuation[];
+    products_enriched: boolean;
+    changes_detected: boolean; // false if the previous states could not be read, no item events were sent
+    new_out_of_stock: number;
+    new_low_stock: number;
+    recovered: number;
+}
+
+export type StockOutEvent = StockEvent<StockEventType.STOCK_OUT, StockItemsEventData>;
+export type StockLowEvent = StockEvent<StockEventType.STOCK_LOW, StockItemsEventData>;
+export type StockRecoveredEvent = StockEvent<StockEventType.STOCK_RECOVERED, StockRecoveredEventData>;
+export type RunCompletedEvent = StockEvent<StockEventType.RUN_COMPLETED, RunCompletedEventData>;
+
+export type AnyStockEvent = StockOutEvent | StockLowEvent | StockRecoveredEvent | RunCompletedEvent;
+
+// Result of sending a location's events to its subscriptions
+export interface WebhookDispatchResult {
+    events: number;
+    delivered: number;
+    failed: number;
+    retried: number; // Failed deliveries of earlier runs sent again, included in delivered and failed
+    logged: boolean; // false if the delivery log could not be stored, the failed deliveries are then not retried
+}
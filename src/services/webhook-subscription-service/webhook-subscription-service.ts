@@ -0,0 +1,319 @@
+/**
+ * Webhook Subscription Service
+ * Manages each location's outbound webhook subscriptions and sends them signed JSON stock events, keeping a log of
+ * every delivery
+ * Callers are authenticated by API key before the service is used
+ */
+
+import type { WebhookDeliveryRecord, WebhookSubscriptionInfo } from '../../durable-objects/credentials-durable-object';
+import { fetchWithRetry } from '../../utils/http/http-client';
+import { bytesToBase64Url } from '../../utils/encoding/base64';
+import { TokenCipher } from '../../utils/token-management/token-cipher';
+import { StockEventType } from '../../common-types/stock-event-type';
+import { WebhookDeliveryStatus } from '../../common-types/webhook-delivery-status';
+import {
+    signWebhookPayload,
+    WEBHOOK_EVENT_HEADER,
+    WEBHOOK_ID_HEADER,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER
+} from './payload-signature';
+import {
+    AnyStockEvent,
+    WebhookDeliveryQuery,
+    WebhookDispatchResult,
+    WebhookSubscriptionInput,
+    WebhookSubscriptionOptions
+} from './types';
+
+// Upper bound for the subscriptions of one location, each is sent to sequentially on every run
+export const MAX_SUBSCRIPTIONS_PER_LOCATION = 10;
+export const DEFAULT_DELIVERY_RETENTION_DAYS = 30;
+
+// Stock update runs that send a failed delivery, each run retries transient errors itself
+export const MAX_DELIVERY_ATTEMPTS = 5;
+// Failed deliveries of earlier runs sent per location and run, keeps a run's subrequests bounded
+const MAX_RETRIED_DELIVERIES_PER_RUN = 20;
+
+const SECRET_PREFIX = 'whsec_';
+const MIN_SECRET_LENGTH = 16;
+const MAX_SECRET_LENGTH = 256;
+const DEFAULT_DELIVERY_LOG_LIMIT = 50;
+const MAX_DELIVERY_LOG_LIMIT = 200;
+
+export class WebhookSubscriptionService {
+    private credentialsStub: any;
+    private tokenCipher: TokenCipher;
+    private retentionDays: number;
+
+    constructor(credentialsStub: any, tokenCipher: TokenCipher, options: WebhookSubscriptionOptions = {}) {
+        this.credentialsStub = credentialsStub;
+        this.tokenCipher = tokenCipher;
+        this.retentionDays = options.deliveryRetentionDays ?? DEFAULT_DELIVERY_RETENTION_DAYS;
+    }
+
+    /**
+     * Lists a location's subscriptions, secrets are not returned
+     * @param locationId - The location to read
+     */
+    async listSubscriptions(locationId: string) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        return this.credentialsStub.getWebhookSubscriptions(locationId);
+    }
+
+    /**
+     * Adds a subscription to a location
+     * @param input - The subscription as sent by the caller
+     * @returns The subscription with its secret, the only time the secret is returned
+     */
+    async createSubscription(input: Partial<WebhookSubscriptionInput>) {
+        if (!input.locationId) {
+            return this.missingLocationId();
+        }
+
+        const urlError = this.validateUrl(input.url);
+        if (urlError) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_WEBHOOK_URL',
+                message: urlError
+            };
+        }
+
+        const eventTypes = Object.values(StockEventType);
+        if (!Array.isArray(input.eventTypes) || input.eventTypes.length === 0
+            || input.eventTypes.some(type => !eventTypes.includes(type))) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_EVENT_TYPES',
+                message: `eventTypes must be a non-empty array of: ${eventTypes.join(', ')}`
+            };
+        }
+
+        if (input.secret !== undefined && (typeof input.secret !== 'string'
+            || input.secret.length < MIN_SECRET_LENGTH || input.secret.length > MAX_SECRET_LENGTH)) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_SECRET',
+                message: `secret must be a string of ${MIN_SECRET_LENGTH} to ${MAX_SECRET_LENGTH} characters, or omitted to generate one`
+            };
+        }
+
+        const secret = input.secret ?? `${SECRET_PREFIX}${bytesToBase64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+        console.log(`Adding webhook subscription for location_id: ${input.locationId}, events: ${input.eventTypes.join(', ')}`);
+
+        const result = await this.credentialsStub.createWebhookSubscription({
+            subscription_id: crypto.randomUUID(),
+            location_id: input.locationId,
+            url: input.url,
+            secret,
+            event_types: [...new Set(input.eventTypes)]
+        }, MAX_SUBSCRIPTIONS_PER_LOCATION);
+
+        if (result.status !== 'SUCCESS') {
+            return result;
+        }
+        return { ...result, data: { ...result.data, secret } };
+    }
+
+    /**
+     * Deletes a subscription and its delivery log
+     * @param locationId - The location the subscription belongs to
+     * @param subscriptionId - The subscription ID
+     */
+    async deleteSubscription(locationId: string, subscriptionId: string) {
+        if (!locationId) {
+            return this.missingLocationId();
+        }
+
+        if (!subscriptionId) {
+            return this.missingSubscriptionId();
+        }
+
+        return this.credentialsStub.deleteWebhookSubscription(locationId, subscriptionId);
+    }
+
+    /**
+     * Reads a location's delivery log, newest first
+     * @param query - Location, optional subscription, limit and payload flag as sent in the query string
+     */
+    async getDeliveries(query: WebhookDeliveryQuery) {
+        if (!query.locationId) {
+            return this.missingLocationId();
+        }
+
+        const limit = query.limit ? Number(query.limit) : DEFAULT_DELIVERY_LOG_LIMIT;
+        if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LOG_LIMIT) {
+            return {
+                status: 'ERROR',
+                httpCode: 400,
+                errorCode: 'INVALID_LIMIT',
+                message: `limit must be an integer between 1 and ${MAX_DELIVERY_LOG_LIMIT}`
+            };
+        }
+
+        return this.credentialsStub.getWebhookDeliveries(query.locationId, {
+            subscriptionId: query.subscriptionId || undefined,
+            limit,
+            includePayload: query.includePayload === 'true'
+        });
+    }
+
+    /**
+     * Number of subscriptions a location has, 0 if they cannot be read
+     */
+    async countSubscriptions(locationId: string): Promise<number> {
+        const response = await this.credentialsStub.getWebhookSubscriptions(locationId);
+        return response.status === 'SUCCESS' ? response.data.length : 0;
+    }
+
+    /**
+     * Sends the location's failed deliveries of earlier runs again, then each event to the subscriptions that chose
+     * its type, and stores every outcome in the delivery log
+     * @param locationId - The location the events belong to
+     * @param events - The run's events
+     */
+    async dispatch(locationId: string, events: AnyStockEvent[]): Promise<WebhookDispatchResult> {
+        const subscriptionsResponse = await this.credentialsStub.getWebhookSubscriptionsForDelivery(locationId);
+        if (subscriptionsResponse.status !== 'SUCCESS') {
+            throw new Error(`Failed to retrieve webhook subscriptions: ${subscriptionsResponse.message}`);
+        }
+        const subscriptions = new Map<string, WebhookSubscriptionInfo & { secret: string }>(
+            subscriptionsResponse.data.map((subscription: WebhookSubscriptionInfo & { secret: string }) => [subscription.subscription_id, subscription])
+        );
+
+        const records: WebhookDeliveryRecord[] = [];
+
+        const retryResponse = await this.credentialsStub.getRetryableWebhookDeliveries(locationId, MAX_DELIVERY_ATTEMPTS, MAX_RETRIED_DELIVERIES_PER_RUN);
+        const retryable: WebhookDeliveryRecord[] = retryResponse.status === 'SUCCESS' ? retryResponse.data : [];
+        if (retryResponse.status !== 'SUCCESS') {
+            console.warn(`Could not read failed webhook deliveries for location_id: ${locationId}: ${retryResponse.message}`);
+        }
+        for (const delivery of retryable) {
+            const subscription = subscriptions.get(delivery.subscription_id);
+            if (subscription) {
+                records.push(await this.send(subscription, delivery));
+            }
+        }
+        const retried = records.length;
+
+        const now = new Date().toISOString();
+        for (const event of events) {
+            const payload = JSON.stringify(event);
+            for (const subscription of subscriptions.values()) {
+                if (!subscription.event_types.includes(event.type)) {
+                    continue;
+                }
+                records.push(await this.send(subscription, {
+                    delivery_id: crypto.randomUUID(),
+                    subscription_id: subscription.subscription_id,
+                    location_id: locationId,
+                    event_id: event.id,
+                    event_type: event.type,
+                    payload,
+                    status: WebhookDeliveryStatus.FAILED,
+                    attempts: 0,
+                    response_status: null,
+                    error: null,
+                    created_at: now,
+                    last_attempt_at: now
+                }));
+            }
+        }
+
+        let logged = true;
+        if (records.length > 0) {
+            const logResult = await this.credentialsStub.recordWebhookDeliveries(locationId, records, this.retentionDays);
+            if (logResult.status !== 'SUCCESS') {
+                console.warn(`Could not store webhook deliveries for location_id: ${locationId}: ${logResult.message}`);
+                logged = false;
+            }
+        }
+
+        const delivered = records.filter(record => record.status === WebhookDeliveryStatus.DELIVERED).length;
+        return { events: events.length, delivered, failed: records.length - delivered, retried, logged };
+    }
+
+    // Signs and posts one delivery, a fresh timestamp and signature on every attempt so receivers can reject old requests
+    private async send(subscription: WebhookSubscriptionInfo & { secret: string }, delivery: WebhookDeliveryRecord): Promise<WebhookDeliveryRecord> {
+        const attempt: WebhookDeliveryRecord = {
+            ...delivery,
+            attempts: delivery.attempts + 1,
+            last_attempt_at: new Date().toISOString()
+        };
+
+        try {
+            const timestamp = Math.floor(Date.now() / 1000);
+            const signature = await signWebhookPayload(await this.tokenCipher.decrypt(subscription.secret), timestamp, delivery.payload);
+
+            // Receivers deduplicate by X-Webhook-Id, so transient errors are retried like idempotent requests
+            const response = await fetchWithRetry(subscription.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    [WEBHOOK_ID_HEADER]: delivery.event_id,
+                    [WEBHOOK_EVENT_HEADER]: delivery.event_type,
+                    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+                    [WEBHOOK_SIGNATURE_HEADER]: signature
+                },
+                body: delivery.payload
+            }, { label: `webhook ${subscription.subscription_id} ${delivery.event_type}`, maxAttempts: 3, timeoutMs: 10000 });
+            await response.body?.cancel();
+
+            attempt.response_status = response.status;
+            attempt.status = response.ok ? WebhookDeliveryStatus.DELIVERED : WebhookDeliveryStatus.FAILED;
+            attempt.error = response.ok ? null : `Endpoint answered ${response.status}`;
+        } catch (error) {
+            attempt.status = WebhookDeliveryStatus.FAILED;
+            attempt.response_status = null;
+            attempt.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        if (attempt.status === WebhookDeliveryStatus.FAILED) {
+            console.warn(`Webhook delivery ${attempt.delivery_id} (${attempt.event_type}) to subscription ${subscription.subscription_id} failed, attempt ${attempt.attempts}/${MAX_DELIVERY_ATTEMPTS}: ${attempt.error}`);
+        }
+        return attempt;
+    }
+
+    private validateUrl(url: unknown): string | null {
+        if (typeof url !== 'string') {
+            return 'url is required';
+        }
+        try {
+            return new URL(url).protocol === 'https:' ? null : 'url must use https';
+        } catch {
+            return 'url must be a valid URL';
+        }
+    }
+
+    private missingLocationId() {
+        return {
+            status: 'ERROR',
+            httpCode: 400,
+            errorCode: 'MISSING_LOCATION_ID',
+            message: 'Missing required parameter: locationId'
+        };
+    }
+
+    private missingSubscriptionId() {
+        return {
+            status: 'ERROR',
+            httpCode: 400,
+            errorCode: 'MISSING_SUBSCRIPTION_ID',
+            message: 'Missing required parameter: subscriptionId'
+        };
+    }
+}
+
+/**
+ * Factory function to create a WebhookSubscriptionService instance
+ */
+export function createWebhookSubscriptionService(credentialsStub: any, tokenCipher: TokenCipher, options: WebhookSubscriptionOptions = {}): WebhookSubscriptionService {
+    return new WebhookSubscriptionService(credentialsStub, tokenCipher, options);
+}
@@ -0,0 +1,53 @@
+/**
+ * Base64 Encoding Helpers
+ * Byte/string conversions used by the WebCrypto based utilities
+ */
+
+/**
+ * Encodes bytes as standard base64
+ * @param bytes - The bytes to encode
+ * @returns Base64 string
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
+
+/**
+ * Decodes a standard base64 string
+ * @param base64 - The base64 string to decode
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base64
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Encodes bytes as URL-safe base64 without padding
+ * @param bytes - The bytes to encode
+ * @returns Base64url string
+ */
+export function bytesToBase64Url(bytes: Uint8Array): string {
+    return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes a URL-safe base64 string (padding optional)
+ * @param base64Url - The base64url string to decode
+ * @returns Decoded bytes
+ * @throws Error if the input is not valid base64url
+ */
+export function base64UrlToBytes(base64Url: string): Uint8Array {
+    const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+    const padding = base64.length % 4 === 0 ? '' : '='.repeat(4 - (base64.length % 4));
+    return base64ToBytes(base64 + padding);
+}
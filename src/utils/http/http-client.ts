@@ -0,0 +1,183 @@
+/**
+ * HTTP Client
+ * Shared fetch wrapper for LeadConnector API calls: per-request timeouts, retries with exponential backoff and jitter,
+ * Retry-After and rate-limit header handling, and one access token refresh on 401
+ */
+
+export interface RetryPolicy {
+    maxAttempts: number; // Including the first request
+    baseDelayMs: number; // Backoff before the first retry, doubled for every further retry
+    maxDelayMs: number; // Upper bound of the computed backoff
+    maxRetryAfterMs: number; // A Retry-After longer than this is not waited for, the response is returned instead
+    timeoutMs: number; // Per attempt, until the response headers arrive
+}
+
+export interface HttpRequestOptions extends Partial<RetryPolicy> {
+    label?: string; // Names the call in logs, e.g. "inventory page"
+    /**
+     * Whether the request may be sent again after a 5xx, a timeout or a network error. Token grants are not:
+     * the provider may have consumed the code or rotated the refresh token before the response was lost,
+     * so they are only retried on 429, which is rejected before it is processed.
+     */
+    idempotent?: boolean;
+    /**
+     * Supplies the bearer token. On a 401 it is called once more with forceRefresh = true and the request is retried.
+     */
+    accessToken?: (forceRefresh: boolean) => Promise<string>;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 4,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    maxRetryAfterMs: 60000,
+    timeoutMs: 15000
+};
+
+// Statuses worth another attempt of an idempotent request
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export class HttpTimeoutError extends Error {
+    constructor(label: string, timeoutMs: number) {
+        super(`${label} timed out after ${timeoutMs}ms`);
+        this.name = 'HttpTimeoutError';
+    }
+}
+
+/**
+ * Sends a request, retrying transient failures
+ * Resolves with the last response, which can still be an error response once the attempts are used up or the
+ * status is not retryable. Rejects like fetch (network error, or HttpTimeoutError) when the last attempt failed.
+ * @param url - The request URL
+ * @param init - fetch options, the body must be a string or URLSearchParams so it can be sent again
+ * @param options - Retry policy overrides, idempotency and the access token supplier
+ * @returns The response
+ */
+export async function fetchWithRetry(url: string, init: RequestInit = {}, options: HttpRequestOptions = {}): Promise<Response> {
+    const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...definedOnly(options) };
+    const label = options.label ?? `${init.method ?? 'GET'} ${new URL(url).pathname}`;
+    const idempotent = options.idempotent ?? true;
+
+    let accessToken = options.accessToken ? await options.accessToken(false) : undefined;
+    let refreshedAfter401 = false;
+
+    for (let attempt = 1; ; attempt++) {
+        const headers = new Headers(init.headers);
+        if (accessToken) {
+            headers.set('Authorization', `Bearer ${accessToken}`);
+        }
+
+        let response: Response;
+        try {
+            response = await fetchWithTimeout(url, { ...init, headers }, policy.timeoutMs, label);
+        } catch (error) {
+            if (!idempotent || attempt >= policy.maxAttempts) {
+                throw error;
+            }
+            const delayMs = backoffDelay(attempt, policy);
+            console.warn(`${label} failed (attempt ${attempt}/${policy.maxAttempts}): ${error instanceof Error ? error.message : String(error)}, retrying in ${delayMs}ms`);
+            await sleep(delayMs);
+            continue;
+        }
+
+        // One refresh-and-retry per call, it does not count as an attempt
+        if (response.status === 401 && options.accessToken && !refreshedAfter401) {
+            refreshedAfter401 = true;
+            console.warn(`${label} returned 401, refreshing the access token and retrying`);
+            await response.body?.cancel();
+            accessToken = await options.accessToken(true);
+            attempt--;
+            continue;
+        }
+
+        const retryable = idempotent ? RETRYABLE_STATUSES.has(response.status) : response.status === 429;
+        if (!retryable || attempt >= policy.maxAttempts) {
+            warnIfRateLimitLow(response, label);
+            return response;
+        }
+
+        const waitMs = serverRequestedDelay(response);
+        if (waitMs !== null && waitMs > policy.maxRetryAfterMs) {
+            console.warn(`${label} returned ${response.status} asking to wait ${waitMs}ms, longer than ${policy.maxRetryAfterMs}ms - giving up`);
+            return response;
+        }
+
+        const delayMs = waitMs ?? backoffDelay(attempt, policy);
+        console.warn(`${label} returned ${response.status} (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delayMs}ms`);
+        await response.body?.cancel();
+        await sleep(delayMs);
+    }
+}
+
+/**
+ * Reads how long the server asked us to wait, from Retry-After (seconds or HTTP date) or, for a 429 without it,
+ * the rate-limit window headers
+ * @returns The delay in milliseconds, or null if the response does not say
+ */
+export function serverRequestedDelay(response: Response, now: number = Date.now()): number | null {
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - now);
+        }
+    }
+
+    if (response.status === 429) {
+        const reset = Number(response.headers.get('X-RateLimit-Reset'));
+        if (reset > 0) {
+            // Either seconds until the reset or a Unix timestamp in seconds
+            return reset > 1e9 ? Math.max(0, reset * 1000 - now) : reset * 1000;
+        }
+        const intervalMs = Number(response.headers.get('X-RateLimit-Interval-Milliseconds'));
+        if (intervalMs > 0) {
+            return intervalMs;
+        }
+    }
+
+    return null;
+}
+
+// Exponential backoff with full jitter, so locations throttled together do not retry together
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number, label: string): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        return await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+        if (controller.signal.aborted) {
+            throw new HttpTimeoutError(label, timeoutMs);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+function warnIfRateLimitLow(response: Response, label: string): void {
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const dailyRemaining = response.headers.get('X-RateLimit-Daily-Remaining');
+    if (remaining === '0' || dailyRemaining === '0') {
+        console.warn(`${label} used up the API rate limit (remaining: ${remaining ?? 'n/a'}, daily remaining: ${dailyRemaining ?? 'n/a'})`);
+    }
+}
+
+function definedOnly(options: HttpRequestOptions): Partial<RetryPolicy> {
+    const { maxAttempts, baseDelayMs, maxDelayMs, maxRetryAfterMs, timeoutMs } = options;
+    return Object.fromEntries(
+        Object.entries({ maxAttempts, baseDelayMs, maxDelayMs, maxRetryAfterMs, timeoutMs }).filter(([, value]) => value !== undefined)
+    );
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,13 @@
+/**
+ * LeadConnector API Client Module
+ * Exports the client, its factory and the API response types
+ */
+
+export * from './types';
+
+export {
+    LeadConnectorClient,
+    createLeadConnectorClient,
+    leadConnectorConfigFromEnv,
+    DEFAULT_LEADCONNECTOR_CONFIG
+} from './leadconnector-client';
@@ -0,0 +1,217 @@
+/**
+ * LeadConnector API Client
+ * The one place that knows the LeadConnector hosts, paths and Version header. Every call goes through
+ * fetchWithRetry; responses are returned typed, non-2xx responses as { ok: false } with the error body.
+ */
+
+import { fetchWithRetry, HttpRequestOptions } from '../http/http-client';
+import {
+    LeadConnectorConfig,
+    LeadConnectorInstalledLocationsResponse,
+    LeadConnectorInventoryResponse,
+    LeadConnectorLocationTokenResponse,
+    LeadConnectorPriceListResponse,
+    LeadConnectorProductListResponse,
+    LeadConnectorResult,
+    LeadConnectorTokenResponse
+} from './types';
+
+// The env vars the client reads
+type LeadConnectorEnv = Partial<Pick<Env, 'GHL_API_BASE_URL' | 'GHL_MARKETPLACE_BASE_URL' | 'GHL_APP_BASE_URL'>>;
+
+export const DEFAULT_LEADCONNECTOR_CONFIG: LeadConnectorConfig = {
+    apiBaseUrl: 'https://services.leadconnectorhq.com',
+    marketplaceBaseUrl: 'https://marketplace.gohighlevel.com',
+    appBaseUrl: 'https://app.gohighlevel.com',
+    apiVersion: '2021-07-28'
+};
+
+export class LeadConnectorClient {
+    private readonly config: LeadConnectorConfig;
+
+    constructor(config: LeadConnectorConfig = DEFAULT_LEADCONNECTOR_CONFIG) {
+        this.config = config;
+    }
+
+    /**
+     * Builds the URL of the marketplace consent screen users are redirected to
+     * @param params - response_type, client_id, redirect_uri, scope and state
+     */
+    buildAuthorizationUrl(params: URLSearchParams): string {
+        return `${this.config.marketplaceBaseUrl}/oauth/chooselocation?${params.toString()}`;
+    }
+
+    /**
+     * Builds the link to a product's page in the CRM web app
+     */
+    buildProductUrl(locationId: string, productId: string): string {
+        return `${this.config.appBaseUrl}/v2/location/${encodeURIComponent(locationId)}/payments/products/${encodeURIComponent(productId)}`;
+    }
+
+    /**
+     * Exchanges an authorization code for a token pair
+     * Authorization codes are single-use, so only 429s are retried.
+     */
+    async exchangeAuthorizationCode(clientId: string, clientSecret: string, code: string, userType: 'Location' | 'Company'): Promise<LeadConnectorResult<LeadConnectorTokenResponse>> {
+        return this.postForm<LeadConnectorTokenResponse>('/oauth/token', {
+            client_id: clientId,
+            client_secret: clientSecret,
+            grant_type: 'authorization_code',
+            code,
+            user_type: userType
+        }, { label: 'authorization code exchange', idempotent: false });
+    }
+
+    /**
+     * Exchanges a refresh token for a new token pair
+     * Not idempotent: a lost response may hide a rotated refresh token, so only 429s are retried.
+     */
+    async refreshToken(clientId: string, clientSecret: string, refreshToken: string, userType: 'Location' | 'Company'): Promise<LeadConnectorResult<LeadConnectorTokenResponse>> {
+        return this.postForm<LeadConnectorTokenResponse>('/oauth/token', {
+            client_id: clientId,
+            client_secret: clientSecret,
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+            user_type: userType
+        }, { label: `${userType} token refresh`, idempotent: false });
+    }
+
+    /**
+     * Mints a location access token from an agency access token
+     */
+    async mintLocationToken(agencyAccessToken: string, companyId: string, locationId: string): Promise<LeadConnectorResult<LeadConnectorLocationTokenResponse>> {
+        return this.postForm<LeadConnectorLocationTokenResponse>('/oauth/locationToken', { companyId, locationId }, {
+            label: `location token for ${locationId}`
+        }, agencyAccessToken);
+    }
+
+    /**
+     * Lists one page of an agency's locations that have the app installed
+     */
+    async listInstalledLocations(agencyAccessToken: string, params: { companyId: string; appId: string; skip: number; limit: number }): Promise<LeadConnectorResult<LeadConnectorInstalledLocationsResponse>> {
+        const query = new URLSearchParams({
+            companyId: params.companyId,
+            appId: params.appId,
+            isInstalled: 'true',
+            skip: String(params.skip),
+            limit: String(params.limit)
+        });
+
+        return this.get<LeadConnectorInstalledLocationsResponse>(`/oauth/installedLocations?${query}`, {
+            label: `installed locations of ${params.companyId}`
+        }, agencyAccessToken);
+    }
+
+    /**
+     * Fetches one page of a location's inventory
+     * @param accessToken - Supplies the location token, called with forceRefresh = true once if the API returns 401
+     */
+    async getInventoryPage(
+        params: { locationId: string; limit: number; offset: number },
+        accessToken: (forceRefresh: boolean) => Promise<string>
+    ): Promise<LeadConnectorResult<LeadConnectorInventoryResponse>> {
+        const query = new URLSearchParams({
+            limit: String(params.limit),
+            offset: String(params.offset),
+            altId: params.locationId,
+            altType: 'location'
+        });
+
+        return this.get<LeadConnectorInventoryResponse>(`/products/inventory?${query}`, {
+            label: `inventory page at offset ${params.offset} for ${params.locationId}`,
+            accessToken
+        });
+    }
+
+    /**
+     * Fetches one page of a location's products
+     * @param accessToken - Supplies the location token, called with forceRefresh = true once if the API returns 401
+     */
+    async listProducts(
+        params: { locationId: string; limit: number; offset: number },
+        accessToken: (forceRefresh: boolean) => Promise<string>
+    ): Promise<LeadConnectorResult<LeadConnectorProductListResponse>> {
+        const query = new URLSearchParams({
+            locationId: params.locationId,
+            limit: String(params.limit),
+            offset: String(params.offset)
+        });
+
+        return this.get<LeadConnectorProductListResponse>(`/products/?${query}`, {
+            label: `products page at offset ${params.offset} for ${params.locationId}`,
+            accessToken
+        });
+    }
+
+    /**
+     * Lists a product's prices (one per variant)
+     * @param accessToken - Supplies the location token, called with forceRefresh = true once if the API returns 401
+     */
+    async listProductPrices(
+        params: { locationId: string; productId: string },
+        accessToken: (forceRefresh: boolean) => Promise<string>
+    ): Promise<LeadConnectorResult<LeadConnectorPriceListResponse>> {
+        const query = new URLSearchParams({ locationId: params.locationId, limit: '100' });
+
+        return this.get<LeadConnectorPriceListResponse>(`/products/${encodeURIComponent(params.productId)}/price?${query}`, {
+            label: `prices of product ${params.productId} for ${params.locationId}`,
+            accessToken
+        });
+    }
+
+    private async get<T>(path: string, options: HttpRequestOptions, bearerToken?: string): Promise<LeadConnectorResult<T>> {
+        const response = await fetchWithRetry(`${this.config.apiBaseUrl}${path}`, {
+            headers: this.headers({ 'Accept': 'application/json' }, bearerToken)
+        }, options);
+        return this.toResult<T>(response);
+    }
+
+    private async postForm<T>(path: string, form: Record<string, string>, options: HttpRequestOptions, bearerToken?: string): Promise<LeadConnectorResult<T>> {
+        const response = await fetchWithRetry(`${this.config.apiBaseUrl}${path}`, {
+            method: 'POST',
+            headers: this.headers({ 'Accept': 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' }, bearerToken),
+            body: new URLSearchParams(form).toString()
+        }, options);
+        return this.toResult<T>(response);
+    }
+
+    private headers(headers: Record<string, string>, bearerToken?: string): Record<string, string> {
+        return {
+            ...headers,
+            'Version': this.config.apiVersion,
+            ...(bearerToken ? { 'Authorization': `Bearer ${bearerToken}` } : {})
+        };
+    }
+
+    private async toResult<T>(response: Response): Promise<LeadConnectorResult<T>> {
+        if (!response.ok) {
+            return { ok: false, status: response.status, errorText: await response.text() };
+        }
+        return { ok: true, status: response.status, data: await response.json() as T };
+    }
+}
+
+/**
+ * Reads the LeadConnector configuration from env, unset values fall back to the production hosts
+ * @param env - GHL_API_BASE_URL and GHL_MARKETPLACE_BASE_URL (e.g. http://localhost:8788 for a local mock) and
+ * GHL_APP_BASE_URL (a white-label CRM domain)
+ */
+export function leadConnectorConfigFromEnv(env: LeadConnectorEnv): LeadConnectorConfig {
+    return {
+        ...DEFAULT_LEADCONNECTOR_CONFIG,
+        apiBaseUrl: withoutTrailingSlash(env.GHL_API_BASE_URL) ?? DEFAULT_LEADCONNECTOR_CONFIG.apiBaseUrl,
+        marketplaceBaseUrl: withoutTrailingSlash(env.GHL_MARKETPLACE_BASE_URL) ?? DEFAULT_LEADCONNECTOR_CONFIG.marketplaceBaseUrl,
+        appBaseUrl: withoutTrailingSlash(env.GHL_APP_BASE_URL) ?? DEFAULT_LEADCONNECTOR_CONFIG.appBaseUrl
+    };
+}
+
+/**
+ * Factory function to create a LeadConnectorClient from env
+ */
+export function createLeadConnectorClient(env: LeadConnectorEnv = {}): LeadConnectorClient {
+    return new LeadConnectorClient(leadConnectorConfigFromEnv(env));
+}
+
+function withoutTrailingSlash(url: string | undefined): string | undefined {
+    return url ? url.replace(/\/+$/, '') : undefined;
+}
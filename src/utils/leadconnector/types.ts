@@ -0,0 +1,101 @@
+/**
+ * LeadConnector API - Types
+ * Response shapes of the endpoints this worker calls, only the fields it uses are typed
+ */
+
+// Base URLs and API version, from env so the worker can run against a mock of the API
+export interface LeadConnectorConfig {
+    apiBaseUrl: string; // REST API and OAuth token endpoints
+    marketplaceBaseUrl: string; // OAuth consent screen
+    appBaseUrl: string; // CRM web app, for links to products
+    apiVersion: string; // Sent in the Version header
+}
+
+// Outcome of an API call that got a response; network errors and timeouts are thrown
+export type LeadConnectorResult<T> =
+    | { ok: true; status: number; data: T }
+    | { ok: false; status: number; errorText: string };
+
+// POST /oauth/token (authorization_code and refresh_token grants)
+export interface LeadConnectorTokenResponse {
+    access_token: string;
+    refresh_token: string;
+    expires_in: number; // Seconds
+    token_type?: string;
+    scope?: string;
+    userType?: 'Location' | 'Company';
+    locationId?: string;
+    companyId?: string;
+}
+
+// POST /oauth/locationToken
+export interface LeadConnectorLocationTokenResponse {
+    access_token: string;
+    refresh_token?: string; // Minted location tokens are re-minted, not refreshed
+    expires_in: number;
+    locationId?: string;
+}
+
+// GET /oauth/installedLocations
+export interface LeadConnectorInstalledLocationsResponse {
+    locations?: Array<{
+        _id: string;
+        name?: string;
+        isInstalled?: boolean;
+    }>;
+}
+
+// One product in GET /products/
+export interface LeadConnectorProduct {
+    _id: string;
+    name: string;
+    image?: string;
+    medias?: Array<{
+        url: string;
+        type?: string; // 'image' or 'video'
+        isFeatured?: boolean;
+    }>;
+    productType?: string;
+    [key: string]: any; // Allow other properties from API
+}
+
+// GET /products/
+export interface LeadConnectorProductListResponse {
+    products: LeadConnectorProduct[];
+    total: Array<{ total: number }>;
+}
+
+// One price (variant) in GET /products/{productId}/price, its _id is the _id of the variant's inventory item
+export interface LeadConnectorPrice {
+    _id: string;
+    name?: string;
+    product?: string;
+    amount?: number; // In the currency's major unit, e.g. 19.99
+    currency?: string; // ISO 4217 code
+    sku?: string;
+    [key: string]: any; // Allow other properties from API
+}
+
+// GET /products/{productId}/price
+export interface LeadConnectorPriceListResponse {
+    prices: LeadConnectorPrice[];
+    total?: number;
+}
+
+// One variant (price) in GET /products/inventory
+export interface LeadConnectorInventoryItem {
+    _id?: string; // Variant (price) ID
+    product?: string; // Product ID
+    productName?: string;
+    name?: string; // Variant name
+    availableQuantity?: number;
+    sku?: string;
+    [key: string]: any; // Allow other properties from API
+}
+
+// GET /products/inventory
+export interface LeadConnectorInventoryResponse {
+    inventory: LeadConnectorInventoryItem[];
+    total: Array<{ total: number }>;
+    traceId?: string;
+}
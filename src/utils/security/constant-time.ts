@@ -0,0 +1,20 @@
+/**
+ * Constant-Time Comparison
+ * Compares secrets without leaking how many leading characters matched through response timing
+ */
+
+/**
+ * Compares two strings in constant time
+ * Both values are hashed first, so the comparison also does not leak the secret's length.
+ * @param a - The presented value
+ * @param b - The expected secret
+ * @returns True if the strings are equal
+ */
+export async function timingSafeEqualStrings(a: string, b: string): Promise<boolean> {
+    const encoder = new TextEncoder();
+    const [digestA, digestB] = await Promise.all([
+        crypto.subtle.digest('SHA-256', encoder.encode(a)),
+        crypto.subtle.digest('SHA-256', encoder.encode(b))
+    ]);
+    return crypto.subtle.timingSafeEqual(digestA, digestB);
+}
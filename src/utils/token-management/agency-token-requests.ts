@@ -0,0 +1,128 @@
+/**
+ * Agency Token Requests
+ * Calls made with an agency (Company) access token: listing the agency's installed
+ * locations and minting location tokens for them
+ */
+
+import { TokenRefreshResponse } from './token-refresh-request';
+import { LeadConnectorClient } from '../leadconnector';
+
+export interface InstalledLocation {
+    locationId: string;
+    name?: string;
+}
+
+export interface InstalledLocationsResponse {
+    success: boolean;
+    locations: InstalledLocation[];
+    httpStatus?: number;
+    message: string;
+}
+
+const INSTALLED_LOCATIONS_PAGE_SIZE = 100;
+
+/**
+ * Mints a location access token from an agency access token
+ * @param apiClient - The LeadConnector API client
+ * @param agencyAccessToken - The (plaintext) agency access token
+ * @param companyId - The agency's company ID
+ * @param locationId - The sub-account to mint a token for
+ * @returns TokenRefreshResponse with the location token (refreshToken may be absent)
+ */
+export async function requestLocationToken(apiClient: LeadConnectorClient, agencyAccessToken: string, companyId: string, locationId: string): Promise<TokenRefreshResponse> {
+    let result;
+    try {
+        result = await apiClient.mintLocationToken(agencyAccessToken, companyId, locationId);
+    } catch (error) {
+        console.error('Network error while minting location token:', error);
+        return {
+            success: false,
+            message: `Network error: ${error instanceof Error ? error.message : 'Unknown network error'}`
+        };
+    }
+
+    if (!result.ok) {
+        return {
+            success: false,
+            httpStatus: result.status,
+            message: `Failed to mint location token: ${result.status} - ${result.errorText}`
+        };
+    }
+
+    const tokenData = result.data;
+
+    if (!tokenData.access_token || !tokenData.expires_in) {
+        return {
+            success: false,
+            httpStatus: result.status,
+            message: 'Incomplete location token response from OAuth provider'
+        };
+    }
+
+    return {
+        success: true,
+        accessToken: tokenData.access_token,
+        refreshToken: tokenData.refresh_token,
+        expiresIn: tokenData.expires_in,
+        httpStatus: result.status,
+        message: 'Location token minted successfully'
+    };
+}
+
+/**
+ * Lists the locations of an agency that have this app installed
+ * @param apiClient - The LeadConnector API client
+ * @param agencyAccessToken - The (plaintext) agency access token
+ * @param companyId - The agency's company ID
+ * @param appId - The marketplace app ID
+ * @returns InstalledLocationsResponse with every installed location
+ */
+export async function requestInstalledLocations(apiClient: LeadConnectorClient, agencyAccessToken: string, companyId: string, appId: string): Promise<InstalledLocationsResponse> {
+    const locations: InstalledLocation[] = [];
+
+    for (let skip = 0; ; skip += INSTALLED_LOCATIONS_PAGE_SIZE) {
+        let result;
+        try {
+            result = await apiClient.listInstalledLocations(agencyAccessToken, {
+                companyId,
+                appId,
+                skip,
+                limit: INSTALLED_LOCATIONS_PAGE_SIZE
+            });
+        } catch (error) {
+            console.error('Network error while listing installed locations:', error);
+            return {
+                success: false,
+                locations,
+                message: `Network error: ${error instanceof Error ? error.message : 'Unknown network error'}`
+            };
+        }
+
+        if (!result.ok) {
+            return {
+                success: false,
+                locations,
+                httpStatus: result.status,
+                message: `Failed to list installed locations: ${result.status} - ${result.errorText}`
+            };
+        }
+
+        const page = Array.isArray(result.data.locations) ? result.data.locations : [];
+
+        for (const location of page) {
+            if (location._id && location.isInstalled !== false) {
+                locations.push({ locationId: location._id, name: location.name });
+            }
+        }
+
+        if (page.length < INSTALLED_LOCATIONS_PAGE_SIZE) {
+            break;
+        }
+    }
+
+    return {
+        success: true,
+        locations,
+        message: `Found ${locations.length} installed locations`
+    };
+}
@@ -0,0 +1,167 @@
+/**
+ * Token Cipher
+ * Encrypts and decrypts OAuth tokens at rest using AES-GCM (WebCrypto)
+ *
+ * Keys come from the TOKEN_ENCRYPTION_KEYS secret as a comma-separated list of
+ * `keyId:base64Key` entries (256-bit keys). The first entry is the active key used
+ * for encryption; the remaining entries are only used to decrypt values written
+ * before a key rotation.
+ */
+
+import { base64ToBytes, bytesToBase64 } from '../encoding/base64';
+
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+
+interface TokenCipherKey {
+    id: string;
+    rawKey: Uint8Array;
+    cryptoKey?: CryptoKey;
+}
+
+export class TokenCipher {
+    private keys: Map<string, TokenCipherKey> = new Map();
+    private activeKeyId?: string;
+
+    constructor(keyConfig: string | undefined) {
+        const entries = (keyConfig || '')
+            .split(',')
+            .map(entry => entry.trim())
+            .filter(entry => entry.length > 0);
+
+        for (const entry of entries) {
+            const separatorIndex = entry.indexOf(':');
+            if (separatorIndex <= 0) {
+                throw new Error('Invalid TOKEN_ENCRYPTION_KEYS entry, expected keyId:base64Key');
+            }
+
+            const id = entry.slice(0, separatorIndex);
+            const rawKey = base64ToBytes(entry.slice(separatorIndex + 1));
+            if (rawKey.length !== 32) {
+                throw new Error(`Token encryption key '${id}' must be 32 bytes (AES-256)`);
+            }
+            if (this.keys.has(id)) {
+                throw new Error(`Duplicate token encryption key id '${id}'`);
+            }
+
+            this.keys.set(id, { id, rawKey });
+            if (!this.activeKeyId) {
+                this.activeKeyId = id;
+            }
+        }
+    }
+
+    /**
+     * Checks whether a stored value was produced by this cipher
+     * @param value - The stored token value
+     * @returns True if the value is an encrypted envelope, false for legacy plaintext
+     */
+    isEncrypted(value: string | null | undefined): boolean {
+        return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+    }
+
+    /**
+     * Checks whether a stored value should be rewritten with the active key
+     * @param value - The stored token value
+     * @returns True for legacy plaintext and values encrypted with a retired key
+     */
+    needsReencryption(value: string | null | undefined): boolean {
+        if (!value) {
+            return false;
+        }
+        if (!this.isEncrypted(value)) {
+            return true;
+        }
+        return this.parseEnvelope(value).keyId !== this.activeKeyId;
+    }
+
+    /**
+     * Encrypts a token with the active key
+     * @param plaintext - The token to encrypt
+     * @returns Envelope in the form `enc:v1:<keyId>:<iv>:<ciphertext>`
+     * @throws Error if no encryption key is configured
+     */
+    async encrypt(plaintext: string): Promise<string> {
+        if (!this.activeKeyId) {
+            throw new Error('No token encryption key configured (TOKEN_ENCRYPTION_KEYS)');
+        }
+
+        const cryptoKey = await this.getCryptoKey(this.activeKeyId);
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            cryptoKey,
+            new TextEncoder().encode(plaintext)
+        );
+
+        return `${ENCRYPTED_PREFIX}${this.activeKeyId}:${bytesToBase64(iv)}:${bytesToBase64(new Uint8Array(ciphertext))}`;
+    }
+
+    /**
+     * Decrypts a stored token
+     * Legacy plaintext values (written before encryption was enabled) are returned unchanged.
+     * @param value - The stored token value
+     * @returns The plaintext token
+     * @throws Error if the key is unknown or the ciphertext has been tampered with
+     */
+    async decrypt(value: string): Promise<string> {
+        if (!this.isEncrypted(value)) {
+            return value;
+        }
+
+        const { keyId, iv, ciphertext } = this.parseEnvelope(value);
+        const cryptoKey = await this.getCryptoKey(keyId);
+
+        try {
+            const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, cryptoKey, ciphertext);
+            return new TextDecoder().decode(plaintext);
+        } catch {
+            throw new Error(`Failed to decrypt token with key '${keyId}'`);
+        }
+    }
+
+    /**
+     * Re-encrypts a stored value with the active key if required
+     * @param value - The stored token value
+     * @returns The value encrypted with the active key, or the input if it already is
+     */
+    async reencrypt(value: string): Promise<string> {
+        if (!this.needsReencryption(value)) {
+            return value;
+        }
+        return this.encrypt(await this.decrypt(value));
+    }
+
+    private parseEnvelope(value: string): { keyId: string; iv: Uint8Array; ciphertext: Uint8Array } {
+        const parts = value.slice(ENCRYPTED_PREFIX.length).split(':');
+        if (parts.length !== 3) {
+            throw new Error('Malformed encrypted token');
+        }
+
+        return {
+            keyId: parts[0],
+            iv: base64ToBytes(parts[1]),
+            ciphertext: base64ToBytes(parts[2])
+        };
+    }
+
+    private async getCryptoKey(keyId: string): Promise<CryptoKey> {
+        const key = this.keys.get(keyId);
+        if (!key) {
+            throw new Error(`Unknown token encryption key '${keyId}'`);
+        }
+
+        if (!key.cryptoKey) {
+            key.cryptoKey = await crypto.subtle.importKey('raw', key.rawKey, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+        }
+        return key.cryptoKey;
+    }
+}
+
+/**
+ * Factory function to create a TokenCipher instance
+ * @param keyConfig - Value of the TOKEN_ENCRYPTION_KEYS secret
+ */
+export function createTokenCipher(keyConfig: string | undefined): TokenCipher {
+    return new TokenCipher(keyConfig);
+}
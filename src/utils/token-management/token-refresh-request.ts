@@ -0,0 +1,94 @@
+/**
+ * Token Refresh Request
+ * Exchanges a refresh token for a new token pair at the OAuth provider
+ */
+
+import { LeadConnectorClient } from '../leadconnector';
+
+export interface TokenRefreshResponse {
+    success: boolean;
+    accessToken?: string;
+    refreshToken?: string;
+    expiresIn?: number;
+    httpStatus?: number;
+    errorCode?: string; // The provider's OAuth error, e.g. 'invalid_grant'
+    message: string;
+}
+
+/**
+ * Calls the OAuth provider's token endpoint with the refresh_token grant
+ * Refresh tokens rotate: once this succeeds the old refresh token is no longer valid,
+ * so the caller must persist the returned pair before anyone else refreshes.
+ * @param apiClient - The LeadConnector API client
+ * @param clientId - OAuth client ID
+ * @param clientSecret - OAuth client secret
+ * @param refreshToken - The current (plaintext) refresh token
+ * @param userType - 'Location' for sub-account tokens, 'Company' for agency tokens
+ * @returns TokenRefreshResponse with the new token pair or the failure reason
+ */
+export async function requestTokenRefresh(
+    apiClient: LeadConnectorClient,
+    clientId: string,
+    clientSecret: string,
+    refreshToken: string,
+    userType: 'Location' | 'Company' = 'Location'
+): Promise<TokenRefreshResponse> {
+    let result;
+    try {
+        result = await apiClient.refreshToken(clientId, clientSecret, refreshToken, userType);
+    } catch (error) {
+        console.error('Network error during token refresh:', error);
+        return {
+            success: false,
+            message: `Network error: ${error instanceof Error ? error.message : 'Unknown network error'}`
+        };
+    }
+
+    if (!result.ok) {
+        return {
+            success: false,
+            httpStatus: result.status,
+            errorCode: parseOAuthError(result.errorText),
+            message: `Failed to refresh token: ${result.status} - ${result.errorText}`
+        };
+    }
+
+    const tokenData = result.data;
+
+    if (!tokenData.access_token || !tokenData.refresh_token || !tokenData.expires_in) {
+        return {
+            success: false,
+            httpStatus: result.status,
+            message: 'Incomplete token response from OAuth provider'
+        };
+    }
+
+    return {
+        success: true,
+        accessToken: tokenData.access_token,
+        refreshToken: tokenData.refresh_token,
+        expiresIn: tokenData.expires_in,
+        httpStatus: result.status,
+        message: 'Token refreshed successfully'
+    };
+}
+
+/**
+ * Whether a failed refresh means the token itself is dead and the location (or agency) must re-authorize
+ * Only a 401 or an `invalid_grant` error qualifies, any other 400 (e.g. a malformed request or a provider hiccup) is
+ * an ordinary failure that is retried.
+ * @param response - The failed refresh
+ */
+export function isRefreshTokenRejected(response: TokenRefreshResponse): boolean {
+    return response.httpStatus === 401 || (response.httpStatus === 400 && response.errorCode === 'invalid_grant');
+}
+
+// The `error` field of an OAuth error response body, if it is one
+function parseOAuthError(errorText: string): string | undefined {
+    try {
+        const body = JSON.parse(errorText);
+        return typeof body?.error === 'string' ? body.error : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -3,6 +3,8 @@
  * Handles validation and refreshing of OAuth tokens
  */
 
+import { TokenCipher } from './token-cipher';
+
 export interface TokenValidationResult {
     valid: boolean;
     expiresAt?: string;
@@ -12,20 +14,17 @@ export interface TokenValidationResult {
 export interface TokenRefreshResult {
     success: boolean;
     newAccessToken?: string;
-    newRefreshToken?: string;
     expiresAt?: string;
     message?: string;
 }
 
 export class TokenValidator {
     private credentialsStub: any;
-    private clientId: string;
-    private clientSecret: string;
+    private tokenCipher: TokenCipher;
 
-    constructor(credentialsStub: any, clientId: string, clientSecret: string) {
+    constructor(credentialsStub: any, tokenCipher: TokenCipher) {
         this.credentialsStub = credentialsStub;
-        this.clientId = clientId;
-        this.clientSecret = clientSecret;
+        this.tokenCipher = tokenCipher;
     }
 
     /**
@@ -85,163 +84,96 @@ export class TokenValidator {
 
     /**
      * Refreshes the access token using the refresh token
+     * The refresh itself runs inside the credentials durable object, which makes sure only one
+     * refresh per location reaches the OAuth provider at a time.
      * @param locationId - The location ID to refresh token for
      * @returns TokenRefreshResult with new token information
      */
     async refreshToken(locationId: string): Promise<TokenRefreshResult> {
-        if (!locationId) {
-            return {
-                success: false,
-                message: 'Location ID is required'
-            };
-        }
+        return this.requestRefresh(locationId, true);
+    }
 
-        // Get current credentials - RPC call that can throw
-        let credentialsResult;
-        try {
-            credentialsResult = await this.credentialsStub.getCredentials(locationId);
-        } catch (error) {
-            console.error('Error calling credentials durable object:', error);
-            return {
-                success: false,
-                message: `Failed to retrieve credentials: ${error instanceof Error ? error.message : 'Unknown error'}`
-            };
+    /**
+     * Ensures a valid token exists for the location, refreshing if necessary
+     * @param locationId - The location ID to ensure valid token for
+     * @returns The valid access token or throws an error
+     */
+    async ensureValidToken(locationId: string): Promise<string> {
+        // First validate the current token
+        const validation = await this.validateToken(locationId);
+        
+        if (validation.valid) {
+            // Token is valid, get the current access token - RPC call that can throw
+            let credentialsResult;
+            try {
+                credentialsResult = await this.credentialsStub.getCredentials(locationId);
+            } catch (error) {
+                throw new Error(`Failed to retrieve valid token: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+            return await this.tokenCipher.decrypt(credentialsResult.data.access_token);
         }
+
+        // Token is invalid/expired, refresh it (joins a refresh already running for this location)
+        console.log(`Token invalid for location_id: ${locationId}, refreshing...`);
+        const refreshResult = await this.requestRefresh(locationId, false);
         
-        if (credentialsResult.httpCode !== 200 || !credentialsResult.data) {
-            return {
-                success: false,
-                message: `No credentials found for location_id: ${locationId}`
-            };
+        if (!refreshResult.success) {
+            throw new Error(`Failed to refresh token: ${refreshResult.message}`);
         }
 
-        const { refresh_token } = credentialsResult.data;
+        return refreshResult.newAccessToken!;
+    }
 
-        if (!refresh_token) {
+    /**
+     * Asks the credentials durable object to refresh the token pair and decrypts the result
+     * @param locationId - The location ID to refresh token for
+     * @param force - Refresh even if another caller already produced a valid token
+     */
+    private async requestRefresh(locationId: string, force: boolean): Promise<TokenRefreshResult> {
+        if (!locationId) {
             return {
                 success: false,
-                message: 'No refresh token found in credentials'
+                message: 'Location ID is required'
             };
         }
 
-        // Make request to external OAuth provider - network call that can throw
-        const tokenUrl = "https://services.leadconnectorhq.com/oauth/token";
-        const params = new URLSearchParams({
-            client_id: this.clientId,
-            client_secret: this.clientSecret,
-            grant_type: "refresh_token",
-            refresh_token: refresh_token,
-            user_type: "Location"
-        });
-
-        console.log(`Refreshing access token for location_id: ${locationId}`);
-        
-        let response;
+        // RPC call that can throw
+        let refreshResult;
         try {
-            response = await fetch(tokenUrl, {
-                method: "POST",
-                headers: {
-                    "Content-Type": "application/x-www-form-urlencoded",
-                    "Accept": "application/json",
-                },
-                body: params.toString(),
-            });
+            refreshResult = await this.credentialsStub.refreshTokenPair(locationId, { force });
         } catch (error) {
-            console.error('Network error during token refresh:', error);
-            return {
-                success: false,
-                message: `Network error: ${error instanceof Error ? error.message : 'Unknown network error'}`
-            };
-        }
-
-        if (!response.ok) {
-            const errorText = await response.text();
+            console.error('Error calling credentials durable object:', error);
             return {
                 success: false,
-                message: `Failed to refresh token: ${response.status} - ${errorText}`
+                message: `Failed to refresh credentials: ${error instanceof Error ? error.message : 'Unknown error'}`
             };
         }
 
-        const tokenData = await response.json() as any;
-        
-        const newAccessToken = tokenData.access_token;
-        const newRefreshToken = tokenData.refresh_token;
-        const expiresIn = tokenData.expires_in;
-
-        if (!newAccessToken || !newRefreshToken || !expiresIn) {
+        if (!refreshResult.success) {
             return {
                 success: false,
-                message: 'Incomplete token response from OAuth provider'
+                message: refreshResult.message
             };
         }
 
-        const expiresAt = new Date(Date.now() + expiresIn * 1000).toISOString();
-
-        // Update credentials in durable object - RPC call that can throw
-        let updateResult;
+        let newAccessToken: string;
         try {
-            updateResult = await this.credentialsStub.updateTokenPair(
-                locationId,
-                newAccessToken,
-                newRefreshToken,
-                expiresAt
-            );
+            newAccessToken = await this.tokenCipher.decrypt(refreshResult.accessToken);
         } catch (error) {
-            console.error('Error updating credentials in durable object:', error);
-            return {
-                success: false,
-                message: `Failed to store updated credentials: ${error instanceof Error ? error.message : 'Unknown error'}`
-            };
-        }
-
-        if (!updateResult.success) {
+            console.error('Error decrypting access token:', error);
             return {
                 success: false,
-                message: `Failed to update credentials: ${updateResult.message}`
+                message: `Failed to decrypt access token: ${error instanceof Error ? error.message : 'Unknown error'}`
             };
         }
 
-        console.log(`Successfully refreshed tokens for location_id: ${locationId}`);
-
         return {
             success: true,
             newAccessToken,
-            newRefreshToken,
-            expiresAt,
-            message: 'Token refreshed successfully'
+            expiresAt: refreshResult.expiresAt,
+            message: refreshResult.message
         };
     }
-
-    /**
-     * Ensures a valid token exists for the location, refreshing if necessary
-     * @param locationId - The location ID to ensure valid token for
-     * @returns The valid access token or throws an error
-     */
-    async ensureValidToken(locationId: string): Promise<string> {
-        // First validate the current token
-        const validation = await this.validateToken(locationId);
-        
-        if (validation.valid) {
-            // Token is valid, get the current access token - RPC call that can throw
-            let credentialsResult;
-            try {
-                credentialsResult = await this.credentialsStub.getCredentials(locationId);
-            } catch (error) {
-                throw new Error(`Failed to retrieve valid token: ${error instanceof Error ? error.message : 'Unknown error'}`);
-            }
-            return credentialsResult.data.access_token;
-        }
-
-        // Token is invalid/expired, refresh it
-        console.log(`Token invalid for location_id: ${locationId}, refreshing...`);
-        const refreshResult = await this.refreshToken(locationId);
-        
-        if (!refreshResult.success) {
-            throw new Error(`Failed to refresh token: ${refreshResult.message}`);
-        }
-
-        return refreshResult.newAccessToken!;
-    }
 }
 
 /**
@@ -249,8 +181,7 @@ export class TokenValidator {
  */
 export function createTokenValidator(
     credentialsStub: any,
-    clientId: string,
-    clientSecret: string
+    tokenCipher: TokenCipher
 ): TokenValidator {
-    return new TokenValidator(credentialsStub, clientId, clientSecret);
+    return new TokenValidator(credentialsStub, tokenCipher);
 }
@@ -0,0 +1,86 @@
+import { fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { credentialsStub, leadConnectorApi, mockLeadConnectorApi, runWithSql, storedCredential, tokenCipher } from './helpers/credentials';
+
+const COMPANY_ID = 'company-1';
+const LOCATION_ID = 'location-1';
+
+beforeAll(() => {
+    mockLeadConnectorApi();
+});
+
+afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+});
+
+async function installAgency(expiresAt = new Date(Date.now() + 60 * 60 * 1000).toISOString()) {
+    const result = await credentialsStub().upsertAgencyCredential({
+        company_id: COMPANY_ID,
+        access_token: 'agency-access',
+        refresh_token: 'agency-refresh',
+        expires_at: expiresAt
+    });
+    expect(result.httpCode).toBe(201);
+}
+
+describe('agency locations', () => {
+    it('installs a location with a token minted from the agency token', async () => {
+        await installAgency();
+        let mintRequest: { headers: Record<string, string>; body: string } | undefined;
+        leadConnectorApi()
+            .intercept({ method: 'POST', path: '/oauth/locationToken' })
+            .reply(200, options => {
+                mintRequest = { headers: options.headers as Record<string, string>, body: String(options.body) };
+                return { access_token: 'location-access', expires_in: 3600 };
+            });
+
+        const result = await credentialsStub().installAgencyLocation(COMPANY_ID, LOCATION_ID);
+
+        expect(result).toMatchObject({ httpCode: 201, data: { location_id: LOCATION_ID, company_id: COMPANY_ID, action: 'installed' } });
+        expect(mintRequest!.headers.Authorization ?? mintRequest!.headers.authorization).toBe('Bearer agency-access');
+        expect(new URLSearchParams(mintRequest!.body).get('locationId')).toBe(LOCATION_ID);
+
+        const credential = await storedCredential(LOCATION_ID);
+        expect(credential).toMatchObject({ company_id: COMPANY_ID, install_source: 'agency', auth_status: 'healthy', refresh_token: null });
+        expect(tokenCipher.isEncrypted(credential.access_token)).toBe(true);
+        expect(await tokenCipher.decrypt(credential.access_token!)).toBe('location-access');
+    });
+
+    it('reports a failed mint without storing a credential', async () => {
+        await installAgency();
+        leadConnectorApi()
+            .intercept({ method: 'POST', path: '/oauth/locationToken' })
+            .reply(400, { message: 'Location not installed' });
+
+        const result = await credentialsStub().installAgencyLocation(COMPANY_ID, LOCATION_ID);
+
+        expect(result).toMatchObject({ httpCode: 502, errorCode: 'LOCATION_TOKEN_ERROR' });
+        expect((await credentialsStub().getCredentials(LOCATION_ID)).httpCode).toBe(404);
+    });
+});
+
+describe('reencryptTokens', () => {
+    it('encrypts legacy plaintext agency tokens', async () => {
+        await installAgency();
+        await runWithSql(sql => sql.exec(
+            "UPDATE agency_credentials SET access_token = 'plain-access', refresh_token = 'plain-refresh' WHERE company_id = ?",
+            COMPANY_ID
+        ));
+
+        const result = await credentialsStub().reencryptTokens();
+
+        expect(result).toMatchObject({ httpCode: 200, data: { totalAgencyCredentials: 1, updatedAgencyCredentials: 1, failedCompanies: [] } });
+        const agency = (await credentialsStub().getAgencyCredentials(COMPANY_ID)).data as Record<string, string>;
+        expect(tokenCipher.isEncrypted(agency.access_token)).toBe(true);
+        expect(await tokenCipher.decrypt(agency.access_token)).toBe('plain-access');
+        expect(await tokenCipher.decrypt(agency.refresh_token)).toBe('plain-refresh');
+    });
+
+    it('leaves agency tokens encrypted with the active key alone', async () => {
+        await installAgency();
+
+        const result = await credentialsStub().reencryptTokens();
+
+        expect(result).toMatchObject({ httpCode: 200, data: { totalAgencyCredentials: 1, updatedAgencyCredentials: 0 } });
+    });
+});
@@ -0,0 +1,75 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { callApi, createApiKey, createFirstAdminKey } from './helpers/api';
+
+let adminKey: string;
+
+beforeAll(async () => {
+    adminKey = await createFirstAdminKey();
+});
+
+describe('API keys', () => {
+    it('accepts a valid key', async () => {
+        const response = await callApi('/admin/api-keys', { apiKey: adminKey });
+
+        expect(response.status).toBe(200);
+    });
+
+    it('rejects a missing key', async () => {
+        const response = await callApi('/admin/api-keys');
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ errorCode: 'MISSING_API_KEY' });
+    });
+
+    it('rejects an unknown key', async () => {
+        const response = await callApi('/admin/api-keys', { apiKey: 'smk_not-a-key' });
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ errorCode: 'INVALID_API_KEY' });
+    });
+
+    it('only lets the app password create the first admin key', async () => {
+        const response = await callApi('/admin/api-keys', {
+            method: 'POST',
+            body: { appPassword: env.APP_PASSWORD, name: 'second admin', role: 'admin' }
+        });
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ errorCode: 'MISSING_API_KEY' });
+    });
+
+    it('never returns the key hash', async () => {
+        const response = await callApi('/admin/api-keys', { apiKey: adminKey });
+        const body = await response.json<{ data: Record<string, unknown>[] }>();
+
+        expect(body.data).toHaveLength(1);
+        expect(body.data[0]).not.toHaveProperty('key_hash');
+        expect(adminKey.startsWith(body.data[0].key_prefix as string)).toBe(true);
+    });
+
+    it('denies permissions the role does not have', async () => {
+        const { apiKey } = await createApiKey(adminKey, { name: 'reader', role: 'read-only' });
+        const response = await callApi('/admin/api-keys', { apiKey });
+
+        expect(response.status).toBe(403);
+        expect(await response.json()).toMatchObject({ errorCode: 'INSUFFICIENT_ROLE' });
+    });
+
+    it('limits location-bound keys to their location', async () => {
+        const { apiKey } = await createApiKey(adminKey, { name: 'manager', role: 'location-manager', locationId: 'location-1' });
+
+        expect((await callApi('/emailBranding?locationId=location-1', { apiKey })).status).toBe(200);
+
+        const otherLocation = await callApi('/emailBranding?locationId=location-2', { apiKey });
+        expect(otherLocation.status).toBe(403);
+        expect(await otherLocation.json()).toMatchObject({ errorCode: 'LOCATION_NOT_ALLOWED' });
+    });
+
+    it('rejects a revoked key', async () => {
+        const { apiKey, keyId } = await createApiKey(adminKey, { name: 'temporary', role: 'read-only' });
+
+        expect((await callApi(`/admin/api-keys/${keyId}`, { method: 'DELETE', apiKey: adminKey })).status).toBe(200);
+        expect((await callApi('/emailBranding?locationId=location-1', { apiKey })).status).toBe(401);
+    });
+});
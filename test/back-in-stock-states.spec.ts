@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { backInStockStates, diffAlertStates } from '../src/services/stock-alert-service';
+import { StockState } from '../src/common-types/stock-state';
+import { item, NOW, state, summary } from './helpers/inventory';
+
+describe('backInStockStates', () => {
+    it('stores the new state of items still low on stock and deletes the state of fixed items', () => {
+        const previous = [state('a', StockState.OUT_OF_STOCK), state('b', StockState.OUT_OF_STOCK), state('c', StockState.OUT_OF_STOCK)];
+        const changes = diffAlertStates(previous, summary([item('a', 2), item('b', 30), item('c', 0)]), NOW);
+
+        expect(backInStockStates(changes)).toEqual({
+            states: [state('a', StockState.LOW_STOCK, NOW.toISOString())],
+            removedItemIds: ['b']
+        });
+    });
+});
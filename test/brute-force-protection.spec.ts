@@ -0,0 +1,110 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_LOCKOUT_POLICY } from '../src/services/brute-force-protection-service';
+import { callApi, createFirstAdminKey } from './helpers/api';
+
+let adminKey: string;
+
+beforeAll(async () => {
+    adminKey = await createFirstAdminKey();
+});
+
+function listApiKeys(apiKey: string, clientIp: string): Promise<Response> {
+    return callApi('/admin/api-keys', { apiKey, clientIp });
+}
+
+// A wrong key that shares the admin key's prefix, the key lockout's subject
+function wrongKeyWithAdminPrefix(): string {
+    return adminKey.slice(0, 10) + 'x'.repeat(adminKey.length - 10);
+}
+
+describe('lockout', () => {
+    it('locks out a client IP after repeated failures, even for a valid key', async () => {
+        const clientIp = '198.51.100.1';
+        for (let attempt = 1; attempt < DEFAULT_LOCKOUT_POLICY.maxFailures; attempt++) {
+            expect((await listApiKeys('smk_wrong', clientIp)).status).toBe(401);
+        }
+
+        const locked = await listApiKeys('smk_wrong', clientIp);
+        expect(locked.status).toBe(429);
+        expect(locked.headers.get('Retry-After')).toBe(String(DEFAULT_LOCKOUT_POLICY.baseLockoutSeconds));
+        expect(await locked.json()).toMatchObject({ errorCode: 'TOO_MANY_FAILED_ATTEMPTS' });
+
+        expect((await listApiKeys(adminKey, clientIp)).status).toBe(429);
+        expect((await listApiKeys(adminKey, '198.51.100.2')).status).toBe(200);
+    });
+
+    it('locks out a key prefix guessed from many IPs before the key is checked', async () => {
+        const statuses: number[] = [];
+        for (let attempt = 1; attempt <= DEFAULT_LOCKOUT_POLICY.maxFailures; attempt++) {
+            statuses.push((await listApiKeys(wrongKeyWithAdminPrefix(), `203.0.113.${attempt}`)).status);
+        }
+        expect(statuses).toEqual([401, 401, 401, 401, 429]);
+
+        expect((await listApiKeys(wrongKeyWithAdminPrefix(), '203.0.113.100')).status).toBe(429);
+        expect((await listApiKeys(adminKey, '203.0.113.101')).status).toBe(429);
+    });
+
+    it('keeps the lockout history when a success resets the failure count', async () => {
+        const stub = env.CREDENTIALS_DURABLE_OBJECT.get(env.CREDENTIALS_DURABLE_OBJECT.idFromName('credentials_do'));
+        const subjects = [{ scope: 'ip' as const, subject: '198.51.100.50' }];
+        const failRepeatedly = async () => {
+            let status;
+            for (let attempt = 1; attempt <= DEFAULT_LOCKOUT_POLICY.maxFailures; attempt++) {
+                status = await stub.recordAuthFailure(subjects, 'INVALID_API_KEY', DEFAULT_LOCKOUT_POLICY);
+            }
+            return status!;
+        };
+
+        expect((await failRepeatedly()).retryAfterSeconds).toBe(DEFAULT_LOCKOUT_POLICY.baseLockoutSeconds);
+
+        await stub.clearAuthFailures(subjects);
+        expect((await stub.recordAuthFailure(subjects, 'INVALID_API_KEY', DEFAULT_LOCKOUT_POLICY)).retryAfterSeconds)
+            .toBe(DEFAULT_LOCKOUT_POLICY.baseLockoutSeconds);
+
+        // The first failure after the success starts a new count, the lockout it leads to is the second one
+        for (let attempt = 2; attempt < DEFAULT_LOCKOUT_POLICY.maxFailures; attempt++) {
+            await stub.recordAuthFailure(subjects, 'INVALID_API_KEY', DEFAULT_LOCKOUT_POLICY);
+        }
+        expect((await stub.recordAuthFailure(subjects, 'INVALID_API_KEY', DEFAULT_LOCKOUT_POLICY)).retryAfterSeconds)
+            .toBe(DEFAULT_LOCKOUT_POLICY.baseLockoutSeconds * 2);
+    });
+
+    it('logs every lockout', async () => {
+        const clientIp = '198.51.100.70';
+        for (let attempt = 1; attempt <= DEFAULT_LOCKOUT_POLICY.maxFailures; attempt++) {
+            await listApiKeys('smk_wrong', clientIp);
+        }
+
+        const response = await callApi('/admin/lockout-events', { apiKey: adminKey });
+        const body = await response.json<{ data: Record<string, unknown>[] }>();
+        const event = { reason: 'INVALID_API_KEY', lockout_seconds: DEFAULT_LOCKOUT_POLICY.baseLockoutSeconds };
+
+        expect(response.status).toBe(200);
+        expect(body.data).toEqual(expect.arrayContaining([
+            expect.objectContaining({ ...event, scope: 'ip', subject: clientIp }),
+            expect.objectContaining({ ...event, scope: 'key', subject: 'smk_wrong' })
+        ]));
+        expect(body.data).toHaveLength(2);
+    });
+});
+
+describe('limits', () => {
+    it('rejects a lockout events limit that is not an integer', async () => {
+        const response = await callApi('/admin/lockout-events?limit=ten', { apiKey: adminKey });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toMatchObject({ errorCode: 'INVALID_LIMIT' });
+    });
+
+    it.each(['/test/webhookEvents', '/test/capturedEmails'])('rejects an out of range limit on %s', async path => {
+        for (const limit of [0, 201, 2.5, 'all']) {
+            const response = await callApi(path, { method: 'POST', apiKey: adminKey, body: { limit } });
+
+            expect(response.status).toBe(400);
+            expect(await response.json()).toMatchObject({ errorCode: 'INVALID_LIMIT' });
+        }
+
+        expect((await callApi(path, { method: 'POST', apiKey: adminKey, body: { limit: 10 } })).status).toBe(200);
+    });
+});
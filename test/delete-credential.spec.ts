@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ApiKeyRole } from '../src/common-types/api-key-role';
+import { credentialsStub, runWithSql } from './helpers/credentials';
+
+const LOCATION_ID = 'location-1';
+
+async function insertCredential(locationId: string) {
+    await credentialsStub().insertCredential({
+        location_id: locationId,
+        company_id: 'company-1',
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+}
+
+async function createApiKey(keyId: string, locationId: string | null) {
+    await credentialsStub().createApiKey({
+        key_id: keyId,
+        name: keyId,
+        key_hash: `hash-${keyId}`,
+        key_prefix: `smk_${keyId}`,
+        role: ApiKeyRole.LOCATION_MANAGER,
+        location_id: locationId
+    });
+}
+
+function revokedKeyIds(): Promise<string[]> {
+    return runWithSql(sql => sql.exec<{ key_id: string }>("SELECT key_id FROM api_keys WHERE revoked_at IS NOT NULL ORDER BY key_id").toArray().map(row => row.key_id));
+}
+
+describe('deleteCredential', () => {
+    it('deletes the location with its settings and revokes its API keys', async () => {
+        await insertCredential(LOCATION_ID);
+        await insertCredential('location-2');
+        await credentialsStub().upsertReorderPoints(LOCATION_ID, [{ product_id: 'product-1', reorder_point: 3 }]);
+        await createApiKey('bound', LOCATION_ID);
+        await createApiKey('other-location', 'location-2');
+        await createApiKey('unbound', null);
+
+        const result = await credentialsStub().deleteCredential(LOCATION_ID);
+
+        expect(result).toMatchObject({ httpCode: 200, data: { revokedApiKeys: 1 } });
+        expect((await credentialsStub().getCredentials(LOCATION_ID)).httpCode).toBe(404);
+        expect((await credentialsStub().getReorderPoints(LOCATION_ID)).data).toEqual([]);
+        expect(await revokedKeyIds()).toEqual(['bound']);
+        expect(await credentialsStub().authenticateApiKey('hash-bound')).toMatchObject({ httpCode: 401 });
+    });
+
+    it('returns 404 for an unknown location', async () => {
+        expect(await credentialsStub().deleteCredential('unknown')).toMatchObject({ httpCode: 404, errorCode: 'NOT_FOUND' });
+    });
+});
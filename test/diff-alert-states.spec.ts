@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { diffAlertStates } from '../src/services/stock-alert-service';
+import { StockState } from '../src/common-types/stock-state';
+import { ids, item, NOW, PREVIOUS_RUN, state, summary } from './helpers/inventory';
+
+describe('diffAlertStates', () => {
+    it('reports every issue as new without previous states', () => {
+        const changes = diffAlertStates([], summary([item('a', 0), item('b', 3), item('c', 40)]), NOW);
+
+        expect(ids(changes.newOutOfStock)).toEqual(['a']);
+        expect(ids(changes.newLowStock)).toEqual(['b']);
+        expect(changes.ongoingOutOfStock).toEqual([]);
+        expect(changes.ongoingLowStock).toEqual([]);
+        expect(changes.states).toEqual([
+            state('a', StockState.OUT_OF_STOCK, NOW.toISOString()),
+            state('b', StockState.LOW_STOCK, NOW.toISOString())
+        ]);
+    });
+
+    it('keeps the since of ongoing issues', () => {
+        const previous = [state('a', StockState.OUT_OF_STOCK), state('b', StockState.LOW_STOCK)];
+        const changes = diffAlertStates(previous, summary([item('a', 0), item('b', 2)]), NOW);
+
+        expect(changes.newOutOfStock).toEqual([]);
+        expect(changes.newLowStock).toEqual([]);
+        expect(changes.ongoingOutOfStock).toEqual([{ item: item('a', 0), since: PREVIOUS_RUN }]);
+        expect(changes.ongoingLowStock).toEqual([{ item: item('b', 2), since: PREVIOUS_RUN }]);
+        expect(changes.states).toEqual(previous);
+    });
+
+    it('reports a low-stock item that runs out as newly out of stock', () => {
+        const changes = diffAlertStates([state('a', StockState.LOW_STOCK)], summary([item('a', 0)]), NOW);
+
+        expect(ids(changes.newOutOfStock)).toEqual(['a']);
+        expect(changes.states).toEqual([state('a', StockState.OUT_OF_STOCK, NOW.toISOString())]);
+    });
+
+    it('reports an out-of-stock item restocked to low stock as ongoing and back in stock', () => {
+        const changes = diffAlertStates([state('a', StockState.OUT_OF_STOCK)], summary([item('a', 2)]), NOW);
+
+        expect(changes.newLowStock).toEqual([]);
+        expect(ids(changes.ongoingLowStock)).toEqual(['a']);
+        expect(changes.backInStock).toEqual([{
+            item: item('a', 2),
+            out_of_stock_since: PREVIOUS_RUN,
+            back_in_stock_at: NOW.toISOString(),
+            unavailable_seconds: 2 * 24 * 60 * 60
+        }]);
+    });
+
+    it('reports fixed and removed items as recovered', () => {
+        const previous = [state('a', StockState.OUT_OF_STOCK), state('b', StockState.LOW_STOCK), state('gone', StockState.OUT_OF_STOCK)];
+        const changes = diffAlertStates(previous, summary([item('a', 30), item('b', 30)]), NOW);
+
+        expect(changes.recovered).toEqual([
+            { item_id: 'a', previous_state: StockState.OUT_OF_STOCK, since: PREVIOUS_RUN, item: item('a', 30) },
+            { item_id: 'b', previous_state: StockState.LOW_STOCK, since: PREVIOUS_RUN, item: item('b', 30) },
+            { item_id: 'gone', previous_state: StockState.OUT_OF_STOCK, since: PREVIOUS_RUN, item: null }
+        ]);
+        expect(ids(changes.backInStock)).toEqual(['a']);
+        expect(changes.states).toEqual([]);
+    });
+
+    it('tracks items without an _id by their label', () => {
+        const unnamed = { ...item('a', 0), variant_id: null, label: 'Mug - Large' };
+        const changes = diffAlertStates([state('Mug - Large', StockState.OUT_OF_STOCK)], summary([unnamed]), NOW);
+
+        expect(changes.ongoingOutOfStock).toEqual([{ item: unnamed, since: PREVIOUS_RUN }]);
+    });
+});
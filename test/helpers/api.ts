@@ -0,0 +1,64 @@
+/**
+ * API Helpers
+ * Calls the worker like a client would, from a chosen client IP and with an optional API key
+ */
+
+import { env, SELF } from 'cloudflare:test';
+
+export const BASE_URL = 'https://stock-monitoring.test';
+
+export interface ApiRequestOptions {
+    method?: string;
+    apiKey?: string | null;
+    clientIp?: string;
+    body?: unknown;
+}
+
+/**
+ * Sends a request to the worker
+ * @param path - The path, with the query string
+ * @param options - Method, API key, client IP (CF-Connecting-IP) and JSON body
+ */
+export function callApi(path: string, options: ApiRequestOptions = {}): Promise<Response> {
+    const headers: Record<string, string> = { 'CF-Connecting-IP': options.clientIp ?? '192.0.2.1' };
+    if (options.apiKey) {
+        headers.Authorization = `Bearer ${options.apiKey}`;
+    }
+
+    return SELF.fetch(`${BASE_URL}${path}`, {
+        method: options.method ?? 'GET',
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body)
+    });
+}
+
+/**
+ * Creates the first admin key with the app password
+ * @returns The new key
+ */
+export async function createFirstAdminKey(): Promise<string> {
+    const response = await callApi('/admin/api-keys', {
+        method: 'POST',
+        body: { appPassword: env.APP_PASSWORD, name: 'test admin', role: 'admin' }
+    });
+    if (response.status !== 201) {
+        throw new Error(`Could not create the first admin key: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json<{ data: { api_key: string } }>();
+    return body.data.api_key;
+}
+
+/**
+ * Creates a key with an admin key
+ * @returns The new key and its ID
+ */
+export async function createApiKey(adminKey: string, request: { name: string; role: string; locationId?: string }): Promise<{ apiKey: string; keyId: string }> {
+    const response = await callApi('/admin/api-keys', { method: 'POST', apiKey: adminKey, body: request });
+    if (response.status !== 201) {
+        throw new Error(`Could not create the API key: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json<{ data: { api_key: string; key_id: string } }>();
+    return { apiKey: body.data.api_key, keyId: body.data.key_id };
+}
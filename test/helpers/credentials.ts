@@ -0,0 +1,49 @@
+/**
+ * Credentials Helpers
+ * The credentials durable object, the token cipher it uses and a mock of the LeadConnector API
+ */
+
+import { env, fetchMock, runInDurableObject } from 'cloudflare:test';
+import { createTokenCipher } from '../../src/utils/token-management/token-cipher';
+
+export const LEADCONNECTOR_API_URL = 'https://services.leadconnectorhq.com';
+
+// Same keys as the durable object, to check what it stores
+export const tokenCipher = createTokenCipher(env.TOKEN_ENCRYPTION_KEYS);
+
+/**
+ * The named credentials durable object the worker uses
+ */
+export function credentialsStub() {
+    return env.CREDENTIALS_DURABLE_OBJECT.get(env.CREDENTIALS_DURABLE_OBJECT.idFromName('credentials_do'));
+}
+
+/**
+ * Runs a callback against the credentials durable object's database, to seed or read rows directly
+ */
+export function runWithSql<T>(callback: (sql: SqlStorage) => T | Promise<T>): Promise<T> {
+    return runInDurableObject(credentialsStub(), (_instance, state) => callback(state.storage.sql));
+}
+
+/**
+ * Reads a location's stored credential row, tokens as stored (encrypted)
+ */
+export function storedCredential(locationId: string): Promise<Record<string, string | null>> {
+    return runWithSql(sql => sql.exec<Record<string, string | null>>("SELECT * FROM credentials WHERE location_id = ?", locationId).one());
+}
+
+/**
+ * Answers outbound requests to the LeadConnector API instead of sending them
+ * Call in beforeAll; requests nothing was mocked for fail instead of reaching the network.
+ */
+export function mockLeadConnectorApi() {
+    fetchMock.activate();
+    fetchMock.disableNetConnect();
+}
+
+/**
+ * Intercepts the next matching request to the LeadConnector API
+ */
+export function leadConnectorApi() {
+    return fetchMock.get(LEADCONNECTOR_API_URL);
+}
@@ -0,0 +1,61 @@
+/**
+ * Inventory Fixtures
+ * Builds inventory summaries and alert states for the stock alert tests
+ */
+
+import type { InventorySummary, InventorySummaryItem } from '../../src/services/inventory-query-service';
+import type { ItemAlertState } from '../../src/durable-objects/credentials-durable-object';
+import { StockState } from '../../src/common-types/stock-state';
+
+export const PREVIOUS_RUN = '2026-01-01T08:00:00.000Z';
+export const NOW = new Date('2026-01-03T08:00:00.000Z');
+
+export function item(id: string, quantity: number, reorderPoint: number | null = 5): InventorySummaryItem {
+    return {
+        product_id: `product-${id}`,
+        variant_id: id,
+        product_name: id,
+        label: id,
+        available_quantity: quantity,
+        reorder_point: reorderPoint,
+        sku: null,
+        price: null,
+        currency: null,
+        image_url: null,
+        product_url: null
+    };
+}
+
+// A summary sorted the way queryInventorySummary sorts: low stock items are also in stock
+export function summary(items: InventorySummaryItem[]): InventorySummary {
+    const outOfStock = items.filter(entry => entry.available_quantity <= 0);
+    const inStock = items.filter(entry => entry.available_quantity > 0);
+    const lowStock = inStock.filter(entry => entry.reorder_point !== null && entry.available_quantity <= entry.reorder_point);
+
+    return {
+        location_id: 'location-1',
+        total_items: items.length,
+        total_available_quantity: inStock.reduce((total, entry) => total + entry.available_quantity, 0),
+        unique_products: items.length,
+        items_with_stock: inStock.length,
+        items_out_of_stock: outOfStock.length,
+        items_low_stock: lowStock.length,
+        low_stock_threshold: null,
+        reorder_points_configured: 0,
+        out_of_stock_products: outOfStock.map(entry => entry.label),
+        low_stock_products: lowStock.map(entry => entry.label),
+        in_stock_products: inStock.map(entry => entry.label),
+        out_of_stock_items: outOfStock,
+        low_stock_items: lowStock,
+        in_stock_items: inStock,
+        products_enriched: true,
+        valuation: [],
+        unpriced_items: items.length
+    };
+}
+
+export function state(itemId: string, stockState: StockState, since: string = PREVIOUS_RUN): ItemAlertState {
+    return { item_id: itemId, state: stockState, since };
+}
+
+export const ids = (entries: { item: InventorySummaryItem }[]) => entries.map(entry => entry.item.variant_id);
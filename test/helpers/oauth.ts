@@ -0,0 +1,51 @@
+/**
+ * OAuth Helpers
+ * Walks the worker's OAuth flow like a browser: /oauth/initiate, then the provider's redirect to /oauth/callback
+ */
+
+import { SELF } from 'cloudflare:test';
+import { BASE_URL } from './api';
+import { leadConnectorApi } from './credentials';
+
+export interface StartedAuthorization {
+    state: string;
+    cookie: string; // The nonce cookie, as the browser sends it back
+    redirect: URL;
+}
+
+/**
+ * Calls /oauth/initiate and reads the state and nonce cookie from the redirect
+ * @param query - Query string of the initiate request, e.g. "userType=Company"
+ */
+export async function startAuthorization(query = ''): Promise<StartedAuthorization> {
+    const response = await SELF.fetch(`${BASE_URL}/oauth/initiate${query ? `?${query}` : ''}`, { redirect: 'manual' });
+    if (response.status !== 302) {
+        throw new Error(`Could not start the authorization: ${response.status} ${await response.text()}`);
+    }
+
+    const redirect = new URL(response.headers.get('Location')!);
+    return {
+        state: redirect.searchParams.get('state')!,
+        cookie: response.headers.get('Set-Cookie')!.split(';')[0],
+        redirect
+    };
+}
+
+/**
+ * Calls /oauth/callback as the provider's redirect would
+ * @param params - code and state query parameters
+ * @param cookie - The Cookie header, the nonce cookie from startAuthorization
+ */
+export function callback(params: { code?: string; state?: string }, cookie?: string): Promise<Response> {
+    const query = new URLSearchParams(params as Record<string, string>);
+    return SELF.fetch(`${BASE_URL}/oauth/callback?${query}`, { headers: cookie ? { Cookie: cookie } : {} });
+}
+
+/**
+ * Answers the next authorization code exchange
+ */
+export function mockCodeExchange(tokens: { access_token: string; refresh_token: string; locationId?: string; companyId: string }) {
+    leadConnectorApi()
+        .intercept({ method: 'POST', path: '/oauth/token', body: form => new URLSearchParams(form).get('grant_type') === 'authorization_code' })
+        .reply(200, { token_type: 'Bearer', expires_in: 86399, userType: tokens.locationId ? 'Location' : 'Company', ...tokens });
+}
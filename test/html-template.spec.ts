@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHtml, html, isHexColor, multiline, safeUrl } from '../src/services/email-template-service/html-template';
+import { renderBackInStockEmail } from '../src/services/email-template-service/back-in-stock-email';
+import { DEFAULT_EMAIL_BRANDING } from '../src/services/email-template-service/email-layout';
+import { sampleBackInStock } from '../src/services/email-template-service/sample-data';
+
+describe('html', () => {
+    it('escapes interpolated text', () => {
+        expect(html`<td>${'<script>alert("x")</script> & \'more\''}</td>`.toString())
+            .toBe('<td>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;more&#39;</td>');
+    });
+
+    it('escapes text inside attributes', () => {
+        expect(html`<a title="${'" onclick="steal()'}">`.toString()).toBe('<a title="&quot; onclick=&quot;steal()">');
+    });
+
+    it('inserts nested markup as is and concatenates lists', () => {
+        const rows = ['Mug <XL>', 'Salt & Pepper'].map(label => html`<tr><td>${label}</td></tr>`);
+
+        expect(html`<table>${rows}</table>`.toString())
+            .toBe('<table><tr><td>Mug &lt;XL&gt;</td></tr><tr><td>Salt &amp; Pepper</td></tr></table>');
+    });
+
+    it('renders numbers and nothing for null, undefined and false', () => {
+        expect(html`${3}|${null}|${undefined}|${false}|${0}`.toString()).toBe('3||||0');
+    });
+
+    it('keeps line breaks of multiline text and escapes each line', () => {
+        expect(multiline('Call <us>\nor email').toString()).toBe('Call &lt;us&gt;<br>or email');
+    });
+
+    it('escapes every special character once', () => {
+        expect(escapeHtml('&amp;')).toBe('&amp;amp;');
+    });
+});
+
+describe('safeUrl', () => {
+    it('accepts absolute http(s) URLs', () => {
+        expect(safeUrl('https://example.com/logo.png')).toBe('https://example.com/logo.png');
+        expect(safeUrl('http://example.com')).toBe('http://example.com');
+    });
+
+    it('rejects other schemes, relative URLs and empty values', () => {
+        expect(safeUrl('javascript:alert(1)')).toBeNull();
+        expect(safeUrl('data:text/html,<script>alert(1)</script>')).toBeNull();
+        expect(safeUrl('/relative/path')).toBeNull();
+        expect(safeUrl('')).toBeNull();
+        expect(safeUrl(null)).toBeNull();
+    });
+});
+
+describe('isHexColor', () => {
+    it('only accepts #rgb and #rrggbb', () => {
+        expect(isHexColor('#fff')).toBe(true);
+        expect(isHexColor('#1a73e8')).toBe(true);
+        expect(isHexColor('red')).toBe(false);
+        expect(isHexColor('#1a73e8; } body { display: none')).toBe(false);
+    });
+});
+
+describe('email templates', () => {
+    it('render item names and branding text as text', () => {
+        const { html: email } = renderBackInStockEmail('location-<1>', sampleBackInStock(new Date('2026-01-03T08:00:00.000Z')), {
+            ...DEFAULT_EMAIL_BRANDING,
+            header_text: '<b>Acme</b>',
+            logo_url: 'javascript:alert(1)'
+        });
+
+        expect(email).toContain('Coffee Mug - Large &lt;16oz&gt;');
+        expect(email).toContain('Salt &amp; Pepper Set');
+        expect(email).toContain('&lt;b&gt;Acme&lt;/b&gt;');
+        expect(email).toContain('location-&lt;1&gt;');
+        expect(email).not.toContain('javascript:');
+    });
+});
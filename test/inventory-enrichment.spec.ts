@@ -0,0 +1,92 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createInventoryQueryService } from '../src/services/inventory-query-service';
+import { createLeadConnectorClient } from '../src/utils/leadconnector';
+import { credentialsStub, leadConnectorApi, mockLeadConnectorApi, tokenCipher } from './helpers/credentials';
+
+const LOCATION_ID = 'location-1';
+
+beforeAll(() => {
+    mockLeadConnectorApi();
+});
+
+beforeEach(async () => {
+    await credentialsStub().insertCredential({
+        location_id: LOCATION_ID,
+        company_id: 'company-1',
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+});
+
+afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+});
+
+// Three products with one variant each: out of stock, low on stock (threshold 5) and in stock
+function mockCatalog() {
+    const inventory = [
+        { _id: 'variant-in', product: 'product-in', productName: 'Plate', name: 'Blue', availableQuantity: 40 },
+        { _id: 'variant-low', product: 'product-low', productName: 'Bowl', name: 'Red', availableQuantity: 2 },
+        { _id: 'variant-out', product: 'product-out', productName: 'Mug', name: 'Large', availableQuantity: 0 }
+    ];
+    leadConnectorApi()
+        .intercept({ method: 'GET', path: path => path.startsWith('/products/inventory?') })
+        .reply(200, { inventory, total: [{ total: inventory.length }] });
+    leadConnectorApi()
+        .intercept({ method: 'GET', path: path => path.startsWith('/products/?') })
+        .reply(200, {
+            products: inventory.map(item => ({ _id: item.product, name: item.productName })),
+            total: [{ total: inventory.length }]
+        });
+}
+
+function mockPrices(productId: string, variantId: string, amount: number) {
+    leadConnectorApi()
+        .intercept({ method: 'GET', path: path => path.startsWith(`/products/${productId}/price?`) })
+        .reply(200, { prices: [{ _id: variantId, product: productId, amount, currency: 'USD' }] });
+}
+
+function createService(maxPricedProducts?: number) {
+    const apiClient = createLeadConnectorClient(env);
+    const service = createInventoryQueryService(credentialsStub(), tokenCipher, { apiClient, maxPricedProducts });
+    return { service, listProductPrices: vi.spyOn(apiClient, 'listProductPrices') };
+}
+
+describe('queryInventorySummary enrichment', () => {
+    it('prices every product within the limit', async () => {
+        mockCatalog();
+        mockPrices('product-out', 'variant-out', 12);
+        mockPrices('product-low', 'variant-low', 8);
+        mockPrices('product-in', 'variant-in', 5);
+        const { service } = createService();
+
+        const summary = await service.queryInventorySummary(LOCATION_ID, { lowStockThreshold: 5 });
+
+        expect(summary.products_enriched).toBe(true);
+        expect(summary.unpriced_items).toBe(0);
+        expect(summary.out_of_stock_items[0]).toMatchObject({ label: 'Mug - Large', price: 12, currency: 'USD' });
+    });
+
+    it('prices the products in alerts first and returns the rest unpriced beyond the limit', async () => {
+        mockCatalog();
+        mockPrices('product-out', 'variant-out', 12);
+        mockPrices('product-low', 'variant-low', 8);
+        const { service, listProductPrices } = createService(2);
+
+        const summary = await service.queryInventorySummary(LOCATION_ID, { lowStockThreshold: 5 });
+
+        expect(listProductPrices.mock.calls.map(([params]) => params.productId)).toEqual(['product-out', 'product-low']);
+        expect(summary.products_enriched).toBe(false);
+        expect(summary.unpriced_items).toBe(1);
+        expect(summary.out_of_stock_items[0]).toMatchObject({ price: 12 });
+        expect(summary.low_stock_items[0]).toMatchObject({ price: 8 });
+        expect(summary.in_stock_items.find(item => item.variant_id === 'variant-in')).toMatchObject({
+            product_name: 'Plate',
+            available_quantity: 40,
+            price: null,
+            currency: null
+        });
+    });
+});
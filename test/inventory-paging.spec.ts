@@ -0,0 +1,93 @@
+import { fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createInventoryQueryService } from '../src/services/inventory-query-service';
+import { createLeadConnectorClient } from '../src/utils/leadconnector';
+import { credentialsStub, leadConnectorApi, mockLeadConnectorApi, tokenCipher } from './helpers/credentials';
+
+const LOCATION_ID = 'location-1';
+// A mock of the API on another host, as GHL_API_BASE_URL would configure it
+const MOCK_API_URL = 'https://leadconnector-mock.test';
+
+beforeAll(() => {
+    mockLeadConnectorApi();
+});
+
+beforeEach(async () => {
+    await credentialsStub().insertCredential({
+        location_id: LOCATION_ID,
+        company_id: 'company-1',
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+});
+
+afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+});
+
+function items(count: number) {
+    return Array.from({ length: count }, (_, index) => ({
+        _id: `variant-${index}`,
+        product: `product-${index}`,
+        productName: `Product ${index}`,
+        name: 'Default',
+        availableQuantity: index
+    }));
+}
+
+// Answers one inventory page request, from the given offset with the given items
+function mockInventoryPage(offset: number, pageItems: object[], total: number, accessToken = 'access') {
+    fetchMock.get(MOCK_API_URL)
+        .intercept({
+            method: 'GET',
+            path: `/products/inventory?limit=2&offset=${offset}&altId=${LOCATION_ID}&altType=location`,
+            headers: { Authorization: `Bearer ${accessToken}` }
+        })
+        .reply(200, { inventory: pageItems, total: [{ total }] });
+}
+
+function createService() {
+    return createInventoryQueryService(credentialsStub(), tokenCipher, {
+        pageSize: 2,
+        apiClient: createLeadConnectorClient({ GHL_API_BASE_URL: `${MOCK_API_URL}/` })
+    });
+}
+
+describe('inventory paging', () => {
+    it('reads every page from the configured API host', async () => {
+        const inventory = items(5);
+        mockInventoryPage(0, inventory.slice(0, 2), 5);
+        mockInventoryPage(2, inventory.slice(2, 4), 5);
+        mockInventoryPage(4, inventory.slice(4), 5);
+
+        const result = await createService().queryInventory({ locationId: LOCATION_ID, limit: 10 });
+
+        expect(result).toMatchObject({ success: true, totalCount: 5, filteredCount: 5 });
+        expect(result.items.map(item => item.id)).toEqual(inventory.map(item => item._id));
+    });
+
+    it('fails when the pages do not add up to the reported total', async () => {
+        mockInventoryPage(0, items(2), 5);
+        mockInventoryPage(2, [], 5);
+
+        const result = await createService().queryInventory({ locationId: LOCATION_ID });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('received 2 of 5 items');
+    });
+
+    it('refreshes a rejected token once and continues with the new one', async () => {
+        fetchMock.get(MOCK_API_URL)
+            .intercept({ method: 'GET', path: path => path.startsWith('/products/inventory?'), headers: { Authorization: 'Bearer access' } })
+            .reply(401, { message: 'Invalid JWT' });
+        leadConnectorApi()
+            .intercept({ method: 'POST', path: '/oauth/token' })
+            .reply(200, { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 86399 });
+        mockInventoryPage(0, items(1), 1, 'new-access');
+
+        const result = await createService().queryInventory({ locationId: LOCATION_ID });
+
+        expect(result).toMatchObject({ success: true, totalCount: 1 });
+    });
+});
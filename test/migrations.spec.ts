@@ -0,0 +1,132 @@
+import { env, runInDurableObject } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { getCurrentSchemaVersion, getSchemaVersionInfo, Migration, MIGRATIONS, runMigrations } from '../src/durable-objects/migrations';
+
+const LATEST_VERSION = MIGRATIONS.length;
+
+// Runs a callback against the storage of a durable object that no other test uses
+function withStorage(name: string, callback: (storage: DurableObjectStorage) => void | Promise<void>): Promise<void> {
+    const stub = env.CREDENTIALS_DURABLE_OBJECT.get(env.CREDENTIALS_DURABLE_OBJECT.idFromName(name));
+    return runInDurableObject(stub, (_instance, state) => callback(state.storage));
+}
+
+// The constructor has already migrated the storage, drop everything to start from an empty database
+function dropAllTables(sql: SqlStorage) {
+    const tables = sql.exec<{ name: string }>(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'"
+    ).toArray();
+    for (const { name } of tables) {
+        sql.exec(`DROP TABLE "${name}"`);
+    }
+}
+
+function tableNames(sql: SqlStorage): string[] {
+    return sql.exec<{ name: string }>(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%' ORDER BY name"
+    ).toArray().map(row => row.name);
+}
+
+function columnNames(sql: SqlStorage, table: string): string[] {
+    return sql.exec<{ name: string }>(`PRAGMA table_info(${table})`).toArray().map(row => row.name);
+}
+
+describe('runMigrations', () => {
+    it('versions are numbered 1 to n in order', () => {
+        expect(MIGRATIONS.map(migration => migration.version)).toEqual(MIGRATIONS.map((_, index) => index + 1));
+        expect(LATEST_VERSION).toBe(16);
+    });
+
+    it('creates the whole schema on a fresh database', async () => {
+        await withStorage('migrations-fresh', storage => {
+            dropAllTables(storage.sql);
+
+            expect(runMigrations(storage)).toBe(LATEST_VERSION);
+
+            const info = getSchemaVersionInfo(storage.sql);
+            expect(info.currentVersion).toBe(LATEST_VERSION);
+            expect(info.pendingVersions).toEqual([]);
+            expect(info.appliedMigrations.map(migration => migration.name)).toEqual(MIGRATIONS.map(migration => migration.name));
+
+            expect(tableNames(storage.sql)).toEqual(expect.arrayContaining([
+                'agency_credentials', 'api_keys', 'auth_failures', 'captured_emails', 'credentials', 'email_branding',
+                'inventory_snapshot_items', 'inventory_snapshots', 'item_alert_states', 'location_settings', 'lockout_events',
+                'notification_channels', 'reorder_points', 'schema_version', 'webhook_alert_states', 'webhook_deliveries',
+                'webhook_events', 'webhook_subscriptions'
+            ]));
+            expect(columnNames(storage.sql, 'credentials')).toEqual(expect.arrayContaining([
+                'location_id', 'company_id', 'access_token', 'refresh_token', 'expires_at', 'receiver_emails',
+                'auth_status', 'auth_status_reason', 'auth_status_updated_at', 'install_source', 'location_name'
+            ]));
+        });
+    });
+
+    it('upgrades a database created before migrations existed and keeps its credentials', async () => {
+        await withStorage('migrations-baseline', storage => {
+            const sql = storage.sql;
+            dropAllTables(sql);
+
+            // The table the durable object created on startup before it had migrations
+            sql.exec(`CREATE TABLE IF NOT EXISTS credentials(
+                location_id TEXT PRIMARY KEY,
+                company_id TEXT,
+                access_token TEXT,
+                refresh_token TEXT,
+                expires_at TIMESTAMP,
+                receiver_emails TEXT DEFAULT '[]'
+            );`);
+            sql.exec(
+                "INSERT INTO credentials (location_id, company_id, access_token, refresh_token, expires_at, receiver_emails) VALUES (?, ?, ?, ?, ?, ?)",
+                'location-1', 'company-1', 'access', 'refresh', '2026-01-01T00:00:00.000Z', '["owner@example.com"]'
+            );
+
+            expect(runMigrations(storage)).toBe(LATEST_VERSION);
+
+            expect(sql.exec("SELECT * FROM credentials").toArray()).toEqual([expect.objectContaining({
+                location_id: 'location-1',
+                company_id: 'company-1',
+                access_token: 'access',
+                refresh_token: 'refresh',
+                receiver_emails: '["owner@example.com"]',
+                auth_status: 'healthy',
+                install_source: 'location'
+            })]);
+        });
+    });
+
+    it('applies nothing when the schema is up to date', async () => {
+        await withStorage('migrations-current', storage => {
+            const applied = getSchemaVersionInfo(storage.sql).appliedMigrations;
+
+            expect(runMigrations(storage)).toBe(LATEST_VERSION);
+            expect(getSchemaVersionInfo(storage.sql).appliedMigrations).toEqual(applied);
+        });
+    });
+
+    it('rolls back a failing migration and keeps the previous version', async () => {
+        await withStorage('migrations-failing', storage => {
+            const failing: Migration[] = [
+                ...MIGRATIONS,
+                {
+                    version: LATEST_VERSION + 1,
+                    name: 'failing_migration',
+                    up: sql => {
+                        sql.exec('CREATE TABLE half_done(id INTEGER);');
+                        sql.exec('ALTER TABLE does_not_exist ADD COLUMN broken TEXT;');
+                    }
+                }
+            ];
+
+            expect(() => runMigrations(storage, failing)).toThrow(/Schema migration 17 \(failing_migration\) failed/);
+            expect(getCurrentSchemaVersion(storage.sql)).toBe(LATEST_VERSION);
+            expect(tableNames(storage.sql)).not.toContain('half_done');
+        });
+    });
+
+    it('rejects migrations that are out of order', async () => {
+        await withStorage('migrations-out-of-order', storage => {
+            const outOfOrder = [MIGRATIONS[1], MIGRATIONS[0]];
+
+            expect(() => runMigrations(storage, outOfOrder)).toThrow(/has version 2, expected 1/);
+        });
+    });
+});
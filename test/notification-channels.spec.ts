@@ -0,0 +1,53 @@
+import { runInDurableObject } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { NotificationChannelType } from '../src/common-types/notification-channel-type';
+import { credentialsStub, tokenCipher } from './helpers/credentials';
+
+const LOCATION_ID = 'location-1';
+
+beforeEach(async () => {
+    await credentialsStub().insertCredential({
+        location_id: LOCATION_ID,
+        company_id: 'company-1',
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+});
+
+function channel(index: number) {
+    return {
+        channel_id: `channel-${index}`,
+        location_id: LOCATION_ID,
+        type: NotificationChannelType.SLACK,
+        name: `Channel ${index}`,
+        webhook_url: `https://hooks.slack.com/services/T000/B000/${index}`
+    };
+}
+
+describe('createNotificationChannel', () => {
+    it('stores the webhook URL encrypted and never returns it', async () => {
+        const result = await credentialsStub().createNotificationChannel(channel(1), 2);
+
+        expect(result.httpCode).toBe(201);
+        expect(result.data).not.toHaveProperty('webhook_url');
+
+        const stored = (await credentialsStub().getNotificationChannelsForDelivery(LOCATION_ID)).data!;
+        expect(await tokenCipher.decrypt(stored[0].webhook_url)).toBe(channel(1).webhook_url);
+    });
+
+    it('does not let concurrent requests exceed the limit', async () => {
+        const results = await runInDurableObject(credentialsStub(), instance => Promise.all(
+            [1, 2, 3].map(index => instance.createNotificationChannel(channel(index), 2))
+        ));
+
+        expect(results.map(result => result.httpCode).sort()).toEqual([201, 201, 409]);
+        expect((await credentialsStub().getNotificationChannels(LOCATION_ID)).data).toHaveLength(2);
+    });
+
+    it('rejects a location without credentials', async () => {
+        const result = await credentialsStub().createNotificationChannel({ ...channel(1), location_id: 'unknown' }, 2);
+
+        expect(result.httpCode).toBe(404);
+    });
+});
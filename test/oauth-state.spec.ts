@@ -0,0 +1,77 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { createOAuthStateService } from '../src/services/authentication-service';
+import { credentialsStub, mockLeadConnectorApi } from './helpers/credentials';
+import { callback, mockCodeExchange, startAuthorization } from './helpers/oauth';
+
+beforeAll(() => {
+    mockLeadConnectorApi();
+});
+
+afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+});
+
+describe('OAuth state', () => {
+    it('redirects to the provider with a signed state and binds it to the browser with a cookie', async () => {
+        const { state, cookie, redirect } = await startAuthorization();
+
+        expect(redirect.origin).toBe('https://marketplace.gohighlevel.com');
+        expect(redirect.searchParams.get('redirect_uri')).toBe(`${env.DOMAIN}/oauth/callback`);
+        expect(state).toMatch(/^[\w-]+\.[\w-]+$/);
+        expect(cookie).toMatch(/^oauth_state_nonce=[\w-]+$/);
+    });
+
+    it('accepts the state in the browser it was issued to and clears the cookie', async () => {
+        const { state, cookie } = await startAuthorization();
+        mockCodeExchange({ access_token: 'access', refresh_token: 'refresh', locationId: 'location-1', companyId: 'company-1' });
+
+        const response = await callback({ code: 'code', state }, cookie);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Set-Cookie')).toContain('oauth_state_nonce=; Max-Age=0');
+        expect((await credentialsStub().getCredentials('location-1')).httpCode).toBe(200);
+    });
+
+    it('rejects a callback without the nonce cookie, before exchanging the code', async () => {
+        const { state } = await startAuthorization();
+
+        const response = await callback({ code: 'code', state });
+
+        expect(response.status).toBe(400);
+        expect(await response.text()).toContain('STATE_MISMATCH');
+    });
+
+    it('rejects a state issued to another browser', async () => {
+        const { state } = await startAuthorization();
+        const other = await startAuthorization();
+
+        const response = await callback({ code: 'code', state }, other.cookie);
+
+        expect(response.status).toBe(400);
+        expect(await response.text()).toContain('STATE_MISMATCH');
+    });
+
+    it('rejects a missing or tampered state', async () => {
+        const { state, cookie } = await startAuthorization();
+        const [payload, signature] = state.split('.');
+        const tampered = `${payload}x.${signature}`;
+
+        expect(await (await callback({ code: 'code' }, cookie)).text()).toContain('MISSING_STATE');
+        expect(await (await callback({ code: 'code', state: tampered }, cookie)).text()).toContain('INVALID_STATE');
+    });
+
+    it('rejects an expired state', async () => {
+        const stateService = createOAuthStateService(env.OAUTH_STATE_SECRET, -1);
+        const { state, nonce } = await stateService.createState();
+
+        expect(await stateService.validateState(state, nonce)).toMatchObject({ valid: false, error: 'EXPIRED_STATE' });
+    });
+
+    it('only accepts return URLs on an allowed origin', async () => {
+        const response = await startAuthorization('returnUrl=https://evil.example.com').catch((error: Error) => error);
+
+        expect(response).toBeInstanceOf(Error);
+        expect((response as Error).message).toContain('INVALID_RETURN_URL');
+    });
+});
@@ -0,0 +1,94 @@
+import { fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { AuthStatus } from '../src/common-types/auth-status';
+import { createRefreshExpiringTokens } from '../src/processes/refresh-expiring-tokens';
+import { credentialsStub, leadConnectorApi, mockLeadConnectorApi, storedCredential, tokenCipher } from './helpers/credentials';
+
+const HOUR = 60 * 60 * 1000;
+
+beforeAll(() => {
+    mockLeadConnectorApi();
+});
+
+afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+});
+
+async function insertCredential(locationId: string, expiresInMs: number) {
+    await credentialsStub().insertCredential({
+        location_id: locationId,
+        company_id: 'company-1',
+        access_token: `${locationId}-access`,
+        refresh_token: `${locationId}-refresh`,
+        expires_at: new Date(Date.now() + expiresInMs).toISOString()
+    });
+}
+
+// Answers the refresh of one location's refresh token
+function mockTokenRefresh(locationId: string, status: number, body: object) {
+    leadConnectorApi()
+        .intercept({
+            method: 'POST',
+            path: '/oauth/token',
+            body: form => new URLSearchParams(form).get('refresh_token') === `${locationId}-refresh`
+        })
+        .reply(status, body);
+}
+
+function refreshExpiringTokens() {
+    return createRefreshExpiringTokens({ credentialsStub: credentialsStub() }).refreshExpiringTokens();
+}
+
+describe('refreshExpiringTokens', () => {
+    it('refreshes only the tokens expiring within the window', async () => {
+        await insertCredential('expiring', HOUR);
+        await insertCredential('not-due', 24 * HOUR);
+        mockTokenRefresh('expiring', 200, { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 86399 });
+
+        const result = await refreshExpiringTokens();
+
+        expect(result).toMatchObject({ checkedLocations: 2, refreshedLocations: 1, locationsNotDue: 1, failures: [] });
+        const credential = await storedCredential('expiring');
+        expect(await tokenCipher.decrypt(credential.refresh_token!)).toBe('new-refresh');
+        expect(credential.auth_status).toBe(AuthStatus.HEALTHY);
+    });
+
+    it('marks a location whose refresh token was rejected as revoked and stops refreshing it', async () => {
+        await insertCredential('revoked', HOUR);
+        mockTokenRefresh('revoked', 400, { error: 'invalid_grant', error_description: 'Invalid refresh token' });
+
+        const first = await refreshExpiringTokens();
+
+        expect(first).toMatchObject({ refreshedLocations: 0, locationsNeedingReauthorization: 1 });
+        expect(first.failures).toEqual([expect.objectContaining({ locationId: 'revoked', authStatus: AuthStatus.REVOKED })]);
+        expect((await storedCredential('revoked')).auth_status).toBe(AuthStatus.REVOKED);
+
+        // Nothing is mocked any more, a second refresh attempt would fail the assertion below
+        const second = await refreshExpiringTokens();
+        expect(second).toMatchObject({ locationsNeedingReauthorization: 1, failures: [] });
+        expect(await credentialsStub().refreshTokenPair('revoked')).toMatchObject({ success: false, authStatus: AuthStatus.REVOKED });
+    });
+
+    it('treats a 401 as revoked', async () => {
+        await insertCredential('unauthorized', HOUR);
+        mockTokenRefresh('unauthorized', 401, { message: 'Unauthorized' });
+
+        await refreshExpiringTokens();
+
+        expect((await storedCredential('unauthorized')).auth_status).toBe(AuthStatus.REVOKED);
+    });
+
+    it('keeps retrying after other provider errors', async () => {
+        await insertCredential('failing', HOUR);
+        mockTokenRefresh('failing', 400, { error: 'invalid_request' });
+
+        const result = await refreshExpiringTokens();
+
+        expect(result.failures).toEqual([expect.objectContaining({ locationId: 'failing', authStatus: AuthStatus.REFRESH_FAILED })]);
+        expect((await storedCredential('failing')).auth_status).toBe(AuthStatus.REFRESH_FAILED);
+
+        mockTokenRefresh('failing', 200, { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 86399 });
+        expect(await refreshExpiringTokens()).toMatchObject({ refreshedLocations: 1, failures: [] });
+        expect((await storedCredential('failing')).auth_status).toBe(AuthStatus.HEALTHY);
+    });
+});
@@ -0,0 +1,81 @@
+import { fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { AuthStatus } from '../src/common-types/auth-status';
+import { credentialsStub, mockLeadConnectorApi, runWithSql, storedCredential, tokenCipher } from './helpers/credentials';
+import { callback, mockCodeExchange, startAuthorization } from './helpers/oauth';
+
+const LOCATION_ID = 'location-1';
+
+beforeAll(() => {
+    mockLeadConnectorApi();
+});
+
+afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+});
+
+async function authorize(tokens: { access_token: string; refresh_token: string; locationId?: string; companyId: string }, query = '') {
+    const { state, cookie } = await startAuthorization(query);
+    mockCodeExchange(tokens);
+    return callback({ code: 'code', state }, cookie);
+}
+
+describe('re-install', () => {
+    it('installs a new location', async () => {
+        const response = await authorize({ access_token: 'access-1', refresh_token: 'refresh-1', locationId: LOCATION_ID, companyId: 'company-1' });
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toContain('This location is now connected');
+        expect((await storedCredential(LOCATION_ID)).install_source).toBe('location');
+    });
+
+    it('rotates the tokens of a known location and keeps its settings', async () => {
+        await credentialsStub().insertCredential({
+            location_id: LOCATION_ID,
+            company_id: 'company-1',
+            access_token: 'access-1',
+            refresh_token: 'refresh-1',
+            expires_at: new Date(Date.now() - 1000).toISOString(),
+            receiver_emails: ['owner@example.com']
+        });
+        await runWithSql(sql => sql.exec(
+            "UPDATE credentials SET auth_status = ?, auth_status_reason = 'invalid_grant' WHERE location_id = ?", AuthStatus.REVOKED, LOCATION_ID
+        ));
+
+        const response = await authorize({ access_token: 'access-2', refresh_token: 'refresh-2', locationId: LOCATION_ID, companyId: 'company-2' });
+
+        expect(response.status).toBe(200);
+        expect(await response.text()).toContain('Its tokens have been updated and its settings kept');
+
+        const credential = await storedCredential(LOCATION_ID);
+        expect(credential).toMatchObject({
+            company_id: 'company-2',
+            receiver_emails: '["owner@example.com"]',
+            auth_status: AuthStatus.HEALTHY,
+            auth_status_reason: null
+        });
+        expect(await tokenCipher.decrypt(credential.access_token!)).toBe('access-2');
+        expect(await tokenCipher.decrypt(credential.refresh_token!)).toBe('refresh-2');
+        expect(Date.parse(credential.expires_at!)).toBeGreaterThan(Date.now());
+    });
+
+    it('rotates the tokens of a known agency', async () => {
+        await credentialsStub().upsertAgencyCredential({
+            company_id: 'company-1',
+            access_token: 'agency-access-1',
+            refresh_token: 'agency-refresh-1',
+            expires_at: new Date(Date.now() - 1000).toISOString()
+        });
+
+        const result = await credentialsStub().upsertAgencyCredential({
+            company_id: 'company-1',
+            access_token: 'agency-access-2',
+            refresh_token: 'agency-refresh-2',
+            expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+        });
+
+        expect(result).toMatchObject({ httpCode: 200, data: { action: 'reconnected' } });
+        const agency = (await credentialsStub().getAgencyCredentials('company-1')).data as Record<string, string>;
+        expect(await tokenCipher.decrypt(agency.refresh_token)).toBe('agency-refresh-2');
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createTokenCipher } from '../src/utils/token-management/token-cipher';
+import { credentialsStub, runWithSql, tokenCipher } from './helpers/credentials';
+
+const OLD_KEY = `old:${btoa(String.fromCharCode(...new Uint8Array(32).fill(1)))}`;
+const NEW_KEY = `new:${btoa(String.fromCharCode(...new Uint8Array(32).fill(2)))}`;
+
+describe('TokenCipher', () => {
+    it('round-trips a token through an enc:v1 envelope with a fresh IV each time', async () => {
+        const cipher = createTokenCipher(NEW_KEY);
+        const first = await cipher.encrypt('secret-token');
+        const second = await cipher.encrypt('secret-token');
+
+        expect(first).toMatch(/^enc:v1:new:[^:]+:[^:]+$/);
+        expect(first).not.toContain('secret-token');
+        expect(second).not.toBe(first);
+        expect(await cipher.decrypt(first)).toBe('secret-token');
+    });
+
+    it('reads legacy plaintext and asks for it to be re-encrypted', async () => {
+        const cipher = createTokenCipher(NEW_KEY);
+
+        expect(await cipher.decrypt('plain-token')).toBe('plain-token');
+        expect(cipher.needsReencryption('plain-token')).toBe(true);
+        expect(cipher.needsReencryption(null)).toBe(false);
+    });
+
+    it('decrypts with a retired key and re-encrypts with the active one', async () => {
+        const stored = await createTokenCipher(OLD_KEY).encrypt('secret-token');
+        const rotated = createTokenCipher(`${NEW_KEY},${OLD_KEY}`);
+
+        expect(rotated.needsReencryption(stored)).toBe(true);
+        const reencrypted = await rotated.reencrypt(stored);
+        expect(reencrypted).toMatch(/^enc:v1:new:/);
+        expect(rotated.needsReencryption(reencrypted)).toBe(false);
+        expect(await createTokenCipher(NEW_KEY).decrypt(reencrypted)).toBe('secret-token');
+    });
+
+    it('rejects tampered ciphertext and unknown keys', async () => {
+        const cipher = createTokenCipher(NEW_KEY);
+        const stored = await cipher.encrypt('secret-token');
+        const tampered = stored.slice(0, -4) + (stored.endsWith('AAAA') ? 'BBBB' : 'AAAA');
+
+        await expect(cipher.decrypt(tampered)).rejects.toThrow("Failed to decrypt token with key 'new'");
+        await expect(createTokenCipher(OLD_KEY).decrypt(stored)).rejects.toThrow("Unknown token encryption key 'new'");
+    });
+
+    it('rejects keys that are not 256 bits', () => {
+        expect(() => createTokenCipher('short:AAAA')).toThrow("Token encryption key 'short' must be 32 bytes (AES-256)");
+    });
+});
+
+describe('stored tokens', () => {
+    it('are never written in plain text', async () => {
+        await credentialsStub().insertCredential({
+            location_id: 'location-1',
+            company_id: 'company-1',
+            access_token: 'secret-access',
+            refresh_token: 'secret-refresh',
+            expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+        });
+
+        const row = await runWithSql(sql => sql.exec<{ access_token: string; refresh_token: string }>(
+            "SELECT access_token, refresh_token FROM credentials WHERE location_id = 'location-1'"
+        ).one());
+        expect(tokenCipher.isEncrypted(row.access_token)).toBe(true);
+        expect(tokenCipher.isEncrypted(row.refresh_token)).toBe(true);
+        expect(await tokenCipher.decrypt(row.refresh_token)).toBe('secret-refresh');
+    });
+});
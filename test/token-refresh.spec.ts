@@ -0,0 +1,89 @@
+import { fetchMock, runInDurableObject } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { TokenCipher } from '../src/utils/token-management/token-cipher';
+import { credentialsStub, leadConnectorApi, mockLeadConnectorApi, runWithSql, storedCredential, tokenCipher } from './helpers/credentials';
+
+const LOCATION_ID = 'location-1';
+
+beforeAll(() => {
+    mockLeadConnectorApi();
+});
+
+afterEach(() => {
+    fetchMock.assertNoPendingInterceptors();
+});
+
+async function insertCredential(expiresAt: string) {
+    const result = await credentialsStub().insertCredential({
+        location_id: LOCATION_ID,
+        company_id: 'company-1',
+        access_token: 'old-access',
+        refresh_token: 'old-refresh',
+        expires_at: expiresAt
+    });
+    expect(result.httpCode).toBe(201);
+}
+
+describe('refreshTokenPair', () => {
+    it('shares one provider refresh between concurrent callers', async () => {
+        await insertCredential(new Date(Date.now() - 1000).toISOString());
+        // Only one refresh is mocked, a second request to the provider would fail
+        leadConnectorApi()
+            .intercept({ method: 'POST', path: '/oauth/token' })
+            .reply(200, { access_token: 'new-access', refresh_token: 'new-refresh', expires_in: 86399 })
+            .delay(20);
+
+        const results = await runInDurableObject(credentialsStub(), instance => Promise.all([
+            instance.refreshTokenPair(LOCATION_ID),
+            instance.refreshTokenPair(LOCATION_ID)
+        ]));
+
+        expect(results[0]).toMatchObject({ success: true, refreshed: true });
+        expect(results[1]).toEqual(results[0]);
+        expect(await tokenCipher.decrypt(results[0].accessToken!)).toBe('new-access');
+    });
+
+    it('keeps a valid token without calling the provider', async () => {
+        await insertCredential(new Date(Date.now() + 60 * 60 * 1000).toISOString());
+
+        expect(await credentialsStub().refreshTokenPair(LOCATION_ID)).toMatchObject({ success: true, refreshed: false });
+    });
+});
+
+describe('reencryptTokens', () => {
+    it('does not overwrite tokens refreshed while it was encrypting', async () => {
+        await insertCredential(new Date(Date.now() + 60 * 60 * 1000).toISOString());
+        await runWithSql(sql => sql.exec(
+            "UPDATE credentials SET access_token = 'plain-access', refresh_token = 'plain-refresh' WHERE location_id = ?",
+            LOCATION_ID
+        ));
+        const refreshedAccessToken = await tokenCipher.encrypt('refreshed-access');
+
+        const result = await runInDurableObject(credentialsStub(), async (instance, state) => {
+            const cipher = (instance as unknown as { tokenCipher: TokenCipher }).tokenCipher;
+            const reencrypt = cipher.reencrypt.bind(cipher);
+            // A token refresh stores a new token pair while the old one is being encrypted
+            vi.spyOn(cipher, 'reencrypt').mockImplementationOnce(async value => {
+                state.storage.sql.exec("UPDATE credentials SET access_token = ? WHERE location_id = ?", refreshedAccessToken, LOCATION_ID);
+                return reencrypt(value);
+            });
+
+            return instance.reencryptTokens();
+        });
+
+        expect(result).toMatchObject({ httpCode: 200, data: { totalCredentials: 1, updatedCredentials: 0, failedLocations: [] } });
+        expect((await storedCredential(LOCATION_ID)).access_token).toBe(refreshedAccessToken);
+    });
+
+    it('encrypts legacy plaintext tokens', async () => {
+        await insertCredential(new Date(Date.now() + 60 * 60 * 1000).toISOString());
+        await runWithSql(sql => sql.exec("UPDATE credentials SET access_token = 'plain-access' WHERE location_id = ?", LOCATION_ID));
+
+        const result = await credentialsStub().reencryptTokens();
+
+        expect(result).toMatchObject({ httpCode: 200, data: { updatedCredentials: 1 } });
+        const credential = await storedCredential(LOCATION_ID);
+        expect(await tokenCipher.decrypt(credential.access_token!)).toBe('plain-access');
+        expect(await tokenCipher.decrypt(credential.refresh_token!)).toBe('old-refresh');
+    });
+});
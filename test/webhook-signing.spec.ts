@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { signWebhookPayload } from '../src/services/webhook-subscription-service/payload-signature';
+
+const SECRET = 'whsec_test';
+const TIMESTAMP = 1760000000;
+const BODY = '{"id":"evt_1"}';
+
+describe('signWebhookPayload', () => {
+    it('signs "<timestamp>.<body>" with HMAC-SHA256 of the secret', async () => {
+        // Computed independently: echo -n '1760000000.{"id":"evt_1"}' | openssl dgst -sha256 -hmac whsec_test
+        expect(await signWebhookPayload(SECRET, TIMESTAMP, BODY))
+            .toBe('v1=66e880d7175fffb43ce10c4e14db1cfb230c8804b5aafb116affbc9a836c7690');
+    });
+
+    it('changes with the secret, the timestamp and the body', async () => {
+        const signature = await signWebhookPayload(SECRET, TIMESTAMP, BODY);
+
+        expect(await signWebhookPayload('whsec_other', TIMESTAMP, BODY)).not.toBe(signature);
+        expect(await signWebhookPayload(SECRET, TIMESTAMP + 1, BODY)).not.toBe(signature);
+        expect(await signWebhookPayload(SECRET, TIMESTAMP, '{"id":"evt_2"}')).not.toBe(signature);
+    });
+});
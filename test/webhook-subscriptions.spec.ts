@@ -0,0 +1,53 @@
+import { runInDurableObject } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { StockEventType } from '../src/common-types/stock-event-type';
+import { credentialsStub, tokenCipher } from './helpers/credentials';
+
+const LOCATION_ID = 'location-1';
+
+beforeEach(async () => {
+    await credentialsStub().insertCredential({
+        location_id: LOCATION_ID,
+        company_id: 'company-1',
+        access_token: 'access',
+        refresh_token: 'refresh',
+        expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+    });
+});
+
+function subscription(index: number) {
+    return {
+        subscription_id: `subscription-${index}`,
+        location_id: LOCATION_ID,
+        url: `https://example.com/hooks/${index}`,
+        secret: `whsec_${index}`,
+        event_types: [StockEventType.STOCK_OUT]
+    };
+}
+
+describe('createWebhookSubscription', () => {
+    it('stores the secret encrypted and never returns it', async () => {
+        const result = await credentialsStub().createWebhookSubscription(subscription(1), 2);
+
+        expect(result.httpCode).toBe(201);
+        expect(result.data).not.toHaveProperty('secret');
+
+        const stored = (await credentialsStub().getWebhookSubscriptionsForDelivery(LOCATION_ID)).data!;
+        expect(await tokenCipher.decrypt(stored[0].secret)).toBe('whsec_1');
+    });
+
+    it('does not let concurrent requests exceed the limit', async () => {
+        const results = await runInDurableObject(credentialsStub(), instance => Promise.all(
+            [1, 2, 3].map(index => instance.createWebhookSubscription(subscription(index), 2))
+        ));
+
+        expect(results.map(result => result.httpCode).sort()).toEqual([201, 201, 409]);
+        expect((await credentialsStub().getWebhookSubscriptions(LOCATION_ID)).data).toHaveLength(2);
+    });
+
+    it('rejects a location without credentials', async () => {
+        const result = await credentialsStub().createWebhookSubscription({ ...subscription(1), location_id: 'unknown' }, 2);
+
+        expect(result.httpCode).toBe(404);
+    });
+});
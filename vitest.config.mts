@@ -0,0 +1,23 @@
+import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+
+export default defineWorkersConfig({
+	test: {
+		poolOptions: {
+			workers: {
+				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					// Secrets are not in wrangler.jsonc, these are only used by the tests
+					bindings: {
+						APP_PASSWORD: 'test-app-password',
+						TOKEN_ENCRYPTION_KEYS: 'test:AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA=',
+						OAUTH_STATE_SECRET: 'test-oauth-state-secret',
+						DOMAIN: 'https://stock-monitoring.test',
+						GHL_CLIENT_ID: 'test-client-id',
+						GHL_CLIENT_SECRET: 'test-client-secret',
+						EMAIL_TRANSPORT: 'capture',
+					},
+				},
+			},
+		},
+	},
+});
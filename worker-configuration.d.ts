@@ -10,6 +10,17 @@ declare namespace Cloudflare {
 		RESEND_API_KEY: string;
 		DOMAIN: string;
 		RESEND_DOMAIN: string;
+		TOKEN_ENCRYPTION_KEYS: string;
+		OAUTH_STATE_SECRET: string;
+		GHL_APP_ID: string;
+		GHL_WEBHOOK_PUBLIC_KEY: string;
+		INVENTORY_PAGE_SIZE: string;
+		SNAPSHOT_RETENTION_DAYS: string;
+		EMAIL_TRANSPORT: string;
+		GHL_API_BASE_URL: string;
+		GHL_MARKETPLACE_BASE_URL: string;
+		GHL_APP_BASE_URL: string;
+		OAUTH_RETURN_URL_ORIGINS: string;
 		CREDENTIALS_DURABLE_OBJECT: DurableObjectNamespace<import("./src/index").CredentialsDurableObject>;
 	}
 }